@@ -2,21 +2,25 @@ import { Colors } from '@/constants/theme';
 import { Redirect, Tabs } from 'expo-router';
 import { UserCircle } from 'lucide-react-native';
 import React from 'react';
-import { ActivityIndicator, StyleSheet, View, useColorScheme } from 'react-native';
+import { ActivityIndicator, StyleSheet, View } from 'react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 
 
 // Custom components
 import { HapticTab } from '@/components/haptic-tab';
 import { LogoHeader } from '@/components/logo-header';
+import { OfflineBanner } from '@/components/offlineBanner';
 import { IconSymbol } from '@/components/ui/icon-symbol';
 
-// Custom hooks for theming and authentication
+// Custom hooks for theming, authentication and connectivity
 import { useAuth } from '@/hooks/use-auth';
+import { useAppTheme } from '@/hooks/useAppTheme';
+import { useConnectivity } from '@/hooks/useConnectivity';
 
 export default function TabLayout() {
   const { status } = useAuth();
-  const theme = useColorScheme() ?? 'dark';
+  const { isOffline } = useConnectivity();
+  const { theme } = useAppTheme();
   const palette = Colors[theme];
   const insets = useSafeAreaInsets();
   const headerHeight = insets.top + 60;
@@ -38,6 +42,13 @@ export default function TabLayout() {
   // Render tab navigator if authenticated
   return (
     <Tabs 
+      // Offline banner sits under the header on every tab
+      screenLayout={({ children }) => (
+        <View style={styles.screenLayout}>
+          {isOffline ? <OfflineBanner theme={theme} /> : null}
+          {children}
+        </View>
+      )}
       screenOptions={{
         tabBarActiveTintColor: palette.iconSelected,
         tabBarInactiveTintColor: palette.icon,
@@ -98,6 +109,9 @@ export default function TabLayout() {
 }
 
 const styles = StyleSheet.create({
+  screenLayout: {
+    flex: 1,
+  },
   loaderContainer: {
     flex: 1,
     alignItems: 'center',
@@ -1,8 +1,9 @@
 import { Colors } from '@/constants/theme';
 import { useAuth } from '@/hooks/use-auth';
+import { useAppTheme } from '@/hooks/useAppTheme';
 import { useNavigation } from '@react-navigation/native';
 import { useRouter } from 'expo-router';
-import { LogOut, Trash2, UserCircle } from 'lucide-react-native';
+import { Bell, Heart, KeyRound, LogOut, Settings, Trash2, UserCircle } from 'lucide-react-native';
 import React, { useCallback, useLayoutEffect, useRef, useState } from 'react';
 import {
   ActivityIndicator,
@@ -12,24 +13,33 @@ import {
   Platform,
   ScrollView,
   StyleSheet,
+  Switch,
   Text,
   TextInput,
   TouchableOpacity,
   View,
-  useColorScheme,
 } from 'react-native';
+import { APP_LOCK_IDLE_OPTIONS } from '@/utils/constants';
+import { getPasswordError } from '@/utils/passwordValidation';
 
 type ThemeName = keyof typeof Colors;
 
 type EditForm = {
   full_name: string;
-  email: string;
   phone: string;
-  new_password: string;
 };
 
 type EditErrors = Partial<Record<keyof EditForm | 'global', string>>;
 
+// Email and password changes are kept apart from profile edits and need the current password
+type CredentialsForm = {
+  email: string;
+  new_password: string;
+  current_password: string;
+};
+
+type CredentialsErrors = Partial<Record<keyof CredentialsForm | 'global', string>>;
+
 function formatDob(dob: string): string {
   const datePart = dob.split('T')[0];
   const [year, month, day] = datePart.split('-');
@@ -70,36 +80,55 @@ const E164_RE = /^\+[1-9]\d{1,14}$/;
 const NAME_RE = /^[a-zA-Z\s'\-]{2,100}$/;
 
 export default function AccountScreen() {
-  const theme = (useColorScheme() ?? 'dark') as ThemeName;
+  const { theme } = useAppTheme();
   const palette = Colors[theme];
-  const { user, logout, deleteAccount, updateProfile } = useAuth();
+  const {
+    user,
+    logout,
+    deleteAccount,
+    updateProfile,
+    updateCredentials,
+    appLock,
+    setAppLockEnabled,
+    setAppLockIdleTimeout,
+  } = useAuth();
   const router = useRouter();
   const navigation = useNavigation();
   const [isLoggingOut, setIsLoggingOut] = useState(false);
   const [isDeletingAccount, setIsDeletingAccount] = useState(false);
+  const [isUpdatingAppLock, setIsUpdatingAppLock] = useState(false);
 
   const [editVisible, setEditVisible] = useState(false);
-  const [editForm, setEditForm] = useState<EditForm>({ full_name: '', email: '', phone: '', new_password: '' });
+  const [editForm, setEditForm] = useState<EditForm>({ full_name: '', phone: '' });
   const [editErrors, setEditErrors] = useState<EditErrors>({});
   const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const [credentialsVisible, setCredentialsVisible] = useState(false);
+  const [credentialsForm, setCredentialsForm] = useState<CredentialsForm>({ email: '', new_password: '', current_password: '' });
+  const [credentialsErrors, setCredentialsErrors] = useState<CredentialsErrors>({});
+  const [isSavingCredentials, setIsSavingCredentials] = useState(false);
   const [showPassword, setShowPassword] = useState(false);
 
-  const emailRef = useRef<TextInput>(null);
   const phoneRef = useRef<TextInput>(null);
-  const passwordRef = useRef<TextInput>(null);
+  const newPasswordRef = useRef<TextInput>(null);
+  const currentPasswordRef = useRef<TextInput>(null);
 
   const openEdit = useCallback(() => {
     setEditForm({
       full_name: user?.full_name ?? '',
-      email: user?.email ?? '',
       phone: user?.phone ?? '',
-      new_password: '',
     });
     setEditErrors({});
-    setShowPassword(false);
     setEditVisible(true);
   }, [user]);
 
+  const openCredentials = useCallback(() => {
+    setCredentialsForm({ email: user?.email ?? '', new_password: '', current_password: '' });
+    setCredentialsErrors({});
+    setShowPassword(false);
+    setCredentialsVisible(true);
+  }, [user]);
+
   useLayoutEffect(() => {
     navigation.setOptions({
       headerRight: () => (
@@ -120,9 +149,6 @@ export default function AccountScreen() {
     if (form.full_name && !NAME_RE.test(form.full_name)) {
       errs.full_name = 'Name must be 2–100 characters, letters only.';
     }
-    if (form.email && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(form.email.trim())) {
-      errs.email = 'Enter a valid email address.';
-    }
     if (form.phone && !E164_RE.test(form.phone.trim())) {
       errs.phone = 'Phone must be E.164 format (e.g. +15551234567). Leave blank to clear.';
     }
@@ -135,17 +161,12 @@ export default function AccountScreen() {
     const trimmedName = form.full_name.trim();
     if (trimmedName !== (user?.full_name ?? '')) payload.full_name = trimmedName;
 
-    const trimmedEmail = form.email.trim();
-    if (trimmedEmail !== (user?.email ?? '')) payload.email = trimmedEmail;
-
     const trimmedPhone = form.phone.trim();
     const originalPhone = user?.phone ?? '';
     if (trimmedPhone !== originalPhone) {
       payload.phone = trimmedPhone === '' ? null : trimmedPhone;
     }
 
-    if (form.new_password) payload.new_password = form.new_password;
-
     return payload;
   }, [user]);
 
@@ -177,6 +198,69 @@ export default function AccountScreen() {
     }
   }, [editForm, validate, buildPayload, updateProfile]);
 
+  const handleCredentialsFieldChange = useCallback((field: keyof CredentialsForm, value: string) => {
+    setCredentialsForm((prev) => ({ ...prev, [field]: value }));
+    setCredentialsErrors((prev) => ({ ...prev, [field]: undefined, global: undefined }));
+  }, []);
+
+  const handleSaveCredentials = useCallback(async () => {
+    const trimmedEmail = credentialsForm.email.trim();
+    const emailChanged = trimmedEmail !== (user?.email ?? '');
+    const passwordChanged = credentialsForm.new_password.length > 0;
+
+    if (!emailChanged && !passwordChanged) {
+      setCredentialsErrors({ global: 'No changes to save.' });
+      return;
+    }
+
+    const errs: CredentialsErrors = {};
+    if (emailChanged && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(trimmedEmail)) {
+      errs.email = 'Enter a valid email address.';
+    }
+    if (passwordChanged) {
+      const passwordError = getPasswordError(credentialsForm.new_password);
+      if (passwordError) errs.new_password = passwordError;
+    }
+    if (!credentialsForm.current_password) {
+      errs.current_password = 'Enter your current password to confirm these changes.';
+    }
+    if (Object.keys(errs).length > 0) {
+      setCredentialsErrors(errs);
+      return;
+    }
+
+    setIsSavingCredentials(true);
+    setCredentialsErrors({});
+
+    try {
+      const result = await updateCredentials({
+        current_password: credentialsForm.current_password,
+        ...(emailChanged ? { email: trimmedEmail } : {}),
+        ...(passwordChanged ? { new_password: credentialsForm.new_password } : {}),
+      });
+      if (!result.success) {
+        if (result.code === 'invalid_current_password') {
+          setCredentialsErrors({ current_password: result.message ?? 'Current password is incorrect.' });
+        } else {
+          setCredentialsErrors({ global: result.message ?? 'Update failed. Please try again.' });
+        }
+        return;
+      }
+      setCredentialsVisible(false);
+    } finally {
+      setIsSavingCredentials(false);
+    }
+  }, [credentialsForm, updateCredentials, user?.email]);
+
+  const handleToggleAppLock = async (enabled: boolean) => {
+    setIsUpdatingAppLock(true);
+    const result = await setAppLockEnabled(enabled);
+    setIsUpdatingAppLock(false);
+    if (!result.success && result.message) {
+      Alert.alert('App Lock', result.message);
+    }
+  };
+
   const handleLogout = async () => {
     setIsLoggingOut(true);
     await logout();
@@ -238,6 +322,102 @@ export default function AccountScreen() {
         </View>
 
         <View style={[styles.card, { backgroundColor: palette.cardSurface, borderColor: palette.border }]}>
+          <View style={styles.settingRow}>
+            <View style={styles.settingText}>
+              <Text style={[styles.actionText, { color: palette.text }]}>App Lock</Text>
+              <Text style={[styles.settingDescription, { color: palette.cardSubtitle }]}>
+                Require Face ID, fingerprint or your passcode to open the app.
+              </Text>
+            </View>
+            <Switch
+              value={appLock.enabled}
+              onValueChange={handleToggleAppLock}
+              disabled={isUpdatingAppLock}
+              trackColor={{ true: palette.iconSelected, false: palette.border }}
+            />
+          </View>
+          {appLock.enabled ? (
+            <>
+              <View style={[styles.divider, { backgroundColor: palette.border }]} />
+              <View style={styles.settingColumn}>
+                <Text style={[styles.settingDescription, { color: palette.cardSubtitle }]}>Lock after leaving the app for</Text>
+                <View style={styles.optionRow}>
+                  {APP_LOCK_IDLE_OPTIONS.map((option) => {
+                    const isActive = option.value === appLock.idleTimeoutMs;
+                    return (
+                      <TouchableOpacity
+                        key={option.value}
+                        onPress={() => { setAppLockIdleTimeout(option.value).catch(() => {}); }}
+                        style={[
+                          styles.optionPill,
+                          {
+                            backgroundColor: isActive ? palette.filterActivePill : palette.filterContainer,
+                          },
+                        ]}
+                        accessibilityRole="button"
+                        accessibilityState={{ selected: isActive }}
+                      >
+                        <Text style={[styles.optionText, { color: isActive ? palette.filterTextActive : palette.filterText }]}>
+                          {option.label}
+                        </Text>
+                      </TouchableOpacity>
+                    );
+                  })}
+                </View>
+              </View>
+            </>
+          ) : null}
+        </View>
+
+        <View style={[styles.card, { backgroundColor: palette.cardSurface, borderColor: palette.border }]}>
+          <TouchableOpacity
+            style={styles.actionRow}
+            onPress={() => router.push('/favorites')}
+            disabled={isLoggingOut || isDeletingAccount}
+            activeOpacity={0.7}
+          >
+            <Heart size={20} color={palette.LogOutText} style={styles.actionIcon} />
+            <Text style={[styles.actionText, { color: palette.LogOutText }]}>Favorites</Text>
+          </TouchableOpacity>
+
+          <View style={[styles.divider, { backgroundColor: palette.border }]} />
+
+          <TouchableOpacity
+            style={styles.actionRow}
+            onPress={() => router.push('/reminders')}
+            disabled={isLoggingOut || isDeletingAccount}
+            activeOpacity={0.7}
+          >
+            <Bell size={20} color={palette.LogOutText} style={styles.actionIcon} />
+            <Text style={[styles.actionText, { color: palette.LogOutText }]}>My Reminders</Text>
+          </TouchableOpacity>
+
+          <View style={[styles.divider, { backgroundColor: palette.border }]} />
+
+          <TouchableOpacity
+            style={styles.actionRow}
+            onPress={() => router.push('/settings')}
+            disabled={isLoggingOut || isDeletingAccount}
+            activeOpacity={0.7}
+          >
+            <Settings size={20} color={palette.LogOutText} style={styles.actionIcon} />
+            <Text style={[styles.actionText, { color: palette.LogOutText }]}>Settings</Text>
+          </TouchableOpacity>
+
+          <View style={[styles.divider, { backgroundColor: palette.border }]} />
+
+          <TouchableOpacity
+            style={styles.actionRow}
+            onPress={openCredentials}
+            disabled={isLoggingOut || isDeletingAccount}
+            activeOpacity={0.7}
+          >
+            <KeyRound size={20} color={palette.LogOutText} style={styles.actionIcon} />
+            <Text style={[styles.actionText, { color: palette.LogOutText }]}>Email & Password</Text>
+          </TouchableOpacity>
+
+          <View style={[styles.divider, { backgroundColor: palette.border }]} />
+
           <TouchableOpacity
             style={styles.actionRow}
             onPress={handleLogout}
@@ -318,7 +498,7 @@ export default function AccountScreen() {
                     autoComplete="name"
                     style={[styles.input, { color: palette.text }]}
                     returnKeyType="next"
-                    onSubmitEditing={() => emailRef.current?.focus()}
+                    onSubmitEditing={() => phoneRef.current?.focus()}
                   />
                 </View>
                 {editErrors.full_name ? <Text style={[styles.errorText, { color: palette.networkErrorText }]}>{editErrors.full_name}</Text> : null}
@@ -327,45 +507,82 @@ export default function AccountScreen() {
               <View style={[styles.separator, { backgroundColor: palette.border }]} />
 
               <View style={styles.fieldGroup}>
-                <Text style={[styles.fieldLabel, { color: palette.text }]}>Email</Text>
-                <View style={[styles.inputWrapper, { backgroundColor: palette.background, borderColor: editErrors.email ? palette.networkErrorText : palette.border }]}>
+                <Text style={[styles.fieldLabel, { color: palette.text }]}>Phone</Text>
+                <View style={[styles.inputWrapper, { backgroundColor: palette.background, borderColor: editErrors.phone ? palette.networkErrorText : palette.border }]}>
                   <TextInput
-                    ref={emailRef}
-                    value={editForm.email}
-                    onChangeText={(v) => handleFieldChange('email', v)}
-                    placeholder="you@example.com"
+                    ref={phoneRef}
+                    value={editForm.phone}
+                    onChangeText={(v) => handleFieldChange('phone', v)}
+                    placeholder="+15551234567 (leave blank to clear)"
                     placeholderTextColor={palette.icon}
                     autoCapitalize="none"
-                    keyboardType="email-address"
-                    autoComplete="email"
+                    keyboardType="phone-pad"
+                    autoComplete="tel"
                     style={[styles.input, { color: palette.text }]}
-                    returnKeyType="next"
-                    onSubmitEditing={() => phoneRef.current?.focus()}
+                    returnKeyType="done"
+                    onSubmitEditing={handleSave}
                   />
                 </View>
-                {editErrors.email ? <Text style={[styles.errorText, { color: palette.networkErrorText }]}>{editErrors.email}</Text> : null}
+                {editErrors.phone ? <Text style={[styles.errorText, { color: palette.networkErrorText }]}>{editErrors.phone}</Text> : null}
               </View>
+            </View>
+          </ScrollView>
+        </KeyboardAvoidingView>
+      </Modal>
 
-              <View style={[styles.separator, { backgroundColor: palette.border }]} />
+      <Modal
+        visible={credentialsVisible}
+        animationType="slide"
+        presentationStyle="pageSheet"
+        onRequestClose={() => setCredentialsVisible(false)}
+      >
+        <KeyboardAvoidingView
+          style={[styles.modalFlex, { backgroundColor: palette.background }]}
+          behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+        >
+          <View style={[styles.modalHeader, { borderBottomColor: palette.border }]}>
+            <TouchableOpacity onPress={() => setCredentialsVisible(false)} hitSlop={12}>
+              <Text style={[styles.modalCancel, { color: palette.iconSelected }]}>Cancel</Text>
+            </TouchableOpacity>
+            <Text style={[styles.modalTitle, { color: palette.text }]}>Email & Password</Text>
+            <TouchableOpacity onPress={handleSaveCredentials} disabled={isSavingCredentials} hitSlop={12}>
+              {isSavingCredentials ? (
+                <ActivityIndicator size="small" color={palette.iconSelected} />
+              ) : (
+                <Text style={[styles.modalSave, { color: palette.iconSelected }]}>Save</Text>
+              )}
+            </TouchableOpacity>
+          </View>
 
+          <ScrollView
+            contentContainerStyle={styles.modalScroll}
+            keyboardShouldPersistTaps="handled"
+            showsVerticalScrollIndicator={false}
+          >
+            {credentialsErrors.global ? (
+              <View style={[styles.feedbackPanel, { backgroundColor: palette.networkErrorBackground, borderColor: palette.networkErrorBorder }]}>
+                <Text style={[styles.feedbackBody, { color: palette.networkErrorText }]}>{credentialsErrors.global}</Text>
+              </View>
+            ) : null}
+
+            <View style={[styles.formCard, { backgroundColor: palette.cardSurface, borderColor: palette.border }]}>
               <View style={styles.fieldGroup}>
-                <Text style={[styles.fieldLabel, { color: palette.text }]}>Phone</Text>
-                <View style={[styles.inputWrapper, { backgroundColor: palette.background, borderColor: editErrors.phone ? palette.networkErrorText : palette.border }]}>
+                <Text style={[styles.fieldLabel, { color: palette.text }]}>Email</Text>
+                <View style={[styles.inputWrapper, { backgroundColor: palette.background, borderColor: credentialsErrors.email ? palette.networkErrorText : palette.border }]}>
                   <TextInput
-                    ref={phoneRef}
-                    value={editForm.phone}
-                    onChangeText={(v) => handleFieldChange('phone', v)}
-                    placeholder="+15551234567 (leave blank to clear)"
+                    value={credentialsForm.email}
+                    onChangeText={(v) => handleCredentialsFieldChange('email', v)}
+                    placeholder="you@example.com"
                     placeholderTextColor={palette.icon}
                     autoCapitalize="none"
-                    keyboardType="phone-pad"
-                    autoComplete="tel"
+                    keyboardType="email-address"
+                    autoComplete="email"
                     style={[styles.input, { color: palette.text }]}
                     returnKeyType="next"
-                    onSubmitEditing={() => passwordRef.current?.focus()}
+                    onSubmitEditing={() => newPasswordRef.current?.focus()}
                   />
                 </View>
-                {editErrors.phone ? <Text style={[styles.errorText, { color: palette.networkErrorText }]}>{editErrors.phone}</Text> : null}
+                {credentialsErrors.email ? <Text style={[styles.errorText, { color: palette.networkErrorText }]}>{credentialsErrors.email}</Text> : null}
               </View>
 
               <View style={[styles.separator, { backgroundColor: palette.border }]} />
@@ -377,22 +594,47 @@ export default function AccountScreen() {
                     <Text style={[styles.toggleText, { color: palette.cardSubtitle }]}>{showPassword ? 'Hide' : 'Show'}</Text>
                   </TouchableOpacity>
                 </View>
-                <View style={[styles.inputWrapper, { backgroundColor: palette.background, borderColor: editErrors.new_password ? palette.networkErrorText : palette.border }]}>
+                <View style={[styles.inputWrapper, { backgroundColor: palette.background, borderColor: credentialsErrors.new_password ? palette.networkErrorText : palette.border }]}>
                   <TextInput
-                    ref={passwordRef}
-                    value={editForm.new_password}
-                    onChangeText={(v) => handleFieldChange('new_password', v)}
+                    ref={newPasswordRef}
+                    value={credentialsForm.new_password}
+                    onChangeText={(v) => handleCredentialsFieldChange('new_password', v)}
                     placeholder="Leave blank to keep current"
                     placeholderTextColor={palette.icon}
                     secureTextEntry={!showPassword}
                     autoCapitalize="none"
                     autoComplete="new-password"
                     style={[styles.input, { color: palette.text }]}
+                    returnKeyType="next"
+                    onSubmitEditing={() => currentPasswordRef.current?.focus()}
+                  />
+                </View>
+                {credentialsErrors.new_password ? <Text style={[styles.errorText, { color: palette.networkErrorText }]}>{credentialsErrors.new_password}</Text> : null}
+              </View>
+            </View>
+
+            <View style={[styles.formCard, { backgroundColor: palette.cardSurface, borderColor: palette.border }]}>
+              <View style={styles.fieldGroup}>
+                <Text style={[styles.fieldLabel, { color: palette.text }]}>Current Password</Text>
+                <Text style={[styles.helperText, { color: palette.cardSubtitle }]}>
+                  Required to change your email or password.
+                </Text>
+                <View style={[styles.inputWrapper, { backgroundColor: palette.background, borderColor: credentialsErrors.current_password ? palette.networkErrorText : palette.border }]}>
+                  <TextInput
+                    ref={currentPasswordRef}
+                    value={credentialsForm.current_password}
+                    onChangeText={(v) => handleCredentialsFieldChange('current_password', v)}
+                    placeholder="Current password"
+                    placeholderTextColor={palette.icon}
+                    secureTextEntry={!showPassword}
+                    autoCapitalize="none"
+                    autoComplete="current-password"
+                    style={[styles.input, { color: palette.text }]}
                     returnKeyType="done"
-                    onSubmitEditing={handleSave}
+                    onSubmitEditing={handleSaveCredentials}
                   />
                 </View>
-                {editErrors.new_password ? <Text style={[styles.errorText, { color: palette.networkErrorText }]}>{editErrors.new_password}</Text> : null}
+                {credentialsErrors.current_password ? <Text style={[styles.errorText, { color: palette.networkErrorText }]}>{credentialsErrors.current_password}</Text> : null}
               </View>
             </View>
           </ScrollView>
@@ -444,6 +686,40 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: '600',
   },
+  settingRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 14,
+    paddingHorizontal: 20,
+    gap: 14,
+  },
+  settingText: {
+    flex: 1,
+    gap: 4,
+  },
+  settingColumn: {
+    paddingVertical: 14,
+    paddingHorizontal: 20,
+    gap: 10,
+  },
+  settingDescription: {
+    fontSize: 13,
+    lineHeight: 18,
+  },
+  optionRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  optionPill: {
+    borderRadius: 999,
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+  },
+  optionText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
   // Modal
   modalFlex: {
     flex: 1,
@@ -493,6 +769,9 @@ const styles = StyleSheet.create({
     fontSize: 14,
     fontWeight: '600',
   },
+  helperText: {
+    fontSize: 13,
+  },
   inputWrapper: {
     borderWidth: 1,
     borderRadius: 12,
@@ -1,6 +1,6 @@
-import { useFocusEffect, useLocalSearchParams, useRouter } from 'expo-router';
+import { useFocusEffect, useLocalSearchParams, useNavigation, useRouter } from 'expo-router';
 import * as Linking from 'expo-linking';
-import React, { useCallback, useMemo, useState } from 'react';
+import React, { useCallback, useLayoutEffect, useMemo, useState } from 'react';
 import {
 	ActivityIndicator,
 	FlatList,
@@ -8,41 +8,59 @@ import {
 	StyleSheet,
 	Text,
 	View,
-	useColorScheme,
 	type ListRenderItem,
 } from 'react-native';
 import { Colors } from '../../constants/theme';
 
 // Types
-import type { Event, EventListRow } from '../../types/index';
+import type { DistanceUnit, Event, EventDateFilter, EventDatePreset, EventFeed, EventListRow, ListViewMode } from '../../types/index';
 
 // Utils
-import { formatRelativeEventDay, normalizeDateOnly, parseTagParam } from '../../utils/Eventmappers';
-import { DEFAULT_EVENT_RADIUS_MILES, DISTANCE_UNIT, INFINITE_SCROLL_CONFIG } from '../../utils/constants';
+import { buildEventListRows, parseTagParam } from '../../utils/Eventmappers';
+import { FOLLOWING_FEED_CONFIG, INFINITE_SCROLL_CONFIG } from '../../utils/constants';
+import { formatEventDateFilterLabel, getPresetDateFilter, isEventInDateFilter } from '../../utils/eventDateFilters';
 
 // Custom hooks
+import { useAppTheme } from '../../hooks/useAppTheme';
 import { useLocationCache } from '../../hooks/UseLocationCache';
+import { useConnectivity, useRetryOnReconnect } from '../../hooks/useConnectivity';
 import { useEventTagFilters } from '../../hooks/useEventTagFilters';
 import { useEvents } from '../../hooks/useEvents';
+import { useFavorites } from '../../hooks/useFavorites';
+import { useFollowingEvents } from '../../hooks/useFollowingEvents';
+import { usePreferences } from '../../hooks/usePreferences';
 import { useScrollRestoration } from '../../hooks/useScrollRestoration';
 
 // Components
 import EventCard from '../../components/eventCard';
-import { EventsEmptyState } from '../../components/eventEmptyStates';
+import { EventDateFilterSheet } from '../../components/eventDateFilterSheet';
+import { EventsEmptyState, FollowingEmptyState } from '../../components/eventEmptyStates';
 import { EventTagFilterSheet } from '../../components/eventTagFilterSheet';
 import { EventsListHeader } from '../../components/eventsListHeader';
+import { EventsMap } from '../../components/eventsMap';
+import { ViewModeToggle } from '../../components/viewModeToggle';
 
 export default function EventsScreen() {
-	const theme = useColorScheme() ?? 'dark';
+	const { theme } = useAppTheme();
 	const palette = Colors[theme];
 	const router = useRouter();
+	const navigation = useNavigation();
+	const [viewMode, setViewMode] = useState<ListViewMode>('list');
+	const [feed, setFeed] = useState<EventFeed>('nearby');
+	const isFollowing = feed === 'following';
+	const [dateFilter, setDateFilter] = useState<EventDateFilter | null>(null);
+	const [isDatePickerVisible, setIsDatePickerVisible] = useState(false);
 	const searchParams = useLocalSearchParams<{ eventTagId?: string | string[] }>();
 	const initialSelectedTagIds = useMemo(
 		() => parseTagParam(searchParams.eventTagId),
 		[searchParams.eventTagId]
 	);
 
-	const [searchRadius, setSearchRadius] = useState<number>(DEFAULT_EVENT_RADIUS_MILES);
+	// Starts at the preferred radius; a radius picked in one unit doesn't carry over to the other
+	const { distanceUnit, eventRadius, defaultCoords, timeFormat } = usePreferences();
+	const [radiusSelection, setRadiusSelection] = useState<{ unit: DistanceUnit; value: number } | null>(null);
+	const searchRadius =
+		radiusSelection && radiusSelection.unit === distanceUnit ? radiusSelection.value : eventRadius;
 	const { userCoords, locationDeniedPermanently, refreshUserLocation } = useLocationCache();
 
 	const handleOpenSettings = useCallback(() => {
@@ -50,6 +68,7 @@ export default function EventsScreen() {
 	}, []);
 	const {
 		selectedTagIds,
+		tagMatchMode,
 		availableTags,
 		areTagsLoading,
 		tagsError,
@@ -68,11 +87,45 @@ export default function EventsScreen() {
 		isPaginating,
 		hasMore,
 		error,
+		lastUpdated,
+		isRevalidating,
 		handleRefresh,
 		handleEndReached,
 		handleRetry,
-	} = useEvents(userCoords, selectedTagIds, searchRadius);
-	const { listRef, handleScroll } = useScrollRestoration<EventListRow>(events.length);
+	} = useEvents(userCoords, selectedTagIds, searchRadius, distanceUnit, tagMatchMode, dateFilter);
+
+	// Following: upcoming events at favorite bars, regardless of location or filters
+	const { favorites } = useFavorites();
+	const followedBarIds = useMemo(() => favorites.map((bar) => bar.id), [favorites]);
+	const {
+		events: followingEvents,
+		isInitialLoading: isFollowingLoading,
+		isRefreshing: isFollowingRefreshing,
+		error: followingError,
+		omittedBarCount: omittedFollowedBarCount,
+		handleRefresh: handleFollowingRefresh,
+		handleRetry: handleFollowingRetry,
+	} = useFollowingEvents(followedBarIds, isFollowing);
+	const feedEvents = isFollowing ? followingEvents : events;
+	const feedError = isFollowing ? followingError : error;
+
+	const { listRef, handleScroll } = useScrollRestoration<EventListRow>(feedEvents.length);
+
+	// Back online: retry failed loads and revalidate events restored from disk
+	const { isOffline } = useConnectivity();
+	useRetryOnReconnect(
+		useCallback(() => {
+			if (error || lastUpdated !== null) {
+				handleRetry();
+			}
+			if (tagsError) {
+				fetchAvailableTags();
+			}
+			if (isFollowing && followingError) {
+				handleFollowingRetry();
+			}
+		}, [error, lastUpdated, handleRetry, tagsError, fetchAvailableTags, isFollowing, followingError, handleFollowingRetry])
+	);
 
 	const handleOpenEvent = useCallback(
 		(event: Event) => {
@@ -83,10 +136,43 @@ export default function EventsScreen() {
 		[router]
 	);
 
-	const handleRadiusChange = useCallback((nextRadius: number) => {
-		setSearchRadius(Math.max(1, nextRadius));
+	const handleOpenBar = useCallback(
+		(barId: string) => {
+			router.push({ pathname: '/bar/[barId]', params: { barId } });
+		},
+		[router]
+	);
+
+	// List / map toggle lives in the tab header; the Following feed is list-only
+	useLayoutEffect(() => {
+		navigation.setOptions({
+			headerRight: isFollowing
+				? undefined
+				: () => <ViewModeToggle value={viewMode} onChange={setViewMode} theme={theme} />,
+		});
+	}, [navigation, theme, viewMode, isFollowing]);
+
+	// Presets resolve against today when picked; picking the active one again clears it
+	const handleSelectDatePreset = useCallback((preset: Exclude<EventDatePreset, 'custom'>) => {
+		setDateFilter((current) => (current?.preset === preset ? null : getPresetDateFilter(preset)));
 	}, []);
 
+	const handleClearDateFilter = useCallback(() => {
+		setDateFilter(null);
+	}, []);
+
+	const handleClearEventFilters = useCallback(() => {
+		handleApplyFilters([]);
+		setDateFilter(null);
+	}, [handleApplyFilters]);
+
+	const handleRadiusChange = useCallback(
+		(nextRadius: number) => {
+			setRadiusSelection({ unit: distanceUnit, value: Math.max(1, nextRadius) });
+		},
+		[distanceUnit]
+	);
+
 	useFocusEffect(
 		useCallback(() => {
 			let cancelled = false;
@@ -112,92 +198,135 @@ export default function EventsScreen() {
 			return (
 				<EventCard
 					event={item.event}
-					distanceUnit={DISTANCE_UNIT}
+					distanceUnit={distanceUnit}
 					onPress={() => handleOpenEvent(item.event)}
 				/>
 			);
 		},
-		[handleOpenEvent, palette]
+		[distanceUnit, handleOpenEvent, palette]
 	);
 
-	const flatEvents = useMemo(() => {
-		if (events.length === 0) return [] as Event[];
-		return [...events].sort((a, b) => {
-			const aDate = a.date ?? a.start_time ?? '';
-			const bDate = b.date ?? b.start_time ?? '';
-			const aTime = new Date(aDate).getTime();
-			const bTime = new Date(bDate).getTime();
-			const aValue = Number.isNaN(aTime) ? Number.MAX_SAFE_INTEGER : aTime;
-			const bValue = Number.isNaN(bTime) ? Number.MAX_SAFE_INTEGER : bTime;
-			return aValue - bValue;
-		});
-	}, [events]);
-
-	const listRows = useMemo<EventListRow[]>(() => {
-		if (flatEvents.length === 0) return [];
-		const rows: EventListRow[] = [];
-		let lastLabel: string | null = null;
-		flatEvents.forEach((event) => {
-			const dateValue = event.date ?? event.start_time;
-			const normalized = normalizeDateOnly(dateValue ?? undefined) ?? 'unknown-date';
-			const label = dateValue ? formatRelativeEventDay(dateValue) : 'Date coming soon';
-			if (label !== lastLabel) {
-				rows.push({ type: 'date', key: `date-${normalized}-${label}`, label });
-				lastLabel = label;
-			}
-			rows.push({ type: 'event', key: `event-${event.instance_id}`, event });
-		});
-		return rows;
-	}, [flatEvents]);
+	// The date filter narrows only the nearby feed; it is re-checked here in case the API ignores it
+	const listDateFilter = isFollowing ? null : dateFilter;
+	const listRows = useMemo<EventListRow[]>(
+		() => buildEventListRows(feedEvents, { dateFilter: listDateFilter, timeFormat }),
+		[feedEvents, listDateFilter, timeFormat]
+	);
+	const mapEvents = useMemo(
+		() => (dateFilter ? events.filter((event) => isEventInDateFilter(event, dateFilter)) : events),
+		[events, dateFilter]
+	);
 
 	const ListHeader = useCallback(() => (
 		<EventsListHeader
 			theme={theme}
+			feed={feed}
+			onFeedChange={setFeed}
 			selectedTagIds={selectedTagIds}
 			selectedTagEntries={selectedTagEntries}
+			dateFilter={dateFilter}
+			onSelectDatePreset={handleSelectDatePreset}
+			onOpenDatePicker={() => setIsDatePickerVisible(true)}
+			onClearDateFilter={handleClearDateFilter}
 			searchRadius={searchRadius}
+			distanceUnit={distanceUnit}
 			areTagsLoading={areTagsLoading}
 			tagsError={tagsError}
-			error={error}
+			error={feedError}
+			isOffline={isOffline}
+			lastUpdated={lastUpdated}
+			isRevalidating={isRevalidating}
 			locationDeniedPermanently={locationDeniedPermanently}
 			onOpenFilterSheet={openFilterSheet}
 			onRemoveTag={handleRemoveTag}
 			onRadiusChange={handleRadiusChange}
 			onRetryTags={fetchAvailableTags}
-			onRetryEvents={handleRetry}
+			onRetryEvents={isFollowing ? handleFollowingRetry : handleRetry}
 			onOpenSettings={handleOpenSettings}
 			onRetryLocation={refreshUserLocation}
 		/>
 	), [
 		theme,
+		feed,
 		selectedTagIds,
 		selectedTagEntries,
+		dateFilter,
+		handleSelectDatePreset,
+		handleClearDateFilter,
 		searchRadius,
+		distanceUnit,
 		areTagsLoading,
 		tagsError,
-		error,
+		feedError,
+		isOffline,
+		lastUpdated,
+		isRevalidating,
 		locationDeniedPermanently,
 		openFilterSheet,
 		handleRemoveTag,
 		handleRadiusChange,
 		fetchAvailableTags,
+		isFollowing,
+		handleFollowingRetry,
 		handleRetry,
 		handleOpenSettings,
 		refreshUserLocation,
 	]);
 
 	const listEmptyComponent = useMemo(() => {
-		if (error) return null;
+		if (feedError) return null;
+		if (isFollowing) {
+			// The header (and feed toggle) stays visible while the Following feed loads
+			if (isFollowingLoading) {
+				return (
+					<View style={styles.centerContent}>
+						<ActivityIndicator size="large" color={palette.actionButton} />
+						<Text style={[styles.statusText, { color: palette.cardTitle }]}>Loading events...</Text>
+					</View>
+				);
+			}
+			return (
+				<FollowingEmptyState
+					hasFollowedBars={followedBarIds.length > 0}
+					onBrowseBars={() => router.push('/')}
+					theme={theme}
+				/>
+			);
+		}
 		return (
 			<EventsEmptyState
 				selectedTagEntries={selectedTagEntries}
-				onClear={() => handleApplyFilters([])}
+				dateFilterLabel={dateFilter ? formatEventDateFilterLabel(dateFilter, timeFormat) : null}
+				onClear={handleClearEventFilters}
 				theme={theme}
 			/>
 		);
-	}, [error, selectedTagEntries, handleApplyFilters, theme]);
+	}, [
+		feedError,
+		isFollowing,
+		isFollowingLoading,
+		followedBarIds.length,
+		router,
+		palette,
+		selectedTagEntries,
+		dateFilter,
+		timeFormat,
+		handleClearEventFilters,
+		theme,
+	]);
 
 	const listFooterComponent = useMemo(() => {
+		// Following loads a single page per bar, so there is nothing further to page through
+		if (isFollowing) {
+			if (omittedFollowedBarCount === 0 || followingEvents.length === 0) return null;
+			return (
+				<View style={styles.listFooter}>
+					<Text style={[styles.footerText, { color: palette.cardSubtitle }]}>
+						{`Showing events from your ${FOLLOWING_FEED_CONFIG.maxBars} most recent favorites. ${omittedFollowedBarCount} more ${omittedFollowedBarCount === 1 ? "isn't" : "aren't"} included.`}
+					</Text>
+				</View>
+			);
+		}
 		if (isPaginating) {
 			return (
 				<View style={styles.listFooter}>
@@ -213,9 +342,9 @@ export default function EventsScreen() {
 			);
 		}
 		return null;
-	}, [events.length, hasMore, isPaginating, palette]);
+	}, [isFollowing, omittedFollowedBarCount, followingEvents.length, events.length, hasMore, isPaginating, palette]);
 
-	if (isInitialLoading && events.length === 0) {
+	if (!isFollowing && isInitialLoading && events.length === 0) {
 		return (
 			<View style={[styles.container, { backgroundColor: palette.background }]}>
 				<View style={styles.centerContent}>
@@ -226,6 +355,49 @@ export default function EventsScreen() {
 		);
 	}
 
+	const filterSheet = (
+		<>
+			<EventTagFilterSheet
+				visible={isFilterSheetVisible}
+				tags={availableTags}
+				selectedTagIds={selectedTagIds}
+				matchMode={tagMatchMode}
+				onApply={handleApplyFilters}
+				onClose={closeFilterSheet}
+				onRetry={fetchAvailableTags}
+				isLoading={areTagsLoading}
+				error={tagsError}
+				theme={theme}
+			/>
+			<EventDateFilterSheet
+				visible={isDatePickerVisible}
+				value={dateFilter}
+				onApply={setDateFilter}
+				onClose={() => setIsDatePickerVisible(false)}
+				theme={theme}
+			/>
+		</>
+	);
+
+	// Map mode keeps the header so radius, tag and date filters still apply to the plotted events
+	if (viewMode === 'map' && !isFollowing) {
+		return (
+			<View style={[styles.container, { backgroundColor: palette.background }]}>
+				<ListHeader />
+				<EventsMap
+					events={mapEvents}
+					center={userCoords ?? defaultCoords}
+					searchRadius={searchRadius}
+					distanceUnit={distanceUnit}
+					theme={theme}
+					onOpenEvent={handleOpenEvent}
+					onOpenBar={handleOpenBar}
+				/>
+				{filterSheet}
+			</View>
+		);
+	}
+
 	return (
 		<View style={[styles.container, { backgroundColor: palette.background }]}>
 			<FlatList
@@ -238,12 +410,12 @@ export default function EventsScreen() {
 				contentContainerStyle={listRows.length === 0 ? styles.listContentEmpty : styles.listContent}
 				ListEmptyComponent={listEmptyComponent}
 				ListFooterComponent={listFooterComponent}
-				onEndReached={handleEndReached}
+				onEndReached={isFollowing ? undefined : handleEndReached}
 				onEndReachedThreshold={INFINITE_SCROLL_CONFIG.loadMoreThreshold}
 				refreshControl={
 					<RefreshControl
-						refreshing={isRefreshing}
-						onRefresh={handleRefresh}
+						refreshing={isFollowing ? isFollowingRefreshing : isRefreshing}
+						onRefresh={isFollowing ? handleFollowingRefresh : handleRefresh}
 						tintColor={palette.filterActivePill}
 						colors={[palette.filterActivePill]}
 						progressBackgroundColor={palette.container}
@@ -257,17 +429,7 @@ export default function EventsScreen() {
 				scrollEventThrottle={16}
 				showsVerticalScrollIndicator={false}
 			/>
-			<EventTagFilterSheet
-				visible={isFilterSheetVisible}
-				tags={availableTags}
-				selectedTagIds={selectedTagIds}
-				onApply={handleApplyFilters}
-				onClose={closeFilterSheet}
-				onRetry={fetchAvailableTags}
-				isLoading={areTagsLoading}
-				error={tagsError}
-				theme={theme}
-			/>
+			{filterSheet}
 		</View>
 	);
 }
@@ -319,5 +481,6 @@ const styles = StyleSheet.create({
 	footerText: {
 		fontSize: 13,
 		fontWeight: '500',
+		textAlign: 'center',
 	},
 });
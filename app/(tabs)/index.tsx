@@ -1,6 +1,6 @@
 // Import react and necessary components/hooks
-import { useFocusEffect, useRouter } from 'expo-router';
-import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { useFocusEffect, useNavigation, useRouter } from 'expo-router';
+import React, { useCallback, useEffect, useLayoutEffect, useMemo, useRef, useState } from 'react';
 import {
   ActivityIndicator,
   FlatList,
@@ -9,38 +9,46 @@ import {
   StyleSheet,
   Text,
   View,
-  useColorScheme,
   type ListRenderItem,
 } from 'react-native';
 import { Colors } from '../../constants/theme';
 
 // Types
-import type { Bar } from '../../types/index';
+import type { Bar, BarSortOption, ListViewMode } from '../../types/index';
 
 // Utils
-import { INFINITE_SCROLL_CONFIG } from '../../utils/constants';
+import { DEFAULT_BAR_SORT, INFINITE_SCROLL_CONFIG } from '../../utils/constants';
 
 // Custom hooks
+import { useAppTheme } from '../../hooks/useAppTheme';
 import { useLocationCache } from '../../hooks/UseLocationCache';
 import { useBars } from '../../hooks/useBars';
+import { useConnectivity, useRetryOnReconnect } from '../../hooks/useConnectivity';
+import { usePreferences } from '../../hooks/usePreferences';
 import { useScrollRestoration } from '../../hooks/useScrollRestoration';
 import { useTagFilters } from '../../hooks/useTagFilters';
 
 // Components
 import { BarCard } from '../../components/barCard';
+import { BarsMap } from '../../components/barsMap';
 import { TagFilterSheet } from '../../components/barTagFilterSheet';
+import { BarTimePickerSheet } from '../../components/barTimePickerSheet';
 import { BarsListHeader } from '../../components/barsListHeader';
 import {
   BarsEmptyState,
+  ErrorBanner,
   FilteredEmptyState,
 } from '../../components/barEmptyStates';
+import { ViewModeToggle } from '../../components/viewModeToggle';
 
 
 // Main screen component
 export default function BarsScreen() {
-  const theme = useColorScheme() ?? 'dark';
+  const { theme } = useAppTheme();
   const palette = Colors[theme];
   const router = useRouter();
+  const navigation = useNavigation();
+  const [viewMode, setViewMode] = useState<ListViewMode>('list');
 
   // Uses UseLocationCache to manage location state and permissions
   const {
@@ -54,6 +62,12 @@ export default function BarsScreen() {
     const [selectedTags, setSelectedTags] = useState<string[]>([]);
     const [isFilterSheetVisible, setIsFilterSheetVisible] = useState(false);
 
+    // "Plan for later": null lists bars open right now
+    const [openAt, setOpenAt] = useState<Date | null>(null);
+    const [isTimePickerVisible, setIsTimePickerVisible] = useState(false);
+    const [sortOption, setSortOption] = useState<BarSortOption>(DEFAULT_BAR_SORT);
+    const { distanceUnit, defaultCoords } = usePreferences();
+
     // Bars data with pagination
     const {
       bars,
@@ -61,11 +75,16 @@ export default function BarsScreen() {
       isLoadingMore,
       isRefreshing,
       error,
+      lastUpdated,
+      isRevalidating,
+      areaCoords,
       loadInitial,
       handleRefresh,
       handleRetry,
       handleLoadMore,
-    } = useBars(userCoords, selectedTags);
+      searchArea,
+      clearSearchArea,
+    } = useBars(userCoords, selectedTags, openAt, sortOption, distanceUnit);
 
     // Tag filters derived from loaded bars
     // selectedTags and isFilterSheetVisible are passed in and returned unchanged — use local state directly
@@ -88,7 +107,20 @@ export default function BarsScreen() {
       setIsFilterSheetVisible
     );
 
-  // Re-fetch bars from the API when tag filters change (server-side filtering)
+  // Back online: retry failed loads and revalidate bars restored from disk
+  const { isOffline } = useConnectivity();
+  useRetryOnReconnect(
+    useCallback(() => {
+      if (error || lastUpdated !== null) {
+        handleRetry();
+      }
+      if (tagsError) {
+        retryFetchTags();
+      }
+    }, [error, lastUpdated, handleRetry, tagsError, retryFetchTags])
+  );
+
+  // Re-fetch bars from the API when tag filters, the planned time, the sort or the unit change (server-side filtering)
   const tagsRefreshGuardRef = useRef(false);
   useEffect(() => {
     if (tagsRefreshGuardRef.current) {
@@ -96,7 +128,7 @@ export default function BarsScreen() {
       return;
     }
     tagsRefreshGuardRef.current = true;
-  }, [selectedTags, handleRefresh]);
+  }, [selectedTags, openAt, sortOption, distanceUnit, handleRefresh]);
 
   // Scroll position restoration
   const { listRef, handleScroll } = useScrollRestoration<Bar>(bars.length);
@@ -136,6 +168,13 @@ export default function BarsScreen() {
     }, [getCurrentCoordinates])
   );
 
+  // List / map toggle lives in the tab header
+  useLayoutEffect(() => {
+    navigation.setOptions({
+      headerRight: () => <ViewModeToggle value={viewMode} onChange={setViewMode} theme={theme} />,
+    });
+  }, [navigation, theme, viewMode]);
+
   // Handlers
   const handleOpenSettings = useCallback(() => {
     Linking.openSettings().catch((err) => {
@@ -151,10 +190,14 @@ export default function BarsScreen() {
   );
 
   const renderItem = useCallback<ListRenderItem<Bar>>(
-    ({ item }) => <BarCard bar={item} onPress={() => openBarDetail(item.id)} />,
-    [openBarDetail]
+    ({ item }) => <BarCard bar={item} onPress={() => openBarDetail(item.id)} referenceTime={openAt} />,
+    [openAt, openBarDetail]
   );
 
+  const openTimePicker = useCallback(() => setIsTimePickerVisible(true), []);
+  const closeTimePicker = useCallback(() => setIsTimePickerVisible(false), []);
+  const resetOpenAt = useCallback(() => setOpenAt(null), []);
+
   const keyExtractor = useCallback((item: Bar) => item.id, []);
 
   const errorMessage = error?.message ?? null;
@@ -213,6 +256,29 @@ export default function BarsScreen() {
     );
   }
 
+  if (viewMode === 'map') {
+    return (
+      <View style={[styles.container, { backgroundColor: palette.background }]}>
+        <BarsMap
+          bars={filteredBars}
+          center={areaCoords ?? userCoords ?? defaultCoords}
+          isAreaSearch={areaCoords !== null}
+          isSearching={isRefreshing || isLoading}
+          openAt={openAt}
+          theme={theme}
+          onOpenBar={openBarDetail}
+          onSearchArea={searchArea}
+          onResetArea={clearSearchArea}
+        />
+        {errorMessage ? (
+          <View style={styles.mapErrorOverlay} pointerEvents="none">
+            <ErrorBanner message={errorMessage} theme={theme} isOffline={isOffline} />
+          </View>
+        ) : null}
+      </View>
+    );
+  }
+
   return (
     <View style={[styles.container, { backgroundColor: palette.background }]}>
       <FlatList
@@ -232,6 +298,11 @@ export default function BarsScreen() {
             tagsError={tagsError}
             barsCount={bars.length}
             errorMessage={errorMessage}
+            isOffline={isOffline}
+            lastUpdated={lastUpdated}
+            isRevalidating={isRevalidating}
+            openAt={openAt}
+            sortOption={sortOption}
             theme={theme}
             onOpenSettings={handleOpenSettings}
             onRetryLocation={refreshUserLocation}
@@ -240,6 +311,9 @@ export default function BarsScreen() {
             onOpenFilterSheet={openFilterSheet}
             onClearFilters={handleClearFilters}
             onRemoveTag={handleRemoveTag}
+            onOpenTimePicker={openTimePicker}
+            onResetTime={resetOpenAt}
+            onChangeSort={setSortOption}
           />
         }
         ListFooterComponent={footerComponent}
@@ -264,6 +338,13 @@ export default function BarsScreen() {
         onClose={closeFilterSheet}
         theme={theme}
       />
+      <BarTimePickerSheet
+        visible={isTimePickerVisible}
+        value={openAt}
+        onApply={setOpenAt}
+        onClose={closeTimePicker}
+        theme={theme}
+      />
     </View>
   );
 }
@@ -299,4 +380,10 @@ const styles = StyleSheet.create({
   footerLoadingText: {
     fontSize: 14,
   },
+  mapErrorOverlay: {
+    position: 'absolute',
+    top: 60,
+    left: 20,
+    right: 20,
+  },
 });
\ No newline at end of file
@@ -1,6 +1,6 @@
 import { MaterialIcons } from '@expo/vector-icons';
-import { Stack, useRouter } from 'expo-router';
-import React, { useCallback, useMemo } from 'react';
+import { Stack, useFocusEffect, useRouter } from 'expo-router';
+import React, { useCallback, useMemo, useState } from 'react';
 import {
 	ActivityIndicator,
 	FlatList,
@@ -10,38 +10,77 @@ import {
 	TextInput,
 	TouchableOpacity,
 	View,
-	useColorScheme,
 	type ListRenderItem,
 } from 'react-native';
 import { Colors } from '../../constants/theme';
 
 // Types
-import type { searchBar } from '../../types/index';
+import type { Event, SearchScope, searchBar } from '../../types/index';
 
 // Utils
 import { MAX_QUERY_LENGTH } from '../../utils/constants';
+import { toFavoriteBar } from '../../utils/favorites';
 
 // Custom hooks
+import { useAppTheme } from '../../hooks/useAppTheme';
+import { useBarTags } from '../../hooks/useBarTags';
+import { useEventSearch } from '../../hooks/useEventSearch';
+import { useLocationCache } from '../../hooks/UseLocationCache';
+import { usePreferences } from '../../hooks/usePreferences';
 import { useSavedBars } from '../../hooks/useSavedBars';
 import { useSearch } from '../../hooks/useSearch';
 
 // Components
+import EventCard from '../../components/eventCard';
 import { SearchResultCard } from '../../components/searchResultCard';
+import { SearchScopeToggle } from '../../components/searchScopeToggle';
 
 export default function SearchScreen() {
-	const theme = useColorScheme() ?? 'dark';
+	const { theme } = useAppTheme();
 	const palette = Colors[theme];
 	const router = useRouter();
 
-	const { query, setQuery, results, isLoading, error, canSearch } = useSearch();
+	const { distanceUnit } = usePreferences();
+	const [scope, setScope] = useState<SearchScope>('bars');
+	const isEventScope = scope === 'events';
+
+	// Both searches follow the same query, so switching segments shows results straight away
+	const { availableTags } = useBarTags();
+	const { userCoords, refreshUserLocation } = useLocationCache();
+	const { query, setQuery, results, isLoading: areBarsLoading, error: barsError, canSearch } = useSearch(
+		availableTags,
+		userCoords
+	);
+	const { results: eventResults, isLoading: areEventsLoading, error: eventsError } = useEventSearch(query);
 	const { savedBars, saveBar, removeSavedBar, clearSavedBars } = useSavedBars();
 
-	const showRecentBars = !canSearch && savedBars.length > 0;
+	const isLoading = isEventScope ? areEventsLoading : areBarsLoading;
+	const error = isEventScope ? eventsError : barsError;
+	const resultCount = isEventScope ? eventResults.length : results.length;
+	const showRecentBars = !isEventScope && !canSearch && savedBars.length > 0;
 	const listData = showRecentBars ? savedBars : results;
+	const scopeCounts = useMemo(
+		() =>
+			canSearch
+				? {
+					bars: areBarsLoading ? undefined : results.length,
+					events: areEventsLoading ? undefined : eventResults.length,
+				}
+				: undefined,
+		[canSearch, areBarsLoading, results.length, areEventsLoading, eventResults.length]
+	);
+
+	// Tag results are fetched around the user, like the bars list
+	useFocusEffect(
+		useCallback(() => {
+			refreshUserLocation();
+		}, [refreshUserLocation])
+	);
 
 	const handlePressResult = useCallback(
 		(bar: searchBar) => {
-			saveBar(bar);
+			// Recents keep the summary, not this search's tags and match
+			saveBar(toFavoriteBar(bar));
 			router.push({ pathname: '/bar/[barId]', params: { barId: bar.id, barName: bar.name } });
 		},
 		[router, saveBar]
@@ -59,15 +98,39 @@ export default function SearchScreen() {
 		[handlePressResult, removeSavedBar, showRecentBars, theme]
 	);
 
+	const handlePressEvent = useCallback(
+		(event: Event) => {
+			if (!event.instance_id) return;
+			router.push({ pathname: '/event/[instanceId]', params: { instanceId: event.instance_id } });
+		},
+		[router]
+	);
+
+	const renderEventItem = useCallback<ListRenderItem<Event>>(
+		({ item }) => <EventCard event={item} distanceUnit={distanceUnit} onPress={() => handlePressEvent(item)} />,
+		[distanceUnit, handlePressEvent]
+	);
+
 	const listEmptyComponent = useMemo(() => {
 		if (showRecentBars || isLoading || error) return null;
-		if (!canSearch || listData.length > 0) return null;
+		if (!canSearch) {
+			return isEventScope ? (
+				<View style={styles.statusWrapper}>
+					<Text style={[styles.helperText, { color: palette.cardSubtitle }]}>
+						Find upcoming events by title or description, like trivia or karaoke.
+					</Text>
+				</View>
+			) : null;
+		}
+		if (resultCount > 0) return null;
 		return (
 			<View style={styles.statusWrapper}>
-				<Text style={[styles.helperText, { color: palette.cardSubtitle }]}>No bars found. Try a different name?</Text>
+				<Text style={[styles.helperText, { color: palette.cardSubtitle }]}>
+					{isEventScope ? 'No upcoming events found. Try another keyword?' : 'No bars found. Try a different name?'}
+				</Text>
 			</View>
 		);
-	}, [canSearch, error, isLoading, listData.length, showRecentBars, palette]);
+	}, [canSearch, error, isEventScope, isLoading, resultCount, showRecentBars, palette]);
 
 	return (
 		<View style={[styles.container, { backgroundColor: palette.background }]}>
@@ -76,7 +139,7 @@ export default function SearchScreen() {
 				<Text style={[styles.screenTitle, { color: palette.cardTitle }]}>Search</Text>
 				<View style={styles.searchBarWrapper}>
 					<TextInput
-						placeholder="Search for a bar"
+						placeholder={isEventScope ? 'Search events, e.g. trivia' : 'Search for a bar'}
 						placeholderTextColor={palette.cardSubtitle}
 						style={[
 							styles.searchInput,
@@ -102,6 +165,8 @@ export default function SearchScreen() {
 					) : null}
 				</View>
 
+				<SearchScopeToggle value={scope} onChange={setScope} counts={scopeCounts} theme={theme} />
+
 				{showRecentBars ? (
 					<View style={styles.sectionHeaderRow}>
 						<Text style={[styles.sectionTitle, { color: palette.cardTitle }]}>Recents</Text>
@@ -116,7 +181,7 @@ export default function SearchScreen() {
 					</View>
 				) : null}
 
-				{isLoading && results.length === 0 ? (
+				{isLoading && resultCount === 0 ? (
 					<View style={styles.statusWrapper}>
 						<ActivityIndicator color={palette.actionButton} />
 					</View>
@@ -129,14 +194,25 @@ export default function SearchScreen() {
 				) : null}
 			</View>
 
-			<FlatList
-				data={listData}
-				keyExtractor={(item) => item.id}
-				renderItem={renderItem}
-				contentContainerStyle={styles.resultsList}
-				keyboardShouldPersistTaps="handled"
-				ListEmptyComponent={listEmptyComponent}
-			/>
+			{isEventScope ? (
+				<FlatList
+					data={eventResults}
+					keyExtractor={(item) => item.instance_id}
+					renderItem={renderEventItem}
+					contentContainerStyle={styles.eventResultsList}
+					keyboardShouldPersistTaps="handled"
+					ListEmptyComponent={listEmptyComponent}
+				/>
+			) : (
+				<FlatList
+					data={listData}
+					keyExtractor={(item) => item.id}
+					renderItem={renderItem}
+					contentContainerStyle={styles.resultsList}
+					keyboardShouldPersistTaps="handled"
+					ListEmptyComponent={listEmptyComponent}
+				/>
+			)}
 		</View>
 	);
 }
@@ -183,6 +259,9 @@ const styles = StyleSheet.create({
 	resultsList: {
 		paddingVertical: 0,
 	},
+	eventResultsList: {
+		paddingBottom: 32,
+	},
 	sectionHeaderRow: {
 		flexDirection: 'row',
 		alignItems: 'center',
@@ -1,11 +1,20 @@
 import { Colors } from '@/constants/theme';
 import { DarkTheme, DefaultTheme, ThemeProvider } from '@react-navigation/native';
+import * as Notifications from 'expo-notifications';
 import { Stack } from 'expo-router';
 import { StatusBar } from 'expo-status-bar';
-import { useColorScheme } from 'react-native';
+import { StyleSheet, View } from 'react-native';
 import 'react-native-reanimated';
 
-import { AuthProvider } from '@/hooks/use-auth';
+import { AppLockScreen } from '@/components/appLockScreen';
+import { ReminderNotificationRedirect } from '@/components/reminderNotificationRedirect';
+import { SessionExpiryRedirect } from '@/components/sessionExpiryRedirect';
+import { AuthProvider, useAuth } from '@/hooks/use-auth';
+import { AppThemeProvider, useAppTheme } from '@/hooks/useAppTheme';
+import { ConnectivityProvider } from '@/hooks/useConnectivity';
+import { FavoritesProvider } from '@/hooks/useFavorites';
+import { PreferencesProvider } from '@/hooks/usePreferences';
+import { RemindersProvider } from '@/hooks/useReminders';
 import * as Sentry from '@sentry/react-native';
 
 Sentry.init({
@@ -14,27 +23,74 @@ Sentry.init({
   sendDefaultPii: true,
 });
 
+// Event reminders still show while the app is open
+Notifications.setNotificationHandler({
+  handleNotification: async () => ({
+    shouldShowBanner: true,
+    shouldShowList: true,
+    shouldPlaySound: true,
+    shouldSetBadge: false,
+  }),
+});
+
 export const unstable_settings = {
   anchor: '(tabs)',
 };
 
-export default Sentry.wrap(function RootLayout() {
-  const theme = useColorScheme() ?? 'dark';
+// Reads the resolved theme, so it sits inside the providers
+function RootNavigator() {
+  const { theme } = useAppTheme();
+  const { isLocked, unlock, logout } = useAuth();
   const palette = Colors[theme];
 
   return (
-    <AuthProvider>
-      <ThemeProvider value={theme === 'dark' ? DarkTheme : DefaultTheme}>
-        <Stack screenOptions={{ contentStyle: { backgroundColor: palette.background }, headerBackTitle: '' }}>
-          <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
-          <Stack.Screen name="bar/[barId]" options={{ title: 'Bar Details' }} />
-          <Stack.Screen name="event/[instanceId]" options={{ title: 'Event Details' }} />
-          <Stack.Screen name="bar-events/[barId]" options={{ title: 'Bar Events' }} />
-          <Stack.Screen name="login" options={{ headerShown: false }} />
-          <Stack.Screen name="register" options={{ headerShown: false }} />
-        </Stack>
-        <StatusBar style={theme === 'dark' ? 'light' : 'dark'} />
-      </ThemeProvider>
-    </AuthProvider>
+    <ThemeProvider value={theme === 'dark' ? DarkTheme : DefaultTheme}>
+      <Stack screenOptions={{ contentStyle: { backgroundColor: palette.background }, headerBackTitle: '' }}>
+        <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
+        <Stack.Screen name="bar/[barId]" options={{ title: 'Bar Details' }} />
+        <Stack.Screen name="event/[instanceId]" options={{ title: 'Event Details' }} />
+        <Stack.Screen name="bar-events/[barId]" options={{ title: 'Bar Events' }} />
+        <Stack.Screen name="settings" options={{ title: 'Settings' }} />
+        <Stack.Screen name="favorites" options={{ title: 'Favorites' }} />
+        <Stack.Screen name="reminders" options={{ title: 'My Reminders' }} />
+        <Stack.Screen name="login" options={{ headerShown: false }} />
+        <Stack.Screen name="register" options={{ headerShown: false }} />
+        <Stack.Screen name="forgot-password" options={{ headerShown: false }} />
+        <Stack.Screen name="reset-password" options={{ headerShown: false }} />
+      </Stack>
+      {/* App Lock covers the whole stack, so pushed screens stay hidden until the device check passes */}
+      {isLocked ? (
+        <View style={styles.lockOverlay} accessibilityViewIsModal>
+          <AppLockScreen theme={theme} onUnlock={unlock} onSignOut={logout} />
+        </View>
+      ) : null}
+      <SessionExpiryRedirect />
+      <ReminderNotificationRedirect />
+      <StatusBar style={theme === 'dark' ? 'light' : 'dark'} />
+    </ThemeProvider>
   );
+}
+
+export default Sentry.wrap(function RootLayout() {
+  return (
+    <ConnectivityProvider>
+      <PreferencesProvider>
+        <AppThemeProvider>
+          <AuthProvider>
+            <FavoritesProvider>
+              <RemindersProvider>
+                <RootNavigator />
+              </RemindersProvider>
+            </FavoritesProvider>
+          </AuthProvider>
+        </AppThemeProvider>
+      </PreferencesProvider>
+    </ConnectivityProvider>
+  );
+});
+
+const styles = StyleSheet.create({
+  lockOverlay: {
+    ...StyleSheet.absoluteFillObject,
+  },
 });
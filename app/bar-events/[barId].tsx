@@ -1,14 +1,15 @@
+import { MaterialIcons } from '@expo/vector-icons';
 import { Stack, useLocalSearchParams, useRouter } from 'expo-router';
 import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import {
 	ActivityIndicator,
+	Alert,
 	FlatList,
 	RefreshControl,
 	StyleSheet,
 	Text,
 	TouchableOpacity,
 	View,
-	useColorScheme,
 	type ListRenderItem,
 } from 'react-native';
 import { Colors } from '../../constants/theme';
@@ -16,15 +17,14 @@ import { Colors } from '../../constants/theme';
 // Types
 import type { Event, EventListRow } from '../../types/index';
 
+// Hooks
+import { useAppTheme } from '../../hooks/useAppTheme';
+import { useCalendarExport } from '../../hooks/useCalendarExport';
+
 // Utils
-import {
-	extractEventItems,
-	formatRelativeEventDay,
-	mapToEvent,
-	mergeEvents,
-	normalizeDateOnly,
-} from '../../utils/Eventmappers';
-import { API_BASE_URL, EVENTS_ENDPOINT, INFINITE_SCROLL_CONFIG } from '../../utils/constants';
+import { buildEventListRows, extractEventItems, mapToEvent, mergeEvents } from '../../utils/Eventmappers';
+import { apiRequest, isAbortError, isApiConfigured } from '../../utils/apiClient';
+import { BAR_EVENTS_EXPORT_MAX_PAGES, EVENT_INSTANCES_ENDPOINT, INFINITE_SCROLL_CONFIG } from '../../utils/constants';
 import { shouldContinuePagination } from '../../utils/pagination';
 
 // Components
@@ -37,8 +37,9 @@ const PAGE_SIZE = INFINITE_SCROLL_CONFIG.initialPageSize;
 export default function BarEventsScreen() {
 	const { barId, barName } = useLocalSearchParams<{ barId?: string; barName?: string }>();
 	const router = useRouter();
-	const theme = useColorScheme() ?? 'dark';
+	const { theme } = useAppTheme();
 	const palette = Colors[theme];
+	const { isExporting, shareEvents } = useCalendarExport();
 
 	const [events, setEvents] = useState<Event[]>([]);
 	const [page, setPage] = useState(1);
@@ -47,6 +48,7 @@ export default function BarEventsScreen() {
 	const [isRefreshing, setIsRefreshing] = useState(false);
 	const [isPaginating, setIsPaginating] = useState(false);
 	const [error, setError] = useState<string | null>(null);
+	const [isPreparingExport, setIsPreparingExport] = useState(false);
 
 	const abortControllerRef = useRef<AbortController | null>(null);
 
@@ -71,7 +73,7 @@ export default function BarEventsScreen() {
 				return;
 			}
 
-			if (!API_BASE_URL) {
+			if (!isApiConfigured()) {
 				setError('Set EXPO_PUBLIC_API_URL in your .env file to load events.');
 				setIsInitialLoading(false);
 				setIsRefreshing(false);
@@ -81,23 +83,21 @@ export default function BarEventsScreen() {
 
 			try {
 				setError(null);
-				const params = new URLSearchParams({
-					bar_id: barId,
-					upcoming: 'true',
-					limit: String(PAGE_SIZE),
-					page: String(pageToLoad),
+				const payload = await apiRequest<any>(EVENT_INSTANCES_ENDPOINT, {
+					query: {
+						bar_id: barId,
+						upcoming: true,
+						limit: PAGE_SIZE,
+						page: pageToLoad,
+					},
+					signal: controller.signal,
 				});
-				const response = await fetch(`${EVENTS_ENDPOINT}/instances?${params.toString()}`, { signal: controller.signal });
-				if (!response.ok) {
-					throw new Error(`Request failed with status ${response.status}`);
-				}
-				const payload = await response.json();
 				const incoming = extractEventItems(payload).map(mapToEvent);
 				setEvents((prev) => (mode === 'paginate' ? mergeEvents(prev, incoming) : incoming));
 				setPage(pageToLoad);
 				setHasMore(shouldContinuePagination(payload, incoming.length, PAGE_SIZE));
 			} catch (err) {
-				if (err instanceof Error && err.name === 'AbortError') return;
+				if (isAbortError(err)) return;
 				setError(err instanceof Error ? err.message : 'Unable to load events right now.');
 			} finally {
 				if (mode === 'paginate') {
@@ -140,35 +140,7 @@ export default function BarEventsScreen() {
 		[router]
 	);
 
-	const flatEvents = useMemo(() => {
-		if (events.length === 0) return [] as Event[];
-		return [...events].sort((a, b) => {
-			const aDate = a.date ?? a.start_time ?? '';
-			const bDate = b.date ?? b.start_time ?? '';
-			const aTime = new Date(aDate).getTime();
-			const bTime = new Date(bDate).getTime();
-			const aValue = Number.isNaN(aTime) ? Number.MAX_SAFE_INTEGER : aTime;
-			const bValue = Number.isNaN(bTime) ? Number.MAX_SAFE_INTEGER : bTime;
-			return aValue - bValue;
-		});
-	}, [events]);
-
-	const listRows = useMemo<EventListRow[]>(() => {
-		if (flatEvents.length === 0) return [];
-		const rows: EventListRow[] = [];
-		let lastLabel: string | null = null;
-		flatEvents.forEach((event) => {
-			const dateValue = event.date ?? event.start_time;
-			const normalized = normalizeDateOnly(dateValue ?? undefined) ?? 'unknown-date';
-			const label = dateValue ? formatRelativeEventDay(dateValue) : 'Date coming soon';
-			if (label !== lastLabel) {
-				rows.push({ type: 'date', key: `date-${normalized}-${label}`, label });
-				lastLabel = label;
-			}
-			rows.push({ type: 'event', key: `event-${event.instance_id}`, event });
-		});
-		return rows;
-	}, [flatEvents]);
+	const listRows = useMemo<EventListRow[]>(() => buildEventListRows(events), [events]);
 
 	const renderItem = useCallback<ListRenderItem<EventListRow>>(
 		({ item }) => {
@@ -200,6 +172,81 @@ export default function BarEventsScreen() {
 		[barName, palette]
 	);
 
+	// Loads the pages not scrolled to yet so the file holds every upcoming event, up to the page cap.
+	// Shares the same abort controller as the list, so a refresh cancels the export.
+	const handleExport = useCallback(async () => {
+		if (!barId || isPreparingExport) return;
+		const calendarName = `${barName ?? 'Bar'} events`;
+		let allEvents = events;
+		let lastPage = page;
+		let more = hasMore;
+		if (more && lastPage < BAR_EVENTS_EXPORT_MAX_PAGES) {
+			abortControllerRef.current?.abort();
+			const controller = new AbortController();
+			abortControllerRef.current = controller;
+			setIsPreparingExport(true);
+			try {
+				while (more && lastPage < BAR_EVENTS_EXPORT_MAX_PAGES) {
+					const payload = await apiRequest<any>(EVENT_INSTANCES_ENDPOINT, {
+						query: {
+							bar_id: barId,
+							upcoming: true,
+							limit: PAGE_SIZE,
+							page: lastPage + 1,
+						},
+						signal: controller.signal,
+					});
+					const incoming = extractEventItems(payload).map(mapToEvent);
+					allEvents = mergeEvents(allEvents, incoming);
+					lastPage += 1;
+					more = shouldContinuePagination(payload, incoming.length, PAGE_SIZE);
+				}
+			} catch (err) {
+				if (!isAbortError(err)) {
+					Alert.alert('Unable to export events', "Some of this bar's events couldn't be loaded. Please try again.");
+				}
+				return;
+			} finally {
+				setIsPreparingExport(false);
+			}
+			setEvents(allEvents);
+			setPage(lastPage);
+			setHasMore(more);
+		}
+		if (more) {
+			Alert.alert(
+				`Export the first ${allEvents.length} events?`,
+				'This bar has more upcoming events than fit in one calendar file.',
+				[
+					{ text: 'Cancel', style: 'cancel' },
+					{ text: 'Export', onPress: () => shareEvents(allEvents, calendarName) },
+				]
+			);
+			return;
+		}
+		shareEvents(allEvents, calendarName);
+	}, [barId, barName, events, hasMore, isPreparingExport, page, shareEvents]);
+
+	const exportButton = useCallback(
+		() => (
+			<TouchableOpacity
+				onPress={handleExport}
+				disabled={isExporting || isPreparingExport || events.length === 0}
+				hitSlop={8}
+				accessibilityRole="button"
+				accessibilityLabel="Export this bar's upcoming events to your calendar"
+				style={events.length === 0 ? styles.exportDisabled : null}
+			>
+				{isPreparingExport ? (
+					<ActivityIndicator size="small" color={palette.cardTitle} />
+				) : (
+					<MaterialIcons name="ios-share" size={22} color={palette.cardTitle} />
+				)}
+			</TouchableOpacity>
+		),
+		[events.length, handleExport, isExporting, isPreparingExport, palette]
+	);
+
 	const listEmptyComponent = useMemo(() => {
 		if (error) {
 			return (
@@ -267,6 +314,7 @@ export default function BarEventsScreen() {
 					headerStyle: { backgroundColor: palette.container },
 					headerShadowVisible: true,
 					headerTitle: () => navTitle,
+					headerRight: exportButton,
 				}}
 			/>
 			<FlatList
@@ -302,6 +350,9 @@ const styles = StyleSheet.create({
 	container: {
 		flex: 1,
 	},
+	exportDisabled: {
+		opacity: 0.4,
+	},
 	list: {
 		flex: 1,
 	},
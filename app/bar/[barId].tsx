@@ -1,14 +1,18 @@
 import { Stack, useLocalSearchParams, useRouter } from 'expo-router';
 import React, { useCallback, useEffect, useState } from 'react';
-import { StyleSheet, View, useColorScheme } from 'react-native';
+import { StyleSheet, View } from 'react-native';
 import { Colors } from '../../constants/theme';
 
 // Types
 import type { Bar } from '../../types/index';
 
+// Hooks
+import { useAppTheme } from '../../hooks/useAppTheme';
+
 // Utils
 import { mapToBar } from '../../utils/Barmappers';
-import { NORMALIZED_BASE_URL } from '../../utils/constants';
+import { apiRequest, isAbortError, isApiConfigured } from '../../utils/apiClient';
+import { BARS_ENDPOINT } from '../../utils/constants';
 
 // Components
 import BarDetails from '../../components/barDetails';
@@ -16,7 +20,7 @@ import BarDetails from '../../components/barDetails';
 export default function BarDetailScreen() {
   const { barId } = useLocalSearchParams<{ barId?: string }>();
   const router = useRouter();
-  const theme = useColorScheme() ?? 'dark';
+  const { theme } = useAppTheme();
   const palette = Colors[theme];
   const [bar, setBar] = useState<Bar | null>(null);
   const [isLoading, setIsLoading] = useState(true);
@@ -29,7 +33,7 @@ export default function BarDetailScreen() {
       setIsLoading(false);
       return;
     }
-    if (!NORMALIZED_BASE_URL) {
+    if (!isApiConfigured()) {
       setError('Set EXPO_PUBLIC_API_URL to load bar details.');
       setIsLoading(false);
       return;
@@ -37,18 +41,17 @@ export default function BarDetailScreen() {
     const controller = new AbortController();
     setIsLoading(true);
     setError(null);
-    fetch(`${NORMALIZED_BASE_URL}/bars/${barId}?include=hours,tags`, { signal: controller.signal })
-      .then((response) => {
-        if (!response.ok) throw new Error(`Failed to fetch bar details (status ${response.status})`);
-        return response.json();
-      })
+    apiRequest<any>(`${BARS_ENDPOINT}/${barId}`, {
+      query: { include: 'hours,tags' },
+      signal: controller.signal,
+    })
       .then((payload) => {
         const bar = mapToBar(payload.data ?? payload, 0);
         if (!bar) throw new Error('Invalid bar data received from server.');
         setBar(bar);
       })
       .catch((err) => {
-        if (err instanceof Error && err.name === 'AbortError') return;
+        if (isAbortError(err)) return;
         setError(err instanceof Error ? err.message : 'Unable to load bar details right now.');
       })
       .finally(() => {
@@ -10,20 +10,28 @@ import {
   Text,
   TouchableOpacity,
   View,
-  useColorScheme,
 } from 'react-native';
 import { Colors } from '../../constants/theme';
 
 // Types
-import type { Event, ThemeName } from '../../types/index';
+import type { Event } from '../../types/index';
+
+// Hooks
+import { useAppTheme } from '../../hooks/useAppTheme';
+import { useCalendarExport } from '../../hooks/useCalendarExport';
+import { usePreferences } from '../../hooks/usePreferences';
+import { useReminders } from '../../hooks/useReminders';
 
 // Utils
 import { mapToEvent } from '../../utils/Eventmappers';
-import { EVENTS_ENDPOINT, NORMALIZED_BASE_URL } from '../../utils/constants';
-import { formatEventDay, formatEventTime, openExternal, openPhone } from '../../utils/helpers';
+import { apiRequest, isAbortError, isApiConfigured } from '../../utils/apiClient';
+import { EVENT_INSTANCES_ENDPOINT } from '../../utils/constants';
+import { formatDeviceTimeRangeLabel, formatEventDay, formatEventTime, openExternal, openPhone } from '../../utils/helpers';
+import { getEventStart, isReminderInFuture } from '../../utils/reminders';
 
 // Components
 import EventDetails from '../../components/eventDetails';
+import { EventReminderSheet } from '../../components/eventReminderSheet';
 
 type ActionButton = {
   key: string;
@@ -36,18 +44,37 @@ type ActionButton = {
 export default function EventDetailScreen() {
   const { instanceId } = useLocalSearchParams<{ instanceId?: string }>();
   const router = useRouter();
-  const theme = (useColorScheme() ?? 'dark') as ThemeName;
+  const { theme } = useAppTheme();
   const palette = Colors[theme];
+  const { timeFormat } = usePreferences();
+  const { error: reminderError, getReminder, setReminder, cancelReminder, syncReminder } = useReminders();
+  const { addToCalendar, shareEvents } = useCalendarExport();
 
   const [event, setEvent] = useState<Event | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [isReminderSheetVisible, setReminderSheetVisible] = useState(false);
+  // Only show the reminder error for an attempt made on this screen
+  const [reminderFailed, setReminderFailed] = useState(false);
 
   const abortControllerRef = useRef<AbortController | null>(null);
 
-  const dateLabel = useMemo(() => formatEventDay(event?.date ?? event?.start_time), [event?.date, event?.start_time]);
-  const startTimeLabel = useMemo(() => formatEventTime(event?.start_time), [event?.start_time]);
-  const endTimeLabel = useMemo(() => formatEventTime(event?.end_time), [event?.end_time]);
+  const dateLabel = useMemo(
+    () => formatEventDay(event?.date ?? event?.start_time, event?.timezone),
+    [event?.date, event?.start_time, event?.timezone]
+  );
+  const startTimeLabel = useMemo(
+    () => formatEventTime(event?.start_time, event?.timezone, timeFormat),
+    [event?.start_time, event?.timezone, timeFormat]
+  );
+  const endTimeLabel = useMemo(
+    () => formatEventTime(event?.end_time, event?.timezone, timeFormat),
+    [event?.end_time, event?.timezone, timeFormat]
+  );
+  const localTimeLabel = useMemo(
+    () => formatDeviceTimeRangeLabel(event?.start_time, event?.end_time, event?.timezone, timeFormat),
+    [event?.start_time, event?.end_time, event?.timezone, timeFormat]
+  );
 
   const addressLabel = useMemo(() => {
     if (!event) return null;
@@ -100,7 +127,7 @@ export default function EventDetailScreen() {
       setIsLoading(false);
       return;
     }
-    if (!NORMALIZED_BASE_URL) {
+    if (!isApiConfigured()) {
       setError('Set EXPO_PUBLIC_API_URL to load event details.');
       setIsLoading(false);
       return;
@@ -109,28 +136,71 @@ export default function EventDetailScreen() {
     setIsLoading(true);
     try {
       setError(null);
-      const response = await fetch(`${EVENTS_ENDPOINT}/instances/${instanceId}`, { signal: controller.signal });
-      if (!response.ok) {
-        throw new Error(`Failed to fetch event details (status ${response.status})`);
-      }
-      const payload = await response.json();
-      setEvent(mapToEvent(payload.data ?? payload));
+      const payload = await apiRequest<any>(`${EVENT_INSTANCES_ENDPOINT}/${instanceId}`, {
+        signal: controller.signal,
+      });
+      const loaded = mapToEvent(payload.data ?? payload);
+      setEvent(loaded);
+      // A reminder for this event follows a cancellation or a new start time
+      syncReminder(loaded);
     } catch (err) {
-      if (err instanceof Error && err.name === 'AbortError') return;
+      if (isAbortError(err)) return;
       setError(err instanceof Error ? err.message : 'Unable to load event right now.');
     } finally {
       setIsLoading(false);
     }
-  }, [instanceId]);
+  }, [instanceId, syncReminder]);
 
   useEffect(() => {
     fetchEventDetail();
     return () => { abortControllerRef.current?.abort(); };
   }, [fetchEventDetail]);
 
+  const reminder = event ? getReminder(event.instance_id) : undefined;
+  const eventStart = useMemo(() => (event ? getEventStart(event) : null), [event]);
+  const canRemind = Boolean(event && !event.is_cancelled && eventStart && isReminderInFuture(eventStart, 0));
+
+  const handleSelectReminder = useCallback(
+    async (offsetMinutes: number) => {
+      if (!event) return;
+      setReminderSheetVisible(false);
+      setReminderFailed(!(await setReminder(event, offsetMinutes)));
+    },
+    [event, setReminder]
+  );
+
+  const handleRemoveReminder = useCallback(() => {
+    if (!event) return;
+    setReminderSheetVisible(false);
+    setReminderFailed(false);
+    cancelReminder(event.instance_id);
+  }, [event, cancelReminder]);
+
   const actionButtons = useMemo<ActionButton[]>(() => {
     if (!event) return [];
     const buttons: ActionButton[] = [];
+    if (reminder || canRemind) {
+      buttons.push({
+        key: 'reminder',
+        label: reminder ? 'Reminder set' : 'Remind me',
+        iconName: reminder ? 'bell' : 'bell-o',
+        onPress: () => setReminderSheetVisible(true),
+      });
+    }
+    if (eventStart && !event.is_cancelled) {
+      buttons.push({
+        key: 'calendar',
+        label: 'Add to calendar',
+        iconName: 'calendar-plus-o',
+        onPress: () => addToCalendar(event),
+      });
+      buttons.push({
+        key: 'ics',
+        label: 'Share .ics',
+        iconName: 'share-square-o',
+        onPress: () => shareEvents([event], event.title),
+      });
+    }
     if (event.external_url) {
       buttons.push({
         key: 'external',
@@ -151,7 +221,7 @@ export default function EventDetailScreen() {
       buttons.push({ key: 'phone', label: 'Call', iconName: 'phone', onPress: () => openPhone(event.phone) });
     }
     return buttons;
-  }, [event]);
+  }, [event, eventStart, reminder, canRemind, addToCalendar, shareEvents]);
 
   const handleViewBarEvents = useCallback(() => {
     if (!event?.bar_id) return;
@@ -210,6 +280,7 @@ export default function EventDetailScreen() {
               dateLabel={dateLabel}
               startTimeLabel={startTimeLabel ?? undefined}
               endTimeLabel={endTimeLabel ?? undefined}
+              localTimeLabel={localTimeLabel ?? undefined}
               locationLabel={event.bar_name ?? undefined}
               tagLabel={event.event_tag_name ?? undefined}
               recurrencePattern={event.recurrence_pattern}
@@ -222,9 +293,21 @@ export default function EventDetailScreen() {
               showActionSection
 
             />
+            {reminderFailed && reminderError ? (
+              <Text style={[styles.reminderError, { color: palette.cardSubtitle }]}>{reminderError}</Text>
+            ) : null}
           </View>
         </ScrollView>
       )}
+      <EventReminderSheet
+        visible={isReminderSheetVisible}
+        startsAt={eventStart}
+        value={reminder?.offset_minutes ?? null}
+        onSelect={handleSelectReminder}
+        onRemove={handleRemoveReminder}
+        onClose={() => setReminderSheetVisible(false)}
+        theme={theme}
+      />
     </View>
   );
 }
@@ -268,6 +351,10 @@ const styles = StyleSheet.create({
     fontSize: 15,
     fontWeight: '600',
   },
+  reminderError: {
+    fontSize: 14,
+    textAlign: 'center',
+  },
   bodyContent: {
     width: '100%',
     paddingHorizontal: 20,
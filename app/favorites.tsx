@@ -0,0 +1,144 @@
+import { useRouter } from 'expo-router';
+import React, { useCallback, useMemo } from 'react';
+import {
+	FlatList,
+	RefreshControl,
+	StyleSheet,
+	Text,
+	TouchableOpacity,
+	View,
+	type ListRenderItem,
+} from 'react-native';
+import { Colors } from '../constants/theme';
+
+// Types
+import type { searchBar } from '../types/index';
+
+// Hooks
+import { useAppTheme } from '../hooks/useAppTheme';
+import { useFavorites } from '../hooks/useFavorites';
+
+// Components
+import { SearchResultCard } from '../components/searchResultCard';
+
+export default function FavoritesScreen() {
+	const router = useRouter();
+	const { theme } = useAppTheme();
+	const palette = Colors[theme];
+	const { favorites, isSyncing, error, toggleFavorite, refresh } = useFavorites();
+
+	const handleOpenBar = useCallback(
+		(bar: searchBar) => {
+			router.push({ pathname: '/bar/[barId]', params: { barId: bar.id, barName: bar.name } });
+		},
+		[router]
+	);
+
+	const renderItem = useCallback<ListRenderItem<searchBar>>(
+		({ item }) => (
+			<SearchResultCard
+				bar={item}
+				theme={theme}
+				onPress={() => handleOpenBar(item)}
+				onRemove={() => {
+					toggleFavorite(item);
+				}}
+				removeFrom="favorites"
+			/>
+		),
+		[handleOpenBar, theme, toggleFavorite]
+	);
+
+	const listHeaderComponent = useMemo(() => {
+		if (!error) return null;
+		return (
+			<View style={[styles.errorBanner, { backgroundColor: palette.networkErrorBackground, borderColor: palette.networkErrorBorder }]}>
+				<Text style={[styles.errorText, { color: palette.networkErrorText }]}>{error}</Text>
+				<TouchableOpacity onPress={refresh} disabled={isSyncing} hitSlop={8} accessibilityRole="button">
+					<Text style={[styles.retryText, { color: palette.networkErrorButton }]}>Try again</Text>
+				</TouchableOpacity>
+			</View>
+		);
+	}, [error, isSyncing, palette, refresh]);
+
+	const listEmptyComponent = useMemo(
+		() => (
+			<View style={styles.emptyState}>
+				<Text style={[styles.emptyStateTitle, { color: palette.cardTitle }]}>No favorites yet</Text>
+				<Text style={[styles.emptyStateText, { color: palette.cardSubtitle }]}>
+					Tap the heart on any bar to keep it here.
+				</Text>
+			</View>
+		),
+		[palette]
+	);
+
+	return (
+		<FlatList
+			style={[styles.list, { backgroundColor: palette.background }]}
+			data={favorites}
+			keyExtractor={(item) => item.id}
+			renderItem={renderItem}
+			contentContainerStyle={favorites.length === 0 ? styles.listContentEmpty : styles.listContent}
+			ListHeaderComponent={listHeaderComponent}
+			ListEmptyComponent={listEmptyComponent}
+			refreshControl={
+				<RefreshControl
+					refreshing={isSyncing}
+					onRefresh={refresh}
+					tintColor={palette.cardText}
+					colors={[palette.cardText]}
+					progressBackgroundColor={palette.container}
+				/>
+			}
+			showsVerticalScrollIndicator={false}
+		/>
+	);
+}
+
+const styles = StyleSheet.create({
+	list: {
+		flex: 1,
+	},
+	listContent: {
+		paddingBottom: 32,
+	},
+	listContentEmpty: {
+		flexGrow: 1,
+		paddingBottom: 32,
+	},
+	errorBanner: {
+		flexDirection: 'row',
+		alignItems: 'center',
+		justifyContent: 'space-between',
+		gap: 12,
+		margin: 16,
+		padding: 14,
+		borderRadius: 12,
+		borderWidth: 1,
+	},
+	errorText: {
+		flex: 1,
+		fontSize: 14,
+	},
+	retryText: {
+		fontSize: 14,
+		fontWeight: '700',
+	},
+	emptyState: {
+		flex: 1,
+		alignItems: 'center',
+		justifyContent: 'center',
+		padding: 32,
+		gap: 12,
+	},
+	emptyStateTitle: {
+		fontSize: 18,
+		fontWeight: '700',
+		textAlign: 'center',
+	},
+	emptyStateText: {
+		fontSize: 14,
+		textAlign: 'center',
+	},
+});
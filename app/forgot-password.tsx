@@ -0,0 +1,263 @@
+import { FontAwesome } from '@expo/vector-icons';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import React, { useCallback, useState } from 'react';
+import {
+  ActivityIndicator,
+  KeyboardAvoidingView,
+  Platform,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View
+} from 'react-native';
+
+import { Colors } from '@/constants/theme';
+import { useAppTheme } from '@/hooks/useAppTheme';
+import { ApiError, apiRequest, isAbortError, isApiConfigured } from '@/utils/apiClient';
+import { AUTH_REQUEST_TIMEOUT_MS, FORGOT_PASSWORD_ENDPOINT } from '@/utils/constants';
+
+type FormErrors = Partial<Record<'email' | 'global', string>>;
+
+export default function ForgotPasswordScreen() {
+  const router = useRouter();
+  // reason=expired when the user arrives from a reset link that no longer works
+  const { reason, email: initialEmail } = useLocalSearchParams<{ reason?: string; email?: string }>();
+  const { theme } = useAppTheme();
+  const palette = Colors[theme];
+
+  const [email, setEmail] = useState(initialEmail ?? '');
+  const [errors, setErrors] = useState<FormErrors>({});
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [sentTo, setSentTo] = useState<string | null>(null);
+
+  const handleEmailChange = useCallback((value: string) => {
+    setEmail(value);
+    setErrors({});
+  }, []);
+
+  const handleSubmit = useCallback(async () => {
+    const emailCandidate = email.trim();
+    if (!emailCandidate) {
+      setErrors({ email: 'Email is required.' });
+      return;
+    }
+    if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(emailCandidate)) {
+      setErrors({ email: 'Enter a valid email address.' });
+      return;
+    }
+    if (!isApiConfigured()) {
+      setErrors({ global: 'Set EXPO_PUBLIC_API_URL to reset passwords.' });
+      return;
+    }
+
+    setIsSubmitting(true);
+    setErrors({});
+
+    try {
+      await apiRequest(FORGOT_PASSWORD_ENDPOINT, {
+        method: 'POST',
+        body: { email: emailCandidate },
+        timeoutMs: AUTH_REQUEST_TIMEOUT_MS,
+      });
+      setSentTo(emailCandidate);
+    } catch (error: unknown) {
+      if (error instanceof ApiError && error.status > 0) {
+        setErrors({ global: error.serverMessage ?? 'We could not send a reset email right now.' });
+      } else if (isAbortError(error) || (error instanceof ApiError && error.code === 'timeout')) {
+        setErrors({ global: 'The request timed out. Please check your connection and try again.' });
+      } else {
+        setErrors({ global: 'Unable to reach the server. Please try again.' });
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
+  }, [email]);
+
+  return (
+    <KeyboardAvoidingView
+      style={[styles.flex, { backgroundColor: palette.background }]}
+      behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+    >
+      <ScrollView
+        contentContainerStyle={[styles.scrollContent, { backgroundColor: palette.background }]}
+        keyboardShouldPersistTaps="handled"
+        showsVerticalScrollIndicator={false}
+      >
+        <Text style={[styles.heroTitle, { color: palette.text }]}>Forgot password?</Text>
+
+        {reason === 'expired' && !sentTo ? (
+          <View style={[styles.feedbackPanel, { backgroundColor: palette.warningBackground, borderColor: palette.warningBorder }]}>
+            <Text style={[styles.feedbackTitle, { color: palette.warningText }]}>Reset link expired</Text>
+            <Text style={[styles.feedbackBody, { color: palette.warningText }]}>
+              That reset link is no longer valid. Request a new one below.
+            </Text>
+          </View>
+        ) : null}
+
+        <View style={[styles.formCard, { backgroundColor: palette.cardSurface, borderColor: palette.border }]}>
+          {sentTo ? (
+            <View style={[styles.feedbackPanel, { backgroundColor: palette.successBackground, borderColor: palette.successBorder }]}>
+              <Text style={[styles.feedbackTitle, { color: palette.successText }]}>Check your email</Text>
+              <Text style={[styles.feedbackBody, { color: palette.successText }]}>
+                If an account exists for {sentTo}, we sent a link to reset your password. The link expires soon, so use it
+                right away.
+              </Text>
+            </View>
+          ) : (
+            <>
+              <Text style={[styles.helperText, { color: palette.cardSubtitle }]}>
+                Enter the email you signed up with and we will send you a link to choose a new password.
+              </Text>
+
+              <View style={styles.fieldGroup}>
+                <Text style={[styles.label, { color: palette.text }]}>Email</Text>
+                <View
+                  style={[
+                    styles.inputWrapper,
+                    { backgroundColor: palette.background, borderColor: errors.email ? palette.networkErrorText : palette.border },
+                  ]}
+                >
+                  <FontAwesome name="envelope" size={16} color={palette.cardSubtitle} style={styles.inputIcon} />
+                  <TextInput
+                    value={email}
+                    onChangeText={handleEmailChange}
+                    placeholder="john.smith@example.com"
+                    placeholderTextColor={palette.icon}
+                    autoCapitalize="none"
+                    keyboardType="email-address"
+                    autoComplete="email"
+                    style={[styles.input, { color: palette.text }]}
+                    returnKeyType="send"
+                    onSubmitEditing={handleSubmit}
+                  />
+                </View>
+                {errors.email ? <Text style={[styles.errorText, { color: palette.networkErrorText }]}>{errors.email}</Text> : null}
+              </View>
+
+              {errors.global ? (
+                <View style={[styles.feedbackPanel, { backgroundColor: palette.networkErrorBackground, borderColor: palette.networkErrorBorder }]}>
+                  <Text style={[styles.feedbackTitle, { color: palette.networkErrorText }]}>Something went wrong</Text>
+                  <Text style={[styles.feedbackBody, { color: palette.networkErrorText }]}>{errors.global}</Text>
+                </View>
+              ) : null}
+
+              <TouchableOpacity
+                onPress={handleSubmit}
+                disabled={isSubmitting}
+                activeOpacity={0.9}
+                style={[
+                  styles.primaryButton,
+                  { backgroundColor: palette.loginPrimaryButton, opacity: isSubmitting ? 0.7 : 1 },
+                ]}
+              >
+                {isSubmitting ? (
+                  <ActivityIndicator color={palette.loginPrimaryButtonText} />
+                ) : (
+                  <Text style={[styles.primaryButtonText, { color: palette.loginPrimaryButtonText }]}>Send reset link</Text>
+                )}
+              </TouchableOpacity>
+            </>
+          )}
+
+          <TouchableOpacity
+            onPress={() => router.replace('/login')}
+            style={[styles.secondaryButton, { borderColor: palette.border }]}
+            activeOpacity={0.85}
+          >
+            <Text style={[styles.secondaryButtonText, { color: palette.cardSubtitle }]}>Back to Login</Text>
+          </TouchableOpacity>
+        </View>
+      </ScrollView>
+    </KeyboardAvoidingView>
+  );
+}
+
+const styles = StyleSheet.create({
+  flex: {
+    flex: 1,
+  },
+  scrollContent: {
+    flexGrow: 1,
+    gap: 20,
+    paddingHorizontal: 24,
+    paddingBottom: 24,
+    paddingTop: 80,
+  },
+  heroTitle: {
+    fontSize: 32,
+    fontWeight: '700',
+  },
+  formCard: {
+    borderRadius: 28,
+    padding: 24,
+    borderWidth: 1,
+    gap: 20,
+  },
+  fieldGroup: {
+    gap: 10,
+  },
+  label: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  helperText: {
+    fontSize: 15,
+    lineHeight: 20,
+  },
+  inputWrapper: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderWidth: 1,
+    borderRadius: 999,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    gap: 8,
+  },
+  inputIcon: {
+    marginRight: 4,
+  },
+  input: {
+    flex: 1,
+    fontSize: 16,
+    paddingVertical: 0,
+  },
+  errorText: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  feedbackPanel: {
+    borderRadius: 20,
+    borderWidth: 1,
+    padding: 16,
+    gap: 6,
+  },
+  feedbackTitle: {
+    fontSize: 16,
+    fontWeight: '700',
+  },
+  feedbackBody: {
+    fontSize: 15,
+    lineHeight: 20,
+  },
+  primaryButton: {
+    borderRadius: 999,
+    paddingVertical: 16,
+    alignItems: 'center',
+  },
+  primaryButtonText: {
+    fontSize: 16,
+    fontWeight: '700',
+  },
+  secondaryButton: {
+    borderRadius: 999,
+    borderWidth: 1,
+    paddingVertical: 14,
+    alignItems: 'center',
+  },
+  secondaryButtonText: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+});
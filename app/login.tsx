@@ -1,5 +1,5 @@
 import { FontAwesome } from '@expo/vector-icons';
-import { Redirect, useRouter } from 'expo-router';
+import { Redirect, useLocalSearchParams, useRouter, type Href } from 'expo-router';
 import React, { useCallback, useRef, useState } from 'react';
 import {
   ActivityIndicator,
@@ -11,14 +11,13 @@ import {
   Text,
   TextInput,
   TouchableOpacity,
-  View,
-  useColorScheme
+  View
 } from 'react-native';
 
 import { Colors } from '@/constants/theme';
 import { useAuth } from '@/hooks/use-auth';
+import { useAppTheme } from '@/hooks/useAppTheme';
 
-type ThemeName = keyof typeof Colors;
 type FormField = 'email' | 'password';
 
 type FormErrors = Partial<Record<FormField | 'global', string>>;
@@ -33,10 +32,20 @@ const initialFormState: LoginFormState = {
   password: '',
 };
 
+// Only follow in-app paths back after sign-in, never the auth screens themselves
+const resolveReturnTo = (returnTo?: string): Href => {
+  if (!returnTo || !returnTo.startsWith('/') || returnTo.startsWith('//')) return '/(tabs)';
+  if (returnTo === '/login' || returnTo === '/register') return '/(tabs)';
+  return returnTo as Href;
+};
+
 export default function LoginScreen() {
-  const { login, status } = useAuth();
+  const { login, status, sessionExpired } = useAuth();
+  const { reason, returnTo } = useLocalSearchParams<{ reason?: string; returnTo?: string }>();
   const router = useRouter();
-  const theme = (useColorScheme() ?? 'dark') as ThemeName;
+  const destination = resolveReturnTo(returnTo);
+  const showSessionExpired = sessionExpired || reason === 'session_expired';
+  const { theme } = useAppTheme();
   const palette = Colors[theme];
 
   const passwordRef = useRef<TextInput>(null);
@@ -89,11 +98,11 @@ export default function LoginScreen() {
         return;
       }
 
-      router.replace('/(tabs)');
+      router.replace(destination);
     } finally {
       setIsSubmitting(false);
     }
-  }, [form, login, router, validate]);
+  }, [destination, form, login, router, validate]);
 
   if (status === 'checking') {
     return (
@@ -104,7 +113,7 @@ export default function LoginScreen() {
   }
 
   if (status === 'authenticated') {
-    return <Redirect href="/(tabs)" />;
+    return <Redirect href={destination} />;
   }
 
   return (
@@ -120,6 +129,16 @@ export default function LoginScreen() {
         <Image source={require('../assets/images/logo.png')} style={styles.logo} resizeMode="contain" />
         <Text style={[styles.heroTitle, { color: palette.text }]}>Welcome, Log in!</Text>
 
+        {showSessionExpired ? (
+          <View style={[styles.feedbackPanel, { backgroundColor: palette.networkErrorBackground, borderColor: palette.networkErrorBorder }]}
+          >
+            <Text style={[styles.feedbackTitle, { color: palette.networkErrorText }]}>Session expired</Text>
+            <Text style={[styles.feedbackBody, { color: palette.networkErrorText }]}>
+              For your security you were signed out. Sign in again to pick up where you left off.
+            </Text>
+          </View>
+        ) : null}
+
         <View style={[styles.formCard, { backgroundColor: palette.cardSurface, borderColor: palette.border }]}
         >
           <View style={styles.fieldGroup}>
@@ -176,6 +195,12 @@ export default function LoginScreen() {
               />
             </View>
             {errors.password ? <Text style={[styles.errorText, { color: palette.networkErrorText }]}>{errors.password}</Text> : null}
+            <TouchableOpacity
+              onPress={() => router.push({ pathname: '/forgot-password', params: { email: form.email.trim() } })}
+              style={styles.forgotPasswordLink}
+            >
+              <Text style={[styles.togglePassword, { color: palette.cardSubtitle }]}>Forgot password?</Text>
+            </TouchableOpacity>
           </View>
 
           {errors.global ? (
@@ -269,6 +294,9 @@ const styles = StyleSheet.create({
     fontSize: 14,
     fontWeight: '600',
   },
+  forgotPasswordLink: {
+    alignSelf: 'flex-end',
+  },
   errorText: {
     fontSize: 13,
     fontWeight: '600',
@@ -10,15 +10,16 @@ import {
   Text,
   TextInput,
   TouchableOpacity,
-  View,
-  useColorScheme
+  View
 } from 'react-native';
 
 import { Colors } from '@/constants/theme';
 import { useAuth } from '@/hooks/use-auth';
-import { NORMALIZED_BASE_URL, REGISTER_ENDPOINT } from '@/utils/constants';
+import { useAppTheme } from '@/hooks/useAppTheme';
+import { ApiError, apiRequest, isAbortError, isApiConfigured } from '@/utils/apiClient';
+import { AUTH_REQUEST_TIMEOUT_MS, REGISTER_ENDPOINT } from '@/utils/constants';
+import { getPasswordError } from '@/utils/passwordValidation';
 
-type ThemeName = keyof typeof Colors;
 type FormField = 'fullName' | 'email' | 'password' | 'dob' | 'phone';
 
 type FormErrors = Partial<Record<FormField | 'global', string>>;
@@ -89,7 +90,7 @@ function toE164Phone(formatted: string): string {
 export default function RegisterScreen() {
   const router = useRouter();
   const { loginWithToken } = useAuth();
-  const theme = (useColorScheme() ?? 'dark') as ThemeName;
+  const { theme } = useAppTheme();
   const palette = Colors[theme];
 
   const [form, setForm] = useState<RegisterPayload>(initialFormState);
@@ -131,18 +132,9 @@ export default function RegisterScreen() {
       nextErrors.email = 'Enter a valid email address.';
     }
 
-    if (!payload.password) {
-      nextErrors.password = 'Create a password.';
-    } else if (payload.password.length < 12) {
-      nextErrors.password = 'Use at least 12 characters.';
-    } else if (!/[a-z]/.test(payload.password)) {
-      nextErrors.password = 'Include at least one lowercase letter.';
-    } else if (!/[A-Z]/.test(payload.password)) {
-      nextErrors.password = 'Include at least one uppercase letter.';
-    } else if (!/[0-9]/.test(payload.password)) {
-      nextErrors.password = 'Include at least one number.';
-    } else if (!/[!@#$%^&*()\-_=+\[\]{};':"\\|,.<>/?]/.test(payload.password)) {
-      nextErrors.password = 'Include at least one special character (e.g. !@#$%).';
+    const passwordError = getPasswordError(payload.password);
+    if (passwordError) {
+      nextErrors.password = passwordError;
     }
 
     const dobCandidate = payload.dob.trim();
@@ -177,7 +169,7 @@ export default function RegisterScreen() {
       setErrors(validationErrors);
       return;
     }
-    if (!NORMALIZED_BASE_URL) {
+    if (!isApiConfigured()) {
       setErrors({ global: 'Set EXPO_PUBLIC_API_URL to register new accounts.' });
       return;
     }
@@ -194,43 +186,23 @@ export default function RegisterScreen() {
         phone: toE164Phone(form.phone),
       };
 
-      const controller = new AbortController();
-      const timeout = setTimeout(() => controller.abort(), 10_000);
-
-      let response;
-      try {
-        response = await fetch(REGISTER_ENDPOINT, {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify(body),
-          signal: controller.signal,
-        });
-      } finally {
-        clearTimeout(timeout);
-      }
-
-      let payload: any = null;
-      try {
-        payload = await response.json();
-      } catch {
-        payload = null;
-      }
-
-      if (!response.ok) {
-        const message = payload?.message ?? 'We could not create your account right now.';
-        setErrors({ global: message });
-        return;
-      }
+      const payload = await apiRequest<any>(REGISTER_ENDPOINT, {
+        method: 'POST',
+        body,
+        timeoutMs: AUTH_REQUEST_TIMEOUT_MS,
+      });
 
       // Registration succeeded — sign in with the returned token
       if (!payload?.token) {
         setErrors({ global: 'Registration succeeded but sign-in failed. Please log in.' });
         return;
       }
-      await loginWithToken(payload.token, payload.data ?? null);
+      await loginWithToken(payload.token, payload.data ?? null, payload.refresh_token ?? null);
       router.replace('/(tabs)');
-    } catch (error: any) {
-      if (error?.name === 'AbortError') {
+    } catch (error: unknown) {
+      if (error instanceof ApiError && error.status > 0) {
+        setErrors({ global: error.serverMessage ?? 'We could not create your account right now.' });
+      } else if (isAbortError(error) || (error instanceof ApiError && error.code === 'timeout')) {
         setErrors({ global: 'The request timed out. Please check your connection and try again.' });
       } else {
         setErrors({ global: 'Unable to reach the server. Please try again.' });
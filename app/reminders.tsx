@@ -0,0 +1,200 @@
+import { MaterialIcons } from '@expo/vector-icons';
+import { useRouter } from 'expo-router';
+import React, { useCallback, useMemo } from 'react';
+import {
+	FlatList,
+	RefreshControl,
+	StyleSheet,
+	Text,
+	TouchableOpacity,
+	View,
+	type ListRenderItem,
+} from 'react-native';
+import { Colors } from '../constants/theme';
+
+// Types
+import type { EventReminder } from '../types/index';
+
+// Hooks
+import { useAppTheme } from '../hooks/useAppTheme';
+import { usePreferences } from '../hooks/usePreferences';
+import { useReminders } from '../hooks/useReminders';
+
+// Utils
+import { formatEventDay, formatEventTime } from '../utils/helpers';
+import { formatReminderOffset } from '../utils/reminders';
+
+export default function RemindersScreen() {
+	const router = useRouter();
+	const { theme } = useAppTheme();
+	const palette = Colors[theme];
+	const { timeFormat } = usePreferences();
+	const { reminders, isRefreshing, error, cancelReminder, refresh } = useReminders();
+
+	const handleOpenEvent = useCallback(
+		(reminder: EventReminder) => {
+			router.push({ pathname: '/event/[instanceId]', params: { instanceId: reminder.instance_id } });
+		},
+		[router]
+	);
+
+	const renderItem = useCallback<ListRenderItem<EventReminder>>(
+		({ item }) => {
+			const startLabel = [
+				formatEventDay(item.starts_at, item.timezone),
+				formatEventTime(item.starts_at, item.timezone, timeFormat),
+			]
+				.filter(Boolean)
+				.join(' · ');
+			return (
+				<TouchableOpacity
+					style={[styles.card, { backgroundColor: palette.cardSurface, borderColor: palette.border }]}
+					onPress={() => handleOpenEvent(item)}
+					activeOpacity={0.85}
+					accessibilityRole="button"
+					accessibilityLabel={`Open ${item.title}`}
+				>
+					<View style={styles.cardBody}>
+						<Text style={[styles.cardTitle, { color: palette.cardTitle }]} numberOfLines={2}>
+							{item.title}
+						</Text>
+						{item.bar_name ? (
+							<Text style={[styles.cardText, { color: palette.cardSubtitle }]} numberOfLines={1}>
+								{item.bar_name}
+							</Text>
+						) : null}
+						<Text style={[styles.cardText, { color: palette.cardSubtitle }]}>{startLabel}</Text>
+						<View style={styles.offsetRow}>
+							<MaterialIcons name="notifications-active" size={16} color={palette.filterActivePill} />
+							<Text style={[styles.offsetText, { color: palette.filterActivePill }]}>
+								{formatReminderOffset(item.offset_minutes)}
+							</Text>
+						</View>
+					</View>
+					<TouchableOpacity
+						onPress={() => cancelReminder(item.instance_id)}
+						hitSlop={8}
+						accessibilityRole="button"
+						accessibilityLabel={`Remove reminder for ${item.title}`}
+					>
+						<MaterialIcons name="close" size={22} color={palette.cardSubtitle} />
+					</TouchableOpacity>
+				</TouchableOpacity>
+			);
+		},
+		[cancelReminder, handleOpenEvent, palette, timeFormat]
+	);
+
+	const listHeaderComponent = useMemo(() => {
+		if (!error) return null;
+		return (
+			<View style={[styles.errorBanner, { backgroundColor: palette.networkErrorBackground, borderColor: palette.networkErrorBorder }]}>
+				<Text style={[styles.errorText, { color: palette.networkErrorText }]}>{error}</Text>
+			</View>
+		);
+	}, [error, palette]);
+
+	const listEmptyComponent = useMemo(
+		() => (
+			<View style={styles.emptyState}>
+				<Text style={[styles.emptyStateTitle, { color: palette.cardTitle }]}>No reminders yet</Text>
+				<Text style={[styles.emptyStateText, { color: palette.cardSubtitle }]}>
+					Tap Remind me on an event to get a notification before it starts.
+				</Text>
+			</View>
+		),
+		[palette]
+	);
+
+	return (
+		<FlatList
+			style={[styles.list, { backgroundColor: palette.background }]}
+			data={reminders}
+			keyExtractor={(item) => item.instance_id}
+			renderItem={renderItem}
+			contentContainerStyle={reminders.length === 0 ? styles.listContentEmpty : styles.listContent}
+			ListHeaderComponent={listHeaderComponent}
+			ListEmptyComponent={listEmptyComponent}
+			refreshControl={
+				<RefreshControl
+					refreshing={isRefreshing}
+					onRefresh={refresh}
+					tintColor={palette.cardText}
+					colors={[palette.cardText]}
+					progressBackgroundColor={palette.container}
+				/>
+			}
+			showsVerticalScrollIndicator={false}
+		/>
+	);
+}
+
+const styles = StyleSheet.create({
+	list: {
+		flex: 1,
+	},
+	listContent: {
+		paddingTop: 8,
+		paddingBottom: 32,
+	},
+	listContentEmpty: {
+		flexGrow: 1,
+		paddingBottom: 32,
+	},
+	card: {
+		flexDirection: 'row',
+		alignItems: 'flex-start',
+		gap: 12,
+		marginHorizontal: 16,
+		marginVertical: 6,
+		padding: 16,
+		borderRadius: 12,
+		borderWidth: 1,
+	},
+	cardBody: {
+		flex: 1,
+		gap: 4,
+	},
+	cardTitle: {
+		fontSize: 16,
+		fontWeight: '700',
+	},
+	cardText: {
+		fontSize: 14,
+	},
+	offsetRow: {
+		flexDirection: 'row',
+		alignItems: 'center',
+		gap: 6,
+		marginTop: 4,
+	},
+	offsetText: {
+		fontSize: 13,
+		fontWeight: '600',
+	},
+	errorBanner: {
+		margin: 16,
+		padding: 14,
+		borderRadius: 12,
+		borderWidth: 1,
+	},
+	errorText: {
+		fontSize: 14,
+	},
+	emptyState: {
+		flex: 1,
+		alignItems: 'center',
+		justifyContent: 'center',
+		padding: 32,
+		gap: 12,
+	},
+	emptyStateTitle: {
+		fontSize: 18,
+		fontWeight: '700',
+		textAlign: 'center',
+	},
+	emptyStateText: {
+		fontSize: 14,
+		textAlign: 'center',
+	},
+});
@@ -0,0 +1,350 @@
+import { FontAwesome } from '@expo/vector-icons';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import React, { useCallback, useRef, useState } from 'react';
+import {
+  ActivityIndicator,
+  KeyboardAvoidingView,
+  Platform,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View
+} from 'react-native';
+
+import { Colors } from '@/constants/theme';
+import { useAppTheme } from '@/hooks/useAppTheme';
+import { ApiError, apiRequest, isAbortError, isApiConfigured } from '@/utils/apiClient';
+import { AUTH_REQUEST_TIMEOUT_MS, RESET_PASSWORD_ENDPOINT } from '@/utils/constants';
+import { getPasswordError } from '@/utils/passwordValidation';
+
+type FormField = 'password' | 'confirmPassword';
+
+type FormErrors = Partial<Record<FormField | 'global', string>>;
+
+// Statuses / codes the server uses for a reset token that is missing, used or expired
+const isInvalidTokenError = (error: unknown): boolean =>
+  error instanceof ApiError
+  && ([401, 404, 410].includes(error.status) || (error.status === 400 && /token/i.test(error.code)));
+
+// Opened from the reset email: to-the-pub://reset-password?token=...
+export default function ResetPasswordScreen() {
+  const router = useRouter();
+  const { token } = useLocalSearchParams<{ token?: string }>();
+  const { theme } = useAppTheme();
+  const palette = Colors[theme];
+
+  const confirmRef = useRef<TextInput>(null);
+
+  const [form, setForm] = useState<Record<FormField, string>>({ password: '', confirmPassword: '' });
+  const [errors, setErrors] = useState<FormErrors>({});
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [showPassword, setShowPassword] = useState(false);
+  const [isTokenInvalid, setIsTokenInvalid] = useState(!token);
+  const [isComplete, setIsComplete] = useState(false);
+
+  const handleFieldChange = useCallback((field: FormField, value: string) => {
+    setForm((previous) => ({ ...previous, [field]: value }));
+    setErrors((current) => ({ ...current, [field]: undefined, global: undefined }));
+  }, []);
+
+  const handleRequestNewLink = useCallback(() => {
+    router.replace({ pathname: '/forgot-password', params: { reason: 'expired' } });
+  }, [router]);
+
+  const handleSubmit = useCallback(async () => {
+    const nextErrors: FormErrors = {};
+    const passwordError = getPasswordError(form.password, 'Enter a new password.');
+    if (passwordError) {
+      nextErrors.password = passwordError;
+    }
+    if (!form.confirmPassword) {
+      nextErrors.confirmPassword = 'Confirm your new password.';
+    } else if (form.confirmPassword !== form.password) {
+      nextErrors.confirmPassword = 'Passwords do not match.';
+    }
+    if (Object.keys(nextErrors).length > 0) {
+      setErrors(nextErrors);
+      return;
+    }
+    if (!isApiConfigured()) {
+      setErrors({ global: 'Set EXPO_PUBLIC_API_URL to reset passwords.' });
+      return;
+    }
+
+    setIsSubmitting(true);
+    setErrors({});
+
+    try {
+      await apiRequest(RESET_PASSWORD_ENDPOINT, {
+        method: 'POST',
+        body: { token, password: form.password },
+        timeoutMs: AUTH_REQUEST_TIMEOUT_MS,
+      });
+      setIsComplete(true);
+    } catch (error: unknown) {
+      if (isInvalidTokenError(error)) {
+        setIsTokenInvalid(true);
+      } else if (error instanceof ApiError && error.status > 0) {
+        setErrors({ global: error.serverMessage ?? 'We could not reset your password right now.' });
+      } else if (isAbortError(error) || (error instanceof ApiError && error.code === 'timeout')) {
+        setErrors({ global: 'The request timed out. Please check your connection and try again.' });
+      } else {
+        setErrors({ global: 'Unable to reach the server. Please try again.' });
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
+  }, [form, token]);
+
+  const renderBody = () => {
+    if (isComplete) {
+      return (
+        <>
+          <View style={[styles.feedbackPanel, { backgroundColor: palette.successBackground, borderColor: palette.successBorder }]}>
+            <Text style={[styles.feedbackTitle, { color: palette.successText }]}>Password updated</Text>
+            <Text style={[styles.feedbackBody, { color: palette.successText }]}>
+              Your password has been reset. Sign in with your new password to continue.
+            </Text>
+          </View>
+          <TouchableOpacity
+            onPress={() => router.replace('/login')}
+            activeOpacity={0.9}
+            style={[styles.primaryButton, { backgroundColor: palette.loginPrimaryButton }]}
+          >
+            <Text style={[styles.primaryButtonText, { color: palette.loginPrimaryButtonText }]}>Sign in</Text>
+          </TouchableOpacity>
+        </>
+      );
+    }
+
+    if (isTokenInvalid) {
+      return (
+        <>
+          <View style={[styles.feedbackPanel, { backgroundColor: palette.networkErrorBackground, borderColor: palette.networkErrorBorder }]}>
+            <Text style={[styles.feedbackTitle, { color: palette.networkErrorText }]}>Link expired or invalid</Text>
+            <Text style={[styles.feedbackBody, { color: palette.networkErrorText }]}>
+              This password reset link can no longer be used. Request a new one and try again.
+            </Text>
+          </View>
+          <TouchableOpacity
+            onPress={handleRequestNewLink}
+            activeOpacity={0.9}
+            style={[styles.primaryButton, { backgroundColor: palette.loginPrimaryButton }]}
+          >
+            <Text style={[styles.primaryButtonText, { color: palette.loginPrimaryButtonText }]}>Request a new link</Text>
+          </TouchableOpacity>
+        </>
+      );
+    }
+
+    return (
+      <>
+        {/* New password */}
+        <View style={styles.fieldGroup}>
+          <View style={styles.labelRow}>
+            <Text style={[styles.label, { color: palette.text }]}>New password</Text>
+            <TouchableOpacity onPress={() => setShowPassword((current) => !current)}>
+              <Text style={[styles.togglePassword, { color: palette.cardSubtitle }]}>{showPassword ? 'Hide' : 'Show'}</Text>
+            </TouchableOpacity>
+          </View>
+          <View
+            style={[
+              styles.inputWrapper,
+              { backgroundColor: palette.background, borderColor: errors.password ? palette.networkErrorText : palette.border },
+            ]}
+          >
+            <FontAwesome name="lock" size={16} color={palette.cardSubtitle} style={styles.inputIcon} />
+            <TextInput
+              value={form.password}
+              onChangeText={(value) => handleFieldChange('password', value)}
+              placeholder="••••••••••••"
+              placeholderTextColor={palette.icon}
+              secureTextEntry={!showPassword}
+              autoCapitalize="none"
+              autoComplete="password-new"
+              style={[styles.input, { color: palette.text }]}
+              returnKeyType="next"
+              onSubmitEditing={() => confirmRef.current?.focus()}
+              submitBehavior="submit"
+            />
+          </View>
+          {errors.password ? <Text style={[styles.errorText, { color: palette.networkErrorText }]}>{errors.password}</Text> : null}
+        </View>
+
+        {/* Confirm password */}
+        <View style={styles.fieldGroup}>
+          <Text style={[styles.label, { color: palette.text }]}>Confirm password</Text>
+          <View
+            style={[
+              styles.inputWrapper,
+              { backgroundColor: palette.background, borderColor: errors.confirmPassword ? palette.networkErrorText : palette.border },
+            ]}
+          >
+            <FontAwesome name="lock" size={16} color={palette.cardSubtitle} style={styles.inputIcon} />
+            <TextInput
+              ref={confirmRef}
+              value={form.confirmPassword}
+              onChangeText={(value) => handleFieldChange('confirmPassword', value)}
+              placeholder="••••••••••••"
+              placeholderTextColor={palette.icon}
+              secureTextEntry={!showPassword}
+              autoCapitalize="none"
+              autoComplete="password-new"
+              style={[styles.input, { color: palette.text }]}
+              returnKeyType="done"
+              onSubmitEditing={handleSubmit}
+            />
+          </View>
+          {errors.confirmPassword ? <Text style={[styles.errorText, { color: palette.networkErrorText }]}>{errors.confirmPassword}</Text> : null}
+        </View>
+
+        {errors.global ? (
+          <View style={[styles.feedbackPanel, { backgroundColor: palette.networkErrorBackground, borderColor: palette.networkErrorBorder }]}>
+            <Text style={[styles.feedbackTitle, { color: palette.networkErrorText }]}>Something went wrong</Text>
+            <Text style={[styles.feedbackBody, { color: palette.networkErrorText }]}>{errors.global}</Text>
+          </View>
+        ) : null}
+
+        <TouchableOpacity
+          onPress={handleSubmit}
+          disabled={isSubmitting}
+          activeOpacity={0.9}
+          style={[
+            styles.primaryButton,
+            { backgroundColor: palette.loginPrimaryButton, opacity: isSubmitting ? 0.7 : 1 },
+          ]}
+        >
+          {isSubmitting ? (
+            <ActivityIndicator color={palette.loginPrimaryButtonText} />
+          ) : (
+            <Text style={[styles.primaryButtonText, { color: palette.loginPrimaryButtonText }]}>Reset password</Text>
+          )}
+        </TouchableOpacity>
+      </>
+    );
+  };
+
+  return (
+    <KeyboardAvoidingView
+      style={[styles.flex, { backgroundColor: palette.background }]}
+      behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+    >
+      <ScrollView
+        contentContainerStyle={[styles.scrollContent, { backgroundColor: palette.background }]}
+        keyboardShouldPersistTaps="handled"
+        showsVerticalScrollIndicator={false}
+      >
+        <Text style={[styles.heroTitle, { color: palette.text }]}>Choose a new password</Text>
+
+        <View style={[styles.formCard, { backgroundColor: palette.cardSurface, borderColor: palette.border }]}>
+          {renderBody()}
+
+          {!isComplete ? (
+            <TouchableOpacity
+              onPress={() => router.replace('/login')}
+              style={[styles.secondaryButton, { borderColor: palette.border }]}
+              activeOpacity={0.85}
+            >
+              <Text style={[styles.secondaryButtonText, { color: palette.cardSubtitle }]}>Back to Login</Text>
+            </TouchableOpacity>
+          ) : null}
+        </View>
+      </ScrollView>
+    </KeyboardAvoidingView>
+  );
+}
+
+const styles = StyleSheet.create({
+  flex: {
+    flex: 1,
+  },
+  scrollContent: {
+    flexGrow: 1,
+    gap: 20,
+    paddingHorizontal: 24,
+    paddingBottom: 24,
+    paddingTop: 80,
+  },
+  heroTitle: {
+    fontSize: 32,
+    fontWeight: '700',
+  },
+  formCard: {
+    borderRadius: 28,
+    padding: 24,
+    borderWidth: 1,
+    gap: 20,
+  },
+  fieldGroup: {
+    gap: 10,
+  },
+  labelRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  label: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  inputWrapper: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderWidth: 1,
+    borderRadius: 999,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    gap: 8,
+  },
+  inputIcon: {
+    marginRight: 4,
+  },
+  input: {
+    flex: 1,
+    fontSize: 16,
+    paddingVertical: 0,
+  },
+  togglePassword: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  errorText: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  feedbackPanel: {
+    borderRadius: 20,
+    borderWidth: 1,
+    padding: 16,
+    gap: 6,
+  },
+  feedbackTitle: {
+    fontSize: 16,
+    fontWeight: '700',
+  },
+  feedbackBody: {
+    fontSize: 15,
+    lineHeight: 20,
+  },
+  primaryButton: {
+    borderRadius: 999,
+    paddingVertical: 16,
+    alignItems: 'center',
+  },
+  primaryButtonText: {
+    fontSize: 16,
+    fontWeight: '700',
+  },
+  secondaryButton: {
+    borderRadius: 999,
+    borderWidth: 1,
+    paddingVertical: 14,
+    alignItems: 'center',
+  },
+  secondaryButtonText: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,204 @@
+import { Colors } from '@/constants/theme';
+import { useAppTheme } from '@/hooks/useAppTheme';
+import { usePreferences } from '@/hooks/usePreferences';
+import React from 'react';
+import { ScrollView, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import {
+  DEFAULT_LOCATION_OPTIONS,
+  DISTANCE_UNIT_LABELS,
+  DISTANCE_UNIT_OPTIONS,
+  RADIUS_OPTIONS,
+  SAVED_BARS_LIMIT_OPTIONS,
+  THEME_MODE_OPTIONS,
+  TIME_FORMAT_OPTIONS,
+} from '@/utils/constants';
+
+type ThemeName = keyof typeof Colors;
+type Palette = (typeof Colors)[ThemeName];
+
+type Option<T> = { label: string; value: T };
+
+// One setting: title, description and a row of pills, one of them selected
+function OptionSetting<T extends string | number>({
+  title,
+  description,
+  options,
+  value,
+  onChange,
+  palette,
+}: {
+  title: string;
+  description: string;
+  options: Option<T>[];
+  value: T;
+  onChange: (value: T) => void;
+  palette: Palette;
+}) {
+  return (
+    <View style={styles.settingColumn}>
+      <Text style={[styles.settingTitle, { color: palette.text }]}>{title}</Text>
+      <Text style={[styles.settingDescription, { color: palette.cardSubtitle }]}>{description}</Text>
+      <View style={styles.optionRow}>
+        {options.map((option) => {
+          const isActive = option.value === value;
+          return (
+            <TouchableOpacity
+              key={String(option.value)}
+              onPress={() => onChange(option.value)}
+              style={[
+                styles.optionPill,
+                { backgroundColor: isActive ? palette.filterActivePill : palette.filterContainer },
+              ]}
+              accessibilityRole="button"
+              accessibilityLabel={`${title}: ${option.label}`}
+              accessibilityState={{ selected: isActive }}
+            >
+              <Text style={[styles.optionText, { color: isActive ? palette.filterTextActive : palette.filterText }]}>
+                {option.label}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+    </View>
+  );
+}
+
+export default function SettingsScreen() {
+  const { theme, themeMode, setThemeMode } = useAppTheme();
+  const palette = Colors[theme];
+  const { distanceUnit, eventRadius, defaultLocationId, timeFormat, maxSavedBars, setPreference } = usePreferences();
+
+  const radiusOptions = RADIUS_OPTIONS[distanceUnit].map((radius) => ({
+    label: `${radius} ${DISTANCE_UNIT_LABELS[distanceUnit].short}`,
+    value: radius,
+  }));
+  const locationOptions = DEFAULT_LOCATION_OPTIONS.map((option) => ({ label: option.label, value: option.id }));
+  const savedBarsOptions = SAVED_BARS_LIMIT_OPTIONS.map((limit) => ({ label: String(limit), value: limit }));
+
+  return (
+    <ScrollView
+      style={{ backgroundColor: palette.background }}
+      contentContainerStyle={styles.container}
+    >
+      <Text style={[styles.sectionLabel, { color: palette.cardSubtitle }]}>Distance</Text>
+      <View style={[styles.card, { backgroundColor: palette.cardSurface, borderColor: palette.border }]}>
+        <OptionSetting
+          title="Distance Unit"
+          description="Used for distances and search radius across the app."
+          options={DISTANCE_UNIT_OPTIONS}
+          value={distanceUnit}
+          onChange={(value) => setPreference('distanceUnit', value)}
+          palette={palette}
+        />
+        <View style={[styles.divider, { backgroundColor: palette.border }]} />
+        <OptionSetting
+          title="Events Radius"
+          description="How far the Events tab looks when it opens."
+          options={radiusOptions}
+          value={eventRadius}
+          onChange={(value) => setPreference('eventRadius', value)}
+          palette={palette}
+        />
+      </View>
+
+      <Text style={[styles.sectionLabel, { color: palette.cardSubtitle }]}>Location</Text>
+      <View style={[styles.card, { backgroundColor: palette.cardSurface, borderColor: palette.border }]}>
+        <OptionSetting
+          title="Default City"
+          description="Where bars and events are listed when your location is unavailable."
+          options={locationOptions}
+          value={defaultLocationId}
+          onChange={(value) => setPreference('defaultLocationId', value)}
+          palette={palette}
+        />
+      </View>
+
+      <Text style={[styles.sectionLabel, { color: palette.cardSubtitle }]}>Display</Text>
+      <View style={[styles.card, { backgroundColor: palette.cardSurface, borderColor: palette.border }]}>
+        <OptionSetting
+          title="Theme"
+          description="System follows your device's light or dark appearance."
+          options={THEME_MODE_OPTIONS}
+          value={themeMode}
+          onChange={setThemeMode}
+          palette={palette}
+        />
+        <View style={[styles.divider, { backgroundColor: palette.border }]} />
+        <OptionSetting
+          title="Time Format"
+          description="Opening hours and event times."
+          options={TIME_FORMAT_OPTIONS}
+          value={timeFormat}
+          onChange={(value) => setPreference('timeFormat', value)}
+          palette={palette}
+        />
+      </View>
+
+      <Text style={[styles.sectionLabel, { color: palette.cardSubtitle }]}>Search</Text>
+      <View style={[styles.card, { backgroundColor: palette.cardSurface, borderColor: palette.border }]}>
+        <OptionSetting
+          title="Recent Bars"
+          description="How many recently viewed bars the Search tab remembers."
+          options={savedBarsOptions}
+          value={maxSavedBars}
+          onChange={(value) => setPreference('maxSavedBars', value)}
+          palette={palette}
+        />
+      </View>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    paddingHorizontal: 24,
+    paddingTop: 24,
+    paddingBottom: 40,
+    gap: 12,
+  },
+  sectionLabel: {
+    fontSize: 13,
+    fontWeight: '700',
+    textTransform: 'uppercase',
+    letterSpacing: 0.6,
+    marginTop: 8,
+    marginLeft: 4,
+  },
+  card: {
+    borderRadius: 20,
+    borderWidth: 1,
+    overflow: 'hidden',
+  },
+  divider: {
+    height: StyleSheet.hairlineWidth,
+    marginHorizontal: 20,
+  },
+  settingColumn: {
+    paddingVertical: 14,
+    paddingHorizontal: 20,
+    gap: 10,
+  },
+  settingTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  settingDescription: {
+    fontSize: 13,
+    lineHeight: 18,
+  },
+  optionRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  optionPill: {
+    borderRadius: 999,
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+  },
+  optionText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+});
@@ -11,16 +11,31 @@ import type { Bar } from '../../types';
 
 const mockOpenExternalLink = jest.fn();
 const mockToSocialUrl = jest.fn((handle: string, platform: string) => `https://${platform}.com/${handle}`);
-const mockFormatDistanceLabel = jest.fn<string | null, [number?]>(() => '0.5 mi');
+const mockFormatDistanceLabel = jest.fn<string | null, [number?, string?]>(() => '0.5 mi');
 const mockFormatCityAddress = jest.fn<string | null, [string?, string?]>(() => 'Boston, MA');
 
 jest.mock('../../utils/helpers', () => ({
   openExternalLink: (url?: string) => mockOpenExternalLink(url),
   toSocialUrl: (handle: string, platform: string) => mockToSocialUrl(handle, platform),
-  formatDistanceLabel: (miles?: number) => mockFormatDistanceLabel(miles),
+  formatDistanceLabel: (distance?: number, unit?: string) => mockFormatDistanceLabel(distance, unit),
+  getDistanceInUnit: jest.requireActual('../../utils/helpers').getDistanceInUnit,
   formatCityAddress: (city?: string, state?: string) => mockFormatCityAddress(city, state),
 }));
 
+let mockDistanceUnit: 'miles' | 'km' = 'miles';
+jest.mock('../../hooks/usePreferences', () => ({
+  usePreferences: () => ({ distanceUnit: mockDistanceUnit }),
+}));
+
+const mockToggleFavorite = jest.fn();
+let mockFavoriteIds: string[] = [];
+jest.mock('../../hooks/useFavorites', () => ({
+  useFavorites: () => ({
+    isFavorite: (barId: string) => mockFavoriteIds.includes(barId),
+    toggleFavorite: mockToggleFavorite,
+  }),
+}));
+
 jest.mock('@expo/vector-icons', () => ({
   FontAwesome: 'FontAwesome',
   MaterialIcons: 'MaterialIcons',
@@ -45,6 +60,8 @@ const makeBar = (overrides: Partial<Bar> = {}): Bar => ({
 beforeEach(() => {
   jest.clearAllMocks();
   mockFormatDistanceLabel.mockReturnValue('0.5 mi');
+  mockDistanceUnit = 'miles';
+  mockFavoriteIds = [];
   mockFormatCityAddress.mockReturnValue('Boston, MA');
 });
 
@@ -69,11 +86,64 @@ describe('BarCard', () => {
       expect(screen.getByText(/0\.5 mi/)).toBeTruthy();
     });
 
+    it('formats the distance in the preferred unit', () => {
+      mockDistanceUnit = 'km';
+      render(<BarCard bar={makeBar({ distance_km: 0.8 })} />);
+      expect(mockFormatDistanceLabel).toHaveBeenCalledWith(0.8, 'km');
+    });
+
+    it('converts miles when the API sent no kilometre distance', () => {
+      mockDistanceUnit = 'km';
+      render(<BarCard bar={makeBar({ distance_miles: 2 })} />);
+      expect(mockFormatDistanceLabel.mock.calls[0][0]).toBeCloseTo(3.219, 3);
+    });
+
     it('renders closing time when closes_at is set', () => {
       render(<BarCard bar={makeBar({ closes_at: '23:00' })} />);
       expect(screen.getByText(/Closes/)).toBeTruthy();
     });
 
+    it("reads closes_at on the bar's clock", () => {
+      // 1 AM Tuesday UTC is still 6 PM Monday in Los Angeles
+      const plannedTime = new Date(Date.UTC(2026, 9, 20, 1, 0));
+      render(<BarCard bar={makeBar({ closes_at: '23:00', timezone: 'America/Los_Angeles' })} referenceTime={plannedTime} />);
+      expect(screen.getByText(/Closes 11 PM \(6 AM your time\)/)).toBeTruthy();
+    });
+
+    describe('open status from hours', () => {
+      beforeEach(() => {
+        jest.useFakeTimers();
+        // Monday 19 October 2026, 10:35 PM local
+        jest.setSystemTime(new Date(2026, 9, 19, 22, 35));
+      });
+
+      afterEach(() => {
+        jest.useRealTimers();
+      });
+
+      const mondayHours = (open_time: string, close_time: string) => [
+        { id: 'h1', day_of_week: 1, open_time, close_time, is_closed: false, crosses_midnight: false },
+      ];
+
+      it('counts down to closing instead of using closes_at', () => {
+        render(<BarCard bar={makeBar({ closes_at: '23:00', hours: mondayHours('17:00:00', '23:00:00') })} />);
+        expect(screen.getByText(/Closes in 25 min/)).toBeTruthy();
+      });
+
+      it('shows when a closed bar opens next', () => {
+        render(<BarCard bar={makeBar({ closes_at: undefined, hours: mondayHours('23:00:00', '02:00:00') })} />);
+        expect(screen.getByText(/Opens at 11 PM/)).toBeTruthy();
+      });
+
+      it('describes the planned time instead of now', () => {
+        const plannedTime = new Date(2026, 9, 19, 18, 0);
+        render(
+          <BarCard bar={makeBar({ hours: mondayHours('17:00:00', '23:00:00') })} referenceTime={plannedTime} />
+        );
+        expect(screen.getByText(/Open until 11 PM/)).toBeTruthy();
+      });
+    });
+
     it('omits distance row when formatDistanceLabel returns null and closes_at is absent', () => {
       mockFormatDistanceLabel.mockReturnValue(null);
       render(<BarCard bar={makeBar({ closes_at: undefined })} />);
@@ -152,5 +222,25 @@ describe('BarCard', () => {
       fireEvent.press(screen.getByTestId('social-facebook'));
       expect(mockOpenExternalLink).toHaveBeenCalledWith('https://facebook.com/thetap');
     });
+
+    it('toggles the favorite without opening the bar', () => {
+      const onPress = jest.fn();
+      const bar = makeBar();
+      render(<BarCard bar={bar} onPress={onPress} />);
+
+      fireEvent.press(screen.getByLabelText('Add The Tap to favorites'));
+
+      expect(mockToggleFavorite).toHaveBeenCalledWith(bar);
+      expect(onPress).not.toHaveBeenCalled();
+    });
+
+    it('shows a filled heart for a favorite', () => {
+      mockFavoriteIds = ['1'];
+      render(<BarCard bar={makeBar()} />);
+
+      expect(screen.getByLabelText('Remove The Tap from favorites').props.accessibilityState).toMatchObject({
+        selected: true,
+      });
+    });
   });
 });
@@ -19,8 +19,19 @@ jest.mock('../../utils/helpers', () => ({
   toSocialUrl: (handle: string, platform: string) => mockToSocialUrl(handle, platform),
 }));
 
+let mockTimeFormat: '12h' | '24h' = '12h';
+jest.mock('../../hooks/usePreferences', () => ({
+  usePreferences: () => ({ timeFormat: mockTimeFormat }),
+}));
+
+const mockToggleFavorite = jest.fn();
+jest.mock('../../hooks/useFavorites', () => ({
+  useFavorites: () => ({ isFavorite: () => false, toggleFavorite: mockToggleFavorite }),
+}));
+
 jest.mock('@expo/vector-icons', () => ({
   FontAwesome: 'FontAwesome',
+  MaterialIcons: 'MaterialIcons',
 }));
 
 jest.mock('react-native-maps', () => {
@@ -72,6 +83,7 @@ const defaultProps = {
 
 beforeEach(() => {
   jest.clearAllMocks();
+  mockTimeFormat = '12h';
 });
 
 // ---------------------------------------------------------------------------
@@ -140,6 +152,13 @@ describe('BarDetails', () => {
       render(<BarDetails {...defaultProps} bar={makeBar({ description: undefined })} />);
       expect(screen.queryByText('A cozy dive bar.')).toBeNull();
     });
+
+    it('adds the bar to favorites from the heart', () => {
+      const bar = makeBar();
+      render(<BarDetails {...defaultProps} bar={bar} />);
+      fireEvent.press(screen.getByLabelText('Add The Tap to favorites'));
+      expect(mockToggleFavorite).toHaveBeenCalledWith(bar);
+    });
   });
 
   describe('address', () => {
@@ -211,6 +230,37 @@ describe('BarDetails', () => {
       expect(screen.getByText('Mon - Tue')).toBeTruthy();
     });
 
+    it('lists hours on a 24-hour clock when preferred', () => {
+      mockTimeFormat = '24h';
+      const hours = [makeHours({ day_of_week: 1, open_time: '17:00', close_time: '00:30' })];
+      render(<BarDetails {...defaultProps} bar={makeBar({ hours })} />);
+      expect(screen.getByText('17:00 - 00:30')).toBeTruthy();
+    });
+
+    describe('open status', () => {
+      beforeEach(() => {
+        jest.useFakeTimers();
+        // Tuesday 20 October 2026, 12:30 AM local
+        jest.setSystemTime(new Date(2026, 9, 20, 0, 30));
+      });
+
+      afterEach(() => {
+        jest.useRealTimers();
+      });
+
+      it("shows last night's overnight span as still open", () => {
+        const hours = [makeHours({ day_of_week: 1, open_time: '20:00', close_time: '01:00', crosses_midnight: true })];
+        render(<BarDetails {...defaultProps} bar={makeBar({ hours })} />);
+        expect(screen.getByText('Open · Closes in 30 min')).toBeTruthy();
+      });
+
+      it('shows the next opening when closed', () => {
+        const hours = [makeHours({ day_of_week: 2, open_time: '16:00', close_time: '23:00' })];
+        render(<BarDetails {...defaultProps} bar={makeBar({ hours })} />);
+        expect(screen.getByText('Closed · Opens at 4 PM')).toBeTruthy();
+      });
+    });
+
     it('omits Hours section when hours array is empty', () => {
       render(<BarDetails {...defaultProps} bar={makeBar({ hours: [] })} />);
       expect(screen.queryByText('Hours')).toBeNull();
@@ -0,0 +1,75 @@
+// components/__tests__/barSortSelector.test.tsx
+
+import React from 'react';
+import { View } from 'react-native';
+import { render, screen, fireEvent } from '@testing-library/react-native';
+import { BarSortSelector } from '../barSortSelector';
+
+// ---------------------------------------------------------------------------
+// Mocks
+// ---------------------------------------------------------------------------
+
+jest.mock('@expo/vector-icons', () => ({
+  MaterialIcons: 'MaterialIcons',
+}));
+
+// measureInWindow is a no-op in the test environment; fire the callback so the dropdown opens
+beforeAll(() => {
+  View.prototype.measureInWindow = jest.fn().mockImplementation((cb) => cb(0, 0, 160, 40));
+});
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const defaultProps = {
+  value: 'nearest' as const,
+  onChange: jest.fn(),
+  theme: 'light' as const,
+};
+
+beforeEach(() => {
+  jest.clearAllMocks();
+});
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe('BarSortSelector', () => {
+  it('shows the current sort', () => {
+    render(<BarSortSelector {...defaultProps} value="closing_soonest" />);
+    expect(screen.getByText('Sort: Closing soonest')).toBeTruthy();
+  });
+
+  it('lists every sort option once opened', () => {
+    render(<BarSortSelector {...defaultProps} />);
+    expect(screen.queryByLabelText('Sort by A–Z')).toBeNull();
+
+    fireEvent.press(screen.getByLabelText('Sort bars: Nearest. Tap to change.'));
+
+    ['Nearest', 'Closing latest', 'Closing soonest', 'A–Z', 'Best match'].forEach((label) => {
+      expect(screen.getByLabelText(`Sort by ${label}`)).toBeTruthy();
+    });
+    expect(screen.getByLabelText('Sort by Nearest').props.accessibilityState).toMatchObject({ selected: true });
+  });
+
+  it('calls onChange with the picked sort and closes', () => {
+    render(<BarSortSelector {...defaultProps} />);
+
+    fireEvent.press(screen.getByLabelText('Sort bars: Nearest. Tap to change.'));
+    fireEvent.press(screen.getByLabelText('Sort by Best match'));
+
+    expect(defaultProps.onChange).toHaveBeenCalledWith('best_match');
+    expect(screen.queryByLabelText('Sort by Best match')).toBeNull();
+  });
+
+  it('does not call onChange when the current sort is picked again', () => {
+    render(<BarSortSelector {...defaultProps} />);
+
+    fireEvent.press(screen.getByLabelText('Sort bars: Nearest. Tap to change.'));
+    fireEvent.press(screen.getByLabelText('Sort by Nearest'));
+
+    expect(defaultProps.onChange).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,117 @@
+// components/__tests__/barTimePickerSheet.test.tsx
+
+import React from 'react';
+import { fireEvent, render, screen } from '@testing-library/react-native';
+import { BarTimePickerSheet } from '../barTimePickerSheet';
+
+// ---------------------------------------------------------------------------
+// Mocks
+// ---------------------------------------------------------------------------
+
+let mockTimeFormat: '12h' | '24h' = '12h';
+jest.mock('../../hooks/usePreferences', () => ({
+  usePreferences: () => ({ timeFormat: mockTimeFormat }),
+}));
+
+jest.mock('react-native-safe-area-context', () => ({
+  useSafeAreaInsets: () => ({ top: 0, bottom: 0, left: 0, right: 0 }),
+}));
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const renderSheet = (overrides: Partial<React.ComponentProps<typeof BarTimePickerSheet>> = {}) => {
+  const props: React.ComponentProps<typeof BarTimePickerSheet> = {
+    visible: true,
+    value: null,
+    onApply: jest.fn(),
+    onClose: jest.fn(),
+    theme: 'light',
+    ...overrides,
+  };
+  render(<BarTimePickerSheet {...props} />);
+  return props;
+};
+
+// ---------------------------------------------------------------------------
+// Suite
+// ---------------------------------------------------------------------------
+
+describe('BarTimePickerSheet', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    // Monday 19 October 2026, 10:35 PM local
+    jest.setSystemTime(new Date(2026, 9, 19, 22, 35));
+    mockTimeFormat = '12h';
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('offers the coming week of days', () => {
+    renderSheet();
+
+    expect(screen.getByText('Today')).toBeTruthy();
+    expect(screen.getByText('Tomorrow')).toBeTruthy();
+    expect(screen.getByText('Wed 21')).toBeTruthy();
+  });
+
+  it('disables times that have already passed today', () => {
+    renderSheet();
+
+    expect(screen.getByLabelText('10:30 PM').props.accessibilityState).toMatchObject({ disabled: true });
+    expect(screen.getByLabelText('11 PM').props.accessibilityState).toMatchObject({ disabled: false });
+  });
+
+  it('labels slots on a 24-hour clock when preferred', () => {
+    mockTimeFormat = '24h';
+    renderSheet();
+
+    expect(screen.getByLabelText('23:00')).toBeTruthy();
+    expect(screen.getByLabelText('01:30, after midnight')).toBeTruthy();
+  });
+
+  it('applies the picked day and time', () => {
+    const props = renderSheet();
+
+    fireEvent.press(screen.getByLabelText('11 PM'));
+    fireEvent.press(screen.getByText('Show Bars'));
+
+    expect(props.onApply).toHaveBeenCalledWith(new Date(2026, 9, 19, 23, 0));
+    expect(props.onClose).toHaveBeenCalled();
+  });
+
+  it('keeps late-night slots on the evening they belong to', () => {
+    const props = renderSheet();
+
+    fireEvent.press(screen.getByText('Tomorrow'));
+    fireEvent.press(screen.getByLabelText('1 AM, after midnight'));
+    fireEvent.press(screen.getByText('Show Bars'));
+
+    expect(props.onApply).toHaveBeenCalledWith(new Date(2026, 9, 21, 1, 0));
+  });
+
+  it('does nothing on Show Bars until a time is picked', () => {
+    const props = renderSheet();
+
+    fireEvent.press(screen.getByText('Show Bars'));
+
+    expect(props.onApply).not.toHaveBeenCalled();
+  });
+
+  it('goes back to bars open now', () => {
+    const props = renderSheet({ value: new Date(2026, 9, 24, 21, 0) });
+
+    fireEvent.press(screen.getByText('Open Now'));
+
+    expect(props.onApply).toHaveBeenCalledWith(null);
+  });
+
+  it('restores the current plan when reopened', () => {
+    renderSheet({ value: new Date(2026, 9, 24, 21, 0) });
+
+    expect(screen.getByLabelText('9 PM').props.accessibilityState).toMatchObject({ selected: true });
+  });
+});
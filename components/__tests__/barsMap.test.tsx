@@ -0,0 +1,159 @@
+// components/__tests__/barsMap.test.tsx
+
+import React from 'react';
+import { act, fireEvent, render, screen } from '@testing-library/react-native';
+import { BarsMap } from '../barsMap';
+import type { Bar } from '../../types';
+
+// ---------------------------------------------------------------------------
+// Mocks
+// ---------------------------------------------------------------------------
+
+const mockAnimateToRegion = jest.fn();
+
+jest.mock('react-native-maps', () => {
+  const { forwardRef, useImperativeHandle } = jest.requireActual('react');
+  const { View } = jest.requireActual('react-native');
+  const MapView = forwardRef(function MockMapView(props: object, ref: React.Ref<unknown>) {
+    useImperativeHandle(ref, () => ({ animateToRegion: mockAnimateToRegion }));
+    return <View {...props} />;
+  });
+  const Marker = (props: object) => <View testID="map-marker" {...props} />;
+  return { __esModule: true, default: MapView, Marker };
+});
+
+jest.mock('../../hooks/usePreferences', () => ({
+  usePreferences: () => ({ distanceUnit: 'miles' }),
+}));
+
+jest.mock('../../hooks/useFavorites', () => ({
+  useFavorites: () => ({ isFavorite: () => false, toggleFavorite: jest.fn() }),
+}));
+
+jest.mock('@expo/vector-icons', () => ({
+  FontAwesome: 'FontAwesome',
+  MaterialIcons: 'MaterialIcons',
+}));
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const makeBar = (id: string, latitude: number, longitude: number): Bar => ({
+  id,
+  name: `Bar ${id}`,
+  address_city: 'Boston',
+  address_state: 'MA',
+  latitude,
+  longitude,
+  tags: [],
+  hours: [],
+});
+
+const CENTER = { lat: 42.35, lon: -71.06 };
+const FAR_APART = [makeBar('1', 42.33, -71.09), makeBar('2', 42.37, -71.03)];
+const SAME_BLOCK = [makeBar('1', 42.3501, -71.0601), makeBar('2', 42.3502, -71.0602), makeBar('3', 42.45, -71.2)];
+
+const renderMap = (overrides: Partial<React.ComponentProps<typeof BarsMap>> = {}) => {
+  const props: React.ComponentProps<typeof BarsMap> = {
+    bars: FAR_APART,
+    center: CENTER,
+    isAreaSearch: false,
+    isSearching: false,
+    theme: 'dark',
+    onOpenBar: jest.fn(),
+    onSearchArea: jest.fn(),
+    onResetArea: jest.fn(),
+    ...overrides,
+  };
+  render(<BarsMap {...props} />);
+  return props;
+};
+
+// ---------------------------------------------------------------------------
+// Suite
+// ---------------------------------------------------------------------------
+
+describe('BarsMap', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('plots a marker per bar', () => {
+    renderMap();
+
+    expect(screen.getAllByTestId('map-marker')).toHaveLength(2);
+  });
+
+  it('clusters bars that sit close together and shows the count', () => {
+    renderMap({ bars: SAME_BLOCK });
+
+    expect(screen.getAllByTestId('map-marker')).toHaveLength(2);
+    expect(screen.getByText('2')).toBeTruthy();
+  });
+
+  it('zooms into a cluster when it is tapped', () => {
+    renderMap({ bars: SAME_BLOCK });
+
+    fireEvent.press(screen.getByLabelText('2 bars'));
+
+    expect(mockAnimateToRegion).toHaveBeenCalledTimes(1);
+  });
+
+  it('shows a preview card for the tapped bar that opens its details', () => {
+    const props = renderMap();
+
+    fireEvent.press(screen.getAllByTestId('map-marker')[0]);
+    fireEvent.press(screen.getByText('Bar 1'));
+
+    expect(props.onOpenBar).toHaveBeenCalledWith('1');
+  });
+
+  it('hides the preview when the map background is tapped', () => {
+    renderMap();
+
+    fireEvent.press(screen.getAllByTestId('map-marker')[0]);
+    fireEvent.press(screen.getByTestId('bars-map'), { nativeEvent: { action: 'press' } });
+
+    expect(screen.queryByText('Bar 1')).toBeNull();
+  });
+
+  it('offers "Search this area" once the map has moved and searches the new centre', () => {
+    const props = renderMap();
+    expect(screen.queryByText('Search this area')).toBeNull();
+
+    act(() => {
+      fireEvent(screen.getByTestId('bars-map'), 'regionChangeComplete', {
+        latitude: 42.5,
+        longitude: -71.3,
+        latitudeDelta: 0.05,
+        longitudeDelta: 0.05,
+      });
+    });
+    fireEvent.press(screen.getByText('Search this area'));
+
+    expect(props.onSearchArea).toHaveBeenCalledWith({ lat: 42.5, lon: -71.3 });
+    expect(screen.queryByText('Search this area')).toBeNull();
+  });
+
+  it('shows a searching pill instead of the action while loading', () => {
+    renderMap({ isSearching: true });
+
+    expect(screen.getByText('Searching...')).toBeTruthy();
+  });
+
+  it('lets the user return to bars near them after an area search', () => {
+    const props = renderMap({ isAreaSearch: true });
+
+    fireEvent.press(screen.getByText('Near me'));
+
+    expect(props.onResetArea).toHaveBeenCalledTimes(1);
+    expect(mockAnimateToRegion).toHaveBeenCalled();
+  });
+
+  it('tells the user when there are no bars in the area', () => {
+    renderMap({ bars: [] });
+
+    expect(screen.getByText('No open bars in this area.')).toBeTruthy();
+  });
+});
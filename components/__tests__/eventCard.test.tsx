@@ -9,10 +9,18 @@ import type { Event } from '../../types';
 // Mocks
 // ---------------------------------------------------------------------------
 
-const mockFormatEventTime = jest.fn<string | null, [string?]>(() => '8:00 PM');
+const mockFormatEventTime = jest.fn<string | null, [string?, string?]>(() => '8:00 PM');
+const mockFormatDeviceTimeRangeLabel = jest.fn<string | null, [string?, string?, string?]>(() => null);
 
 jest.mock('../../utils/helpers', () => ({
-  formatEventTime: (time?: string) => mockFormatEventTime(time),
+  formatEventTime: (time?: string, timeZone?: string) => mockFormatEventTime(time, timeZone),
+  formatDeviceTimeRangeLabel: (start?: string, end?: string, timeZone?: string) =>
+    mockFormatDeviceTimeRangeLabel(start, end, timeZone),
+  getDistanceInUnit: jest.requireActual('../../utils/helpers').getDistanceInUnit,
+}));
+
+jest.mock('../../hooks/usePreferences', () => ({
+  usePreferences: () => ({ distanceUnit: 'miles' }),
 }));
 
 jest.mock('@expo/vector-icons', () => ({
@@ -35,6 +43,7 @@ const makeEvent = (overrides: Partial<Event> = {}): Event => ({
 beforeEach(() => {
   jest.clearAllMocks();
   mockFormatEventTime.mockReturnValue('8:00 PM');
+  mockFormatDeviceTimeRangeLabel.mockReturnValue(null);
 });
 
 // ---------------------------------------------------------------------------
@@ -65,6 +74,14 @@ describe('EventCard', () => {
       expect(timeValues.length).toBe(2);
     });
 
+    it("formats times in the venue's time zone and shows the device-local equivalent", () => {
+      mockFormatDeviceTimeRangeLabel.mockReturnValue('Your time: 5:00 PM – 7:00 PM');
+      const event = makeEvent({ start_time: '2026-10-20T20:00:00', timezone: 'America/New_York' });
+      render(<EventCard event={event} />);
+      expect(mockFormatEventTime).toHaveBeenCalledWith('2026-10-20T20:00:00', 'America/New_York');
+      expect(screen.getByText('Your time: 5:00 PM – 7:00 PM')).toBeTruthy();
+    });
+
     it('renders "Time TBD" for start when formatEventTime returns null', () => {
       mockFormatEventTime.mockReturnValue(null);
       render(<EventCard event={makeEvent({ start_time: undefined, end_time: undefined })} />);
@@ -102,9 +119,14 @@ describe('EventCard', () => {
       expect(screen.queryByText(/away/)).toBeNull();
     });
 
-    it('respects a custom distanceUnit', () => {
+    it('respects a custom distanceUnit, converting miles when no km distance was sent', () => {
       render(<EventCard event={makeEvent({ distanceMiles: 2 })} distanceUnit="km" />);
-      expect(screen.getByText(/2.*km.*away/)).toBeTruthy();
+      expect(screen.getByText('3.2 km away')).toBeTruthy();
+    });
+
+    it('prefers the API kilometre distance when showing km', () => {
+      render(<EventCard event={makeEvent({ distanceMiles: 2, distanceKm: 3 })} distanceUnit="km" />);
+      expect(screen.getByText('3 km away')).toBeTruthy();
     });
   });
 
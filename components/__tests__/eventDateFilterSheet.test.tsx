@@ -0,0 +1,119 @@
+// components/__tests__/eventDateFilterSheet.test.tsx
+
+import React from 'react';
+import { fireEvent, render, screen } from '@testing-library/react-native';
+import { EventDateFilterSheet } from '../eventDateFilterSheet';
+
+// ---------------------------------------------------------------------------
+// Mocks
+// ---------------------------------------------------------------------------
+
+jest.mock('../../hooks/usePreferences', () => ({
+  usePreferences: () => ({ timeFormat: '12h' }),
+}));
+
+jest.mock('react-native-safe-area-context', () => ({
+  useSafeAreaInsets: () => ({ top: 0, bottom: 0, left: 0, right: 0 }),
+}));
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const renderSheet = (overrides: Partial<React.ComponentProps<typeof EventDateFilterSheet>> = {}) => {
+  const props: React.ComponentProps<typeof EventDateFilterSheet> = {
+    visible: true,
+    value: null,
+    onApply: jest.fn(),
+    onClose: jest.fn(),
+    theme: 'light',
+    ...overrides,
+  };
+  render(<EventDateFilterSheet {...props} />);
+  return props;
+};
+
+// ---------------------------------------------------------------------------
+// Suite
+// ---------------------------------------------------------------------------
+
+describe('EventDateFilterSheet', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    // Monday 19 October 2026, 6 PM local
+    jest.setSystemTime(new Date(2026, 9, 19, 18, 0));
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('applies today with no time bounds by default', () => {
+    const props = renderSheet();
+
+    fireEvent.press(screen.getByText('Show Events'));
+
+    expect(props.onApply).toHaveBeenCalledWith({
+      preset: 'custom',
+      startDate: '2026-10-19',
+      endDate: '2026-10-19',
+      startsAfter: null,
+      startsBefore: null,
+    });
+    expect(props.onClose).toHaveBeenCalled();
+  });
+
+  it('picks a range with a second, later day', () => {
+    const props = renderSheet();
+
+    fireEvent.press(screen.getByText('Fri 23'));
+    fireEvent.press(screen.getByText('Sun 25'));
+    fireEvent.press(screen.getByText('Show Events'));
+
+    expect(props.onApply).toHaveBeenCalledWith(
+      expect.objectContaining({ startDate: '2026-10-23', endDate: '2026-10-25' })
+    );
+  });
+
+  it('starts over when an earlier day is tapped', () => {
+    const props = renderSheet();
+
+    fireEvent.press(screen.getByText('Fri 23'));
+    fireEvent.press(screen.getByText('Tomorrow'));
+    fireEvent.press(screen.getByText('Show Events'));
+
+    expect(props.onApply).toHaveBeenCalledWith(
+      expect.objectContaining({ startDate: '2026-10-20', endDate: '2026-10-20' })
+    );
+  });
+
+  it('applies time-of-day bounds and disables end times before the start', () => {
+    const props = renderSheet();
+
+    fireEvent.press(screen.getByLabelText('Starts after 9 PM'));
+    expect(screen.getByLabelText('Starts before 8 PM').props.accessibilityState).toMatchObject({ disabled: true });
+    fireEvent.press(screen.getByLabelText('Starts before 11 PM'));
+    fireEvent.press(screen.getByText('Show Events'));
+
+    expect(props.onApply).toHaveBeenCalledWith(
+      expect.objectContaining({ startsAfter: 21 * 60, startsBefore: 23 * 60 })
+    );
+  });
+
+  it('reopens on the current custom range', () => {
+    const props = renderSheet({
+      value: { preset: 'custom', startDate: '2026-10-21', endDate: '2026-10-22', startsAfter: 1260, startsBefore: null },
+    });
+
+    expect(screen.getByLabelText('Starts after 9 PM').props.accessibilityState).toMatchObject({ selected: true });
+    fireEvent.press(screen.getByText('Show Events'));
+
+    expect(props.onApply).toHaveBeenCalledWith({
+      preset: 'custom',
+      startDate: '2026-10-21',
+      endDate: '2026-10-22',
+      startsAfter: 1260,
+      startsBefore: null,
+    });
+  });
+});
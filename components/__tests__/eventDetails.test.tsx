@@ -21,6 +21,10 @@ jest.mock('@/components/ui/icon-symbol', () => ({
   IconSymbol: 'IconSymbol',
 }));
 
+jest.mock('@/hooks/useAppTheme', () => ({
+  useAppTheme: () => ({ theme: 'light' }),
+}));
+
 // ---------------------------------------------------------------------------
 // Helpers
 // ---------------------------------------------------------------------------
@@ -0,0 +1,82 @@
+// components/__tests__/eventReminderSheet.test.tsx
+
+import React from 'react';
+import { fireEvent, render, screen } from '@testing-library/react-native';
+import { EventReminderSheet } from '../eventReminderSheet';
+
+// ---------------------------------------------------------------------------
+// Mocks
+// ---------------------------------------------------------------------------
+
+// Pulled in by utils/reminders; the sheet never touches storage
+jest.mock('@react-native-async-storage/async-storage', () => ({}));
+
+jest.mock('react-native-safe-area-context', () => ({
+  useSafeAreaInsets: () => ({ top: 0, bottom: 0, left: 0, right: 0 }),
+}));
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const renderSheet = (overrides: Partial<React.ComponentProps<typeof EventReminderSheet>> = {}) => {
+  const props: React.ComponentProps<typeof EventReminderSheet> = {
+    visible: true,
+    // 90 minutes after the mocked "now"
+    startsAt: new Date('2026-10-19T21:00:00.000Z'),
+    value: null,
+    onSelect: jest.fn(),
+    onRemove: jest.fn(),
+    onClose: jest.fn(),
+    theme: 'light',
+    ...overrides,
+  };
+  render(<EventReminderSheet {...props} />);
+  return props;
+};
+
+// ---------------------------------------------------------------------------
+// Suite
+// ---------------------------------------------------------------------------
+
+describe('EventReminderSheet', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.setSystemTime(new Date('2026-10-19T19:30:00.000Z'));
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('passes the picked offset', () => {
+    const props = renderSheet();
+
+    fireEvent.press(screen.getByLabelText('Remind me 30 minutes before'));
+
+    expect(props.onSelect).toHaveBeenCalledWith(30);
+  });
+
+  it('disables offsets that would already have passed', () => {
+    const props = renderSheet();
+
+    const tooEarly = screen.getByLabelText('Remind me 2 hours before');
+    expect(tooEarly.props.accessibilityState).toMatchObject({ disabled: true });
+    fireEvent.press(tooEarly);
+    expect(props.onSelect).not.toHaveBeenCalled();
+  });
+
+  it('marks the current reminder and offers to remove it', () => {
+    const props = renderSheet({ value: 60 });
+
+    expect(screen.getByLabelText('Remind me 1 hour before').props.accessibilityState).toMatchObject({ selected: true });
+    fireEvent.press(screen.getByText('Remove reminder'));
+    expect(props.onRemove).toHaveBeenCalled();
+  });
+
+  it('hides removal when no reminder is set', () => {
+    renderSheet();
+
+    expect(screen.queryByText('Remove reminder')).toBeNull();
+  });
+});
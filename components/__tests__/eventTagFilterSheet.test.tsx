@@ -31,6 +31,7 @@ const defaultProps = {
   visible: true,
   tags: [] as EventTag[],
   selectedTagIds: [] as string[],
+  matchMode: 'any' as const,
   onApply: jest.fn(),
   onClose: jest.fn(),
   isLoading: false,
@@ -68,16 +69,16 @@ describe('EventTagFilterSheet', () => {
       expect(screen.getByText('Karaoke')).toBeTruthy();
     });
 
-    it('marks a selected tag with the selected accessibility state', () => {
+    it('marks a selected tag with the checked accessibility state', () => {
       const tags = [makeTag({ id: 't1', name: 'Trivia' })];
       render(<EventTagFilterSheet {...defaultProps} tags={tags} selectedTagIds={['t1']} />);
-      expect(screen.getByRole('radio', { selected: true })).toBeTruthy();
+      expect(screen.getByRole('checkbox', { checked: true })).toBeTruthy();
     });
 
-    it('marks an unselected tag with selected: false', () => {
+    it('marks an unselected tag with checked: false', () => {
       const tags = [makeTag({ id: 't1', name: 'Trivia' })];
       render(<EventTagFilterSheet {...defaultProps} tags={tags} selectedTagIds={[]} />);
-      expect(screen.getByRole('radio', { selected: false })).toBeTruthy();
+      expect(screen.getByRole('checkbox', { checked: false })).toBeTruthy();
     });
   });
 
@@ -130,59 +131,70 @@ describe('EventTagFilterSheet', () => {
     });
   });
 
-  describe('tag selection (single-select)', () => {
-    it('calls onApply with the tapped tag id and then calls onClose', () => {
+  describe('tag selection', () => {
+    const tags = [
+      makeTag({ id: 't1', name: 'Trivia' }),
+      makeTag({ id: 't2', name: 'Karaoke' }),
+    ];
+
+    it('applies every checked tag and then closes', () => {
       const onApply = jest.fn();
       const onClose = jest.fn();
-      const tags = [makeTag({ id: 't1', name: 'Trivia' })];
-      render(
-        <EventTagFilterSheet
-          {...defaultProps}
-          tags={tags}
-          onApply={onApply}
-          onClose={onClose}
-        />
-      );
+      render(<EventTagFilterSheet {...defaultProps} tags={tags} onApply={onApply} onClose={onClose} />);
+
       fireEvent.press(screen.getByText('Trivia'));
-      expect(onApply).toHaveBeenCalledWith(['t1']);
+      fireEvent.press(screen.getByText('Karaoke'));
+      expect(onApply).not.toHaveBeenCalled();
+
+      fireEvent.press(screen.getByText('Apply Filters'));
+      expect(onApply).toHaveBeenCalledWith(['t1', 't2'], 'any');
       expect(onClose).toHaveBeenCalledTimes(1);
     });
 
-    it('deselects the tag (calls onApply with []) when the already-selected tag is tapped', () => {
+    it('unchecks an already-selected tag', () => {
       const onApply = jest.fn();
-      const onClose = jest.fn();
-      const tags = [makeTag({ id: 't1', name: 'Trivia' })];
-      render(
-        <EventTagFilterSheet
-          {...defaultProps}
-          tags={tags}
-          selectedTagIds={['t1']}
-          onApply={onApply}
-          onClose={onClose}
-        />
-      );
+      render(<EventTagFilterSheet {...defaultProps} tags={tags} selectedTagIds={['t1', 't2']} onApply={onApply} />);
+
       fireEvent.press(screen.getByText('Trivia'));
-      expect(onApply).toHaveBeenCalledWith([]);
-      expect(onClose).toHaveBeenCalledTimes(1);
+      fireEvent.press(screen.getByText('Apply Filters'));
+
+      expect(onApply).toHaveBeenCalledWith(['t2'], 'any');
     });
 
-    it('replaces the current selection when a different tag is tapped', () => {
+    it('clears the selection with Clear All', () => {
       const onApply = jest.fn();
-      const tags = [
-        makeTag({ id: 't1', name: 'Trivia' }),
-        makeTag({ id: 't2', name: 'Karaoke' }),
-      ];
-      render(
-        <EventTagFilterSheet
-          {...defaultProps}
-          tags={tags}
-          selectedTagIds={['t1']}
-          onApply={onApply}
-          onClose={jest.fn()}
-        />
-      );
+      render(<EventTagFilterSheet {...defaultProps} tags={tags} selectedTagIds={['t1']} onApply={onApply} />);
+
+      fireEvent.press(screen.getByText('Clear All'));
+      fireEvent.press(screen.getByText('Apply Filters'));
+
+      expect(onApply).toHaveBeenCalledWith([], 'any');
+    });
+  });
+
+  describe('match mode', () => {
+    const tags = [
+      makeTag({ id: 't1', name: 'Trivia' }),
+      makeTag({ id: 't2', name: 'Karaoke' }),
+    ];
+
+    it('hides the any/all toggle until several tags are checked', () => {
+      render(<EventTagFilterSheet {...defaultProps} tags={tags} selectedTagIds={['t1']} />);
+      expect(screen.queryByText('All tags')).toBeNull();
+
       fireEvent.press(screen.getByText('Karaoke'));
-      expect(onApply).toHaveBeenCalledWith(['t2']);
+      expect(screen.getByText('All tags')).toBeTruthy();
+    });
+
+    it('marks the current mode and applies the chosen one', () => {
+      const onApply = jest.fn();
+      render(<EventTagFilterSheet {...defaultProps} tags={tags} selectedTagIds={['t1', 't2']} onApply={onApply} />);
+
+      expect(screen.getByLabelText('Match any tag').props.accessibilityState).toMatchObject({ selected: true });
+      fireEvent.press(screen.getByLabelText('Match all tags'));
+      fireEvent.press(screen.getByText('Apply Filters'));
+
+      expect(onApply).toHaveBeenCalledWith(['t1', 't2'], 'all');
     });
   });
 
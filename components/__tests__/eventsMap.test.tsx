@@ -0,0 +1,147 @@
+// components/__tests__/eventsMap.test.tsx
+
+import React from 'react';
+import { fireEvent, render, screen } from '@testing-library/react-native';
+import { EventsMap } from '../eventsMap';
+import type { Event } from '../../types';
+
+// ---------------------------------------------------------------------------
+// Mocks
+// ---------------------------------------------------------------------------
+
+const mockAnimateToRegion = jest.fn();
+
+jest.mock('react-native-maps', () => {
+  const { forwardRef, useImperativeHandle } = jest.requireActual('react');
+  const { View } = jest.requireActual('react-native');
+  const MapView = forwardRef(function MockMapView(props: object, ref: React.Ref<unknown>) {
+    useImperativeHandle(ref, () => ({ animateToRegion: mockAnimateToRegion }));
+    return <View {...props} />;
+  });
+  const Marker = (props: object) => <View testID="map-marker" {...props} />;
+  const Circle = (props: object) => <View testID="map-circle" {...props} />;
+  return { __esModule: true, default: MapView, Marker, Circle };
+});
+
+jest.mock('react-native-safe-area-context', () => ({
+  useSafeAreaInsets: () => ({ top: 0, bottom: 0, left: 0, right: 0 }),
+}));
+
+jest.mock('../../hooks/usePreferences', () => ({
+  usePreferences: () => ({ timeFormat: '12h' }),
+}));
+
+jest.mock('@expo/vector-icons', () => ({
+  FontAwesome: 'FontAwesome',
+  MaterialIcons: 'MaterialIcons',
+}));
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const makeEvent = (instance_id: string, overrides: Partial<Event> = {}): Event => ({
+  instance_id,
+  title: `Event ${instance_id}`,
+  bar_id: 'bar-1',
+  bar_name: 'The Local',
+  address_city: 'Boston',
+  address_state: 'MA',
+  latitude: 42.33,
+  longitude: -71.09,
+  start_time: '2026-10-20T20:00:00',
+  ...overrides,
+});
+
+const EVENTS = [
+  makeEvent('1', { title: 'Trivia' }),
+  makeEvent('2', { title: 'Karaoke', start_time: '2026-10-21T21:00:00' }),
+  makeEvent('3', { bar_id: 'bar-2', bar_name: 'Corner Pub', latitude: 42.37, longitude: -71.03 }),
+];
+
+const renderMap = (overrides: Partial<React.ComponentProps<typeof EventsMap>> = {}) => {
+  const props: React.ComponentProps<typeof EventsMap> = {
+    events: EVENTS,
+    center: { lat: 42.35, lon: -71.06 },
+    searchRadius: 5,
+    theme: 'dark',
+    onOpenEvent: jest.fn(),
+    onOpenBar: jest.fn(),
+    ...overrides,
+  };
+  const utils = render(<EventsMap {...props} />);
+  return { props, ...utils };
+};
+
+// ---------------------------------------------------------------------------
+// Suite
+// ---------------------------------------------------------------------------
+
+describe('EventsMap', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('plots one marker per bar with its upcoming count', () => {
+    renderMap();
+
+    expect(screen.getAllByTestId('map-marker')).toHaveLength(2);
+    expect(screen.getByLabelText('The Local, 2 upcoming')).toBeTruthy();
+    expect(screen.getByLabelText('Corner Pub, 1 upcoming')).toBeTruthy();
+  });
+
+  it('draws the search radius around the centre in meters', () => {
+    renderMap();
+
+    const circle = screen.getByTestId('map-circle');
+    expect(circle.props.center).toEqual({ latitude: 42.35, longitude: -71.06 });
+    expect(circle.props.radius).toBeCloseTo(5 * 1609.344);
+  });
+
+  it("opens a sheet listing the bar's instances and opens the tapped one", () => {
+    const { props } = renderMap();
+
+    fireEvent.press(screen.getByLabelText('The Local, 2 upcoming'));
+
+    expect(screen.getByText('Boston, MA · 2 upcoming')).toBeTruthy();
+    expect(screen.getByText('Trivia')).toBeTruthy();
+    expect(screen.getByText('Karaoke')).toBeTruthy();
+
+    fireEvent.press(screen.getByLabelText('Karaoke'));
+
+    expect(props.onOpenEvent).toHaveBeenCalledWith(expect.objectContaining({ instance_id: '2' }));
+    expect(screen.queryByText('Trivia')).toBeNull();
+  });
+
+  it('opens the bar from the sheet', () => {
+    const { props } = renderMap();
+
+    fireEvent.press(screen.getByLabelText('Corner Pub, 1 upcoming'));
+    fireEvent.press(screen.getByText('View bar'));
+
+    expect(props.onOpenBar).toHaveBeenCalledWith('bar-2');
+  });
+
+  it('refits the camera when the radius changes', () => {
+    const { props, rerender } = renderMap();
+    expect(mockAnimateToRegion).not.toHaveBeenCalled();
+
+    rerender(<EventsMap {...props} searchRadius={10} />);
+
+    expect(mockAnimateToRegion).toHaveBeenCalledTimes(1);
+    expect(screen.getByTestId('map-circle').props.radius).toBeCloseTo(10 * 1609.344);
+  });
+
+  it('tells the user when nothing is within the radius', () => {
+    renderMap({ events: [] });
+
+    expect(screen.getByText('No upcoming events within 5 miles.')).toBeTruthy();
+  });
+
+  it('sizes the radius and the empty notice in kilometres', () => {
+    renderMap({ events: [], searchRadius: 10, distanceUnit: 'km' });
+
+    expect(screen.getByTestId('map-circle').props.radius).toBe(10_000);
+    expect(screen.getByText('No upcoming events within 10 kilometers.')).toBeTruthy();
+  });
+});
@@ -118,4 +118,18 @@ describe('RadiusSelector', () => {
       expect(screen.UNSAFE_getByProps({ accessibilityLabel: '10 miles' })).toBeTruthy();
     });
   });
+
+  describe('kilometres', () => {
+    it('labels the radius and lists the km options', () => {
+      render(<RadiusSelector {...defaultProps} value={10} unit="km" />);
+      expect(screen.getByText('Radius: 10 km')).toBeTruthy();
+
+      fireEvent.press(screen.UNSAFE_getByProps({ accessibilityLabel: 'Search radius: 10 km. Tap to change.' }));
+
+      ['2', '5', '10', '15'].forEach((option) => {
+        expect(screen.getByText(`${option} kilometers`)).toBeTruthy();
+      });
+      expect(screen.queryByText('3 kilometers')).toBeNull();
+    });
+  });
 });
@@ -92,6 +92,13 @@ describe('SearchResultCard', () => {
       ).toBeTruthy();
     });
 
+    it('names the list the bar is removed from', () => {
+      render(<SearchResultCard {...defaultProps} onRemove={jest.fn()} removeFrom="favorites" />);
+      expect(
+        screen.UNSAFE_getByProps({ accessibilityLabel: 'Remove The Crown from favorites' })
+      ).toBeTruthy();
+    });
+
     it('calls onRemove when the remove button is pressed', () => {
       const onRemove = jest.fn();
       render(<SearchResultCard {...defaultProps} onRemove={onRemove} />);
@@ -112,6 +119,34 @@ describe('SearchResultCard', () => {
     });
   });
 
+  describe('match reason', () => {
+    it('highlights the matched part of the name', () => {
+      const bar: searchBar = { ...mockBar, match: { field: 'name', text: 'The Crown', start: 4, end: 9 } };
+      render(<SearchResultCard {...defaultProps} bar={bar} />);
+      expect(screen.getByText('Crown')).toBeTruthy();
+      expect(screen.queryByText(/^Name:/)).toBeNull();
+    });
+
+    it('shows the matched tag', () => {
+      const bar: searchBar = { ...mockBar, match: { field: 'tag', text: 'Rooftop', start: 0, end: 4 } };
+      render(<SearchResultCard {...defaultProps} bar={bar} />);
+      expect(screen.getByText('Roof')).toBeTruthy();
+      expect(screen.UNSAFE_getByProps({ accessibilityLabel: 'Matched tag Rooftop' })).toBeTruthy();
+    });
+
+    it('shows a matched address field with its label', () => {
+      const bar: searchBar = { ...mockBar, address_zip: '02116', match: { field: 'zip', text: '02116', start: 0, end: 5 } };
+      render(<SearchResultCard {...defaultProps} bar={bar} />);
+      expect(screen.getByText('Zip: 02116')).toBeTruthy();
+      expect(screen.UNSAFE_getByProps({ accessibilityLabel: 'Matched zip 02116' })).toBeTruthy();
+    });
+
+    it('shows no reason without a match', () => {
+      render(<SearchResultCard {...defaultProps} />);
+      expect(screen.UNSAFE_queryAllByProps({ accessibilityLabel: 'Matched tag Rooftop' })).toHaveLength(0);
+    });
+  });
+
   describe('press behaviour', () => {
     it('calls onPress when the card is pressed', () => {
       const onPress = jest.fn();
@@ -0,0 +1,138 @@
+// components/appLockScreen.tsx
+// Full-screen lock shown over the whole app until the biometric / passcode check passes
+
+import { Colors } from '@/constants/theme';
+import { Lock } from 'lucide-react-native';
+import React, { useCallback, useEffect, useState } from 'react';
+import { ActivityIndicator, BackHandler, Image, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import type { ThemeName } from '../types';
+
+type AppLockScreenProps = {
+  theme: ThemeName;
+  onUnlock: () => Promise<{ success: boolean; message?: string }>;
+  onSignOut: () => void;
+};
+
+export const AppLockScreen = ({ theme, onUnlock, onSignOut }: AppLockScreenProps) => {
+  const palette = Colors[theme];
+  const [isUnlocking, setIsUnlocking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleUnlock = useCallback(async () => {
+    setIsUnlocking(true);
+    setError(null);
+    try {
+      const result = await onUnlock();
+      if (!result.success && result.message) {
+        setError(result.message);
+      }
+    } finally {
+      setIsUnlocking(false);
+    }
+  }, [onUnlock]);
+
+  // Prompt straight away so unlocking is a single glance or touch
+  useEffect(() => {
+    handleUnlock();
+  }, [handleUnlock]);
+
+  // Android back would pop the screen hidden underneath
+  useEffect(() => {
+    const subscription = BackHandler.addEventListener('hardwareBackPress', () => true);
+    return () => subscription.remove();
+  }, []);
+
+  return (
+    <View style={[styles.container, { backgroundColor: palette.background }]}>
+      <Image source={require('../assets/images/logo.png')} style={styles.logo} resizeMode="contain" />
+      <View style={styles.titleRow}>
+        <Lock size={20} color={palette.text} />
+        <Text style={[styles.title, { color: palette.text }]}>To The Pub is locked</Text>
+      </View>
+      <Text style={[styles.description, { color: palette.cardSubtitle }]}>
+        Use Face ID, fingerprint or your device passcode to continue.
+      </Text>
+
+      {error ? (
+        <Text style={[styles.errorText, { color: palette.networkErrorText }]}>{error}</Text>
+      ) : null}
+
+      <TouchableOpacity
+        onPress={handleUnlock}
+        disabled={isUnlocking}
+        activeOpacity={0.9}
+        style={[styles.primaryButton, { backgroundColor: palette.loginPrimaryButton, opacity: isUnlocking ? 0.7 : 1 }]}
+      >
+        {isUnlocking ? (
+          <ActivityIndicator color={palette.loginPrimaryButtonText} />
+        ) : (
+          <Text style={[styles.primaryButtonText, { color: palette.loginPrimaryButtonText }]}>Unlock</Text>
+        )}
+      </TouchableOpacity>
+
+      <TouchableOpacity
+        onPress={onSignOut}
+        disabled={isUnlocking}
+        style={[styles.secondaryButton, { borderColor: palette.border }]}
+        activeOpacity={0.85}
+      >
+        <Text style={[styles.secondaryButtonText, { color: palette.cardSubtitle }]}>Sign out instead</Text>
+      </TouchableOpacity>
+    </View>
+  );
+};
+
+export default AppLockScreen;
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    justifyContent: 'center',
+    paddingHorizontal: 24,
+    gap: 16,
+  },
+  logo: {
+    height: 150,
+    width: '100%',
+    alignSelf: 'center',
+  },
+  titleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+  },
+  title: {
+    fontSize: 22,
+    fontWeight: '700',
+  },
+  description: {
+    fontSize: 15,
+    lineHeight: 20,
+    textAlign: 'center',
+  },
+  errorText: {
+    fontSize: 14,
+    fontWeight: '600',
+    textAlign: 'center',
+  },
+  primaryButton: {
+    borderRadius: 999,
+    paddingVertical: 16,
+    alignItems: 'center',
+  },
+  primaryButtonText: {
+    fontSize: 16,
+    fontWeight: '700',
+  },
+  secondaryButton: {
+    borderRadius: 999,
+    borderWidth: 1,
+    paddingVertical: 14,
+    alignItems: 'center',
+  },
+  secondaryButtonText: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+});
@@ -1,26 +1,30 @@
 // Import necessary modules and types
 import { Colors } from '@/constants/theme';
 import { FontAwesome, MaterialIcons } from '@expo/vector-icons';
-import React from 'react';
-import { StyleSheet, Text, TouchableOpacity, View, useColorScheme } from 'react-native';
+import React, { useMemo } from 'react';
+import { StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { useAppTheme } from '../hooks/useAppTheme';
+import { usePreferences } from '../hooks/usePreferences';
+import { FavoriteButton } from './favoriteButton';
 import type { BarCardProps } from '../types';
-import { formatCityAddress, formatDistanceLabel, openExternalLink, toSocialUrl } from '../utils/helpers';
+import { formatCityAddress, formatDistanceLabel, getDistanceInUnit, openExternalLink, toSocialUrl } from '../utils/helpers';
+import { formatClosesAtLabel, getOpenStatusLabel } from '../utils/Timeformatters';
 
 
-export const BarCard = ({ bar, onPress }: BarCardProps) => {
-  const theme  = useColorScheme() ?? 'dark';
+export const BarCard = ({ bar, onPress, referenceTime = null }: BarCardProps) => {
+  const { theme } = useAppTheme();
   const palette = Colors[theme];
+  const { distanceUnit, timeFormat } = usePreferences();
 
-  const distanceLabel = formatDistanceLabel(bar.distance_miles);
+  const distanceLabel = formatDistanceLabel(getDistanceInUnit(bar.distance_miles, bar.distance_km, distanceUnit), distanceUnit);
   const addressLabel = formatCityAddress(bar.address_city, bar.address_state);
-  const closingLabel = (() => {
-    if (!bar.closes_at) return null;
-    const [h, m] = bar.closes_at.split(':').map(Number);
-    if (isNaN(h) || isNaN(m)) return null;
-    const d = new Date();
-    d.setHours(h, m, 0, 0);
-    return d.toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' });
-  })();
+  // Prefer the live status from the weekly hours; fall back to the closing time the list API sends
+  const statusLabel = useMemo(() => {
+    const at = referenceTime ?? new Date();
+    const fromHours = getOpenStatusLabel(bar.hours, at, bar.timezone, timeFormat);
+    if (fromHours) return fromHours;
+    return formatClosesAtLabel(bar.closes_at, at, bar.timezone, timeFormat);
+  }, [bar.closes_at, bar.hours, bar.timezone, referenceTime, timeFormat]);
 
   return (
     <TouchableOpacity
@@ -33,6 +37,7 @@ export const BarCard = ({ bar, onPress }: BarCardProps) => {
         <Text style={[styles.barName, { color: palette.cardTitle }]} numberOfLines={1}>
           {bar.name}
         </Text>
+        <FavoriteButton bar={bar} theme={theme} />
       </View>
 
       <View>
@@ -41,7 +46,7 @@ export const BarCard = ({ bar, onPress }: BarCardProps) => {
         </Text>
       </View>
 
-      {(distanceLabel || closingLabel) ? (
+      {(distanceLabel || statusLabel) ? (
         <View style={styles.distanceDetailRow}>
           <MaterialIcons
             name="location-on"
@@ -50,7 +55,7 @@ export const BarCard = ({ bar, onPress }: BarCardProps) => {
             style={{ marginRight: 4 }}
           />
           <Text style={[styles.distanceDetail, { color: palette.cardText }]}>
-            {[distanceLabel, closingLabel ? `Closes ${closingLabel}` : null].filter(Boolean).join(' · ')}
+            {[distanceLabel, statusLabel].filter(Boolean).join(' · ')}
           </Text>
         </View>
       ) : null}
@@ -124,9 +129,13 @@ const styles = StyleSheet.create({
     elevation: 3,
   },
   cardHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
     marginBottom: 6,
   },
   barName: {
+    flex: 1,
     fontSize: 20,
     fontWeight: '700',
   },
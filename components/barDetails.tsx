@@ -10,13 +10,17 @@ import {
 	StyleSheet,
 	Text,
 	TouchableOpacity,
-	useColorScheme,
 	View,
 } from 'react-native';
 import MapView, { Marker, Region } from 'react-native-maps';
-import { Bar, BarHours } from '../types/index';
+import { useAppTheme } from '../hooks/useAppTheme';
+import { usePreferences } from '../hooks/usePreferences';
+import { Bar, BarHours, TimeFormat } from '../types/index';
 import { HERO_MAP_DELTA } from '../utils/constants';
 import { openExternal, openPhone, toSocialUrl } from '../utils/helpers';
+import { formatOpenStatusLabel, getBarOpenStatus, getClockFormatOptions } from '../utils/Timeformatters';
+import { differsFromDeviceTime, formatTimeZoneName } from '../utils/timeZones';
+import { FavoriteButton } from './favoriteButton';
 
 export type ContactAction = {
 	key: string;
@@ -45,7 +49,7 @@ const HERO_MAP_STYLE = [
 const DAY_ABBREVIATIONS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
 
 
-const formatHourToken = (value?: string | null) => {
+const formatHourToken = (value: string | null | undefined, timeFormat: TimeFormat) => {
 	if (!value || typeof value !== 'string') {
 		return null;
 	}
@@ -53,10 +57,7 @@ const formatHourToken = (value?: string | null) => {
 	const [hourPart, minutePart] = normalized.split(':');
 	const date = new Date();
 	date.setHours(Number(hourPart) || 0, Number(minutePart) || 0, 0, 0);
-	return new Intl.DateTimeFormat('en-US', {
-		hour: 'numeric',
-		minute: '2-digit',
-	}).format(date);
+	return new Intl.DateTimeFormat('en-US', getClockFormatOptions(timeFormat)).format(date);
 };
 
 const buildAddressLabel = (bar?: Bar | null) => {
@@ -178,12 +179,12 @@ type GroupedHoursRow = {
 	days: number[];
 };
 
-const createHourValueLabel = (hour: BarHours) => {
+const createHourValueLabel = (hour: BarHours, timeFormat: TimeFormat) => {
 	if (hour.is_closed) {
 		return 'Closed';
 	}
-	const openLabel = formatHourToken(hour.open_time);
-	const closeLabel = formatHourToken(hour.close_time);
+	const openLabel = formatHourToken(hour.open_time, timeFormat);
+	const closeLabel = formatHourToken(hour.close_time, timeFormat);
 	if (openLabel && closeLabel) {
 		return `${openLabel} - ${closeLabel}`;
 	}
@@ -229,13 +230,13 @@ const buildDayLabel = (days: number[]) => {
 	return ranges.map(formatRange).join(', ');
 };
 
-const groupHoursBySchedule = (hours?: BarHours[]): GroupedHoursRow[] => {
+const groupHoursBySchedule = (hours: BarHours[] | undefined, timeFormat: TimeFormat): GroupedHoursRow[] => {
 	if (!hours || hours.length === 0) {
 		return [];
 	}
 	const map = new Map<string, number[]>();
 	hours.forEach((hour) => {
-		const valueLabel = createHourValueLabel(hour);
+		const valueLabel = createHourValueLabel(hour, timeFormat);
 		const existing = map.get(valueLabel) ?? [];
 		map.set(valueLabel, [...existing, hour.day_of_week]);
 	});
@@ -256,15 +257,36 @@ export default function BarDetails({
 	onViewUpcomingEvents,
 	onPressOpenMap,
 }: BarsProps) {
-	const theme = useColorScheme() ?? 'dark';
+	const { theme } = useAppTheme();
 	const palette = Colors[theme];
+	const { timeFormat } = usePreferences();
 
 	const styles = useMemo(() => createStyles(palette), [palette]);
 	const addressLabel = useMemo(() => buildAddressLabel(bar), [bar]);
 	const coordinates = useMemo(() => computeCoordinates(bar), [bar]);
 	const heroRegion = useMemo<Region | null>(() => createHeroRegion(coordinates), [coordinates]);
-	const groupedHours = useMemo(() => groupHoursBySchedule(bar?.hours), [bar?.hours]);
-	const todayIndex = useMemo(() => new Date().getDay(), []);
+	const groupedHours = useMemo(() => groupHoursBySchedule(bar?.hours, timeFormat), [bar?.hours, timeFormat]);
+	// Live status; after midnight an overnight span keeps yesterday's row highlighted until it closes
+	const openStatus = useMemo(
+		() => (bar?.hours?.length ? getBarOpenStatus(bar.hours, new Date(), bar.timezone) : null),
+		[bar?.hours, bar?.timezone],
+	);
+	const openStatusLabel = useMemo(() => {
+		if (!openStatus) return null;
+		const label = formatOpenStatusLabel(openStatus, new Date(), bar?.timezone, timeFormat);
+		if (openStatus.isOpen) return openStatus.isClosingSoon ? `Open · ${label}` : label;
+		// With no opening in the coming week the hours table already says it all
+		return openStatus.opensAt ? `Closed · ${label}` : null;
+	}, [openStatus, bar?.timezone, timeFormat]);
+	// Hours are listed on the bar's clock; say so when that isn't the device's
+	const hoursZoneNote = useMemo(
+		() =>
+			bar?.timezone && differsFromDeviceTime(bar.timezone)
+				? `Hours in ${formatTimeZoneName(bar.timezone)}, the bar's local time`
+				: null,
+		[bar?.timezone],
+	);
+	const todayIndex = openStatus?.dayOfWeek ?? new Date().getDay();
 	const contactActions = useMemo(() => buildContactActions(bar), [bar]);
 	const socialActions = useMemo(() => buildSocialActions(bar), [bar]);
 	const typeTags = useMemo(
@@ -356,7 +378,26 @@ export default function BarDetails({
 							<Text style={[styles.typeValue, { color: palette.cardSubtitle }]}>{typeTags.map((tag) => tag.name).join(' · ')}</Text>
 						</View>
 					) : null}
-					<Text style={[styles.eventTitle, { color: palette.cardTitle }]}>{bar.name}</Text>
+					<View style={styles.titleRow}>
+						<Text style={[styles.eventTitle, { color: palette.cardTitle }]}>{bar.name}</Text>
+						<FavoriteButton bar={bar} theme={theme} size={28} />
+					</View>
+					{openStatus && openStatusLabel ? (
+						<Text
+							style={[
+								styles.openStatus,
+								{
+									color: !openStatus.isOpen
+										? palette.cardSubtitle
+										: openStatus.isClosingSoon
+											? palette.warningBorder
+											: palette.successText,
+								},
+							]}
+						>
+							{openStatusLabel}
+						</Text>
+					) : null}
 					{bar.description ? (
 						<Text style={[styles.sectionValue, { color: palette.cardSubtitle }]}>
 							{bar.description}
@@ -420,6 +461,9 @@ export default function BarDetails({
 								</View>
 							);
 						})}
+						{hoursZoneNote ? (
+							<Text style={[styles.hoursZoneNote, { color: palette.cardSubtitle }]}>{hoursZoneNote}</Text>
+						) : null}
 					</View>
 				) : null}
 
@@ -525,11 +569,22 @@ const createStyles = (palette: typeof Colors[keyof typeof Colors]) => StyleSheet
 		flexShrink: 1,
 		marginBottom: 4,
 	},
+	titleRow: {
+		flexDirection: 'row',
+		alignItems: 'flex-start',
+		gap: 12,
+	},
 	eventTitle: {
+		flex: 1,
 		fontSize: 30,
 		fontWeight: '900',
 		marginBottom: 4,
 	},
+	openStatus: {
+		fontSize: 16,
+		fontWeight: '700',
+		marginBottom: 8,
+	},
 
 	// Address
 	addressBlock: {
@@ -607,6 +662,10 @@ const createStyles = (palette: typeof Colors[keyof typeof Colors]) => StyleSheet
 		fontSize: 14,
 		fontWeight: '600',
 	},
+	hoursZoneNote: {
+		fontSize: 13,
+		marginTop: 8,
+	},
 	hourRow: {
 		flexDirection: 'row',
 		justifyContent: 'space-between',
@@ -20,8 +20,16 @@ export const BarsEmptyState = ({ theme }: { theme: ThemeName }) => {
   );
 };
 
-// Error banner
-export const ErrorBanner = ({ message, theme }: { message: string; theme: ThemeName }) => {
+// Error banner; while offline the raw request error is replaced with an offline notice
+export const ErrorBanner = ({
+  message,
+  theme,
+  isOffline = false,
+}: {
+  message: string;
+  theme: ThemeName;
+  isOffline?: boolean;
+}) => {
   const palette = Colors[theme];
 
   return (
@@ -35,8 +43,12 @@ export const ErrorBanner = ({ message, theme }: { message: string; theme: ThemeN
         },
       ]}
     >
-      <Text style={[styles.errorBannerTitle, { color: palette.warningText }]}>Unable to refresh</Text>
-      <Text style={[styles.errorBannerMessage, { color: palette.warningText }]}>{message}</Text>
+      <Text style={[styles.errorBannerTitle, { color: palette.warningText }]}>
+        {isOffline ? "You're offline" : 'Unable to refresh'}
+      </Text>
+      <Text style={[styles.errorBannerMessage, { color: palette.warningText }]}>
+        {isOffline ? "Showing the last results we loaded. We'll refresh them when you're back online." : message}
+      </Text>
     </View>
   );
 };
@@ -0,0 +1,156 @@
+// components/barSortSelector.tsx
+// Dropdown for the bars list sort order, anchored under its button like RadiusSelector
+
+import { MaterialIcons } from '@expo/vector-icons';
+import React, { useCallback, useRef, useState } from 'react';
+import {
+  Modal,
+  Pressable,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { Colors } from '../constants/theme';
+import type { BarSortOption, ThemeName } from '../types';
+import { BAR_SORT_OPTIONS } from '../utils/constants';
+
+type BarSortSelectorProps = {
+  value: BarSortOption;
+  onChange: (value: BarSortOption) => void;
+  theme: ThemeName;
+};
+
+export const BarSortSelector = ({ value, onChange, theme }: BarSortSelectorProps) => {
+  const [isPickerVisible, setPickerVisible] = useState(false);
+  const [dropdownTop, setDropdownTop] = useState(0);
+  const [dropdownLeft, setDropdownLeft] = useState(0);
+  const buttonRef = useRef<View>(null);
+  const palette = Colors[theme];
+
+  const currentLabel = BAR_SORT_OPTIONS.find((option) => option.value === value)?.label ?? BAR_SORT_OPTIONS[0].label;
+
+  const handleSelect = useCallback(
+    (next: BarSortOption) => {
+      setPickerVisible(false);
+      if (next !== value) {
+        onChange(next);
+      }
+    },
+    [onChange, value]
+  );
+
+  const handleOpen = useCallback(() => {
+    buttonRef.current?.measureInWindow((x, y, _width, height) => {
+      setDropdownTop(y + height + 6);
+      setDropdownLeft(x);
+      setPickerVisible(true);
+    });
+  }, []);
+
+  return (
+    <View ref={buttonRef} style={styles.sortPickerContainer}>
+      <TouchableOpacity
+        style={[styles.sortPickerButton, { borderColor: palette.filterActivePill, backgroundColor: palette.cardSurface }]}
+        onPress={isPickerVisible ? () => setPickerVisible(false) : handleOpen}
+        activeOpacity={0.85}
+        accessibilityLabel={`Sort bars: ${currentLabel}. Tap to change.`}
+        accessibilityRole="button"
+      >
+        <MaterialIcons name="sort" size={18} color={palette.filterActivePill} />
+        <Text style={[styles.sortPickerValue, { color: palette.filterActivePill }]}>Sort: {currentLabel}</Text>
+        <MaterialIcons name={isPickerVisible ? 'arrow-drop-up' : 'arrow-drop-down'} size={22} color={palette.cardTitle} />
+      </TouchableOpacity>
+
+      <Modal visible={isPickerVisible} transparent animationType="none" onRequestClose={() => setPickerVisible(false)}>
+        <Pressable
+          style={styles.sortModalBackdrop}
+          onPress={() => setPickerVisible(false)}
+          accessibilityRole="button"
+          accessibilityLabel="Close sort options"
+        >
+          <View
+            style={[
+              styles.sortPickerDropdown,
+              { top: dropdownTop, left: dropdownLeft, backgroundColor: palette.container, borderColor: palette.border },
+            ]}
+          >
+            {BAR_SORT_OPTIONS.map((option) => {
+              const isSelected = option.value === value;
+              return (
+                <TouchableOpacity
+                  key={option.value}
+                  style={styles.sortPickerOption}
+                  onPress={() => handleSelect(option.value)}
+                  accessibilityLabel={`Sort by ${option.label}`}
+                  accessibilityRole="button"
+                  accessibilityState={{ selected: isSelected }}
+                >
+                  <Text
+                    style={[
+                      styles.sortPickerOptionText,
+                      { color: isSelected ? palette.filterActivePill : palette.cardSubtitle },
+                    ]}
+                  >
+                    {option.label}
+                  </Text>
+                  {isSelected ? <MaterialIcons name="check" size={18} color={palette.filterActivePill} /> : null}
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+        </Pressable>
+      </Modal>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  sortPickerContainer: {
+    position: 'relative',
+    alignSelf: 'flex-start',
+    zIndex: 20,
+    elevation: 20,
+  },
+  sortPickerButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderWidth: 1,
+    borderRadius: 999,
+    paddingLeft: 12,
+    paddingRight: 6,
+    paddingVertical: 8,
+    gap: 6,
+  },
+  sortPickerValue: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  sortModalBackdrop: {
+    flex: 1,
+  },
+  sortPickerDropdown: {
+    position: 'absolute',
+    minWidth: 200,
+    borderRadius: 12,
+    borderWidth: 1,
+    paddingVertical: 6,
+    shadowColor: '#000',
+    shadowOpacity: 0.18,
+    shadowRadius: 12,
+    shadowOffset: { width: 0, height: 6 },
+    elevation: 22,
+  },
+  sortPickerOption: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: 12,
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+  },
+  sortPickerOptionText: {
+    fontSize: 15,
+    fontWeight: '700',
+  },
+});
@@ -0,0 +1,307 @@
+// components/barTimePickerSheet.tsx
+// Bottom sheet for "plan for later": pick a day and time to list bars open then
+
+import { Colors } from '@/constants/theme';
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  Modal,
+  Pressable,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { usePreferences } from '../hooks/usePreferences';
+import type { BarTimePickerSheetProps } from '../types';
+import { PLAN_AHEAD_DAYS, PLAN_TIME_SLOT_CONFIG } from '../utils/constants';
+import { formatShortTime } from '../utils/Timeformatters';
+
+const TIME_SLOTS: number[] = [];
+for (
+  let minutes = PLAN_TIME_SLOT_CONFIG.firstSlotMinutes;
+  minutes <= PLAN_TIME_SLOT_CONFIG.lastSlotMinutes;
+  minutes += PLAN_TIME_SLOT_CONFIG.stepMinutes
+) {
+  TIME_SLOTS.push(minutes);
+}
+
+// Slots past midnight roll into the next calendar day
+const getSlotDate = (day: Date, minutes: number): Date =>
+  new Date(day.getFullYear(), day.getMonth(), day.getDate(), 0, minutes);
+
+const getDayOptions = (now: Date): Date[] =>
+  Array.from(
+    { length: PLAN_AHEAD_DAYS },
+    (_, offset) => new Date(now.getFullYear(), now.getMonth(), now.getDate() + offset)
+  );
+
+const formatDayOption = (day: Date, offset: number): string => {
+  if (offset === 0) return 'Today';
+  if (offset === 1) return 'Tomorrow';
+  return `${new Intl.DateTimeFormat('en-US', { weekday: 'short' }).format(day)} ${day.getDate()}`;
+};
+
+// Day and slot of a planned time, or the first day with nothing picked
+const findSelection = (days: Date[], value: Date | null): { dayIndex: number; minutes: number | null } => {
+  if (value) {
+    for (let dayIndex = 0; dayIndex < days.length; dayIndex += 1) {
+      const minutes = TIME_SLOTS.find((slot) => getSlotDate(days[dayIndex], slot).getTime() === value.getTime());
+      if (minutes !== undefined) {
+        return { dayIndex, minutes };
+      }
+    }
+  }
+  return { dayIndex: 0, minutes: null };
+};
+
+export const BarTimePickerSheet = ({ visible, value, onApply, onClose, theme }: BarTimePickerSheetProps) => {
+  const palette = Colors[theme];
+  const highlightColor = palette.filterActivePill;
+  const insets = useSafeAreaInsets();
+  const { timeFormat } = usePreferences();
+  const [now, setNow] = useState(() => new Date());
+  const [draftDayIndex, setDraftDayIndex] = useState(0);
+  const [draftMinutes, setDraftMinutes] = useState<number | null>(null);
+
+  const days = useMemo(() => getDayOptions(now), [now]);
+
+  useEffect(() => {
+    if (visible) {
+      const openedAt = new Date();
+      const selection = findSelection(getDayOptions(openedAt), value);
+      setNow(openedAt);
+      setDraftDayIndex(selection.dayIndex);
+      setDraftMinutes(selection.minutes);
+    }
+  }, [visible, value]);
+
+  const handleSelectDay = useCallback((dayIndex: number) => {
+    setDraftDayIndex(dayIndex);
+    setDraftMinutes(null);
+  }, []);
+
+  const handleApply = useCallback(() => {
+    if (draftMinutes === null) return;
+    onApply(getSlotDate(days[draftDayIndex], draftMinutes));
+    onClose();
+  }, [days, draftDayIndex, draftMinutes, onApply, onClose]);
+
+  const handleReset = useCallback(() => {
+    onApply(null);
+    onClose();
+  }, [onApply, onClose]);
+
+  const selectedDay = days[draftDayIndex];
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="fade"
+      transparent
+      statusBarTranslucent
+      presentationStyle="overFullScreen"
+      onRequestClose={onClose}
+    >
+      <Pressable
+        style={styles.scrim}
+        onPress={onClose}
+        accessibilityRole="button"
+        accessibilityLabel="Close time picker"
+      />
+      <View
+        style={[
+          styles.container,
+          { backgroundColor: palette.background, borderColor: palette.border, paddingBottom: Math.max(24, insets.bottom) },
+        ]}
+        accessibilityViewIsModal
+      >
+        <Text style={[styles.title, { color: palette.text }]}>Plan for later</Text>
+        <Text style={[styles.subtitle, { color: palette.cardSubtitle }]}>
+          Show bars that are open at the time you pick.
+        </Text>
+
+        <ScrollView
+          horizontal
+          showsHorizontalScrollIndicator={false}
+          style={styles.dayScroller}
+          contentContainerStyle={styles.dayRow}
+        >
+          {days.map((day, index) => {
+            const isSelected = index === draftDayIndex;
+            return (
+              <TouchableOpacity
+                key={day.toISOString()}
+                onPress={() => handleSelectDay(index)}
+                style={[
+                  styles.chip,
+                  { borderColor: isSelected ? highlightColor : palette.pillBorder },
+                  isSelected ? { backgroundColor: highlightColor } : null,
+                ]}
+                activeOpacity={0.85}
+                accessibilityRole="button"
+                accessibilityState={{ selected: isSelected }}
+              >
+                <Text style={[styles.chipText, { color: isSelected ? palette.filterTextActive : palette.text }]}>
+                  {formatDayOption(day, index)}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+        </ScrollView>
+
+        <ScrollView style={styles.slotList} showsVerticalScrollIndicator={false}>
+          <View style={styles.slotGrid}>
+            {TIME_SLOTS.map((minutes) => {
+              const slotDate = getSlotDate(selectedDay, minutes);
+              const isPast = slotDate.getTime() <= now.getTime();
+              const isSelected = minutes === draftMinutes;
+              const label = formatShortTime(slotDate, undefined, timeFormat);
+              return (
+                <TouchableOpacity
+                  key={minutes}
+                  onPress={() => setDraftMinutes(minutes)}
+                  disabled={isPast}
+                  style={[
+                    styles.chip,
+                    styles.slotChip,
+                    { borderColor: isSelected ? highlightColor : palette.pillBorder },
+                    isSelected ? { backgroundColor: highlightColor } : null,
+                    isPast ? styles.slotChipDisabled : null,
+                  ]}
+                  activeOpacity={0.85}
+                  accessibilityRole="button"
+                  accessibilityLabel={minutes >= 24 * 60 ? `${label}, after midnight` : label}
+                  accessibilityState={{ selected: isSelected, disabled: isPast }}
+                >
+                  <Text style={[styles.chipText, { color: isSelected ? palette.filterTextActive : palette.text }]}>
+                    {label}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+        </ScrollView>
+
+        <View style={styles.actionRow}>
+          <TouchableOpacity
+            onPress={handleReset}
+            style={[styles.actionButton, styles.actionGhost, { borderColor: palette.pillBorder }]}
+            activeOpacity={0.85}
+          >
+            <Text style={[styles.actionGhostText, { color: palette.text }]}>Open Now</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            onPress={handleApply}
+            disabled={draftMinutes === null}
+            style={[
+              styles.actionButton,
+              styles.actionPrimary,
+              { backgroundColor: highlightColor },
+              draftMinutes === null ? styles.actionDisabled : null,
+            ]}
+            activeOpacity={0.9}
+            accessibilityState={{ disabled: draftMinutes === null }}
+          >
+            <Text style={[styles.actionPrimaryText, { color: palette.filterTextActive }]}>Show Bars</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+export default BarTimePickerSheet;
+
+const styles = StyleSheet.create({
+  scrim: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.4)',
+  },
+  container: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+    bottom: 0,
+    height: '65%',
+    paddingHorizontal: 20,
+    paddingTop: 12,
+    paddingBottom: 24,
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    borderWidth: 1,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '700',
+  },
+  subtitle: {
+    marginTop: 2,
+    marginBottom: 12,
+    fontSize: 14,
+  },
+  dayScroller: {
+    flexGrow: 0,
+  },
+  dayRow: {
+    gap: 8,
+    paddingBottom: 12,
+  },
+  chip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 999,
+    borderWidth: 1,
+  },
+  chipText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  slotList: {
+    flex: 1,
+  },
+  slotGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  slotChip: {
+    minWidth: 84,
+    alignItems: 'center',
+  },
+  slotChipDisabled: {
+    opacity: 0.35,
+  },
+  actionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: 12,
+    marginTop: 12,
+  },
+  actionButton: {
+    flex: 1,
+    paddingVertical: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+    alignItems: 'center',
+  },
+  actionGhost: {
+    backgroundColor: 'transparent',
+  },
+  actionPrimary: {
+    borderWidth: 0,
+  },
+  actionDisabled: {
+    opacity: 0.5,
+  },
+  actionGhostText: {
+    fontSize: 15,
+    fontWeight: '700',
+  },
+  actionPrimaryText: {
+    fontSize: 15,
+    fontWeight: '700',
+  },
+});
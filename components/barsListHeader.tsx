@@ -2,8 +2,13 @@ import { Colors } from '@/constants/theme';
 import { MaterialIcons } from '@expo/vector-icons';
 import React from 'react';
 import { StyleSheet, Text, TouchableOpacity, View } from 'react-native';
-import type { SelectedTagEntry, TagFilterOption, ThemeName } from '../types';
+import { usePreferences } from '../hooks/usePreferences';
+import type { BarSortOption, SelectedTagEntry, TagFilterOption, ThemeName } from '../types';
+import { DEFAULT_BAR_SORT } from '../utils/constants';
+import { formatPlanTimeLabel } from '../utils/Timeformatters';
 import { ErrorBanner, LocationPermissionBanner } from './barEmptyStates';
+import { BarSortSelector } from './barSortSelector';
+import { LastUpdatedStamp } from './lastUpdatedStamp';
 
 type Props = {
   locationDeniedPermanently: boolean;
@@ -13,6 +18,11 @@ type Props = {
   tagsError: string | null;
   barsCount: number;
   errorMessage: string | null;
+  isOffline?: boolean;
+  lastUpdated?: number | null;
+  isRevalidating?: boolean;
+  openAt?: Date | null;
+  sortOption?: BarSortOption;
   theme: ThemeName;
   onOpenSettings: () => void;
   onRetryLocation: () => void;
@@ -21,6 +31,9 @@ type Props = {
   onOpenFilterSheet: () => void;
   onClearFilters: () => void;
   onRemoveTag: (normalized: string) => void;
+  onOpenTimePicker: () => void;
+  onResetTime: () => void;
+  onChangeSort: (sort: BarSortOption) => void;
 };
 
 export function BarsListHeader({
@@ -31,6 +44,11 @@ export function BarsListHeader({
   tagsError,
   barsCount,
   errorMessage,
+  isOffline = false,
+  lastUpdated = null,
+  isRevalidating = false,
+  openAt = null,
+  sortOption = DEFAULT_BAR_SORT,
   theme,
   onOpenSettings,
   onRetryLocation,
@@ -39,22 +57,52 @@ export function BarsListHeader({
   onOpenFilterSheet,
   onClearFilters,
   onRemoveTag,
+  onOpenTimePicker,
+  onResetTime,
+  onChangeSort,
 }: Props) {
   const palette = Colors[theme];
-
-  const shouldRender =
-    locationDeniedPermanently ||
-    availableTags.length > 0 ||
-    selectedTags.length > 0 ||
-    !!tagsError ||
-    !!errorMessage;
-
-  if (!shouldRender) return null;
+  const { timeFormat } = usePreferences();
+  const timeLabel = openAt ? `Open ${formatPlanTimeLabel(openAt, undefined, timeFormat)}` : 'Open now';
 
   return (
     <View style={styles.listHeader}>
       <Text style={[styles.screenTitle, { color: palette.cardTitle }]}>Open Bars</Text>
 
+      <View style={styles.timeRow}>
+        <TouchableOpacity
+          onPress={onOpenTimePicker}
+          style={[
+            styles.timeButton,
+            { borderColor: palette.filterActivePill, backgroundColor: palette.cardSurface },
+          ]}
+          activeOpacity={0.85}
+          accessibilityRole="button"
+          accessibilityLabel={`${timeLabel}. Tap to plan for later.`}
+        >
+          <MaterialIcons name="schedule" size={18} color={palette.filterActivePill} />
+          <Text style={[styles.timeButtonText, { color: palette.filterActivePill }]} numberOfLines={1}>
+            {timeLabel}
+          </Text>
+          <MaterialIcons name="arrow-drop-down" size={22} color={palette.cardTitle} />
+        </TouchableOpacity>
+        {openAt ? (
+          <TouchableOpacity
+            onPress={onResetTime}
+            style={[styles.inlineClearButton, { borderColor: palette.filterActivePill }]}
+            activeOpacity={0.85}
+          >
+            <Text style={[styles.inlineClearText, { color: palette.filterActivePill }]}>Now</Text>
+          </TouchableOpacity>
+        ) : null}
+      </View>
+
+      <BarSortSelector value={sortOption} onChange={onChangeSort} theme={theme} />
+
+      {lastUpdated !== null ? (
+        <LastUpdatedStamp lastUpdated={lastUpdated} isRevalidating={isRevalidating} theme={theme} />
+      ) : null}
+
       {locationDeniedPermanently ? (
         <LocationPermissionBanner
           theme={theme}
@@ -147,10 +195,10 @@ export function BarsListHeader({
           ]}
         >
           <Text style={[styles.errorCardTitle, { color: palette.networkErrorText }]}>
-            Unable to load bars
+            {isOffline ? "You're offline" : 'Unable to load bars'}
           </Text>
           <Text style={[styles.errorCardMessage, { color: palette.networkErrorText }]}>
-            {errorMessage}
+            {isOffline ? "Nearby bars will load as soon as you're back online." : errorMessage}
           </Text>
           <TouchableOpacity
             style={[styles.errorCardRetry, { borderColor: palette.networkErrorButton }]}
@@ -162,7 +210,7 @@ export function BarsListHeader({
           </TouchableOpacity>
         </View>
       ) : errorMessage && barsCount > 0 ? (
-        <ErrorBanner message={errorMessage} theme={theme} />
+        <ErrorBanner message={errorMessage} theme={theme} isOffline={isOffline} />
       ) : null}
     </View>
   );
@@ -179,6 +227,27 @@ const styles = StyleSheet.create({
     fontSize: 26,
     fontWeight: '700',
   },
+  timeRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  timeButton: {
+    flexShrink: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingLeft: 12,
+    paddingRight: 6,
+    paddingVertical: 8,
+    borderRadius: 999,
+    borderWidth: 1,
+  },
+  timeButtonText: {
+    flexShrink: 1,
+    fontSize: 15,
+    fontWeight: '600',
+  },
   filterCard: {
     borderRadius: 16,
     gap: 12,
@@ -0,0 +1,229 @@
+// components/barsMap.tsx
+// Map mode for the Open Bars tab: clustered markers, a preview card and "Search this area"
+
+import { MaterialIcons } from '@expo/vector-icons';
+import React, { useCallback, useMemo, useRef, useState } from 'react';
+import { ActivityIndicator, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import MapView, { Marker, type MapPressEvent, type Region } from 'react-native-maps';
+import { Colors } from '../constants/theme';
+import type { Bar, Coordinates, ThemeName } from '../types';
+import {
+  type MapCluster,
+  clusterByRegion,
+  getRegionAround,
+  getRegionForItems,
+  isRegionAwayFrom,
+  regionToCoordinates,
+} from '../utils/mapClustering';
+import { BarCard } from './barCard';
+
+type BarsMapProps = {
+  bars: Bar[];
+  center: Coordinates;
+  isAreaSearch: boolean;
+  isSearching: boolean;
+  openAt?: Date | null;
+  theme: ThemeName;
+  onOpenBar: (barId: string) => void;
+  onSearchArea: (coords: Coordinates) => void;
+  onResetArea: () => void;
+};
+
+export const BarsMap = ({
+  bars,
+  center,
+  isAreaSearch,
+  isSearching,
+  openAt = null,
+  theme,
+  onOpenBar,
+  onSearchArea,
+  onResetArea,
+}: BarsMapProps) => {
+  const palette = Colors[theme];
+  const mapRef = useRef<MapView>(null);
+
+  // Fit the loaded bars on first render; afterwards the user drives the camera
+  const [region, setRegion] = useState<Region>(() => getRegionForItems(bars) ?? getRegionAround(center));
+  const [searchedCenter, setSearchedCenter] = useState<Coordinates>(() => regionToCoordinates(region));
+  const [selectedBarId, setSelectedBarId] = useState<string | null>(null);
+
+  const clusters = useMemo(() => clusterByRegion(bars, region, (bar) => bar.id), [bars, region]);
+  const selectedBar = useMemo(
+    () => (selectedBarId ? bars.find((bar) => bar.id === selectedBarId) ?? null : null),
+    [bars, selectedBarId]
+  );
+  const canSearchArea = !isSearching && isRegionAwayFrom(searchedCenter, region);
+
+  const handleMarkerPress = useCallback((cluster: MapCluster<Bar>) => {
+    if (cluster.items.length === 1) {
+      setSelectedBarId(cluster.items[0].id);
+      return;
+    }
+    // Zoom into a cluster until its bars separate
+    const target = getRegionForItems(cluster.items);
+    if (target) {
+      mapRef.current?.animateToRegion(target, 300);
+    }
+  }, []);
+
+  const handleMapPress = useCallback((event: MapPressEvent) => {
+    if (event.nativeEvent.action === 'marker-press') return;
+    setSelectedBarId(null);
+  }, []);
+
+  const handleSearchArea = useCallback(() => {
+    const coords = regionToCoordinates(region);
+    setSearchedCenter(coords);
+    setSelectedBarId(null);
+    onSearchArea(coords);
+  }, [onSearchArea, region]);
+
+  const handleResetArea = useCallback(() => {
+    setSelectedBarId(null);
+    setSearchedCenter(center);
+    mapRef.current?.animateToRegion(getRegionAround(center), 300);
+    onResetArea();
+  }, [center, onResetArea]);
+
+  return (
+    <View style={styles.container}>
+      <MapView
+        ref={mapRef}
+        style={StyleSheet.absoluteFill}
+        initialRegion={region}
+        onRegionChangeComplete={setRegion}
+        onPress={handleMapPress}
+        showsUserLocation
+        testID="bars-map"
+      >
+        {clusters.map((cluster) =>
+          cluster.items.length === 1 ? (
+            <Marker
+              key={cluster.id}
+              coordinate={cluster.coordinate}
+              title={cluster.items[0].name}
+              pinColor={cluster.items[0].id === selectedBarId ? palette.iconSelected : palette.actionButton}
+              onPress={() => handleMarkerPress(cluster)}
+              tracksViewChanges={false}
+            />
+          ) : (
+            <Marker
+              key={cluster.id}
+              coordinate={cluster.coordinate}
+              onPress={() => handleMarkerPress(cluster)}
+              tracksViewChanges={false}
+              accessibilityLabel={`${cluster.items.length} bars`}
+            >
+              <View style={[styles.cluster, { backgroundColor: palette.actionButton, borderColor: palette.background }]}>
+                <Text style={[styles.clusterText, { color: palette.filterTextActive }]}>{cluster.items.length}</Text>
+              </View>
+            </Marker>
+          )
+        )}
+      </MapView>
+
+      <View style={styles.topControls} pointerEvents="box-none">
+        {isSearching ? (
+          <View style={[styles.pillButton, { backgroundColor: palette.cardSurface, borderColor: palette.border }]}>
+            <ActivityIndicator size="small" color={palette.iconSelected} />
+            <Text style={[styles.pillText, { color: palette.cardTitle }]}>Searching...</Text>
+          </View>
+        ) : canSearchArea ? (
+          <TouchableOpacity
+            onPress={handleSearchArea}
+            style={[styles.pillButton, { backgroundColor: palette.actionButton, borderColor: palette.actionButton }]}
+            activeOpacity={0.9}
+            accessibilityRole="button"
+          >
+            <MaterialIcons name="search" size={16} color={palette.filterTextActive} />
+            <Text style={[styles.pillText, { color: palette.filterTextActive }]}>Search this area</Text>
+          </TouchableOpacity>
+        ) : null}
+
+        {isAreaSearch && !isSearching ? (
+          <TouchableOpacity
+            onPress={handleResetArea}
+            style={[styles.pillButton, { backgroundColor: palette.cardSurface, borderColor: palette.border }]}
+            activeOpacity={0.9}
+            accessibilityRole="button"
+          >
+            <MaterialIcons name="my-location" size={16} color={palette.iconSelected} />
+            <Text style={[styles.pillText, { color: palette.cardTitle }]}>Near me</Text>
+          </TouchableOpacity>
+        ) : null}
+      </View>
+
+      {selectedBar ? (
+        <View style={styles.previewWrapper}>
+          <BarCard bar={selectedBar} onPress={() => onOpenBar(selectedBar.id)} referenceTime={openAt} />
+        </View>
+      ) : bars.length === 0 && !isSearching ? (
+        <View style={styles.previewWrapper} pointerEvents="none">
+          <View style={[styles.emptyNotice, { backgroundColor: palette.cardSurface, borderColor: palette.border }]}>
+            <Text style={[styles.emptyNoticeText, { color: palette.cardSubtitle }]}>No open bars in this area.</Text>
+          </View>
+        </View>
+      ) : null}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  topControls: {
+    position: 'absolute',
+    top: 12,
+    left: 0,
+    right: 0,
+    flexDirection: 'row',
+    justifyContent: 'center',
+    gap: 8,
+  },
+  pillButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 999,
+    borderWidth: 1,
+  },
+  pillText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  cluster: {
+    minWidth: 36,
+    height: 36,
+    paddingHorizontal: 8,
+    borderRadius: 18,
+    borderWidth: 2,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  clusterText: {
+    fontSize: 14,
+    fontWeight: '700',
+  },
+  previewWrapper: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+    bottom: 0,
+  },
+  emptyNotice: {
+    marginHorizontal: 20,
+    marginBottom: 16,
+    padding: 14,
+    borderRadius: 12,
+    borderWidth: 1,
+    alignItems: 'center',
+  },
+  emptyNoticeText: {
+    fontSize: 14,
+    fontWeight: '500',
+  },
+});
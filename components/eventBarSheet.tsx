@@ -0,0 +1,198 @@
+// components/eventBarSheet.tsx
+// Bottom sheet listing one bar's upcoming event instances, opened from an events map marker
+
+import { Colors } from '@/constants/theme';
+import { MaterialIcons } from '@expo/vector-icons';
+import React, { useCallback } from 'react';
+import {
+	FlatList,
+	Modal,
+	Pressable,
+	StyleSheet,
+	Text,
+	TouchableOpacity,
+	View,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { usePreferences } from '../hooks/usePreferences';
+import type { Event, EventBarGroup, ThemeName } from '../types';
+import { formatRelativeEventDay } from '../utils/Eventmappers';
+import { formatCityAddress, formatEventTime } from '../utils/helpers';
+
+type EventBarSheetProps = {
+	group: EventBarGroup | null;
+	theme: ThemeName;
+	onClose: () => void;
+	onOpenEvent: (event: Event) => void;
+	onOpenBar?: (barId: string) => void;
+};
+
+export const EventBarSheet = ({ group, theme, onClose, onOpenEvent, onOpenBar }: EventBarSheetProps) => {
+	const palette = Colors[theme];
+	const insets = useSafeAreaInsets();
+	const { timeFormat } = usePreferences();
+	const cityLabel = group ? formatCityAddress(group.address_city, group.address_state) : null;
+	const barId = group?.bar_id;
+
+	const renderEventRow = useCallback(
+		({ item }: { item: Event }) => {
+			const dayLabel = formatRelativeEventDay(item.date ?? item.start_time, item.timezone);
+			const timeLabel = formatEventTime(item.start_time, item.timezone, timeFormat);
+			return (
+				<TouchableOpacity
+					style={[styles.row, { borderColor: palette.border }]}
+					onPress={() => onOpenEvent(item)}
+					activeOpacity={0.85}
+					accessibilityRole="button"
+					accessibilityLabel={item.title}
+				>
+					<View style={styles.rowText}>
+						<Text style={[styles.rowWhen, { color: palette.filterActivePill }]}>
+							{timeLabel ? `${dayLabel} · ${timeLabel}` : dayLabel}
+						</Text>
+						<Text style={[styles.rowTitle, { color: palette.cardTitle }]} numberOfLines={2}>
+							{item.title}
+						</Text>
+						{item.is_cancelled ? (
+							<Text style={[styles.rowMeta, { color: palette.networkErrorText }]}>Cancelled</Text>
+						) : item.event_tag_name ? (
+							<Text style={[styles.rowMeta, { color: palette.cardSubtitle }]}>{item.event_tag_name}</Text>
+						) : null}
+					</View>
+					<MaterialIcons name="chevron-right" size={22} color={palette.cardSubtitle} />
+				</TouchableOpacity>
+			);
+		},
+		[onOpenEvent, palette, timeFormat]
+	);
+
+	return (
+		<Modal
+			visible={group !== null}
+			animationType="fade"
+			transparent
+			statusBarTranslucent
+			presentationStyle="overFullScreen"
+			onRequestClose={onClose}
+		>
+			<Pressable
+				style={styles.scrim}
+				onPress={onClose}
+				accessibilityRole="button"
+				accessibilityLabel="Close bar events"
+			/>
+			<View
+				style={[
+					styles.container,
+					{ backgroundColor: palette.background, borderColor: palette.border, paddingBottom: Math.max(24, insets.bottom) },
+				]}
+				accessibilityViewIsModal
+			>
+				<View style={styles.headerRow}>
+					<View style={styles.headerText}>
+						<Text style={[styles.title, { color: palette.text }]} numberOfLines={1}>
+							{group?.bar_name}
+						</Text>
+						<Text style={[styles.subtitle, { color: palette.cardSubtitle }]}>
+							{[cityLabel, group ? `${group.events.length} upcoming` : null].filter(Boolean).join(' · ')}
+						</Text>
+					</View>
+					{barId && onOpenBar ? (
+						<TouchableOpacity
+							onPress={() => onOpenBar(barId)}
+							style={[styles.barButton, { borderColor: palette.filterActivePill }]}
+							activeOpacity={0.85}
+							accessibilityRole="button"
+						>
+							<Text style={[styles.barButtonText, { color: palette.filterActivePill }]}>View bar</Text>
+						</TouchableOpacity>
+					) : null}
+				</View>
+
+				<FlatList
+					data={group?.events ?? []}
+					keyExtractor={(item) => item.instance_id}
+					renderItem={renderEventRow}
+					style={styles.list}
+					showsVerticalScrollIndicator={false}
+				/>
+			</View>
+		</Modal>
+	);
+};
+
+export default EventBarSheet;
+
+const styles = StyleSheet.create({
+	scrim: {
+		flex: 1,
+		backgroundColor: 'rgba(0,0,0,0.4)',
+	},
+	container: {
+		position: 'absolute',
+		left: 0,
+		right: 0,
+		bottom: 0,
+		maxHeight: '65%',
+		paddingHorizontal: 20,
+		paddingTop: 12,
+		paddingBottom: 24,
+		borderTopLeftRadius: 20,
+		borderTopRightRadius: 20,
+		borderWidth: 1,
+	},
+	headerRow: {
+		flexDirection: 'row',
+		alignItems: 'center',
+		gap: 12,
+		marginBottom: 8,
+	},
+	headerText: {
+		flex: 1,
+	},
+	title: {
+		fontSize: 18,
+		fontWeight: '700',
+	},
+	subtitle: {
+		marginTop: 2,
+		fontSize: 14,
+	},
+	barButton: {
+		borderRadius: 999,
+		borderWidth: 1,
+		paddingHorizontal: 14,
+		paddingVertical: 6,
+	},
+	barButtonText: {
+		fontSize: 14,
+		fontWeight: '600',
+	},
+	list: {
+		flexGrow: 0,
+	},
+	row: {
+		flexDirection: 'row',
+		alignItems: 'center',
+		paddingVertical: 12,
+		borderBottomWidth: StyleSheet.hairlineWidth,
+		gap: 8,
+	},
+	rowText: {
+		flex: 1,
+		gap: 2,
+	},
+	rowWhen: {
+		fontSize: 13,
+		fontWeight: '700',
+		letterSpacing: 0.3,
+		textTransform: 'uppercase',
+	},
+	rowTitle: {
+		fontSize: 16,
+		fontWeight: '600',
+	},
+	rowMeta: {
+		fontSize: 13,
+	},
+});
@@ -1,20 +1,23 @@
 import { Colors } from '@/constants/theme';
 import { MaterialIcons } from '@expo/vector-icons';
 import React from 'react';
-import { StyleSheet, Text, TouchableOpacity, View, useColorScheme } from 'react-native';
+import { StyleSheet, Text, TouchableOpacity, View } from 'react-native';
 
 
-import type { Event } from '@/types/index';
-import { formatEventTime } from '@/utils/helpers';
+import { useAppTheme } from '@/hooks/useAppTheme';
+import { usePreferences } from '@/hooks/usePreferences';
+import type { DistanceUnit, Event } from '@/types/index';
+import { formatDeviceTimeRangeLabel, formatEventTime, getDistanceInUnit } from '@/utils/helpers';
 
 export type EventCardProps = {
 	event: Event;
-	distanceUnit?: string;
+	// Defaults to the user's preferred unit
+	distanceUnit?: DistanceUnit;
 	onPress?: () => void;
 };
 
 
-const formatDistance = (value: number | undefined, unit: string): string | null => {
+const formatDistance = (value: number | undefined, unit: DistanceUnit): string | null => {
 	if (typeof value !== 'number' || Number.isNaN(value) || value < 0) {
 		return null;
 	}
@@ -31,13 +34,17 @@ const formatDistance = (value: number | undefined, unit: string): string | null
 };
 
 
-const EventCard = ({ event, distanceUnit = 'miles', onPress }: EventCardProps) => {
-	const theme = useColorScheme() ?? 'dark';
+const EventCard = ({ event, distanceUnit, onPress }: EventCardProps) => {
+	const { theme } = useAppTheme();
+	const preferences = usePreferences();
+	const unit = distanceUnit ?? preferences.distanceUnit;
+	const { timeFormat } = preferences;
 	const palette = Colors[theme];
 	const barName = event.bar_name ?? 'Unknown venue';
-	const startTimeLabel = formatEventTime(event.start_time) ?? 'Time TBD';
-	const endTimeLabel = formatEventTime(event.end_time) ?? 'Time TBD';
-	const distanceLabel = formatDistance(event.distanceMiles, distanceUnit);
+	const startTimeLabel = formatEventTime(event.start_time, event.timezone, timeFormat) ?? 'Time TBD';
+	const endTimeLabel = formatEventTime(event.end_time, event.timezone, timeFormat) ?? 'Time TBD';
+	const localTimeLabel = formatDeviceTimeRangeLabel(event.start_time, event.end_time, event.timezone, timeFormat);
+	const distanceLabel = formatDistance(getDistanceInUnit(event.distanceMiles, event.distanceKm, unit), unit);
 	const eventTagName = event.event_tag_name;
 
 	return (
@@ -101,6 +108,9 @@ const EventCard = ({ event, distanceUnit = 'miles', onPress }: EventCardProps) =
 							<Text style={[styles.timeValueInline, { color: palette.cardTitle }]}>{endTimeLabel}</Text>
 						</View>
 					</View>
+					{localTimeLabel ? (
+						<Text style={[styles.localTimeText, { color: palette.cardSubtitle }]}>{localTimeLabel}</Text>
+					) : null}
 				</View>
 			</View>
 		</TouchableOpacity>
@@ -186,6 +196,9 @@ const styles = StyleSheet.create({
 		marginTop: 8,
 		gap: 12,
 	},
+	localTimeText: {
+		fontSize: 13,
+	},
 	timeRowSimple: {
 		marginTop: 8,
 		flexDirection: 'row',
@@ -0,0 +1,307 @@
+// components/eventDateFilterSheet.tsx
+// Bottom sheet for a custom events date range, with optional time-of-day bounds
+
+import { Colors } from '@/constants/theme';
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  Modal,
+  Pressable,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { usePreferences } from '../hooks/usePreferences';
+import type { EventDateFilterSheetProps } from '../types';
+import { EVENT_DATE_FILTER_CONFIG } from '../utils/constants';
+import { addDays, toDateKey } from '../utils/eventDateFilters';
+import { formatShortTime } from '../utils/Timeformatters';
+
+const TIME_OF_DAY_OPTIONS: number[] = [];
+for (
+  let minutes = EVENT_DATE_FILTER_CONFIG.firstTimeOfDayMinutes;
+  minutes <= EVENT_DATE_FILTER_CONFIG.lastTimeOfDayMinutes;
+  minutes += EVENT_DATE_FILTER_CONFIG.timeOfDayStepMinutes
+) {
+  TIME_OF_DAY_OPTIONS.push(minutes);
+}
+
+const getDayOptions = (now: Date): Date[] =>
+  Array.from({ length: EVENT_DATE_FILTER_CONFIG.customRangeDays }, (_, offset) => addDays(now, offset));
+
+const formatDayOption = (day: Date, offset: number): string => {
+  if (offset === 0) return 'Today';
+  if (offset === 1) return 'Tomorrow';
+  return `${new Intl.DateTimeFormat('en-US', { weekday: 'short' }).format(day)} ${day.getDate()}`;
+};
+
+// Index of a YYYY-MM-DD day among the options, or the fallback when it isn't offered
+const findDayIndex = (days: Date[], key: string | undefined, fallback: number): number => {
+  const index = key ? days.findIndex((day) => toDateKey(day) === key) : -1;
+  return index === -1 ? fallback : index;
+};
+
+export const EventDateFilterSheet = ({ visible, value, onApply, onClose, theme }: EventDateFilterSheetProps) => {
+  const palette = Colors[theme];
+  const highlightColor = palette.filterActivePill;
+  const insets = useSafeAreaInsets();
+  const { timeFormat } = usePreferences();
+  const [now, setNow] = useState(() => new Date());
+  const [draftStart, setDraftStart] = useState(0);
+  const [draftEnd, setDraftEnd] = useState(0);
+  // Set after a first tap, so a later day ends the range
+  const [isPickingEnd, setIsPickingEnd] = useState(false);
+  const [draftAfter, setDraftAfter] = useState<number | null>(null);
+  const [draftBefore, setDraftBefore] = useState<number | null>(null);
+
+  const days = useMemo(() => getDayOptions(now), [now]);
+
+  useEffect(() => {
+    if (visible) {
+      const openedAt = new Date();
+      const openedDays = getDayOptions(openedAt);
+      const start = findDayIndex(openedDays, value?.startDate, 0);
+      setNow(openedAt);
+      setDraftStart(start);
+      setDraftEnd(Math.max(start, findDayIndex(openedDays, value?.endDate, start)));
+      setIsPickingEnd(false);
+      setDraftAfter(value?.startsAfter ?? null);
+      setDraftBefore(value?.startsBefore ?? null);
+    }
+  }, [visible, value]);
+
+  // First tap picks a day; a later day then completes the range, anything else starts over
+  const handleSelectDay = useCallback(
+    (index: number) => {
+      if (isPickingEnd && index > draftStart) {
+        setDraftEnd(index);
+        setIsPickingEnd(false);
+      } else {
+        setDraftStart(index);
+        setDraftEnd(index);
+        setIsPickingEnd(true);
+      }
+    },
+    [draftStart, isPickingEnd]
+  );
+
+  const handleSelectAfter = useCallback((minutes: number | null) => {
+    setDraftAfter(minutes);
+    setDraftBefore((before) => (minutes !== null && before !== null && before <= minutes ? null : before));
+  }, []);
+
+  const handleApply = useCallback(() => {
+    onApply({
+      preset: 'custom',
+      startDate: toDateKey(days[draftStart]),
+      endDate: toDateKey(days[draftEnd]),
+      startsAfter: draftAfter,
+      startsBefore: draftBefore,
+    });
+    onClose();
+  }, [days, draftStart, draftEnd, draftAfter, draftBefore, onApply, onClose]);
+
+  const renderTimeChips = (
+    selected: number | null,
+    onSelect: (minutes: number | null) => void,
+    label: string,
+    isDisabled: (minutes: number) => boolean = () => false
+  ) => (
+    <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.chipScroller} contentContainerStyle={styles.chipRow}>
+      {[null, ...TIME_OF_DAY_OPTIONS].map((minutes) => {
+        const isSelected = minutes === selected;
+        const disabled = minutes !== null && isDisabled(minutes);
+        const text = minutes === null ? 'Any time' : formatShortTime(new Date(2000, 0, 1, 0, minutes), undefined, timeFormat);
+        return (
+          <TouchableOpacity
+            key={minutes ?? 'any'}
+            onPress={() => onSelect(minutes)}
+            disabled={disabled}
+            style={[
+              styles.chip,
+              { borderColor: isSelected ? highlightColor : palette.pillBorder },
+              isSelected ? { backgroundColor: highlightColor } : null,
+              disabled ? styles.chipDisabled : null,
+            ]}
+            activeOpacity={0.85}
+            accessibilityRole="button"
+            accessibilityLabel={`${label} ${text}`}
+            accessibilityState={{ selected: isSelected, disabled }}
+          >
+            <Text style={[styles.chipText, { color: isSelected ? palette.filterTextActive : palette.text }]}>{text}</Text>
+          </TouchableOpacity>
+        );
+      })}
+    </ScrollView>
+  );
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="fade"
+      transparent
+      statusBarTranslucent
+      presentationStyle="overFullScreen"
+      onRequestClose={onClose}
+    >
+      <Pressable
+        style={styles.scrim}
+        onPress={onClose}
+        accessibilityRole="button"
+        accessibilityLabel="Close date picker"
+      />
+      <View
+        style={[
+          styles.container,
+          { backgroundColor: palette.background, borderColor: palette.border, paddingBottom: Math.max(24, insets.bottom) },
+        ]}
+        accessibilityViewIsModal
+      >
+        <Text style={[styles.title, { color: palette.text }]}>Pick dates</Text>
+        <Text style={[styles.subtitle, { color: palette.cardSubtitle }]}>
+          Tap a day, then a later one for a range.
+        </Text>
+
+        <ScrollView style={styles.body} showsVerticalScrollIndicator={false}>
+          <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.chipScroller} contentContainerStyle={styles.chipRow}>
+            {days.map((day, index) => {
+              const isEndpoint = index === draftStart || index === draftEnd;
+              const isInRange = index > draftStart && index < draftEnd;
+              return (
+                <TouchableOpacity
+                  key={day.toISOString()}
+                  onPress={() => handleSelectDay(index)}
+                  style={[
+                    styles.chip,
+                    { borderColor: isEndpoint || isInRange ? highlightColor : palette.pillBorder },
+                    isEndpoint ? { backgroundColor: highlightColor } : null,
+                  ]}
+                  activeOpacity={0.85}
+                  accessibilityRole="button"
+                  accessibilityState={{ selected: isEndpoint || isInRange }}
+                >
+                  <Text style={[styles.chipText, { color: isEndpoint ? palette.filterTextActive : palette.text }]}>
+                    {formatDayOption(day, index)}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </ScrollView>
+
+          <Text style={[styles.sectionLabel, { color: palette.text }]}>Starts after</Text>
+          {renderTimeChips(draftAfter, handleSelectAfter, 'Starts after')}
+
+          <Text style={[styles.sectionLabel, { color: palette.text }]}>Starts before</Text>
+          {renderTimeChips(draftBefore, setDraftBefore, 'Starts before', (minutes) => draftAfter !== null && minutes <= draftAfter)}
+        </ScrollView>
+
+        <View style={styles.actionRow}>
+          <TouchableOpacity
+            onPress={onClose}
+            style={[styles.actionButton, styles.actionGhost, { borderColor: palette.pillBorder }]}
+            activeOpacity={0.85}
+          >
+            <Text style={[styles.actionGhostText, { color: palette.text }]}>Cancel</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            onPress={handleApply}
+            style={[styles.actionButton, styles.actionPrimary, { backgroundColor: highlightColor }]}
+            activeOpacity={0.9}
+          >
+            <Text style={[styles.actionPrimaryText, { color: palette.filterTextActive }]}>Show Events</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+export default EventDateFilterSheet;
+
+const styles = StyleSheet.create({
+  scrim: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.4)',
+  },
+  container: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+    bottom: 0,
+    maxHeight: '65%',
+    paddingHorizontal: 20,
+    paddingTop: 12,
+    paddingBottom: 24,
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    borderWidth: 1,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '700',
+  },
+  subtitle: {
+    marginTop: 2,
+    marginBottom: 12,
+    fontSize: 14,
+  },
+  body: {
+    flexShrink: 1,
+  },
+  sectionLabel: {
+    fontSize: 14,
+    fontWeight: '700',
+    marginTop: 4,
+    marginBottom: 8,
+  },
+  chipScroller: {
+    flexGrow: 0,
+  },
+  chipRow: {
+    gap: 8,
+    paddingBottom: 12,
+  },
+  chip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 999,
+    borderWidth: 1,
+  },
+  chipDisabled: {
+    opacity: 0.35,
+  },
+  chipText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  actionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: 12,
+    marginTop: 12,
+  },
+  actionButton: {
+    flex: 1,
+    paddingVertical: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+    alignItems: 'center',
+  },
+  actionGhost: {
+    backgroundColor: 'transparent',
+  },
+  actionPrimary: {
+    borderWidth: 0,
+  },
+  actionGhostText: {
+    fontSize: 15,
+    fontWeight: '700',
+  },
+  actionPrimaryText: {
+    fontSize: 15,
+    fontWeight: '700',
+  },
+});
@@ -1,10 +1,11 @@
 import { FontAwesome, MaterialIcons } from '@expo/vector-icons';
 import React from 'react';
-import { StyleSheet, Text, TouchableOpacity, useColorScheme, View } from 'react-native';
+import { StyleSheet, Text, TouchableOpacity, View } from 'react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 
 import { IconSymbol } from '@/components/ui/icon-symbol';
 import { Colors } from '@/constants/theme';
+import { useAppTheme } from '@/hooks/useAppTheme';
 import type { EventDetailsProps, ThemeName } from '@/types';
 
 type Palette = (typeof Colors)[ThemeName];
@@ -23,10 +24,11 @@ export default function EventDetails({
 	horizontalInset = 0,
 	startTimeLabel,
 	endTimeLabel,
+	localTimeLabel,
 	addressLabel,
 	onPressOpenMap,
 }: EventDetailsProps) {
-	const theme = useColorScheme() ?? 'dark';
+	const { theme } = useAppTheme();
 	const palette = Colors[theme];
 	const insets = useSafeAreaInsets();
 	const styles = React.useMemo(() => createStyles(palette, horizontalInset), [palette, horizontalInset]);
@@ -93,6 +95,9 @@ export default function EventDetails({
 						<Text style={[styles.timeValueInline, { color: palette.cardTitle }]}>{endTimeDisplay}</Text>
 					</View>
 				</View>
+				{localTimeLabel ? (
+					<Text style={[styles.localTimeText, { color: palette.cardSubtitle }]}>{localTimeLabel}</Text>
+				) : null}
 			</View>
 
 			{/* Venue */}
@@ -335,6 +340,10 @@ const createStyles = (palette: Palette, horizontalInset: number) => StyleSheet.c
 		gap: 8,
 		flexWrap: 'wrap',
 	},
+	localTimeText: {
+		marginTop: 8,
+		fontSize: 14,
+	},
 	timePair: {
 		flexDirection: 'column',
 		gap: 2,
@@ -8,20 +8,24 @@ import type { SelectedTagEntry, ThemeName } from '../types';
 
 export const EventsEmptyState = ({
   selectedTagEntries,
+  dateFilterLabel = null,
   onClear,
   theme,
 }: {
   selectedTagEntries: SelectedTagEntry[];
+  // Label of the active date filter, shown alongside the tags
+  dateFilterLabel?: string | null;
   onClear: () => void;
   theme: ThemeName;
 }) => {
   const palette = Colors[theme];
-  const hasFilters = selectedTagEntries.length > 0;
+  const hasTags = selectedTagEntries.length > 0;
+  const hasFilters = hasTags || dateFilterLabel !== null;
 
   return (
     <View style={styles.emptyState}>
       <Text style={[styles.emptyTitle, { color: palette.filterText }]}>
-        {hasFilters ? 'No Events Match Those Tags' : 'Nothing scheduled yet'}
+        {hasTags ? 'No Events Match Those Tags' : hasFilters ? 'No Events Then' : 'Nothing scheduled yet'}
       </Text>
       <Text style={[styles.emptyDescription, { color: palette.filterText }]}>
         {hasFilters
@@ -31,6 +35,11 @@ export const EventsEmptyState = ({
       {hasFilters && (
         <>
           <View style={styles.tagPillRow}>
+            {dateFilterLabel !== null && (
+              <View style={[styles.tagPill, { backgroundColor: palette.filterActivePill, borderColor: palette.border }]}>
+                <Text style={[styles.tagPillText, { color: palette.filterTextActive }]}>{dateFilterLabel}</Text>
+              </View>
+            )}
             {selectedTagEntries.map((entry) => (
               <View
                 key={entry.normalized}
@@ -58,6 +67,43 @@ export const EventsEmptyState = ({
     </View>
   );
 };
+
+// Following feed: explains how to follow bars, or that the followed bars have nothing coming up
+export const FollowingEmptyState = ({
+  hasFollowedBars,
+  onBrowseBars,
+  theme,
+}: {
+  hasFollowedBars: boolean;
+  onBrowseBars: () => void;
+  theme: ThemeName;
+}) => {
+  const palette = Colors[theme];
+
+  return (
+    <View style={styles.emptyState}>
+      <Text style={[styles.emptyTitle, { color: palette.filterText }]}>
+        {hasFollowedBars ? 'Nothing coming up at your bars' : "You're not following any bars"}
+      </Text>
+      <Text style={[styles.emptyDescription, { color: palette.filterText }]}>
+        {hasFollowedBars
+          ? 'Upcoming events at the bars you follow will show up here.'
+          : 'Tap the heart on a bar to follow it. Its upcoming events will show up here, however far away it is.'}
+      </Text>
+      {hasFollowedBars ? null : (
+        <TouchableOpacity
+          style={[styles.clearButton, { borderColor: palette.actionButton }]}
+          onPress={onBrowseBars}
+        >
+          <Text style={[styles.clearButtonText, { color: palette.actionButton }]}>
+            Browse bars
+          </Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+};
+
 const styles = StyleSheet.create({
   emptyState: {
     flex: 1,
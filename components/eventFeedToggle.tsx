@@ -0,0 +1,61 @@
+// components/eventFeedToggle.tsx
+// Segmented control switching the Events tab between nearby events and bars the user follows
+
+import React from 'react';
+import { StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { Colors } from '../constants/theme';
+import type { EventFeed, ThemeName } from '../types';
+import { EVENT_FEED_OPTIONS } from '../utils/constants';
+
+type EventFeedToggleProps = {
+  value: EventFeed;
+  onChange: (feed: EventFeed) => void;
+  theme: ThemeName;
+};
+
+export const EventFeedToggle = ({ value, onChange, theme }: EventFeedToggleProps) => {
+  const palette = Colors[theme];
+
+  return (
+    <View style={[styles.container, { backgroundColor: palette.filterContainer }]} accessibilityRole="tablist">
+      {EVENT_FEED_OPTIONS.map((option) => {
+        const isActive = option.value === value;
+        return (
+          <TouchableOpacity
+            key={option.value}
+            onPress={() => {
+              if (!isActive) onChange(option.value);
+            }}
+            style={[styles.segment, isActive && { backgroundColor: palette.filterActivePill }]}
+            accessibilityRole="tab"
+            accessibilityLabel={`${option.label} events`}
+            accessibilityState={{ selected: isActive }}
+          >
+            <Text style={[styles.label, { color: isActive ? palette.filterTextActive : palette.filterText }]}>
+              {option.label}
+            </Text>
+          </TouchableOpacity>
+        );
+      })}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    borderRadius: 999,
+    padding: 4,
+    marginTop: 12,
+  },
+  segment: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderRadius: 999,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+});
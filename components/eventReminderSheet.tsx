@@ -0,0 +1,158 @@
+// components/eventReminderSheet.tsx
+// Bottom sheet for "Remind me": pick how long before the event starts to be notified
+
+import { Colors } from '@/constants/theme';
+import { MaterialIcons } from '@expo/vector-icons';
+import React, { useEffect, useState } from 'react';
+import {
+  Modal,
+  Pressable,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import type { EventReminderSheetProps } from '../types';
+import { REMINDER_OFFSET_OPTIONS } from '../utils/constants';
+import { isReminderInFuture } from '../utils/reminders';
+
+export const EventReminderSheet = ({
+  visible,
+  startsAt,
+  value,
+  onSelect,
+  onRemove,
+  onClose,
+  theme,
+}: EventReminderSheetProps) => {
+  const palette = Colors[theme];
+  const highlightColor = palette.filterActivePill;
+  const insets = useSafeAreaInsets();
+  const [now, setNow] = useState(() => new Date());
+
+  useEffect(() => {
+    if (visible) {
+      setNow(new Date());
+    }
+  }, [visible]);
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="fade"
+      transparent
+      statusBarTranslucent
+      presentationStyle="overFullScreen"
+      onRequestClose={onClose}
+    >
+      <Pressable
+        style={styles.scrim}
+        onPress={onClose}
+        accessibilityRole="button"
+        accessibilityLabel="Close reminder options"
+      />
+      <View
+        style={[
+          styles.container,
+          { backgroundColor: palette.background, borderColor: palette.border, paddingBottom: Math.max(24, insets.bottom) },
+        ]}
+        accessibilityViewIsModal
+      >
+        <Text style={[styles.title, { color: palette.text }]}>Remind me</Text>
+        <Text style={[styles.subtitle, { color: palette.cardSubtitle }]}>
+          Get a notification on this device before the event starts.
+        </Text>
+
+        {REMINDER_OFFSET_OPTIONS.map((option) => {
+          const isSelected = option.value === value;
+          // Offsets that would already have fired can't be picked
+          const isPast = !startsAt || !isReminderInFuture(startsAt, option.value, now);
+          return (
+            <TouchableOpacity
+              key={option.value}
+              onPress={() => onSelect(option.value)}
+              disabled={isPast}
+              style={[styles.option, { borderColor: palette.border }, isPast ? styles.optionDisabled : null]}
+              activeOpacity={0.85}
+              accessibilityRole="button"
+              accessibilityLabel={`Remind me ${option.label.toLowerCase()}`}
+              accessibilityState={{ selected: isSelected, disabled: isPast }}
+            >
+              <Text style={[styles.optionText, { color: isSelected ? highlightColor : palette.text }]}>
+                {option.label}
+              </Text>
+              {isSelected ? <MaterialIcons name="check" size={20} color={highlightColor} /> : null}
+            </TouchableOpacity>
+          );
+        })}
+
+        {value !== null ? (
+          <TouchableOpacity
+            onPress={onRemove}
+            style={[styles.removeButton, { borderColor: palette.pillBorder }]}
+            activeOpacity={0.85}
+            accessibilityRole="button"
+          >
+            <Text style={[styles.removeText, { color: palette.text }]}>Remove reminder</Text>
+          </TouchableOpacity>
+        ) : null}
+      </View>
+    </Modal>
+  );
+};
+
+export default EventReminderSheet;
+
+const styles = StyleSheet.create({
+  scrim: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.4)',
+  },
+  container: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+    bottom: 0,
+    paddingHorizontal: 20,
+    paddingTop: 12,
+    paddingBottom: 24,
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    borderWidth: 1,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '700',
+  },
+  subtitle: {
+    marginTop: 2,
+    marginBottom: 8,
+    fontSize: 14,
+  },
+  option: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: 14,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  optionDisabled: {
+    opacity: 0.35,
+  },
+  optionText: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  removeButton: {
+    marginTop: 16,
+    paddingVertical: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+    alignItems: 'center',
+  },
+  removeText: {
+    fontSize: 15,
+    fontWeight: '700',
+  },
+});
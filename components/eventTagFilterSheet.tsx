@@ -2,7 +2,7 @@
 
 import { Colors } from '@/constants/theme';
 import { MaterialIcons } from '@expo/vector-icons';
-import React, { useCallback } from 'react';
+import React, { useCallback, useEffect, useState } from 'react';
 import {
 	ActivityIndicator,
 	FlatList,
@@ -14,12 +14,14 @@ import {
 	View,
 } from 'react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
-import type { EventTag, EventTagFilterSheetProps } from '../types';
+import type { EventTag, EventTagFilterSheetProps, TagMatchMode } from '../types';
+import { TAG_MATCH_OPTIONS } from '../utils/constants';
 
 export const EventTagFilterSheet = ({
 	visible,
 	tags,
 	selectedTagIds,
+	matchMode,
 	onApply,
 	onClose,
 	onRetry,
@@ -30,29 +32,45 @@ export const EventTagFilterSheet = ({
 	const palette = Colors[theme];
 	const highlightColor = palette.filterActivePill;
 	const insets = useSafeAreaInsets();
+	const [draftSelection, setDraftSelection] = useState<string[]>(selectedTagIds);
+	const [draftMatchMode, setDraftMatchMode] = useState<TagMatchMode>(matchMode);
 
-	const toggleTag = useCallback(
-		(tagId: string) => {
-			const next = selectedTagIds.includes(tagId) ? [] : [tagId];
-			onApply(next);
-			onClose();
-		},
-		[selectedTagIds, onApply, onClose]
-	);
+	useEffect(() => {
+		if (visible) {
+			setDraftSelection(selectedTagIds);
+			setDraftMatchMode(matchMode);
+		}
+	}, [visible, selectedTagIds, matchMode]);
+
+	const toggleTag = useCallback((tagId: string) => {
+		setDraftSelection((previous) =>
+			previous.includes(tagId) ? previous.filter((id) => id !== tagId) : [...previous, tagId]
+		);
+	}, []);
+
+	const handleApply = useCallback(() => {
+		onApply(draftSelection, draftMatchMode);
+		onClose();
+	}, [draftSelection, draftMatchMode, onApply, onClose]);
+
+	const handleClearAll = useCallback(() => {
+		setDraftSelection([]);
+	}, []);
 
 	const renderTagRow = useCallback(
 		({ item }: { item: EventTag }) => {
-			const isChecked = selectedTagIds.includes(item.id);
+			const isChecked = draftSelection.includes(item.id);
 			return (
 				<TouchableOpacity
 					style={styles.row}
 					onPress={() => toggleTag(item.id)}
 					activeOpacity={0.85}
-					accessibilityRole="radio"
-					accessibilityState={{ selected: isChecked }}
+					accessibilityRole="checkbox"
+					accessibilityLabel={item.name}
+					accessibilityState={{ checked: isChecked }}
 				>
 					<MaterialIcons
-						name={isChecked ? 'radio-button-checked' : 'radio-button-unchecked'}
+						name={isChecked ? 'check-box' : 'check-box-outline-blank'}
 						size={22}
 						color={isChecked ? highlightColor : palette.text}
 					/>
@@ -68,7 +86,7 @@ export const EventTagFilterSheet = ({
 				</TouchableOpacity>
 			);
 		},
-		[selectedTagIds, highlightColor, palette.text, palette.pillText, toggleTag]
+		[draftSelection, highlightColor, palette.text, palette.pillText, toggleTag]
 	);
 
 	return (
@@ -95,6 +113,29 @@ export const EventTagFilterSheet = ({
 			>
 				<Text style={[styles.title, { color: palette.text }]}>Filter Events</Text>
 
+				{/* How several tags combine; only meaningful once more than one is picked */}
+				{draftSelection.length > 1 && (
+					<View style={[styles.matchToggle, { backgroundColor: palette.filterContainer }]} accessibilityRole="radiogroup">
+						{TAG_MATCH_OPTIONS.map((option) => {
+							const isActive = option.value === draftMatchMode;
+							return (
+								<TouchableOpacity
+									key={option.value}
+									onPress={() => setDraftMatchMode(option.value)}
+									style={[styles.matchSegment, isActive && { backgroundColor: highlightColor }]}
+									accessibilityRole="radio"
+									accessibilityLabel={`Match ${option.label.toLowerCase()}`}
+									accessibilityState={{ selected: isActive }}
+								>
+									<Text style={[styles.matchLabel, { color: isActive ? palette.filterTextActive : palette.filterText }]}>
+										{option.label}
+									</Text>
+								</TouchableOpacity>
+							);
+						})}
+					</View>
+				)}
+
 				{isLoading ? (
 					<View style={styles.stateRow}>
 						<ActivityIndicator color={highlightColor} />
@@ -129,6 +170,23 @@ export const EventTagFilterSheet = ({
 						keyboardShouldPersistTaps="handled"
 					/>
 				)}
+
+				<View style={styles.actionRow}>
+					<TouchableOpacity
+						onPress={handleClearAll}
+						style={[styles.actionButton, styles.actionGhost, { borderColor: palette.pillBorder }]}
+						activeOpacity={0.85}
+					>
+						<Text style={[styles.actionGhostText, { color: palette.text }]}>Clear All</Text>
+					</TouchableOpacity>
+					<TouchableOpacity
+						onPress={handleApply}
+						style={[styles.actionButton, styles.actionPrimary, { backgroundColor: highlightColor }]}
+						activeOpacity={0.9}
+					>
+						<Text style={[styles.actionPrimaryText, { color: palette.filterTextActive }]}>Apply Filters</Text>
+					</TouchableOpacity>
+				</View>
 			</View>
 		</Modal>
 	);
@@ -159,8 +217,9 @@ const styles = StyleSheet.create({
 		fontWeight: '700',
 		marginBottom: 12,
 	},
+	// Sized to its rows, shrinking so the actions stay on screen
 	list: {
-		flex: 1,
+		flexShrink: 1,
 	},
 	stateRow: {
 		flexDirection: 'row',
@@ -206,4 +265,48 @@ const styles = StyleSheet.create({
 		fontSize: 15,
 		flex: 1,
 	},
+	matchToggle: {
+		flexDirection: 'row',
+		borderRadius: 999,
+		padding: 4,
+		marginBottom: 8,
+	},
+	matchSegment: {
+		flex: 1,
+		alignItems: 'center',
+		paddingVertical: 8,
+		borderRadius: 999,
+	},
+	matchLabel: {
+		fontSize: 14,
+		fontWeight: '600',
+	},
+	actionRow: {
+		flexDirection: 'row',
+		alignItems: 'center',
+		justifyContent: 'space-between',
+		gap: 12,
+		marginTop: 12,
+	},
+	actionButton: {
+		flex: 1,
+		paddingVertical: 12,
+		borderRadius: 12,
+		borderWidth: 1,
+		alignItems: 'center',
+	},
+	actionGhost: {
+		backgroundColor: 'transparent',
+	},
+	actionPrimary: {
+		borderWidth: 0,
+	},
+	actionGhostText: {
+		fontSize: 15,
+		fontWeight: '700',
+	},
+	actionPrimaryText: {
+		fontSize: 15,
+		fontWeight: '700',
+	},
 });
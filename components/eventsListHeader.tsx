@@ -3,23 +3,41 @@ import React from 'react';
 import { LocationPermissionBanner } from './barEmptyStates';
 import {
 	ActivityIndicator,
+	ScrollView,
 	StyleSheet,
 	Text,
 	TouchableOpacity,
 	View,
 } from 'react-native';
 import { Colors } from '../constants/theme';
-import type { SelectedTagEntry, ThemeName } from '../types/index';
+import { usePreferences } from '../hooks/usePreferences';
+import type { DistanceUnit, EventDateFilter, EventDatePreset, EventFeed, SelectedTagEntry, ThemeName } from '../types/index';
+import { EVENT_DATE_PRESETS } from '../utils/constants';
+import { formatEventDateFilterLabel } from '../utils/eventDateFilters';
+import { EventFeedToggle } from './eventFeedToggle';
+import { LastUpdatedStamp } from './lastUpdatedStamp';
 import { RadiusSelector } from './radiusSelector';
 
 type EventsListHeaderProps = {
 	theme: ThemeName;
+	// The Following feed ignores location, radius and tag filters, so those controls hide
+	feed?: EventFeed;
+	onFeedChange?: (feed: EventFeed) => void;
 	selectedTagIds: string[];
 	selectedTagEntries: SelectedTagEntry[];
+	// Date chips show only when the screen handles them
+	dateFilter?: EventDateFilter | null;
+	onSelectDatePreset?: (preset: Exclude<EventDatePreset, 'custom'>) => void;
+	onOpenDatePicker?: () => void;
+	onClearDateFilter?: () => void;
 	searchRadius: number;
+	distanceUnit?: DistanceUnit;
 	areTagsLoading: boolean;
 	tagsError: string | null;
 	error: string | null;
+	isOffline?: boolean;
+	lastUpdated?: number | null;
+	isRevalidating?: boolean;
 	locationDeniedPermanently: boolean;
 	onOpenFilterSheet: () => void;
 	onRemoveTag: (tagId: string) => void;
@@ -32,12 +50,22 @@ type EventsListHeaderProps = {
 
 export const EventsListHeader = ({
 	theme,
+	feed = 'nearby',
+	onFeedChange,
 	selectedTagIds,
 	selectedTagEntries,
+	dateFilter = null,
+	onSelectDatePreset,
+	onOpenDatePicker,
+	onClearDateFilter,
 	searchRadius,
+	distanceUnit,
 	areTagsLoading,
 	tagsError,
 	error,
+	isOffline = false,
+	lastUpdated = null,
+	isRevalidating = false,
 	locationDeniedPermanently,
 	onOpenFilterSheet,
 	onRemoveTag,
@@ -49,12 +77,43 @@ export const EventsListHeader = ({
 }: EventsListHeaderProps) => {
 	const palette = Colors[theme];
 	const highlightColor = palette.filterActivePill;
+	const isNearby = feed === 'nearby';
+	const { timeFormat } = usePreferences();
+	const isCustomDate = dateFilter?.preset === 'custom';
+
+	const renderDateChip = (key: string, label: string, isActive: boolean, onPress: () => void, accessibilityLabel = label) => (
+		<TouchableOpacity
+			key={key}
+			onPress={onPress}
+			style={[
+				styles.dateChip,
+				{ borderColor: isActive ? highlightColor : palette.border },
+				isActive ? { backgroundColor: highlightColor } : { backgroundColor: palette.filterContainer },
+			]}
+			activeOpacity={0.85}
+			accessibilityRole="button"
+			accessibilityLabel={accessibilityLabel}
+			accessibilityState={{ selected: isActive }}
+		>
+			<Text style={[styles.dateChipText, { color: isActive ? palette.filterTextActive : palette.pillText }]} numberOfLines={1}>
+				{label}
+			</Text>
+		</TouchableOpacity>
+	);
 
 	return (
 		<View style={[styles.listHeader, { backgroundColor: palette.background }]}>
 			<Text style={[styles.screenTitle, { color: palette.cardTitle }]}>Upcoming Events</Text>
 
-			{locationDeniedPermanently ? (
+			{onFeedChange ? <EventFeedToggle value={feed} onChange={onFeedChange} theme={theme} /> : null}
+
+			{isNearby && lastUpdated !== null ? (
+				<View style={styles.lastUpdatedRow}>
+					<LastUpdatedStamp lastUpdated={lastUpdated} isRevalidating={isRevalidating} theme={theme} />
+				</View>
+			) : null}
+
+			{isNearby && locationDeniedPermanently ? (
 				<View style={styles.locationBannerWrapper}>
 					<LocationPermissionBanner
 						theme={theme}
@@ -64,27 +123,50 @@ export const EventsListHeader = ({
 				</View>
 			) : null}
 
-			<View style={styles.headerControlsRow}>
-				<View style={styles.filterButtonRow}>
-					<TouchableOpacity
-						onPress={onOpenFilterSheet}
-						style={[styles.filterButton, styles.filterButtonLarge, { backgroundColor: palette.actionButton }]}
-						activeOpacity={0.9}
-						accessibilityLabel={selectedTagIds.length ? `Filters, ${selectedTagIds.length} active` : 'Filters'}
-						accessibilityRole="button"
-					>
-						<MaterialIcons name="tune" size={18} color={palette.filterTextActive} style={styles.filterButtonIcon} />
-						<Text style={[styles.filterButtonText, { color: palette.filterTextActive }]}>
-							Filters{selectedTagIds.length ? ` (${selectedTagIds.length})` : ''}
-						</Text>
-					</TouchableOpacity>
-				</View>
-				<View style={styles.radiusColumn}>
-					<RadiusSelector value={searchRadius} onChange={onRadiusChange} theme={theme} />
+			{isNearby ? (
+				<View style={styles.headerControlsRow}>
+					<View style={styles.filterButtonRow}>
+						<TouchableOpacity
+							onPress={onOpenFilterSheet}
+							style={[styles.filterButton, styles.filterButtonLarge, { backgroundColor: palette.actionButton }]}
+							activeOpacity={0.9}
+							accessibilityLabel={selectedTagIds.length ? `Filters, ${selectedTagIds.length} active` : 'Filters'}
+							accessibilityRole="button"
+						>
+							<MaterialIcons name="tune" size={18} color={palette.filterTextActive} style={styles.filterButtonIcon} />
+							<Text style={[styles.filterButtonText, { color: palette.filterTextActive }]}>
+								Filters{selectedTagIds.length ? ` (${selectedTagIds.length})` : ''}
+							</Text>
+						</TouchableOpacity>
+					</View>
+					<View style={styles.radiusColumn}>
+						<RadiusSelector value={searchRadius} unit={distanceUnit} onChange={onRadiusChange} theme={theme} />
+					</View>
 				</View>
-			</View>
+			) : null}
 
-			{selectedTagEntries.length ? (
+			{isNearby && onSelectDatePreset && onOpenDatePicker && onClearDateFilter ? (
+				<ScrollView
+					horizontal
+					showsHorizontalScrollIndicator={false}
+					style={styles.dateChipScroller}
+					contentContainerStyle={styles.dateChipRow}
+				>
+					{renderDateChip('any', 'Any date', dateFilter === null, onClearDateFilter)}
+					{EVENT_DATE_PRESETS.map((option) =>
+						renderDateChip(option.value, option.label, dateFilter?.preset === option.value, () => onSelectDatePreset(option.value))
+					)}
+					{renderDateChip(
+						'custom',
+						isCustomDate && dateFilter ? formatEventDateFilterLabel(dateFilter, timeFormat) : 'Pick dates…',
+						isCustomDate,
+						onOpenDatePicker,
+						isCustomDate && dateFilter ? `${formatEventDateFilterLabel(dateFilter, timeFormat)}. Tap to change dates.` : 'Pick dates'
+					)}
+				</ScrollView>
+			) : null}
+
+			{isNearby && selectedTagEntries.length ? (
 				<View style={styles.selectedTagChipRow}>
 					{selectedTagEntries.map((entry) => (
 						<View
@@ -108,7 +190,7 @@ export const EventsListHeader = ({
 				</View>
 			) : null}
 
-			{tagsError ? (
+			{isNearby && tagsError ? (
 				<TouchableOpacity
 					onPress={onRetryTags}
 					style={[styles.filterLoadRow, { borderColor: highlightColor }]}
@@ -119,7 +201,7 @@ export const EventsListHeader = ({
 				</TouchableOpacity>
 			) : null}
 
-			{areTagsLoading ? (
+			{isNearby && areTagsLoading ? (
 				<View style={styles.filterLoadRow}>
 					<ActivityIndicator size="small" color={highlightColor} />
 					<Text style={[styles.filterLoadText, { color: palette.cardSubtitle }]}>Loading tags...</Text>
@@ -133,8 +215,12 @@ export const EventsListHeader = ({
 						{ backgroundColor: palette.networkErrorBackground, borderColor: palette.networkErrorBorder },
 					]}
 				>
-					<Text style={[styles.errorTitle, { color: palette.networkErrorText }]}>Unable to load events</Text>
-					<Text style={[styles.errorDescription, { color: palette.networkErrorText }]}>{error}</Text>
+					<Text style={[styles.errorTitle, { color: palette.networkErrorText }]}>
+						{isOffline ? "You're offline" : 'Unable to load events'}
+					</Text>
+					<Text style={[styles.errorDescription, { color: palette.networkErrorText }]}>
+						{isOffline ? "Events will refresh as soon as you're back online." : error}
+					</Text>
 					<TouchableOpacity
 						style={[styles.retryButton, { backgroundColor: palette.networkErrorBackground, borderColor: palette.networkErrorBorder }]}
 						onPress={onRetryEvents}
@@ -163,6 +249,9 @@ const styles = StyleSheet.create({
 		fontSize: 26,
 		fontWeight: '700',
 	},
+	lastUpdatedRow: {
+		marginTop: 6,
+	},
 	headerControlsRow: {
 		flexDirection: 'row',
 		alignItems: 'flex-start',
@@ -202,6 +291,24 @@ const styles = StyleSheet.create({
 		fontWeight: '700',
 		textAlign: 'center',
 	},
+	dateChipScroller: {
+		marginTop: 12,
+		marginHorizontal: -20,
+	},
+	dateChipRow: {
+		gap: 8,
+		paddingHorizontal: 20,
+	},
+	dateChip: {
+		paddingHorizontal: 14,
+		paddingVertical: 8,
+		borderRadius: 999,
+		borderWidth: 1,
+	},
+	dateChipText: {
+		fontSize: 13,
+		fontWeight: '700',
+	},
 	selectedTagChipRow: {
 		flexDirection: 'row',
 		flexWrap: 'wrap',
@@ -0,0 +1,228 @@
+// components/eventsMap.tsx
+// Map mode for the Events tab: one date-labelled marker per bar inside the search radius
+
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { StyleSheet, Text, View } from 'react-native';
+import MapView, { Circle, Marker, type Region } from 'react-native-maps';
+import { Colors } from '../constants/theme';
+import type { Coordinates, DistanceUnit, Event, EventBarGroup, ThemeName } from '../types';
+import { formatRelativeEventDay, groupEventsByBar } from '../utils/Eventmappers';
+import { DEFAULT_DISTANCE_UNIT, DISTANCE_UNIT_LABELS, METERS_PER_KM, METERS_PER_MILE } from '../utils/constants';
+import { type MapCluster, clusterByRegion, getRegionForItems, getRegionForRadius } from '../utils/mapClustering';
+import { EventBarSheet } from './eventBarSheet';
+
+type EventsMapProps = {
+	events: Event[];
+	center: Coordinates;
+	searchRadius: number;
+	distanceUnit?: DistanceUnit;
+	theme: ThemeName;
+	onOpenEvent: (event: Event) => void;
+	onOpenBar: (barId: string) => void;
+};
+
+export const EventsMap = ({
+	events,
+	center,
+	searchRadius,
+	distanceUnit = DEFAULT_DISTANCE_UNIT,
+	theme,
+	onOpenEvent,
+	onOpenBar,
+}: EventsMapProps) => {
+	const palette = Colors[theme];
+	const mapRef = useRef<MapView>(null);
+	const radiusMeters = searchRadius * (distanceUnit === 'km' ? METERS_PER_KM : METERS_PER_MILE);
+
+	const [region, setRegion] = useState<Region>(() => getRegionForRadius(center, radiusMeters));
+	const [selectedGroupId, setSelectedGroupId] = useState<string | null>(null);
+
+	const groups = useMemo(() => groupEventsByBar(events), [events]);
+	const clusters = useMemo(() => clusterByRegion(groups, region, (group) => group.id), [groups, region]);
+	const selectedGroup = useMemo(
+		() => (selectedGroupId ? groups.find((group) => group.id === selectedGroupId) ?? null : null),
+		[groups, selectedGroupId]
+	);
+
+	// Refit the camera when the radius or search centre changes; the first fit comes from initialRegion
+	const hasFittedRef = useRef(false);
+	useEffect(() => {
+		if (!hasFittedRef.current) {
+			hasFittedRef.current = true;
+			return;
+		}
+		mapRef.current?.animateToRegion(getRegionForRadius({ lat: center.lat, lon: center.lon }, radiusMeters), 300);
+	}, [center.lat, center.lon, radiusMeters]);
+
+	const handleMarkerPress = useCallback((cluster: MapCluster<EventBarGroup>) => {
+		if (cluster.items.length === 1) {
+			setSelectedGroupId(cluster.items[0].id);
+			return;
+		}
+		const target = getRegionForItems(cluster.items);
+		if (target) {
+			mapRef.current?.animateToRegion(target, 300);
+		}
+	}, []);
+
+	const handleOpenEvent = useCallback(
+		(event: Event) => {
+			setSelectedGroupId(null);
+			onOpenEvent(event);
+		},
+		[onOpenEvent]
+	);
+
+	const handleOpenBar = useCallback(
+		(barId: string) => {
+			setSelectedGroupId(null);
+			onOpenBar(barId);
+		},
+		[onOpenBar]
+	);
+
+	return (
+		<View style={styles.container}>
+			<MapView
+				ref={mapRef}
+				style={StyleSheet.absoluteFill}
+				initialRegion={region}
+				onRegionChangeComplete={setRegion}
+				showsUserLocation
+				testID="events-map"
+			>
+				<Circle
+					center={{ latitude: center.lat, longitude: center.lon }}
+					radius={radiusMeters}
+					strokeColor={palette.filterActivePill}
+					fillColor={`${palette.filterActivePill}1A`}
+					strokeWidth={2}
+				/>
+				{clusters.map((cluster) => {
+					if (cluster.items.length === 1) {
+						const group = cluster.items[0];
+						const nextEvent = group.events[0];
+						const dayLabel = formatRelativeEventDay(nextEvent.date ?? nextEvent.start_time, nextEvent.timezone);
+						return (
+							<Marker
+								key={cluster.id}
+								coordinate={cluster.coordinate}
+								onPress={() => handleMarkerPress(cluster)}
+								tracksViewChanges={false}
+								accessibilityLabel={`${group.bar_name}, ${group.events.length} upcoming`}
+							>
+								<View style={[styles.marker, { backgroundColor: palette.cardSurface, borderColor: palette.filterActivePill }]}>
+									<Text style={[styles.markerDay, { color: palette.filterActivePill }]} numberOfLines={1}>
+										{dayLabel}
+									</Text>
+									{group.events.length > 1 ? (
+										<View style={[styles.markerCount, { backgroundColor: palette.filterActivePill }]}>
+											<Text style={[styles.markerCountText, { color: palette.filterTextActive }]}>
+												{group.events.length}
+											</Text>
+										</View>
+									) : null}
+								</View>
+							</Marker>
+						);
+					}
+					return (
+						<Marker
+							key={cluster.id}
+							coordinate={cluster.coordinate}
+							onPress={() => handleMarkerPress(cluster)}
+							tracksViewChanges={false}
+							accessibilityLabel={`${cluster.items.length} bars`}
+						>
+							<View style={[styles.cluster, { backgroundColor: palette.filterActivePill, borderColor: palette.background }]}>
+								<Text style={[styles.clusterText, { color: palette.filterTextActive }]}>{cluster.items.length}</Text>
+							</View>
+						</Marker>
+					);
+				})}
+			</MapView>
+
+			{groups.length === 0 ? (
+				<View style={styles.emptyWrapper} pointerEvents="none">
+					<View style={[styles.emptyNotice, { backgroundColor: palette.cardSurface, borderColor: palette.border }]}>
+						<Text style={[styles.emptyNoticeText, { color: palette.cardSubtitle }]}>
+							No upcoming events within {searchRadius} {DISTANCE_UNIT_LABELS[distanceUnit].long}.
+						</Text>
+					</View>
+				</View>
+			) : null}
+
+			<EventBarSheet
+				group={selectedGroup}
+				theme={theme}
+				onClose={() => setSelectedGroupId(null)}
+				onOpenEvent={handleOpenEvent}
+				onOpenBar={handleOpenBar}
+			/>
+		</View>
+	);
+};
+
+const styles = StyleSheet.create({
+	container: {
+		flex: 1,
+	},
+	marker: {
+		flexDirection: 'row',
+		alignItems: 'center',
+		gap: 6,
+		paddingHorizontal: 10,
+		paddingVertical: 6,
+		borderRadius: 999,
+		borderWidth: 2,
+	},
+	markerDay: {
+		fontSize: 12,
+		fontWeight: '700',
+		letterSpacing: 0.3,
+		textTransform: 'uppercase',
+	},
+	markerCount: {
+		minWidth: 18,
+		height: 18,
+		paddingHorizontal: 4,
+		borderRadius: 9,
+		alignItems: 'center',
+		justifyContent: 'center',
+	},
+	markerCountText: {
+		fontSize: 11,
+		fontWeight: '700',
+	},
+	cluster: {
+		minWidth: 36,
+		height: 36,
+		paddingHorizontal: 8,
+		borderRadius: 18,
+		borderWidth: 2,
+		alignItems: 'center',
+		justifyContent: 'center',
+	},
+	clusterText: {
+		fontSize: 14,
+		fontWeight: '700',
+	},
+	emptyWrapper: {
+		position: 'absolute',
+		left: 0,
+		right: 0,
+		bottom: 0,
+	},
+	emptyNotice: {
+		marginHorizontal: 20,
+		marginBottom: 16,
+		padding: 14,
+		borderRadius: 12,
+		borderWidth: 1,
+		alignItems: 'center',
+	},
+	emptyNoticeText: {
+		fontSize: 14,
+		fontWeight: '500',
+	},
+});
@@ -0,0 +1,46 @@
+// components/favoriteButton.tsx
+// Heart toggle that adds a bar to, or removes it from, the user's favorites
+
+import { MaterialIcons } from '@expo/vector-icons';
+import React from 'react';
+import { StyleSheet, TouchableOpacity } from 'react-native';
+import { Colors } from '../constants/theme';
+import { useFavorites } from '../hooks/useFavorites';
+import type { ThemeName, searchBar } from '../types';
+
+type FavoriteButtonProps = {
+  bar: searchBar;
+  theme: ThemeName;
+  size?: number;
+};
+
+export const FavoriteButton = ({ bar, theme, size = 24 }: FavoriteButtonProps) => {
+  const palette = Colors[theme];
+  const { isFavorite, toggleFavorite } = useFavorites();
+  const isActive = isFavorite(bar.id);
+
+  return (
+    <TouchableOpacity
+      onPress={() => {
+        toggleFavorite(bar);
+      }}
+      style={styles.button}
+      hitSlop={8}
+      accessibilityRole="button"
+      accessibilityLabel={isActive ? `Remove ${bar.name} from favorites` : `Add ${bar.name} to favorites`}
+      accessibilityState={{ selected: isActive }}
+    >
+      <MaterialIcons
+        name={isActive ? 'favorite' : 'favorite-border'}
+        size={size}
+        color={isActive ? palette.favoriteActive : palette.icon}
+      />
+    </TouchableOpacity>
+  );
+};
+
+const styles = StyleSheet.create({
+  button: {
+    padding: 2,
+  },
+});
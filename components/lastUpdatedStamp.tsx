@@ -0,0 +1,40 @@
+// components/lastUpdatedStamp.tsx
+// Small "Updated 5 min ago" line shown above lists restored from the persisted cache
+
+import { MaterialIcons } from '@expo/vector-icons';
+import React from 'react';
+import { ActivityIndicator, StyleSheet, Text, View } from 'react-native';
+import { Colors } from '../constants/theme';
+import type { ThemeName } from '../types';
+import { formatLastUpdatedLabel } from '../utils/Timeformatters';
+
+type LastUpdatedStampProps = {
+  lastUpdated: number;
+  isRevalidating: boolean;
+  theme: ThemeName;
+};
+
+export const LastUpdatedStamp = ({ lastUpdated, isRevalidating, theme }: LastUpdatedStampProps) => {
+  const palette = Colors[theme];
+  const label = formatLastUpdatedLabel(lastUpdated);
+
+  return (
+    <View style={styles.row} accessibilityRole="text" accessibilityLabel={isRevalidating ? `${label}, refreshing` : label}>
+      <MaterialIcons name="history" size={14} color={palette.cardSubtitle} />
+      <Text style={[styles.label, { color: palette.cardSubtitle }]}>{label}</Text>
+      {isRevalidating ? <ActivityIndicator size="small" color={palette.cardSubtitle} /> : null}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  label: {
+    fontSize: 13,
+    fontWeight: '500',
+  },
+});
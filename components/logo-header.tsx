@@ -1,12 +1,13 @@
 
 import { Colors } from '@/constants/theme';
+import { useAppTheme } from '@/hooks/useAppTheme';
 import React from 'react';
-import { Image, StyleSheet, useColorScheme, View } from 'react-native';
+import { Image, StyleSheet, View } from 'react-native';
 
 
 
 export function LogoHeader() {
-  const theme = useColorScheme() ?? 'dark';
+  const { theme } = useAppTheme();
   const palette = Colors[theme];
   return (
     <View style={[styles.container, { backgroundColor: palette.container }]}>
@@ -0,0 +1,41 @@
+// components/offlineBanner.tsx
+// Strip shown at the top of every tab while the device has no connection
+
+import { MaterialIcons } from '@expo/vector-icons';
+import React from 'react';
+import { StyleSheet, Text, View } from 'react-native';
+import { Colors } from '../constants/theme';
+import type { ThemeName } from '../types';
+
+export const OfflineBanner = ({ theme }: { theme: ThemeName }) => {
+  const palette = Colors[theme];
+
+  return (
+    <View
+      style={[styles.banner, { backgroundColor: palette.warningBackground, borderBottomColor: palette.warningBorder }]}
+      accessibilityRole="alert"
+      accessibilityLiveRegion="polite"
+    >
+      <MaterialIcons name="wifi-off" size={16} color={palette.warningText} />
+      <Text style={[styles.text, { color: palette.warningText }]}>
+        {"You're offline. Showing saved results where we have them."}
+      </Text>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  banner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingHorizontal: 20,
+    paddingVertical: 8,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  text: {
+    flex: 1,
+    fontSize: 13,
+    fontWeight: '600',
+  },
+});
@@ -1,12 +1,13 @@
 import { Colors } from '@/constants/theme';
 import { useAuth } from '@/hooks/use-auth';
+import { useAppTheme } from '@/hooks/useAppTheme';
 import { useRouter } from 'expo-router';
 import { UserCircle } from 'lucide-react-native';
 import React from 'react';
-import { StyleSheet, TouchableOpacity, useColorScheme } from 'react-native';
+import { StyleSheet, TouchableOpacity } from 'react-native';
 
 export function ProfileButton() {
-  const theme = useColorScheme() ?? 'dark';
+  const { theme } = useAppTheme();
   const palette = Colors[theme];
   const { isAuthenticated } = useAuth();
   const router = useRouter();
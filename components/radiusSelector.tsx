@@ -9,16 +9,17 @@ import {
 	View,
 } from 'react-native';
 import { Colors } from '../constants/theme';
-import type { ThemeName } from '../types/index';
-import { DISTANCE_UNIT, RADIUS_OPTIONS } from '../utils/constants';
+import type { DistanceUnit, ThemeName } from '../types/index';
+import { DEFAULT_DISTANCE_UNIT, DISTANCE_UNIT_LABELS, RADIUS_OPTIONS } from '../utils/constants';
 
 type RadiusSelectorProps = {
 	value: number;
+	unit?: DistanceUnit;
 	onChange: (value: number) => void;
 	theme: ThemeName;
 };
 
-export const RadiusSelector = ({ value, onChange, theme }: RadiusSelectorProps) => {
+export const RadiusSelector = ({ value, unit = DEFAULT_DISTANCE_UNIT, onChange, theme }: RadiusSelectorProps) => {
 	const [isPickerVisible, setPickerVisible] = useState(false);
 	const [dropdownTop, setDropdownTop] = useState(0);
 	const [dropdownLeft, setDropdownLeft] = useState(0);
@@ -43,8 +44,8 @@ export const RadiusSelector = ({ value, onChange, theme }: RadiusSelectorProps)
 		});
 	}, []);
 
-	const unitAbbr = DISTANCE_UNIT === 'miles' ? 'mi' : 'km';
-	const unitFull = DISTANCE_UNIT === 'miles' ? 'miles' : 'kilometers';
+	const unitAbbr = DISTANCE_UNIT_LABELS[unit].short;
+	const unitFull = DISTANCE_UNIT_LABELS[unit].long;
 	const currentLabel = `Radius: ${value} ${unitAbbr}`;
 
 	return (
@@ -68,7 +69,7 @@ export const RadiusSelector = ({ value, onChange, theme }: RadiusSelectorProps)
 							{ top: dropdownTop, left: dropdownLeft, width: dropdownWidth, backgroundColor: palette.container, borderColor: palette.border },
 						]}
 					>
-						{RADIUS_OPTIONS.map((option) => (
+						{RADIUS_OPTIONS[unit].map((option) => (
 							<TouchableOpacity
 								key={option}
 								style={styles.radiusPickerOption}
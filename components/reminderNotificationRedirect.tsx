@@ -0,0 +1,24 @@
+import * as Notifications from 'expo-notifications';
+import { useRouter } from 'expo-router';
+import { useEffect, useRef } from 'react';
+
+// Opens the event when the user taps one of its reminder notifications,
+// including the tap that launched the app.
+export const ReminderNotificationRedirect = () => {
+  const response = Notifications.useLastNotificationResponse();
+  const router = useRouter();
+  const handledIdRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    if (!response || response.actionIdentifier !== Notifications.DEFAULT_ACTION_IDENTIFIER) return;
+    const { identifier, content } = response.notification.request;
+    const instanceId = content.data?.instanceId;
+    if (typeof instanceId !== 'string' || handledIdRef.current === identifier) return;
+    handledIdRef.current = identifier;
+    router.push({ pathname: '/event/[instanceId]', params: { instanceId } });
+  }, [response, router]);
+
+  return null;
+};
+
+export default ReminderNotificationRedirect;
@@ -2,17 +2,33 @@ import { MaterialIcons } from '@expo/vector-icons';
 import React from 'react';
 import { StyleSheet, Text, TouchableOpacity, View } from 'react-native';
 import { Colors } from '../constants/theme';
-import type { ThemeName, searchBar } from '../types/index';
+import type { BarSearchMatch, ThemeName, searchBar } from '../types/index';
+import { BAR_SEARCH_MATCH_FIELDS } from '../utils/constants';
 
 type SearchResultCardProps = {
 	bar: searchBar;
 	theme: ThemeName;
 	onPress: () => void;
 	onRemove?: () => void;
+	// Names the list the remove button takes the bar out of
+	removeFrom?: string;
 };
 
-export const SearchResultCard = ({ bar, theme, onPress, onRemove }: SearchResultCardProps) => {
+export const SearchResultCard = ({ bar, theme, onPress, onRemove, removeFrom = 'recents' }: SearchResultCardProps) => {
 	const palette = Colors[theme];
+	const { match } = bar;
+	const matchLabel = match ? BAR_SEARCH_MATCH_FIELDS.find((option) => option.field === match.field)?.label : undefined;
+
+	// The matched part of the text, set off from the rest
+	const renderHighlighted = ({ text, start, end }: BarSearchMatch) => (
+		<>
+			{text.slice(0, start)}
+			<Text style={[styles.highlight, { backgroundColor: palette.activePill, color: palette.pillText }]}>
+				{text.slice(start, end)}
+			</Text>
+			{text.slice(end)}
+		</>
+	);
 
 	return (
 		<TouchableOpacity
@@ -24,17 +40,28 @@ export const SearchResultCard = ({ bar, theme, onPress, onRemove }: SearchResult
 		>
 			<View style={styles.cardRow}>
 				<View style={styles.cardText}>
-					<Text style={[styles.resultName, { color: palette.cardTitle }]}>{bar.name}</Text>
+					<Text style={[styles.resultName, { color: palette.cardTitle }]}>
+						{match?.field === 'name' ? renderHighlighted(match) : bar.name}
+					</Text>
 					<Text style={[styles.resultLocation, { color: palette.cardSubtitle }]}>
 						{[bar.address_city, bar.address_state].filter(Boolean).join(', ') || 'Location coming soon'}
 					</Text>
+					{match && match.field !== 'name' ? (
+						<Text
+							style={[styles.matchReason, { color: palette.cardText }]}
+							accessibilityLabel={`Matched ${matchLabel?.toLowerCase()} ${match.text}`}
+						>
+							{`${matchLabel}: `}
+							{renderHighlighted(match)}
+						</Text>
+					) : null}
 				</View>
 				{onRemove ? (
 					<TouchableOpacity
 						onPress={onRemove}
 						hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
 						accessibilityRole="button"
-						accessibilityLabel={`Remove ${bar.name} from recents`}
+						accessibilityLabel={`Remove ${bar.name} from ${removeFrom}`}
 					>
 						<MaterialIcons name="close" size={18} color={palette.cardSubtitle} />
 					</TouchableOpacity>
@@ -66,4 +93,11 @@ const styles = StyleSheet.create({
 		marginTop: 4,
 		fontSize: 14,
 	},
+	matchReason: {
+		marginTop: 4,
+		fontSize: 13,
+	},
+	highlight: {
+		fontWeight: '700',
+	},
 });
@@ -0,0 +1,65 @@
+// components/searchScopeToggle.tsx
+// Segmented control switching the Search tab between bar and event results
+
+import React from 'react';
+import { StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { Colors } from '../constants/theme';
+import type { SearchScope, ThemeName } from '../types';
+import { SEARCH_SCOPE_OPTIONS } from '../utils/constants';
+
+type SearchScopeToggleProps = {
+  value: SearchScope;
+  onChange: (scope: SearchScope) => void;
+  // Result counts for the current query, shown beside each label
+  counts?: Partial<Record<SearchScope, number>>;
+  theme: ThemeName;
+};
+
+export const SearchScopeToggle = ({ value, onChange, counts, theme }: SearchScopeToggleProps) => {
+  const palette = Colors[theme];
+
+  return (
+    <View style={[styles.container, { backgroundColor: palette.filterContainer }]} accessibilityRole="tablist">
+      {SEARCH_SCOPE_OPTIONS.map((option) => {
+        const isActive = option.value === value;
+        const count = counts?.[option.value];
+        const label = count !== undefined ? `${option.label} (${count})` : option.label;
+        return (
+          <TouchableOpacity
+            key={option.value}
+            onPress={() => {
+              if (!isActive) onChange(option.value);
+            }}
+            style={[styles.segment, isActive && { backgroundColor: palette.filterActivePill }]}
+            accessibilityRole="tab"
+            accessibilityLabel={`${label} results`}
+            accessibilityState={{ selected: isActive }}
+          >
+            <Text style={[styles.label, { color: isActive ? palette.filterTextActive : palette.filterText }]}>
+              {label}
+            </Text>
+          </TouchableOpacity>
+        );
+      })}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    borderRadius: 999,
+    padding: 4,
+    marginTop: 12,
+  },
+  segment: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderRadius: 999,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+});
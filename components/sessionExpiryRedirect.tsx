@@ -0,0 +1,37 @@
+import { usePathname, useRouter } from 'expo-router';
+import { useEffect, useRef } from 'react';
+
+import { useAuth } from '@/hooks/use-auth';
+
+// Screens that should never be used as the post-sign-in destination
+const AUTH_PATHS = ['/login', '/register'];
+
+// Sends the user to /login when the session expires mid-session, remembering
+// the screen they were on so login can return them there.
+export const SessionExpiryRedirect = () => {
+  const { sessionExpired } = useAuth();
+  const pathname = usePathname();
+  const router = useRouter();
+  const lastPathRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    if (!AUTH_PATHS.includes(pathname)) {
+      lastPathRef.current = pathname;
+    }
+  }, [pathname]);
+
+  useEffect(() => {
+    if (!sessionExpired) return;
+    router.replace({
+      pathname: '/login',
+      params: {
+        reason: 'session_expired',
+        ...(lastPathRef.current ? { returnTo: lastPathRef.current } : {}),
+      },
+    });
+  }, [sessionExpired, router]);
+
+  return null;
+};
+
+export default SessionExpiryRedirect;
@@ -0,0 +1,50 @@
+// components/viewModeToggle.tsx
+// Header button switching a tab between its list and map modes
+
+import { MaterialIcons } from '@expo/vector-icons';
+import React from 'react';
+import { StyleSheet, Text, TouchableOpacity } from 'react-native';
+import { Colors } from '../constants/theme';
+import type { ListViewMode, ThemeName } from '../types';
+
+type ViewModeToggleProps = {
+  value: ListViewMode;
+  onChange: (mode: ListViewMode) => void;
+  theme: ThemeName;
+};
+
+export const ViewModeToggle = ({ value, onChange, theme }: ViewModeToggleProps) => {
+  const palette = Colors[theme];
+  const nextMode: ListViewMode = value === 'list' ? 'map' : 'list';
+  const label = nextMode === 'map' ? 'Map' : 'List';
+
+  return (
+    <TouchableOpacity
+      onPress={() => onChange(nextMode)}
+      style={[styles.button, { borderColor: palette.border }]}
+      hitSlop={8}
+      accessibilityRole="button"
+      accessibilityLabel={`Show ${label.toLowerCase()}`}
+    >
+      <MaterialIcons name={nextMode === 'map' ? 'map' : 'view-list'} size={18} color={palette.iconSelected} />
+      <Text style={[styles.label, { color: palette.iconSelected }]}>{label}</Text>
+    </TouchableOpacity>
+  );
+};
+
+const styles = StyleSheet.create({
+  button: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    marginRight: 16,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 999,
+    borderWidth: 1,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+});
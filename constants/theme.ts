@@ -62,6 +62,9 @@ export const Colors = {
     //account page
     LogOutText: '#212121',
     deleteAccountText: '#B71C1C',
+
+    // Favorites
+    favoriteActive: '#E53935',
   },
   dark: {
     // Layout
@@ -118,6 +121,9 @@ export const Colors = {
     //account page
     LogOutText: '#F5F5F5',
     deleteAccountText: '#FF5252',
+
+    // Favorites
+    favoriteActive: '#FF5252',
   },
 };
 
@@ -2,12 +2,14 @@
 import * as Location from 'expo-location';
 import { useCallback, useRef, useState } from 'react';
 import type { Coordinates, LocationCache } from '../types/index';
-import { DEFAULT_COORDS, LOCATION_CACHE_TTL_MS, LOCATION_TIMEOUT_MS } from '../utils/constants';
+import { LOCATION_CACHE_TTL_MS, LOCATION_TIMEOUT_MS } from '../utils/constants';
+import { usePreferences } from './usePreferences';
 
 // Hook to manage location with caching and permission handling
 export const useLocationCache = () => {
   const [userCoords, setUserCoords] = useState<Coordinates | null>(null);
   const [locationDeniedPermanently, setLocationDeniedPermanently] = useState(false);
+  const { defaultCoords } = usePreferences();
 
   const permissionStatusRef = useRef<Location.PermissionStatus | null>(null);
   const lastCoordsRef = useRef<LocationCache | null>(null);
@@ -109,7 +111,7 @@ export const useLocationCache = () => {
   }, []);
 
   // Main getter: getCurrentCoordinates() returns cached coords if fresh; else tries a fresh fetch; 
-  // If that fails, returns the last known userCoords state or DEFAULT_COORDS as a final fallback.
+  // If that fails, returns the last known userCoords state or the preferred default city as a final fallback.
   const getCurrentCoordinates = useCallback(async (): Promise<Coordinates> => {
     const cached = getCachedLocation();
     if (cached) {
@@ -117,8 +119,8 @@ export const useLocationCache = () => {
     }
 
     const fresh = await refreshUserLocation();
-    return fresh ?? userCoordsRef.current ?? DEFAULT_COORDS;
-  }, [getCachedLocation, refreshUserLocation]);
+    return fresh ?? userCoordsRef.current ?? defaultCoords;
+  }, [defaultCoords, getCachedLocation, refreshUserLocation]);
 
   return {
     userCoords,
@@ -2,6 +2,7 @@
 // Tests for the AuthProvider and useAuth hook
 
 import React from 'react';
+import { AppState } from 'react-native';
 import { renderHook, act } from '@testing-library/react-native';
 import { AuthProvider, useAuth } from '../use-auth';
 
@@ -19,6 +20,14 @@ jest.mock('expo-secure-store', () => ({
   deleteItemAsync: (...args: unknown[]) => mockDeleteItemAsync(...args),
 }));
 
+const mockAuthenticateAsync = jest.fn();
+
+jest.mock('expo-local-authentication', () => ({
+  SecurityLevel: { NONE: 0, SECRET: 1, BIOMETRIC_WEAK: 2, BIOMETRIC_STRONG: 3 },
+  getEnrolledLevelAsync: () => Promise.resolve(3),
+  authenticateAsync: (...args: unknown[]) => mockAuthenticateAsync(...args),
+}));
+
 // ---------------------------------------------------------------------------
 // Helpers
 // ---------------------------------------------------------------------------
@@ -182,6 +191,493 @@ describe('use-auth', () => {
   });
 
 
+  // -------------------------------------------------------------------------
+  // Session expiry mid-session
+  // -------------------------------------------------------------------------
+
+  describe('session expiry', () => {
+    it.each([401, 403])('signs out and flags sessionExpired on %i from an authenticated call', async (status) => {
+      mockGetItemAsync.mockResolvedValue('active-token');
+      (global.fetch as jest.Mock).mockReturnValue(stubFetch({ data: makeUser() }));
+
+      const { result } = renderHook(() => useAuth(), { wrapper });
+
+      await act(async () => {});
+
+      expect(result.current.status).toBe('authenticated');
+      expect(result.current.sessionExpired).toBe(false);
+
+      (global.fetch as jest.Mock).mockReturnValue(stubFetch({ message: 'jwt expired' }, { status, ok: false }));
+
+      let outcome: { success: boolean; message?: string } | undefined;
+      await act(async () => {
+        outcome = await result.current.updateProfile({ full_name: 'New Name' });
+      });
+
+      expect(outcome?.success).toBe(false);
+      expect(result.current.status).toBe('unauthenticated');
+      expect(result.current.token).toBeNull();
+      expect(result.current.user).toBeNull();
+      expect(result.current.sessionExpired).toBe(true);
+      expect(mockDeleteItemAsync).toHaveBeenCalledWith('ttp-auth-token');
+    });
+
+    it('does not flag sessionExpired for a bad token at bootstrap', async () => {
+      mockGetItemAsync.mockResolvedValue('bad-token');
+      (global.fetch as jest.Mock).mockReturnValue(stubFetch({}, { status: 401, ok: false }));
+
+      const { result } = renderHook(() => useAuth(), { wrapper });
+
+      await act(async () => {});
+
+      expect(result.current.status).toBe('unauthenticated');
+      expect(result.current.sessionExpired).toBe(false);
+    });
+
+    it('clears sessionExpired after signing in again', async () => {
+      mockGetItemAsync.mockResolvedValue('active-token');
+      (global.fetch as jest.Mock).mockReturnValue(stubFetch({ data: makeUser() }));
+
+      const { result } = renderHook(() => useAuth(), { wrapper });
+
+      await act(async () => {});
+
+      (global.fetch as jest.Mock).mockReturnValue(stubFetch({}, { status: 401, ok: false }));
+      await act(async () => {
+        await result.current.deleteAccount();
+      });
+
+      expect(result.current.sessionExpired).toBe(true);
+
+      (global.fetch as jest.Mock).mockReturnValue(stubFetch({ token: 'fresh-token', user: makeUser() }));
+      await act(async () => {
+        await result.current.login({ email: 'test@example.com', password: 'secret' });
+      });
+
+      expect(result.current.status).toBe('authenticated');
+      expect(result.current.sessionExpired).toBe(false);
+    });
+  });
+
+  // -------------------------------------------------------------------------
+  // Refresh tokens
+  // -------------------------------------------------------------------------
+
+  describe('refresh tokens', () => {
+    const storedTokens = (values: Record<string, string | null>) => {
+      mockGetItemAsync.mockImplementation((key: string) => Promise.resolve(values[key] ?? null));
+    };
+
+    it('stores the refresh token returned by login', async () => {
+      mockGetItemAsync.mockResolvedValue(null);
+      (global.fetch as jest.Mock).mockReturnValue(
+        stubFetch({ token: 'access-1', refresh_token: 'refresh-1', user: makeUser() })
+      );
+
+      const { result } = renderHook(() => useAuth(), { wrapper });
+
+      await act(async () => {});
+      await act(async () => {
+        await result.current.login({ email: 'test@example.com', password: 'secret' });
+      });
+
+      expect(mockSetItemAsync).toHaveBeenCalledWith('ttp-auth-token', 'access-1');
+      expect(mockSetItemAsync).toHaveBeenCalledWith('ttp-refresh-token', 'refresh-1');
+    });
+
+    it('refreshes an expired stored token during bootstrap', async () => {
+      storedTokens({ 'ttp-auth-token': 'expired-access', 'ttp-refresh-token': 'refresh-1' });
+      (global.fetch as jest.Mock).mockImplementation((url: string, init: RequestInit) => {
+        if (url.endsWith('/appUsers/refresh')) {
+          return stubFetch({ token: 'access-2', refresh_token: 'refresh-2' });
+        }
+        const authorization = (init.headers as Record<string, string>).Authorization;
+        return authorization === 'Bearer access-2'
+          ? stubFetch({ data: makeUser() })
+          : stubFetch({ message: 'jwt expired' }, { status: 401, ok: false });
+      });
+
+      const { result } = renderHook(() => useAuth(), { wrapper });
+
+      await act(async () => {});
+
+      expect(result.current.status).toBe('authenticated');
+      expect(result.current.token).toBe('access-2');
+      expect(result.current.user).toEqual(makeUser());
+      expect(mockSetItemAsync).toHaveBeenCalledWith('ttp-refresh-token', 'refresh-2');
+    });
+
+    it('keeps the expiry of a token refreshed during bootstrap', async () => {
+      jest.useFakeTimers();
+      jest.setSystemTime(new Date('2026-01-01T12:00:00Z'));
+      storedTokens({ 'ttp-auth-token': 'expired-access', 'ttp-refresh-token': 'refresh-1' });
+      let refreshedToken = 'access-2';
+      (global.fetch as jest.Mock).mockImplementation((url: string, init: RequestInit) => {
+        if (url.endsWith('/appUsers/refresh')) {
+          return stubFetch({ token: refreshedToken, refresh_token: 'refresh-2', expires_in: 300 });
+        }
+        const authorization = (init.headers as Record<string, string>).Authorization;
+        return authorization === 'Bearer expired-access'
+          ? stubFetch({ message: 'jwt expired' }, { status: 401, ok: false })
+          : stubFetch({ data: makeUser() });
+      });
+
+      const { result } = renderHook(() => useAuth(), { wrapper });
+
+      await act(async () => {});
+      expect(result.current.token).toBe('access-2');
+
+      // The opaque token carries no exp claim, so only expires_in schedules the next refresh
+      refreshedToken = 'access-3';
+      await act(async () => {
+        jest.advanceTimersByTime(300_000);
+      });
+
+      expect(result.current.token).toBe('access-3');
+    });
+
+    it('retries a mid-session request after refreshing on a 401', async () => {
+      storedTokens({ 'ttp-auth-token': 'access-1', 'ttp-refresh-token': 'refresh-1' });
+      (global.fetch as jest.Mock).mockReturnValue(stubFetch({ data: makeUser() }));
+
+      const { result } = renderHook(() => useAuth(), { wrapper });
+
+      await act(async () => {});
+
+      (global.fetch as jest.Mock).mockImplementation((url: string, init: RequestInit) => {
+        if (url.endsWith('/appUsers/refresh')) {
+          return stubFetch({ token: 'access-2' });
+        }
+        const authorization = (init.headers as Record<string, string>).Authorization;
+        return authorization === 'Bearer access-2'
+          ? stubFetch({})
+          : stubFetch({ message: 'jwt expired' }, { status: 401, ok: false });
+      });
+
+      let outcome: { success: boolean; message?: string } | undefined;
+      await act(async () => {
+        outcome = await result.current.updateProfile({ full_name: 'New Name' });
+      });
+
+      expect(outcome?.success).toBe(true);
+      expect(result.current.status).toBe('authenticated');
+      expect(result.current.token).toBe('access-2');
+      expect(result.current.sessionExpired).toBe(false);
+    });
+
+    it('logs out when the refresh token is rejected', async () => {
+      storedTokens({ 'ttp-auth-token': 'access-1', 'ttp-refresh-token': 'refresh-1' });
+      (global.fetch as jest.Mock).mockReturnValue(stubFetch({ data: makeUser() }));
+
+      const { result } = renderHook(() => useAuth(), { wrapper });
+
+      await act(async () => {});
+
+      (global.fetch as jest.Mock).mockReturnValue(stubFetch({ message: 'invalid refresh token' }, { status: 401, ok: false }));
+
+      await act(async () => {
+        await result.current.updateProfile({ full_name: 'New Name' });
+      });
+
+      expect(result.current.status).toBe('unauthenticated');
+      expect(result.current.sessionExpired).toBe(true);
+      expect(mockDeleteItemAsync).toHaveBeenCalledWith('ttp-auth-token');
+      expect(mockDeleteItemAsync).toHaveBeenCalledWith('ttp-refresh-token');
+    });
+
+    it.each([
+      ['offline', () => Promise.reject(new TypeError('Network request failed'))],
+      ['failing with a 500', () => stubFetch({ message: 'Server error' }, { status: 500, ok: false })],
+    ])('stays signed in when the refresh endpoint is %s', async (_label, refreshResponse) => {
+      storedTokens({ 'ttp-auth-token': 'access-1', 'ttp-refresh-token': 'refresh-1' });
+      (global.fetch as jest.Mock).mockReturnValue(stubFetch({ data: makeUser() }));
+
+      const { result } = renderHook(() => useAuth(), { wrapper });
+
+      await act(async () => {});
+
+      (global.fetch as jest.Mock).mockImplementation((url: string) =>
+        url.endsWith('/appUsers/refresh')
+          ? refreshResponse()
+          : stubFetch({ message: 'jwt expired' }, { status: 401, ok: false })
+      );
+
+      let outcome: { success: boolean; message?: string } | undefined;
+      await act(async () => {
+        outcome = await result.current.updateProfile({ full_name: 'New Name' });
+      });
+
+      expect(outcome?.success).toBe(false);
+      expect(result.current.status).toBe('authenticated');
+      expect(result.current.sessionExpired).toBe(false);
+      expect(mockDeleteItemAsync).not.toHaveBeenCalled();
+    });
+
+    it('keeps the stored tokens on a cold start without network to refresh', async () => {
+      storedTokens({ 'ttp-auth-token': 'expired-access', 'ttp-refresh-token': 'refresh-1' });
+      (global.fetch as jest.Mock).mockImplementation((url: string) =>
+        url.endsWith('/appUsers/refresh')
+          ? Promise.reject(new TypeError('Network request failed'))
+          : stubFetch({ message: 'jwt expired' }, { status: 401, ok: false })
+      );
+
+      const { result } = renderHook(() => useAuth(), { wrapper });
+
+      await act(async () => {});
+
+      expect(result.current.status).toBe('authenticated');
+      expect(result.current.token).toBe('expired-access');
+      expect(mockDeleteItemAsync).not.toHaveBeenCalled();
+    });
+
+    it('refreshes silently shortly before the access token expires', async () => {
+      jest.useFakeTimers();
+      jest.setSystemTime(new Date('2026-01-01T12:00:00Z'));
+      mockGetItemAsync.mockResolvedValue(null);
+      (global.fetch as jest.Mock).mockReturnValue(
+        stubFetch({ token: 'access-1', refresh_token: 'refresh-1', expires_in: 300, user: makeUser() })
+      );
+
+      const { result } = renderHook(() => useAuth(), { wrapper });
+
+      await act(async () => {});
+      await act(async () => {
+        await result.current.login({ email: 'test@example.com', password: 'secret' });
+      });
+
+      (global.fetch as jest.Mock).mockReturnValue(stubFetch({ token: 'access-2', expires_in: 300 }));
+
+      // Not yet inside the refresh window
+      await act(async () => {
+        jest.advanceTimersByTime(200_000);
+      });
+      expect(result.current.token).toBe('access-1');
+
+      await act(async () => {
+        jest.advanceTimersByTime(40_000);
+      });
+
+      expect(result.current.token).toBe('access-2');
+      const [url, init] = (global.fetch as jest.Mock).mock.calls.at(-1);
+      expect(url).toBe('https://api.example.com/appUsers/refresh');
+      expect(JSON.parse(init.body)).toEqual({ refresh_token: 'refresh-1' });
+    });
+  });
+
+  // -------------------------------------------------------------------------
+  // updateCredentials
+  // -------------------------------------------------------------------------
+
+  describe('updateCredentials', () => {
+    const signIn = async () => {
+      mockGetItemAsync.mockResolvedValue('active-token');
+      (global.fetch as jest.Mock).mockReturnValue(stubFetch({ data: makeUser() }));
+
+      const hook = renderHook(() => useAuth(), { wrapper });
+      await act(async () => {});
+      (global.fetch as jest.Mock).mockReset();
+      return hook;
+    };
+
+    it('sends the current password with the update', async () => {
+      const { result } = await signIn();
+      (global.fetch as jest.Mock).mockReturnValueOnce(stubFetch({}));
+
+      let outcome: { success: boolean; message?: string } | undefined;
+      await act(async () => {
+        outcome = await result.current.updateCredentials({
+          current_password: 'Old-Password-1',
+          email: 'new@example.com',
+        });
+      });
+
+      expect(outcome?.success).toBe(true);
+      expect(global.fetch).toHaveBeenCalledTimes(1);
+      const [updateUrl, updateInit] = (global.fetch as jest.Mock).mock.calls[0];
+      expect(updateUrl).toBe('https://api.example.com/appUsers/me');
+      expect(updateInit.method).toBe('PUT');
+      expect(JSON.parse(updateInit.body)).toEqual({ email: 'new@example.com', current_password: 'Old-Password-1' });
+      expect(result.current.user?.email).toBe('new@example.com');
+    });
+
+    it('maps the server rejecting the current password without ending the session', async () => {
+      const { result } = await signIn();
+      (global.fetch as jest.Mock).mockReturnValue(
+        stubFetch({ message: 'Wrong password', code: 'invalid_current_password' }, { status: 403, ok: false })
+      );
+
+      let outcome: { success: boolean; message?: string; code?: string } | undefined;
+      await act(async () => {
+        outcome = await result.current.updateCredentials({ current_password: 'wrong', new_password: 'New-Password-123' });
+      });
+
+      expect(outcome).toEqual({
+        success: false,
+        message: 'Current password is incorrect.',
+        code: 'invalid_current_password',
+      });
+      expect(global.fetch).toHaveBeenCalledTimes(1);
+      expect(result.current.status).toBe('authenticated');
+      expect(result.current.sessionExpired).toBe(false);
+      expect(mockDeleteItemAsync).not.toHaveBeenCalled();
+    });
+
+    it('returns a timeout message when the update times out', async () => {
+      const { result } = await signIn();
+      (global.fetch as jest.Mock).mockRejectedValue(
+        Object.assign(new Error('Aborted'), { name: 'AbortError' })
+      );
+
+      let outcome: { success: boolean; message?: string } | undefined;
+      await act(async () => {
+        outcome = await result.current.updateCredentials({ current_password: 'pw', new_password: 'x' });
+      });
+
+      expect(outcome?.success).toBe(false);
+      expect(outcome?.message).toMatch(/timed out/i);
+    });
+  });
+
+  // -------------------------------------------------------------------------
+  // App lock
+  // -------------------------------------------------------------------------
+
+  describe('app lock', () => {
+    const storedValues = (values: Record<string, string | null>) => {
+      mockGetItemAsync.mockImplementation((key: string) => Promise.resolve(values[key] ?? null));
+    };
+
+    const lockedSession = (idleTimeoutMs = 60_000) => {
+      storedValues({
+        'ttp-auth-token': 'active-token',
+        'ttp-app-lock': JSON.stringify({ enabled: true, idleTimeoutMs }),
+      });
+      (global.fetch as jest.Mock).mockReturnValue(stubFetch({ data: makeUser() }));
+    };
+
+    it('starts unlocked when App Lock is off', async () => {
+      storedValues({ 'ttp-auth-token': 'active-token' });
+      (global.fetch as jest.Mock).mockReturnValue(stubFetch({ data: makeUser() }));
+
+      const { result } = renderHook(() => useAuth(), { wrapper });
+
+      await act(async () => {});
+
+      expect(result.current.status).toBe('authenticated');
+      expect(result.current.isLocked).toBe(false);
+      expect(result.current.appLock.enabled).toBe(false);
+    });
+
+    it('locks on cold start when App Lock is on', async () => {
+      lockedSession();
+
+      const { result } = renderHook(() => useAuth(), { wrapper });
+
+      await act(async () => {});
+
+      expect(result.current.status).toBe('authenticated');
+      expect(result.current.isLocked).toBe(true);
+    });
+
+    it('unlocks after a successful device check', async () => {
+      lockedSession();
+      mockAuthenticateAsync.mockResolvedValue({ success: true });
+
+      const { result } = renderHook(() => useAuth(), { wrapper });
+
+      await act(async () => {});
+      await act(async () => {
+        await result.current.unlock();
+      });
+
+      expect(result.current.isLocked).toBe(false);
+    });
+
+    it('stays locked when the device check fails', async () => {
+      lockedSession();
+      mockAuthenticateAsync.mockResolvedValue({ success: false, error: 'user_cancel' });
+
+      const { result } = renderHook(() => useAuth(), { wrapper });
+
+      await act(async () => {});
+      await act(async () => {
+        await result.current.unlock();
+      });
+
+      expect(result.current.isLocked).toBe(true);
+    });
+
+    it('re-locks when returning from the background after the idle period', async () => {
+      const listeners: ((state: string) => void)[] = [];
+      const originalAddEventListener = AppState.addEventListener;
+      AppState.addEventListener = ((_type: string, listener: (state: string) => void) => {
+        listeners.push(listener);
+        return { remove: jest.fn() };
+      }) as unknown as typeof AppState.addEventListener;
+      const now = jest.spyOn(Date, 'now');
+      lockedSession(60_000);
+      mockAuthenticateAsync.mockResolvedValue({ success: true });
+
+      const { result } = renderHook(() => useAuth(), { wrapper });
+
+      await act(async () => {});
+      await act(async () => {
+        await result.current.unlock();
+      });
+
+      // Short trip to the background: stays unlocked
+      now.mockReturnValue(1_000_000);
+      act(() => listeners.forEach((listener) => listener('background')));
+      now.mockReturnValue(1_030_000);
+      act(() => listeners.forEach((listener) => listener('active')));
+      expect(result.current.isLocked).toBe(false);
+
+      // Longer than the idle period: locks again
+      now.mockReturnValue(2_000_000);
+      act(() => listeners.forEach((listener) => listener('background')));
+      now.mockReturnValue(2_060_000);
+      act(() => listeners.forEach((listener) => listener('active')));
+      expect(result.current.isLocked).toBe(true);
+
+      now.mockRestore();
+      AppState.addEventListener = originalAddEventListener;
+    });
+
+    it('requires a device check to turn App Lock on and persists the setting', async () => {
+      storedValues({ 'ttp-auth-token': 'active-token' });
+      (global.fetch as jest.Mock).mockReturnValue(stubFetch({ data: makeUser() }));
+      mockAuthenticateAsync.mockResolvedValue({ success: true });
+
+      const { result } = renderHook(() => useAuth(), { wrapper });
+
+      await act(async () => {});
+      await act(async () => {
+        await result.current.setAppLockEnabled(true);
+      });
+
+      expect(mockAuthenticateAsync).toHaveBeenCalledTimes(1);
+      expect(result.current.appLock.enabled).toBe(true);
+      expect(result.current.isLocked).toBe(false);
+      expect(mockSetItemAsync).toHaveBeenCalledWith(
+        'ttp-app-lock',
+        JSON.stringify({ enabled: true, idleTimeoutMs: 60_000 })
+      );
+    });
+
+    it('clears the lock on logout', async () => {
+      lockedSession();
+
+      const { result } = renderHook(() => useAuth(), { wrapper });
+
+      await act(async () => {});
+      await act(async () => {
+        await result.current.logout();
+      });
+
+      expect(result.current.isLocked).toBe(false);
+    });
+  });
+
   // -------------------------------------------------------------------------
   // login
   // -------------------------------------------------------------------------
@@ -0,0 +1,100 @@
+// hooks/__tests__/useAppTheme.test.tsx
+// Tests for the AppThemeProvider and useAppTheme
+
+import React from 'react';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { renderHook, act } from '@testing-library/react-native';
+import { AppThemeProvider, resolveTheme, useAppTheme } from '../useAppTheme';
+import { PreferencesProvider } from '../usePreferences';
+import { PREFERENCES_KEY } from '../../utils/constants';
+
+// ---------------------------------------------------------------------------
+// Mocks
+// ---------------------------------------------------------------------------
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+let mockSystemTheme: 'light' | 'dark' | null = 'light';
+jest.mock('react-native/Libraries/Utilities/useColorScheme', () => ({
+  __esModule: true,
+  default: () => mockSystemTheme,
+}));
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const wrapper = ({ children }: { children: React.ReactNode }) => (
+  <PreferencesProvider>
+    <AppThemeProvider>{children}</AppThemeProvider>
+  </PreferencesProvider>
+);
+
+beforeEach(async () => {
+  mockSystemTheme = 'light';
+  await AsyncStorage.clear();
+});
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe('resolveTheme', () => {
+  it('follows the device in system mode, dark when it is unknown', () => {
+    expect(resolveTheme('system', 'light')).toBe('light');
+    expect(resolveTheme('system', null)).toBe('dark');
+  });
+
+  it('lets a forced mode win', () => {
+    expect(resolveTheme('dark', 'light')).toBe('dark');
+    expect(resolveTheme('light', 'dark')).toBe('light');
+  });
+});
+
+describe('useAppTheme', () => {
+  it('follows the device appearance outside a provider', () => {
+    const { result } = renderHook(() => useAppTheme());
+
+    expect(result.current.theme).toBe('light');
+    expect(result.current.themeMode).toBe('system');
+  });
+
+  it('restores a stored mode', async () => {
+    await AsyncStorage.setItem(PREFERENCES_KEY, JSON.stringify({ themeMode: 'dark' }));
+
+    const { result } = renderHook(() => useAppTheme(), { wrapper });
+    await act(async () => {});
+
+    expect(result.current.themeMode).toBe('dark');
+    expect(result.current.theme).toBe('dark');
+  });
+
+  it('applies and persists a forced mode', async () => {
+    const { result } = renderHook(() => useAppTheme(), { wrapper });
+    await act(async () => {});
+
+    await act(async () => {
+      result.current.setThemeMode('dark');
+    });
+
+    expect(result.current.theme).toBe('dark');
+    expect(JSON.parse((await AsyncStorage.getItem(PREFERENCES_KEY)) ?? '{}')).toMatchObject({ themeMode: 'dark' });
+  });
+
+  it('tracks the device again in system mode', async () => {
+    await AsyncStorage.setItem(PREFERENCES_KEY, JSON.stringify({ themeMode: 'light' }));
+    mockSystemTheme = 'dark';
+
+    const { result } = renderHook(() => useAppTheme(), { wrapper });
+    await act(async () => {});
+    expect(result.current.theme).toBe('light');
+
+    await act(async () => {
+      result.current.setThemeMode('system');
+    });
+
+    expect(result.current.theme).toBe('dark');
+  });
+});
@@ -1,9 +1,14 @@
 // hooks/__tests__/useBars.test.ts
 // Tests for the useBars custom hook
 
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { StrictMode, createElement, type ReactNode } from 'react';
 import { renderHook, act } from '@testing-library/react-native';
 import { useBars } from '../useBars';
 import type { Coordinates } from '../../types';
+import { PERSISTED_CACHE_CONFIG } from '../../utils/constants';
+import { getCacheKey } from '../../utils/helpers';
+import { getPersistedCacheStorageKey, readPersistedCache, writePersistedCache } from '../../utils/persistentCache';
 
 // ---------------------------------------------------------------------------
 // Mocks
@@ -14,13 +19,18 @@ jest.mock('../../utils/Barmappers', () => ({
     items.map((item: any, i: number) => ({
       id: String(item.id ?? i),
       name: item.name ?? `Bar ${i}`,
+      distance_miles: item.distance_miles,
       tags: [],
-      hours: [],
+      hours: item.hours ?? [],
     }))
   ),
   mergeBars: jest.requireActual('../../utils/Barmappers').mergeBars,
 }));
 
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
 // ---------------------------------------------------------------------------
 // Helpers
 // ---------------------------------------------------------------------------
@@ -63,9 +73,10 @@ const abortableFetch = (_url: string, init: RequestInit) =>
 // ---------------------------------------------------------------------------
 
 describe('useBars', () => {
-  beforeEach(() => {
+  beforeEach(async () => {
     jest.clearAllMocks();
     global.fetch = jest.fn();
+    await AsyncStorage.clear();
   });
 
   afterEach(() => {
@@ -229,6 +240,167 @@ describe('useBars', () => {
     });
   });
 
+  // -------------------------------------------------------------------------
+  // Plan for later
+  // -------------------------------------------------------------------------
+
+  describe('open at a planned time', () => {
+    // Saturday 24 October 2026, 9 PM local
+    const OPEN_AT = new Date(2026, 9, 24, 21, 0);
+    const saturdayHours = (open_time: string, close_time: string) => [
+      { id: 'h', day_of_week: 6, open_time, close_time, is_closed: false, crosses_midnight: false },
+    ];
+
+    it('asks for bars open at the chosen time instead of open now', async () => {
+      (global.fetch as jest.Mock).mockReturnValue(stubFetch([]));
+
+      const { result } = renderHook(() => useBars(COORDS, [], OPEN_AT));
+
+      await act(async () => {
+        result.current.loadInitial();
+      });
+
+      const url = decodeURIComponent((global.fetch as jest.Mock).mock.calls[0][0] as string);
+      expect(url).toContain(`open_at=${OPEN_AT.toISOString()}`);
+      expect(url).not.toContain('open_now');
+    });
+
+    it("drops bars whose hours say they are closed then and keeps bars without hours", async () => {
+      (global.fetch as jest.Mock).mockReturnValue(
+        stubFetch([
+          { ...makeItem('1'), hours: saturdayHours('17:00:00', '23:00:00') },
+          { ...makeItem('2'), hours: saturdayHours('11:00:00', '15:00:00') },
+          makeItem('3'),
+        ])
+      );
+
+      const { result } = renderHook(() => useBars(COORDS, [], OPEN_AT));
+
+      await act(async () => {
+        result.current.loadInitial();
+      });
+
+      expect(result.current.bars.map((bar) => bar.id)).toEqual(['1', '3']);
+    });
+
+    it('persists planned results apart from open-now results', async () => {
+      (global.fetch as jest.Mock).mockReturnValue(stubFetch([makeItem('1')]));
+
+      const { result } = renderHook(() => useBars(COORDS, [], OPEN_AT));
+
+      await act(async () => {
+        result.current.loadInitial();
+      });
+      await act(async () => {});
+
+      const planned = await readPersistedCache(
+        'bars',
+        getCacheKey(COORDS, [], undefined, { openAt: OPEN_AT }),
+        PERSISTED_CACHE_CONFIG.barsTtlMs
+      );
+      const openNow = await readPersistedCache('bars', getCacheKey(COORDS, []), PERSISTED_CACHE_CONFIG.barsTtlMs);
+      expect(planned).not.toBeNull();
+      expect(openNow).toBeNull();
+    });
+  });
+
+  // -------------------------------------------------------------------------
+  // Sorting
+  // -------------------------------------------------------------------------
+
+  describe('sorting', () => {
+    it('sends the sort to the API', async () => {
+      (global.fetch as jest.Mock).mockReturnValue(stubFetch([]));
+
+      const { result } = renderHook(() => useBars(COORDS, [], null, 'closing_latest'));
+
+      await act(async () => {
+        result.current.loadInitial();
+      });
+
+      const url = (global.fetch as jest.Mock).mock.calls[0][0] as string;
+      expect(url).toContain('sort=closes_at');
+      expect(url).toContain('order=desc');
+    });
+
+    it('sorts a later page without moving the rows already loaded', async () => {
+      const page1 = Array.from({ length: 10 }, (_, i) => ({ ...makeItem(i + 1), distance_miles: (i + 1) * 2 }));
+      const page2 = [
+        { ...makeItem('far'), distance_miles: 40 },
+        { ...makeItem('near'), distance_miles: 0.5 },
+      ];
+      (global.fetch as jest.Mock)
+        .mockReturnValueOnce(stubFetch(page1, { hasNextPage: true }))
+        .mockReturnValue(stubFetch(page2, { hasNextPage: false }));
+
+      const { result } = renderHook(() => useBars(COORDS, []));
+
+      await act(async () => {
+        result.current.loadInitial();
+      });
+      await act(async () => {});
+
+      const ids = result.current.bars.map((bar) => bar.id);
+      expect(ids.slice(0, 2)).toEqual(['1', '2']);
+      expect(ids.slice(-2)).toEqual(['near', 'far']);
+    });
+
+    it('persists each sort under its own key', async () => {
+      (global.fetch as jest.Mock).mockReturnValue(stubFetch([makeItem('1')]));
+
+      const { result } = renderHook(() => useBars(COORDS, [], null, 'name'));
+
+      await act(async () => {
+        result.current.loadInitial();
+      });
+      await act(async () => {});
+
+      const persisted = await readPersistedCache(
+        'bars',
+        getCacheKey(COORDS, [], undefined, { sort: 'name' }),
+        PERSISTED_CACHE_CONFIG.barsTtlMs
+      );
+      expect(persisted).not.toBeNull();
+    });
+  });
+
+  describe('distance unit', () => {
+    it('asks the API for the preferred unit', async () => {
+      (global.fetch as jest.Mock).mockReturnValue(stubFetch([]));
+
+      const { result } = renderHook(() => useBars(COORDS, [], null, 'nearest', 'km'));
+
+      await act(async () => {
+        result.current.loadInitial();
+      });
+
+      const url = (global.fetch as jest.Mock).mock.calls[0][0] as string;
+      expect(url).toContain('unit=km');
+      expect(url).not.toContain('unit=miles');
+    });
+
+    it('persists each unit under its own key', async () => {
+      (global.fetch as jest.Mock).mockReturnValue(stubFetch([makeItem('1')]));
+
+      const { result } = renderHook(() => useBars(COORDS, [], null, 'nearest', 'km'));
+
+      await act(async () => {
+        result.current.loadInitial();
+      });
+      await act(async () => {});
+
+      const persisted = await readPersistedCache(
+        'bars',
+        getCacheKey(COORDS, [], undefined, { unit: 'km' }),
+        PERSISTED_CACHE_CONFIG.barsTtlMs
+      );
+      expect(persisted).not.toBeNull();
+      expect(
+        await readPersistedCache('bars', getCacheKey(COORDS, []), PERSISTED_CACHE_CONFIG.barsTtlMs)
+      ).toBeNull();
+    });
+  });
+
   // -------------------------------------------------------------------------
   // Caching
   // -------------------------------------------------------------------------
@@ -257,6 +429,103 @@ describe('useBars', () => {
     });
   });
 
+  // -------------------------------------------------------------------------
+  // Persisted cache
+  // -------------------------------------------------------------------------
+
+  describe('persisted cache', () => {
+    const CACHE_KEY = getCacheKey(COORDS, []);
+    const persistedBar = { id: 'cached-1', name: 'Cached Bar', tags: [], hours: [] };
+
+    const seedPersisted = (key = CACHE_KEY, savedAt = Date.now() - 60_000) =>
+      writePersistedCache(
+        'bars',
+        key,
+        { key, timestamp: savedAt, data: [persistedBar], currentPage: 1, hasMore: true },
+        savedAt
+      );
+
+    it('shows persisted bars with lastUpdated and blocks load-more until revalidated', async () => {
+      const savedAt = Date.now() - 60_000;
+      await seedPersisted(CACHE_KEY, savedAt);
+      let resolveFetch: (value: Response) => void = () => {};
+      (global.fetch as jest.Mock).mockReturnValue(new Promise<Response>((resolve) => { resolveFetch = resolve; }));
+
+      const { result } = renderHook(() => useBars(COORDS, []));
+
+      await act(async () => {
+        result.current.loadInitial();
+      });
+
+      expect(result.current.bars[0].id).toBe('cached-1');
+      expect(result.current.lastUpdated).toBe(savedAt);
+      expect(result.current.isRevalidating).toBe(true);
+      expect(result.current.isLoading).toBe(false);
+
+      act(() => {
+        result.current.handleLoadMore();
+      });
+      expect(global.fetch).toHaveBeenCalledTimes(1);
+
+      await act(async () => {
+        resolveFetch(await stubFetch([makeItem('1')]));
+      });
+
+      expect(result.current.bars[0].id).toBe('1');
+      expect(result.current.lastUpdated).toBeNull();
+      expect(result.current.isRevalidating).toBe(false);
+    });
+
+    it('ignores persisted bars saved for different tags', async () => {
+      await seedPersisted(getCacheKey(COORDS, ['karaoke']));
+      (global.fetch as jest.Mock).mockReturnValue(new Promise(() => {}));
+
+      const { result } = renderHook(() => useBars(COORDS, []));
+
+      await act(async () => {
+        result.current.loadInitial();
+      });
+
+      expect(result.current.bars).toEqual([]);
+      expect(result.current.lastUpdated).toBeNull();
+      expect(result.current.isLoading).toBe(true);
+    });
+
+    it('persists fresh results under the getCacheKey key', async () => {
+      (global.fetch as jest.Mock).mockReturnValue(stubFetch([makeItem('1')]));
+
+      const { result } = renderHook(() => useBars(COORDS, []));
+
+      await act(async () => {
+        result.current.loadInitial();
+      });
+      await act(async () => {});
+
+      const persisted = await readPersistedCache<{ data: { id: string }[] }>(
+        'bars',
+        CACHE_KEY,
+        PERSISTED_CACHE_CONFIG.barsTtlMs
+      );
+      expect(persisted?.value.data.map((bar) => bar.id)).toEqual(['1']);
+    });
+
+    it('writes each loaded page to disk once, even when React replays state updates', async () => {
+      (global.fetch as jest.Mock).mockReturnValue(stubFetch([makeItem('1')]));
+      const setItem = jest.spyOn(AsyncStorage, 'setItem');
+      const strictWrapper = ({ children }: { children: ReactNode }) => createElement(StrictMode, null, children);
+
+      const { result } = renderHook(() => useBars(COORDS, []), { wrapper: strictWrapper });
+
+      await act(async () => {
+        result.current.loadInitial();
+      });
+      await act(async () => {});
+
+      const storageKey = getPersistedCacheStorageKey('bars', CACHE_KEY);
+      expect(setItem.mock.calls.filter(([key]) => key === storageKey)).toHaveLength(1);
+    });
+  });
+
   // -------------------------------------------------------------------------
   // handleLoadMore
   // -------------------------------------------------------------------------
@@ -409,6 +678,68 @@ describe('useBars', () => {
     });
   });
 
+  // -------------------------------------------------------------------------
+  // Map area search
+  // -------------------------------------------------------------------------
+
+  describe('searchArea', () => {
+    const AREA: Coordinates = { lat: 42.36, lon: -71.05 };
+
+    it('reloads page 1 around the map centre and exposes areaCoords', async () => {
+      (global.fetch as jest.Mock).mockReturnValue(stubFetch([makeItem('1')]));
+
+      const { result } = renderHook(() => useBars(COORDS, []));
+
+      await act(async () => {
+        result.current.loadInitial();
+      });
+      await act(async () => {
+        result.current.searchArea(AREA);
+      });
+
+      const url = (global.fetch as jest.Mock).mock.calls.at(-1)?.[0] as string;
+      expect(url).toContain('lat=42.36');
+      expect(url).toContain('lon=-71.05');
+      expect(url).toContain('page=1');
+      expect(result.current.areaCoords).toEqual(AREA);
+    });
+
+    it('keeps paging around the map centre', async () => {
+      const page1 = Array.from({ length: 10 }, (_, i) => makeItem(i + 1));
+      (global.fetch as jest.Mock)
+        .mockReturnValueOnce(stubFetch(page1, { hasNextPage: true }))
+        .mockReturnValue(stubFetch([makeItem('11')], { hasNextPage: false }));
+
+      const { result } = renderHook(() => useBars(COORDS, []));
+
+      await act(async () => {
+        result.current.searchArea(AREA);
+      });
+      await act(async () => {});
+
+      const urls = (global.fetch as jest.Mock).mock.calls.map((call) => call[0] as string);
+      expect(urls.length).toBeGreaterThan(1);
+      urls.forEach((url) => expect(url).toContain('lat=42.36'));
+    });
+
+    it('clearSearchArea goes back to the user location', async () => {
+      (global.fetch as jest.Mock).mockReturnValue(stubFetch([makeItem('1')]));
+
+      const { result } = renderHook(() => useBars(COORDS, []));
+
+      await act(async () => {
+        result.current.searchArea(AREA);
+      });
+      await act(async () => {
+        result.current.clearSearchArea();
+      });
+
+      const url = (global.fetch as jest.Mock).mock.calls.at(-1)?.[0] as string;
+      expect(url).toContain('lat=40.7128');
+      expect(result.current.areaCoords).toBeNull();
+    });
+  });
+
   // -------------------------------------------------------------------------
   // Request timeout
   // -------------------------------------------------------------------------
@@ -0,0 +1,149 @@
+// hooks/__tests__/useCalendarExport.test.ts
+// Tests for the useCalendarExport custom hook
+
+import { renderHook, act } from '@testing-library/react-native';
+import { Alert } from 'react-native';
+import { useCalendarExport } from '../useCalendarExport';
+import type { Event } from '../../types';
+
+// ---------------------------------------------------------------------------
+// Mocks
+// ---------------------------------------------------------------------------
+
+const mockCreateEvent = jest.fn((_event: unknown) => Promise.resolve({ action: 'saved', id: 'cal-1' }));
+jest.mock('expo-calendar', () => ({
+  Frequency: { DAILY: 'daily', WEEKLY: 'weekly', MONTHLY: 'monthly', YEARLY: 'yearly' },
+  createEventInCalendarAsync: (event: unknown) => mockCreateEvent(event),
+}));
+
+let mockSharingAvailable = true;
+const mockShare = jest.fn((_uri: string, _options?: unknown) => Promise.resolve());
+jest.mock('expo-sharing', () => ({
+  isAvailableAsync: () => Promise.resolve(mockSharingAvailable),
+  shareAsync: (uri: string, options?: unknown) => mockShare(uri, options),
+}));
+
+const mockWrites: { uri: string; contents: string }[] = [];
+jest.mock('expo-file-system', () => ({
+  Paths: { cache: 'file:///cache' },
+  File: class {
+    uri: string;
+    constructor(directory: string, name: string) {
+      this.uri = `${directory}/${name}`;
+    }
+    create() {}
+    write(contents: string) {
+      mockWrites.push({ uri: this.uri, contents });
+    }
+  },
+}));
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const event = (overrides: Partial<Event> = {}): Event => ({
+  instance_id: 'i1',
+  event_id: 'e1',
+  title: 'Trivia Night',
+  bar_name: 'The Crown',
+  start_time: '2026-10-20T20:00:00',
+  end_time: '2026-10-20T22:00:00',
+  timezone: 'UTC',
+  ...overrides,
+});
+
+let alertSpy: jest.SpyInstance;
+
+beforeEach(() => {
+  mockSharingAvailable = true;
+  mockCreateEvent.mockClear();
+  mockShare.mockClear();
+  mockWrites.length = 0;
+  alertSpy = jest.spyOn(Alert, 'alert').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  alertSpy.mockRestore();
+});
+
+// ---------------------------------------------------------------------------
+// Suite
+// ---------------------------------------------------------------------------
+
+describe('useCalendarExport', () => {
+  it('prefills the system calendar with the event', async () => {
+    const { result } = renderHook(() => useCalendarExport());
+
+    let added = false;
+    await act(async () => {
+      added = await result.current.addToCalendar(event({ recurrence_pattern: 'biweekly' }));
+    });
+
+    expect(added).toBe(true);
+    expect(mockCreateEvent).toHaveBeenCalledWith(
+      expect.objectContaining({
+        title: 'Trivia Night',
+        startDate: new Date('2026-10-20T20:00:00.000Z'),
+        endDate: new Date('2026-10-20T22:00:00.000Z'),
+        location: 'The Crown',
+        recurrenceRule: { frequency: 'weekly', interval: 2 },
+      })
+    );
+  });
+
+  it('reports events without a start time instead of opening the calendar', async () => {
+    const { result } = renderHook(() => useCalendarExport());
+
+    let added = true;
+    await act(async () => {
+      added = await result.current.addToCalendar(event({ start_time: undefined }));
+    });
+
+    expect(added).toBe(false);
+    expect(mockCreateEvent).not.toHaveBeenCalled();
+    expect(alertSpy).toHaveBeenCalledWith('Unable to add to calendar', "This event doesn't have a start time yet.");
+  });
+
+  it('writes an .ics file and shares it', async () => {
+    const { result } = renderHook(() => useCalendarExport());
+
+    await act(async () => {
+      await result.current.shareEvents([event(), event({ instance_id: 'i2', event_id: 'e2' })], 'The Crown events');
+    });
+
+    expect(mockWrites).toHaveLength(1);
+    expect(mockWrites[0].uri).toBe('file:///cache/the-crown-events.ics');
+    expect(mockWrites[0].contents.match(/BEGIN:VEVENT/g)).toHaveLength(2);
+    expect(mockShare).toHaveBeenCalledWith(
+      'file:///cache/the-crown-events.ics',
+      expect.objectContaining({ mimeType: 'text/calendar' })
+    );
+    expect(result.current.isExporting).toBe(false);
+  });
+
+  it('does not share when the device cannot', async () => {
+    mockSharingAvailable = false;
+    const { result } = renderHook(() => useCalendarExport());
+
+    let shared = true;
+    await act(async () => {
+      shared = await result.current.shareEvents([event()], 'Trivia');
+    });
+
+    expect(shared).toBe(false);
+    expect(mockShare).not.toHaveBeenCalled();
+    expect(alertSpy).toHaveBeenCalledWith('Sharing unavailable', "This device can't share files.");
+  });
+
+  it('has nothing to share when no event has a start time', async () => {
+    const { result } = renderHook(() => useCalendarExport());
+
+    await act(async () => {
+      await result.current.shareEvents([event({ start_time: undefined })], 'Trivia');
+    });
+
+    expect(mockWrites).toHaveLength(0);
+    expect(alertSpy).toHaveBeenCalledWith('Nothing to export', 'None of these events have a start time yet.');
+  });
+});
@@ -0,0 +1,168 @@
+// hooks/__tests__/useConnectivity.test.tsx
+// Tests for the ConnectivityProvider, useConnectivity and useRetryOnReconnect
+
+import React from 'react';
+import { renderHook, act } from '@testing-library/react-native';
+import { ConnectivityProvider, isOfflineState, useConnectivity, useRetryOnReconnect } from '../useConnectivity';
+
+// ---------------------------------------------------------------------------
+// Mocks
+// ---------------------------------------------------------------------------
+
+type NetworkListener = (state: { isConnected?: boolean; isInternetReachable?: boolean }) => void;
+
+const mockGetNetworkStateAsync = jest.fn();
+const mockRemove = jest.fn();
+let mockListener: NetworkListener | null = null;
+
+jest.mock('expo-network', () => ({
+  getNetworkStateAsync: (...args: unknown[]) => mockGetNetworkStateAsync(...args),
+  addNetworkStateListener: (listener: NetworkListener) => {
+    mockListener = listener;
+    return { remove: mockRemove };
+  },
+}));
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const ONLINE = { isConnected: true, isInternetReachable: true };
+const OFFLINE = { isConnected: false, isInternetReachable: false };
+
+const wrapper = ({ children }: { children: React.ReactNode }) => (
+  <ConnectivityProvider>{children}</ConnectivityProvider>
+);
+
+const emit = async (state: Parameters<NetworkListener>[0]) => {
+  await act(async () => {
+    mockListener?.(state);
+  });
+};
+
+// ---------------------------------------------------------------------------
+// Suite
+// ---------------------------------------------------------------------------
+
+describe('isOfflineState', () => {
+  it('is offline when the device is disconnected', () => {
+    expect(isOfflineState({ isConnected: false, isInternetReachable: undefined })).toBe(true);
+  });
+
+  it('is offline when connected but the internet is unreachable', () => {
+    expect(isOfflineState({ isConnected: true, isInternetReachable: false })).toBe(true);
+  });
+
+  it('stays online while reachability is still unknown', () => {
+    expect(isOfflineState({ isConnected: true, isInternetReachable: undefined })).toBe(false);
+    expect(isOfflineState({})).toBe(false);
+  });
+});
+
+describe('useConnectivity', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockListener = null;
+    mockGetNetworkStateAsync.mockResolvedValue(ONLINE);
+  });
+
+  it('defaults to online outside a provider', () => {
+    const { result } = renderHook(() => useConnectivity());
+
+    expect(result.current).toEqual({ isOffline: false, reconnectCount: 0 });
+  });
+
+  it('reads the initial network state', async () => {
+    mockGetNetworkStateAsync.mockResolvedValue(OFFLINE);
+
+    const { result } = renderHook(() => useConnectivity(), { wrapper });
+
+    await act(async () => {});
+
+    expect(result.current.isOffline).toBe(true);
+  });
+
+  it('follows network state changes and counts reconnects', async () => {
+    const { result } = renderHook(() => useConnectivity(), { wrapper });
+    await act(async () => {});
+
+    await emit(OFFLINE);
+    expect(result.current.isOffline).toBe(true);
+    expect(result.current.reconnectCount).toBe(0);
+
+    await emit(ONLINE);
+    expect(result.current.isOffline).toBe(false);
+    expect(result.current.reconnectCount).toBe(1);
+  });
+
+  it('does not count a reconnect when it was never offline', async () => {
+    const { result } = renderHook(() => useConnectivity(), { wrapper });
+    await act(async () => {});
+
+    await emit(ONLINE);
+
+    expect(result.current.reconnectCount).toBe(0);
+  });
+
+  it('ignores a stale initial snapshot that arrives after a listener event', async () => {
+    let resolveInitial: (state: typeof ONLINE) => void = () => {};
+    mockGetNetworkStateAsync.mockReturnValue(new Promise((resolve) => { resolveInitial = resolve; }));
+
+    const { result } = renderHook(() => useConnectivity(), { wrapper });
+
+    await emit(OFFLINE);
+    await act(async () => {
+      resolveInitial(ONLINE);
+    });
+
+    expect(result.current.isOffline).toBe(true);
+  });
+
+  it('removes the network listener on unmount', async () => {
+    const { unmount } = renderHook(() => useConnectivity(), { wrapper });
+    await act(async () => {});
+
+    unmount();
+
+    expect(mockRemove).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('useRetryOnReconnect', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockListener = null;
+    mockGetNetworkStateAsync.mockResolvedValue(ONLINE);
+  });
+
+  it('does not run on mount', async () => {
+    const onReconnect = jest.fn();
+
+    renderHook(() => useRetryOnReconnect(onReconnect), { wrapper });
+    await act(async () => {});
+
+    expect(onReconnect).not.toHaveBeenCalled();
+  });
+
+  it('runs the latest callback each time the connection comes back', async () => {
+    const first = jest.fn();
+    const second = jest.fn();
+
+    const { rerender } = renderHook(
+      ({ callback }: { callback: () => void }) => useRetryOnReconnect(callback),
+      { wrapper, initialProps: { callback: first } }
+    );
+    await act(async () => {});
+
+    await emit(OFFLINE);
+    await emit(ONLINE);
+    expect(first).toHaveBeenCalledTimes(1);
+
+    rerender({ callback: second });
+    await emit(OFFLINE);
+    await emit(ONLINE);
+
+    expect(first).toHaveBeenCalledTimes(1);
+    expect(second).toHaveBeenCalledTimes(1);
+  });
+});
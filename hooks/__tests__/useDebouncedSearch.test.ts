@@ -0,0 +1,82 @@
+// hooks/__tests__/useDebouncedSearch.test.ts
+// Tests for the shared debounced search hook behind useSearch and useEventSearch
+
+import { renderHook, act } from '@testing-library/react-native';
+import { useDebouncedSearch, type SearchFetcher } from '../useDebouncedSearch';
+import { ApiError } from '../../utils/apiClient';
+import { SEARCH_DEBOUNCE_MS } from '../../utils/constants';
+
+// ---------------------------------------------------------------------------
+// Mocks
+// ---------------------------------------------------------------------------
+
+jest.mock('expo-network', () => ({
+  getNetworkStateAsync: () => Promise.resolve({ isConnected: true, isInternetReachable: true }),
+  addNetworkStateListener: () => ({ remove: jest.fn() }),
+}));
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const MESSAGES = { unconfigured: 'Not configured.', failed: 'Search failed.' };
+
+const renderSearch = (query: string, fetcher: SearchFetcher<string>) =>
+  renderHook(
+    ({ query: q, fetcher: f }: { query: string; fetcher: SearchFetcher<string> }) => useDebouncedSearch(q, f, MESSAGES),
+    { initialProps: { query, fetcher } }
+  );
+
+// ---------------------------------------------------------------------------
+// Suite
+// ---------------------------------------------------------------------------
+
+describe('useDebouncedSearch', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('passes the trimmed term to the fetcher once the query settles', async () => {
+    const fetcher = jest.fn(async (term: string) => [`${term} result`]);
+    const { result } = renderSearch('  pub quiz ', fetcher);
+
+    expect(fetcher).not.toHaveBeenCalled();
+    await act(async () => { jest.advanceTimersByTime(SEARCH_DEBOUNCE_MS); });
+
+    expect(fetcher).toHaveBeenCalledTimes(1);
+    expect(fetcher.mock.calls[0][0]).toBe('pub quiz');
+    expect(result.current.results).toEqual(['pub quiz result']);
+    expect(result.current.effectiveQuery).toBe('pub quiz');
+  });
+
+  it('searches again when the fetcher changes', async () => {
+    const first = jest.fn(async () => ['first']);
+    const second = jest.fn(async () => ['second']);
+    const { result, rerender } = renderSearch('crown', first);
+    await act(async () => { jest.advanceTimersByTime(SEARCH_DEBOUNCE_MS); });
+
+    rerender({ query: 'crown', fetcher: second });
+    await act(async () => { jest.advanceTimersByTime(SEARCH_DEBOUNCE_MS); });
+
+    expect(second).toHaveBeenCalledTimes(1);
+    expect(result.current.results).toEqual(['second']);
+  });
+
+  it('reports server errors with the given message after one retry', async () => {
+    const fetcher = jest.fn(async (): Promise<string[]> => {
+      throw new ApiError('Request failed', { status: 500, code: 'http_error' });
+    });
+    const { result } = renderSearch('crown', fetcher);
+
+    await act(async () => { jest.advanceTimersByTime(SEARCH_DEBOUNCE_MS); });
+    await act(async () => { jest.advanceTimersByTime(1000); });
+
+    expect(fetcher).toHaveBeenCalledTimes(2);
+    expect(result.current.error).toBe('Search failed.');
+    expect(result.current.isLoading).toBe(false);
+  });
+});
@@ -0,0 +1,137 @@
+// hooks/__tests__/useEventSearch.test.ts
+// Tests for the useEventSearch custom hook
+
+import { renderHook, act } from '@testing-library/react-native';
+import { useEventSearch } from '../useEventSearch';
+import { SEARCH_DEBOUNCE_MS } from '../../utils/constants';
+
+// ---------------------------------------------------------------------------
+// Mocks
+// ---------------------------------------------------------------------------
+
+jest.mock('expo-network', () => ({
+  getNetworkStateAsync: () => Promise.resolve({ isConnected: true, isInternetReachable: true }),
+  addNetworkStateListener: () => ({ remove: jest.fn() }),
+}));
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const makeItem = (id: string | number, title = `Event ${id}`) => ({
+  id,
+  title,
+  bar_name: 'The Crown',
+  date: '2026-10-24',
+  start_time: '20:00:00',
+});
+
+const stubFetch = (items: unknown[], status = 200) =>
+  Promise.resolve({
+    ok: status >= 200 && status < 300,
+    status,
+    json: () => Promise.resolve({ data: items }),
+  } as Response);
+
+/** A fetch that stalls until its AbortSignal fires, then rejects with AbortError. */
+const abortableFetch = (_input: RequestInfo | URL, init?: RequestInit) =>
+  new Promise<Response>((_, reject) => {
+    init?.signal?.addEventListener('abort', () => {
+      reject(Object.assign(new Error('AbortError'), { name: 'AbortError' }));
+    });
+  });
+
+// ---------------------------------------------------------------------------
+// Suite
+// ---------------------------------------------------------------------------
+
+describe('useEventSearch', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.spyOn(global, 'fetch').mockResolvedValue(stubFetch([]) as any);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  it('does not search for fewer than 2 characters', async () => {
+    renderHook(() => useEventSearch(' a '));
+    await act(async () => { jest.advanceTimersByTime(SEARCH_DEBOUNCE_MS + 100); });
+
+    expect(fetch).not.toHaveBeenCalled();
+  });
+
+  it('debounces keystrokes into one request for upcoming events', async () => {
+    const { rerender } = renderHook(({ query }: { query: string }) => useEventSearch(query), {
+      initialProps: { query: 'tr' },
+    });
+    act(() => { jest.advanceTimersByTime(SEARCH_DEBOUNCE_MS - 1); });
+    rerender({ query: '  trivia ' });
+    await act(async () => { jest.advanceTimersByTime(SEARCH_DEBOUNCE_MS); });
+
+    expect(fetch).toHaveBeenCalledTimes(1);
+    const url = (fetch as jest.Mock).mock.calls[0][0] as string;
+    expect(url).toContain('/events/search?');
+    expect(url).toContain('q=trivia');
+    expect(url).toContain('upcoming=true');
+  });
+
+  it('maps results through mapToEvent', async () => {
+    jest.spyOn(global, 'fetch').mockResolvedValue(stubFetch([makeItem(7, 'Trivia Night')]) as any);
+    const { result } = renderHook(() => useEventSearch('trivia'));
+
+    await act(async () => { jest.advanceTimersByTime(SEARCH_DEBOUNCE_MS); });
+
+    expect(result.current.results).toHaveLength(1);
+    expect(result.current.results[0]).toMatchObject({
+      instance_id: '7',
+      title: 'Trivia Night',
+      bar_name: 'The Crown',
+      start_time: '2026-10-24T20:00:00',
+    });
+    expect(result.current.isLoading).toBe(false);
+  });
+
+  it('clears results when the query becomes too short', async () => {
+    jest.spyOn(global, 'fetch').mockResolvedValue(stubFetch([makeItem(1)]) as any);
+    const { result, rerender } = renderHook(({ query }: { query: string }) => useEventSearch(query), {
+      initialProps: { query: 'karaoke' },
+    });
+    await act(async () => { jest.advanceTimersByTime(SEARCH_DEBOUNCE_MS); });
+    expect(result.current.results).toHaveLength(1);
+
+    rerender({ query: 'k' });
+
+    expect(result.current.results).toEqual([]);
+  });
+
+  it('retries once, then reports a server error', async () => {
+    jest.spyOn(global, 'fetch').mockResolvedValue(stubFetch([], 500) as any);
+    const { result } = renderHook(() => useEventSearch('trivia'));
+
+    await act(async () => { jest.advanceTimersByTime(SEARCH_DEBOUNCE_MS); });
+    await act(async () => { jest.advanceTimersByTime(1000); });
+
+    expect(fetch).toHaveBeenCalledTimes(2);
+    expect(result.current.error).toBe('Unable to search events right now.');
+    expect(result.current.isLoading).toBe(false);
+  });
+
+  it('cancels a stale search when the query changes', async () => {
+    jest.spyOn(global, 'fetch')
+      .mockImplementationOnce(abortableFetch)
+      .mockResolvedValue(stubFetch([makeItem(2, 'Karaoke')]) as any);
+    const { result, rerender } = renderHook(({ query }: { query: string }) => useEventSearch(query), {
+      initialProps: { query: 'trivia' },
+    });
+    act(() => { jest.advanceTimersByTime(SEARCH_DEBOUNCE_MS); });
+
+    rerender({ query: 'karaoke' });
+    await act(async () => { jest.advanceTimersByTime(SEARCH_DEBOUNCE_MS + 100); });
+
+    expect(result.current.error).toBeNull();
+    expect(result.current.results.map((event) => event.title)).toEqual(['Karaoke']);
+  });
+});
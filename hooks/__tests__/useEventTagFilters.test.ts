@@ -189,6 +189,24 @@ describe('useEventTagFilters', () => {
       expect(result.current.selectedTagIds).toEqual(['quiz', 'trivia']);
     });
 
+    it('matches any tag by default and takes the applied match mode', async () => {
+      (global.fetch as jest.Mock).mockReturnValue(stubTagsFetch([]));
+
+      const { result } = renderHook(() => useEventTagFilters());
+      await act(async () => {});
+      expect(result.current.tagMatchMode).toBe('any');
+
+      act(() => {
+        result.current.handleApplyFilters(['quiz', 'trivia'], 'all');
+      });
+      expect(result.current.tagMatchMode).toBe('all');
+
+      act(() => {
+        result.current.handleApplyFilters(['quiz']);
+      });
+      expect(result.current.tagMatchMode).toBe('all');
+    });
+
     it('closes the filter sheet after applying', async () => {
       (global.fetch as jest.Mock).mockReturnValue(stubTagsFetch([]));
 
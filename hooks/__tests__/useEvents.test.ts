@@ -1,9 +1,13 @@
 // hooks/__tests__/useEvents.test.ts
 // Tests for the useEvents custom hook
 
+import AsyncStorage from '@react-native-async-storage/async-storage';
 import { renderHook, act } from '@testing-library/react-native';
 import { useEvents } from '../useEvents';
 import type { Coordinates } from '../../types';
+import { EVENT_TAG_QUERY_CONFIG, PERSISTED_CACHE_CONFIG } from '../../utils/constants';
+import { getCacheKey } from '../../utils/helpers';
+import { readPersistedCache, writePersistedCache } from '../../utils/persistentCache';
 
 // ---------------------------------------------------------------------------
 // Mocks
@@ -20,8 +24,13 @@ jest.mock('../../utils/Eventmappers', () => ({
     crosses_midnight: false,
   })),
   mergeEvents: jest.requireActual('../../utils/Eventmappers').mergeEvents,
+  combineTagResults: jest.requireActual('../../utils/Eventmappers').combineTagResults,
 }));
 
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
 // ---------------------------------------------------------------------------
 // Helpers
 // ---------------------------------------------------------------------------
@@ -66,9 +75,10 @@ const abortableFetch = (_url: string, init: RequestInit) =>
 // ---------------------------------------------------------------------------
 
 describe('useEvents', () => {
-  beforeEach(() => {
+  beforeEach(async () => {
     jest.clearAllMocks();
     global.fetch = jest.fn();
+    await AsyncStorage.clear();
   });
 
   afterEach(() => {
@@ -149,6 +159,34 @@ describe('useEvents', () => {
       expect(url).toContain('radius=10');
     });
 
+    it('sends the distance unit, defaulting to miles', async () => {
+      (global.fetch as jest.Mock).mockReturnValue(stubFetch([]));
+
+      renderHook(() => useEvents(COORDS, NO_TAGS, RADIUS));
+      await act(async () => {});
+      renderHook(() => useEvents(COORDS, NO_TAGS, 10, 'km'));
+      await act(async () => {});
+
+      const [milesUrl, kmUrl] = (global.fetch as jest.Mock).mock.calls.map(([url]) => url as string);
+      expect(milesUrl).toContain('unit=miles');
+      expect(kmUrl).toContain('unit=km');
+    });
+
+    it('sends the date range and time-of-day bounds of a date filter', async () => {
+      (global.fetch as jest.Mock).mockReturnValue(stubFetch([]));
+      const tonight = { preset: 'tonight' as const, startDate: '2026-10-18', endDate: '2026-10-18', startsAfter: 21 * 60, startsBefore: null };
+
+      renderHook(() => useEvents(COORDS, NO_TAGS, RADIUS, 'miles', 'any', tonight));
+      await act(async () => {});
+
+      const url = (global.fetch as jest.Mock).mock.calls[0][0] as string;
+      expect(url).toContain('upcoming=true');
+      expect(url).toContain('start_date=2026-10-18');
+      expect(url).toContain('end_date=2026-10-18');
+      expect(url).toContain('start_time_after=21%3A00');
+      expect(url).not.toContain('start_time_before');
+    });
+
     it('requests the /events/instances endpoint', async () => {
       (global.fetch as jest.Mock).mockReturnValue(stubFetch([]));
 
@@ -214,17 +252,141 @@ describe('useEvents', () => {
       expect(url).not.toContain('event_tag_id');
     });
 
-    it('uses only the first tag when multiple are selected', async () => {
+    it('requests each tag separately and keeps events matching any of them', async () => {
+      const tags = ['trivia', 'quiz'];
+      (global.fetch as jest.Mock).mockImplementation((url: string) =>
+        url.includes('event_tag_id=trivia')
+          ? stubFetch([makeItem('1'), makeItem('2')])
+          : stubFetch([makeItem('2'), makeItem('3')])
+      );
+
+      const { result } = renderHook(() => useEvents(COORDS, tags, RADIUS));
+
+      await act(async () => {});
+
+      const urls = (global.fetch as jest.Mock).mock.calls.map(([url]) => url as string);
+      expect(urls).toHaveLength(2);
+      expect(urls[0]).toContain('event_tag_id=trivia');
+      expect(urls[1]).toContain('event_tag_id=quiz');
+      expect(result.current.events.map((e) => e.instance_id)).toEqual(['1', '2', '3']);
+    });
+
+    it('keeps only events found for every tag in all mode, across pages', async () => {
+      const tags = ['trivia', 'quiz'];
+      (global.fetch as jest.Mock).mockImplementation((url: string) => {
+        const isTrivia = url.includes('event_tag_id=trivia');
+        if (url.includes('page=2')) {
+          return stubFetch(isTrivia ? [makeItem('3')] : [makeItem('1')], { currentPage: 2 });
+        }
+        return stubFetch(isTrivia ? [makeItem('1'), makeItem('2')] : [makeItem('2')], { hasNextPage: true });
+      });
+
+      const { result } = renderHook(() => useEvents(COORDS, tags, RADIUS, 'miles', 'all'));
+
+      await act(async () => {});
+      expect(result.current.events.map((e) => e.instance_id)).toEqual(['2']);
+      expect(result.current.hasMore).toBe(true);
+
+      await act(async () => {
+        result.current.handleEndReached();
+      });
+
+      expect(result.current.events.map((e) => e.instance_id).sort()).toEqual(['1', '2']);
+      expect(result.current.hasMore).toBe(false);
+    });
+
+    it('keeps loading pages in all mode until an event matches every tag', async () => {
+      const tags = ['trivia', 'quiz'];
+      (global.fetch as jest.Mock).mockImplementation((url: string) => {
+        const isTrivia = url.includes('event_tag_id=trivia');
+        if (url.includes('page=2')) {
+          return stubFetch(isTrivia ? [makeItem('2')] : [makeItem('3')], { hasNextPage: true, currentPage: 2 });
+        }
+        return stubFetch(isTrivia ? [makeItem('1')] : [makeItem('2')], { hasNextPage: true });
+      });
+
+      const { result } = renderHook(() => useEvents(COORDS, tags, RADIUS, 'miles', 'all'));
+
+      await act(async () => {});
+
+      expect(global.fetch).toHaveBeenCalledTimes(4);
+      expect(result.current.events.map((e) => e.instance_id)).toEqual(['2']);
+      expect(result.current.hasMore).toBe(true);
+    });
+
+    it('stops requesting a tag once it has no more pages', async () => {
+      const tags = ['trivia', 'quiz'];
+      (global.fetch as jest.Mock).mockImplementation((url: string) => {
+        if (url.includes('event_tag_id=trivia')) {
+          return stubFetch([makeItem('1'), makeItem('2')]);
+        }
+        return url.includes('page=2')
+          ? stubFetch([makeItem('2')], { currentPage: 2 })
+          : stubFetch([makeItem('3')], { hasNextPage: true });
+      });
+
+      const { result } = renderHook(() => useEvents(COORDS, tags, RADIUS, 'miles', 'all'));
+
+      await act(async () => {});
+
+      const urls = (global.fetch as jest.Mock).mock.calls.map(([url]) => url as string);
+      expect(urls.filter((url) => url.includes('event_tag_id=trivia'))).toHaveLength(1);
+      expect(urls.filter((url) => url.includes('event_tag_id=quiz'))).toHaveLength(2);
+      expect(result.current.events.map((e) => e.instance_id)).toEqual(['2']);
+      expect(result.current.hasMore).toBe(false);
+    });
+
+    it('gives up on a load in all mode after the page cap', async () => {
+      const tags = ['trivia', 'quiz'];
+      let nextId = 0;
+      (global.fetch as jest.Mock).mockImplementation(() => stubFetch([makeItem(nextId++)], { hasNextPage: true }));
+
+      const { result } = renderHook(() => useEvents(COORDS, tags, RADIUS, 'miles', 'all'));
+
+      await act(async () => {});
+
+      expect(global.fetch).toHaveBeenCalledTimes(tags.length * EVENT_TAG_QUERY_CONFIG.maxPagesPerLoad);
+      expect(result.current.events).toEqual([]);
+      expect(result.current.hasMore).toBe(true);
+      expect(result.current.isInitialLoading).toBe(false);
+    });
+
+    it('sends every tag and the match mode in one request when the API supports it', async () => {
+      EVENT_TAG_QUERY_CONFIG.supportsMultipleTags = true;
+      try {
+        const tags = ['trivia', 'quiz'];
+        (global.fetch as jest.Mock).mockReturnValue(stubFetch([]));
+
+        renderHook(() => useEvents(COORDS, tags, RADIUS, 'miles', 'all'));
+
+        await act(async () => {});
+
+        expect(global.fetch).toHaveBeenCalledTimes(1);
+        const url = (global.fetch as jest.Mock).mock.calls[0][0] as string;
+        expect(url).toContain('event_tag_ids=trivia%2Cquiz');
+        expect(url).toContain('tag_match=all');
+        expect(url).not.toContain('event_tag_id=');
+      } finally {
+        EVENT_TAG_QUERY_CONFIG.supportsMultipleTags = false;
+      }
+    });
+
+    it('re-fetches when the match mode changes', async () => {
       const tags = ['trivia', 'quiz'];
       (global.fetch as jest.Mock).mockReturnValue(stubFetch([]));
 
-      renderHook(() => useEvents(COORDS, tags, RADIUS));
+      const { rerender } = renderHook(
+        ({ matchMode }: { matchMode: 'any' | 'all' }) => useEvents(COORDS, tags, RADIUS, 'miles', matchMode),
+        { initialProps: { matchMode: 'any' } }
+      );
 
       await act(async () => {});
+      expect(global.fetch).toHaveBeenCalledTimes(2);
 
-      const url = (global.fetch as jest.Mock).mock.calls[0][0] as string;
-      expect(url).toContain('event_tag_id=trivia');
-      expect(url).not.toContain('quiz');
+      rerender({ matchMode: 'all' });
+      await act(async () => {});
+
+      expect(global.fetch).toHaveBeenCalledTimes(4);
     });
   });
 
@@ -314,6 +476,122 @@ describe('useEvents', () => {
     });
   });
 
+  // -------------------------------------------------------------------------
+  // Persisted cache
+  // -------------------------------------------------------------------------
+
+  describe('persisted cache', () => {
+    const CACHE_KEY = getCacheKey(COORDS, NO_TAGS, RADIUS);
+    const persistedEvent = { instance_id: 'cached-1', title: 'Cached', bar_name: 'Old Bar', crosses_midnight: false };
+
+    const seedPersisted = (key = CACHE_KEY, savedAt = Date.now() - 60_000) =>
+      writePersistedCache(
+        'events',
+        key,
+        { key, timestamp: savedAt, data: [persistedEvent], currentPage: 1, hasMore: false },
+        savedAt
+      );
+
+    it('shows persisted events with lastUpdated while revalidating in the background', async () => {
+      const savedAt = Date.now() - 60_000;
+      await seedPersisted(CACHE_KEY, savedAt);
+      let resolveFetch: (value: Response) => void = () => {};
+      (global.fetch as jest.Mock).mockReturnValue(new Promise<Response>((resolve) => { resolveFetch = resolve; }));
+
+      const { result } = renderHook(() => useEvents(COORDS, NO_TAGS, RADIUS));
+
+      await act(async () => {});
+
+      expect(result.current.events[0].instance_id).toBe('cached-1');
+      expect(result.current.lastUpdated).toBe(savedAt);
+      expect(result.current.isRevalidating).toBe(true);
+      expect(result.current.isInitialLoading).toBe(false);
+
+      await act(async () => {
+        resolveFetch(await stubFetch([makeItem('1')]));
+      });
+
+      expect(result.current.events[0].instance_id).toBe('1');
+      expect(result.current.lastUpdated).toBeNull();
+      expect(result.current.isRevalidating).toBe(false);
+    });
+
+    it('ignores persisted events saved for a different radius', async () => {
+      await seedPersisted(getCacheKey(COORDS, NO_TAGS, RADIUS + 5));
+      (global.fetch as jest.Mock).mockReturnValue(new Promise(() => {}));
+
+      const { result } = renderHook(() => useEvents(COORDS, NO_TAGS, RADIUS));
+
+      await act(async () => {});
+
+      expect(result.current.events).toEqual([]);
+      expect(result.current.lastUpdated).toBeNull();
+      expect(result.current.isInitialLoading).toBe(true);
+    });
+
+    it('keeps persisted events and the stamp when revalidation fails', async () => {
+      await seedPersisted();
+      (global.fetch as jest.Mock).mockReturnValue(stubFetch([], { status: 503 }));
+
+      const { result } = renderHook(() => useEvents(COORDS, NO_TAGS, RADIUS));
+
+      await act(async () => {});
+      await act(async () => {});
+
+      expect(result.current.events[0].instance_id).toBe('cached-1');
+      expect(result.current.lastUpdated).not.toBeNull();
+      expect(result.current.error).not.toBeNull();
+    });
+
+    it('resumes per-tag results from disk when paginating all mode', async () => {
+      const tags = ['trivia', 'quiz'];
+      const key = getCacheKey(COORDS, tags, RADIUS, { unit: 'miles', tagMatch: 'all', dateFilter: null });
+      const cachedEvent = (id: string) => ({ ...persistedEvent, instance_id: id });
+      await writePersistedCache('events', key, {
+        key,
+        timestamp: Date.now(),
+        data: [cachedEvent('2')],
+        currentPage: 1,
+        hasMore: true,
+        tagResults: { results: [[cachedEvent('1'), cachedEvent('2')], [cachedEvent('2')]], hasMore: [true, true] },
+      });
+      (global.fetch as jest.Mock).mockImplementation((url: string) => {
+        if (!url.includes('page=2')) {
+          return stubFetch([], { status: 503 });
+        }
+        return stubFetch(url.includes('event_tag_id=trivia') ? [makeItem('3')] : [makeItem('1')], { currentPage: 2 });
+      });
+
+      const { result } = renderHook(() => useEvents(COORDS, tags, RADIUS, 'miles', 'all'));
+
+      await act(async () => {});
+      await act(async () => {});
+      expect(result.current.events.map((e) => e.instance_id)).toEqual(['2']);
+
+      await act(async () => {
+        result.current.handleEndReached();
+      });
+
+      expect(result.current.events.map((e) => e.instance_id).sort()).toEqual(['1', '2']);
+    });
+
+    it('persists fresh results under the getCacheKey key', async () => {
+      (global.fetch as jest.Mock).mockReturnValue(stubFetch([makeItem('1'), makeItem('2')]));
+
+      renderHook(() => useEvents(COORDS, NO_TAGS, RADIUS));
+
+      await act(async () => {});
+      await act(async () => {});
+
+      const persisted = await readPersistedCache<{ data: { instance_id: string }[] }>(
+        'events',
+        CACHE_KEY,
+        PERSISTED_CACHE_CONFIG.eventsTtlMs
+      );
+      expect(persisted?.value.data.map((event) => event.instance_id)).toEqual(['1', '2']);
+    });
+  });
+
   // -------------------------------------------------------------------------
   // handleRefresh
   // -------------------------------------------------------------------------
@@ -0,0 +1,247 @@
+// hooks/__tests__/useFavorites.test.tsx
+// Tests for the FavoritesProvider and useFavorites
+
+import React from 'react';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { renderHook, act } from '@testing-library/react-native';
+import { FavoritesProvider, useFavorites } from '../useFavorites';
+import { FAVORITES_KEY } from '../../utils/constants';
+
+// ---------------------------------------------------------------------------
+// Mocks
+// ---------------------------------------------------------------------------
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+let mockAuth: { status: string; token: string | null } = { status: 'authenticated', token: 'token-1' };
+jest.mock('../use-auth', () => ({
+  useAuth: () => mockAuth,
+}));
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const wrapper = ({ children }: { children: React.ReactNode }) => <FavoritesProvider>{children}</FavoritesProvider>;
+
+const bar = (id: string) => ({ id, name: `Bar ${id}` });
+
+const respond = (body: unknown, status = 200) =>
+  Promise.resolve({ ok: status >= 200 && status < 300, status, json: () => Promise.resolve(body) } as Response);
+
+// Route requests by method; GET returns the account's current list
+const stubApi = (serverBars: { id: string; name: string }[], overrides: { post?: number; delete?: number } = {}) => {
+  const fetchMock = jest.fn((_url: string, init?: RequestInit) => {
+    if (init?.method === 'POST') return respond({}, overrides.post ?? 201);
+    if (init?.method === 'DELETE') return respond({}, overrides.delete ?? 204);
+    return respond({ data: serverBars });
+  });
+  global.fetch = fetchMock as unknown as typeof fetch;
+  return fetchMock;
+};
+
+const readStored = async () => JSON.parse((await AsyncStorage.getItem(FAVORITES_KEY)) ?? '{}');
+
+beforeEach(async () => {
+  mockAuth = { status: 'authenticated', token: 'token-1' };
+  await AsyncStorage.clear();
+});
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe('useFavorites', () => {
+  it('loads the account list when signed in', async () => {
+    const fetchMock = stubApi([bar('1'), bar('2')]);
+
+    const { result } = renderHook(() => useFavorites(), { wrapper });
+    await act(async () => {});
+
+    expect(fetchMock.mock.calls[0][0]).toBe('https://api.example.com/appUsers/me/favorites');
+    expect(result.current.favorites.map((entry) => entry.id)).toEqual(['1', '2']);
+    expect(result.current.isFavorite('2')).toBe(true);
+  });
+
+  it('keeps favorites on the device while signed out', async () => {
+    mockAuth = { status: 'unauthenticated', token: null };
+    const fetchMock = stubApi([]);
+
+    const { result } = renderHook(() => useFavorites(), { wrapper });
+    await act(async () => {});
+    await act(async () => {
+      await result.current.toggleFavorite(bar('1'));
+    });
+
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect(result.current.isFavorite('1')).toBe(true);
+    expect(await readStored()).toEqual({ bars: [bar('1')], pendingIds: ['1'] });
+  });
+
+  it('adds local favorites to the account on sign in', async () => {
+    mockAuth = { status: 'unauthenticated', token: null };
+    const fetchMock = stubApi([bar('2')]);
+
+    const { result, rerender } = renderHook(() => useFavorites(), { wrapper });
+    await act(async () => {});
+    await act(async () => {
+      await result.current.toggleFavorite(bar('1'));
+    });
+
+    mockAuth = { status: 'authenticated', token: 'token-1' };
+    await act(async () => {
+      rerender({});
+    });
+
+    const post = fetchMock.mock.calls.find(([, init]) => init?.method === 'POST');
+    expect(JSON.parse(String(post?.[1]?.body))).toEqual({ bar_id: '1' });
+    expect(result.current.favorites.map((entry) => entry.id)).toEqual(['1', '2']);
+    expect((await readStored()).pendingIds).toEqual([]);
+  });
+
+  it('adds optimistically and rolls back when the account rejects it', async () => {
+    stubApi([], { post: 500 });
+
+    const { result } = renderHook(() => useFavorites(), { wrapper });
+    await act(async () => {});
+
+    let pending: Promise<boolean> = Promise.resolve(true);
+    act(() => {
+      pending = result.current.toggleFavorite(bar('1'));
+    });
+    expect(result.current.isFavorite('1')).toBe(true);
+
+    let saved = true;
+    await act(async () => {
+      saved = await pending;
+    });
+
+    expect(saved).toBe(false);
+    expect(result.current.isFavorite('1')).toBe(false);
+    expect(result.current.error).toBe('Unable to save this favorite right now.');
+  });
+
+  it('removes a favorite from the account', async () => {
+    const fetchMock = stubApi([bar('1'), bar('2')]);
+
+    const { result } = renderHook(() => useFavorites(), { wrapper });
+    await act(async () => {});
+    await act(async () => {
+      await result.current.toggleFavorite(bar('1'));
+    });
+
+    const remove = fetchMock.mock.calls.find(([, init]) => init?.method === 'DELETE');
+    expect(remove?.[0]).toBe('https://api.example.com/appUsers/me/favorites/1');
+    expect(result.current.favorites.map((entry) => entry.id)).toEqual(['2']);
+  });
+
+  it('restores a removal in place when it fails', async () => {
+    stubApi([bar('1'), bar('2'), bar('3')], { delete: 500 });
+
+    const { result } = renderHook(() => useFavorites(), { wrapper });
+    await act(async () => {});
+    await act(async () => {
+      await result.current.toggleFavorite(bar('2'));
+    });
+
+    expect(result.current.favorites.map((entry) => entry.id)).toEqual(['1', '2', '3']);
+    expect(result.current.error).toBe('Unable to remove this favorite right now.');
+  });
+
+  it('keeps a favorite added while the account list is still loading', async () => {
+    let resolveList: (response: Response) => void = () => {};
+    const fetchMock = jest.fn((_url: string, init?: RequestInit) =>
+      init?.method === 'POST'
+        ? respond({}, 201)
+        : new Promise<Response>((resolve) => {
+            resolveList = resolve;
+          })
+    );
+    global.fetch = fetchMock as unknown as typeof fetch;
+
+    const { result } = renderHook(() => useFavorites(), { wrapper });
+    await act(async () => {});
+    await act(async () => {
+      await result.current.toggleFavorite(bar('1'));
+    });
+
+    // The list was read before the POST landed, so it doesn't have the new favorite
+    await act(async () => {
+      resolveList(await respond({ data: [bar('2')] }));
+    });
+
+    expect(result.current.favorites.map((entry) => entry.id)).toEqual(['1', '2']);
+  });
+
+  it('sends pending favorites once when syncs overlap', async () => {
+    await AsyncStorage.setItem(FAVORITES_KEY, JSON.stringify({ bars: [bar('1')], pendingIds: ['1'] }));
+    let resolvePost: (response: Response) => void = () => {};
+    const fetchMock = jest.fn((_url: string, init?: RequestInit) =>
+      init?.method === 'POST'
+        ? new Promise<Response>((resolve) => {
+            resolvePost = resolve;
+          })
+        : respond({ data: [bar('1')] })
+    );
+    global.fetch = fetchMock as unknown as typeof fetch;
+
+    const { result } = renderHook(() => useFavorites(), { wrapper });
+    await act(async () => {});
+
+    // The launch sync is still waiting on its POST
+    let refreshes: Promise<void> = Promise.resolve();
+    act(() => {
+      refreshes = Promise.all([result.current.refresh(), result.current.refresh()]).then(() => {});
+    });
+    await act(async () => {
+      resolvePost(await respond({}, 201));
+      await refreshes;
+    });
+
+    expect(fetchMock.mock.calls.filter(([, init]) => init?.method === 'POST')).toHaveLength(1);
+    expect((await readStored()).pendingIds).toEqual([]);
+  });
+
+  it('keeps a pending favorite removed while the sync sends it', async () => {
+    await AsyncStorage.setItem(FAVORITES_KEY, JSON.stringify({ bars: [bar('1'), bar('2')], pendingIds: ['1'] }));
+    let resolvePost: (response: Response) => void = () => {};
+    const fetchMock = jest.fn((_url: string, init?: RequestInit) =>
+      init?.method === 'POST'
+        ? new Promise<Response>((resolve) => {
+            resolvePost = resolve;
+          })
+        : respond({ data: [bar('1'), bar('2')] })
+    );
+    global.fetch = fetchMock as unknown as typeof fetch;
+
+    const { result } = renderHook(() => useFavorites(), { wrapper });
+    await act(async () => {});
+
+    // Removed while the launch sync is still posting it
+    await act(async () => {
+      await result.current.toggleFavorite(bar('1'));
+    });
+    await act(async () => {
+      resolvePost(await respond({}, 201));
+    });
+
+    expect(result.current.favorites.map((entry) => entry.id)).toEqual(['2']);
+  });
+
+  it('forgets the account list on sign out', async () => {
+    stubApi([bar('1')]);
+
+    const { result, rerender } = renderHook(() => useFavorites(), { wrapper });
+    await act(async () => {});
+    expect(result.current.favorites).toHaveLength(1);
+
+    mockAuth = { status: 'unauthenticated', token: null };
+    await act(async () => {
+      rerender({});
+    });
+
+    expect(result.current.favorites).toEqual([]);
+  });
+});
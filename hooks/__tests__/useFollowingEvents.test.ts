@@ -0,0 +1,166 @@
+// hooks/__tests__/useFollowingEvents.test.ts
+// Tests for the useFollowingEvents custom hook
+
+import { renderHook, act } from '@testing-library/react-native';
+import { useFollowingEvents } from '../useFollowingEvents';
+import { FOLLOWING_FEED_CONFIG } from '../../utils/constants';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const respond = (body: unknown, status = 200) =>
+  Promise.resolve({ ok: status >= 200 && status < 300, status, json: () => Promise.resolve(body) } as Response);
+
+const instance = (id: string, barId: string) => ({
+  instance_id: id,
+  title: `Event ${id}`,
+  bar_id: barId,
+  bar_name: `Bar ${barId}`,
+  date: '2026-10-20',
+  start_time: '20:00:00',
+});
+
+// Each bar's request answers with that bar's instances; bars in `failing` return a 500
+const stubApi = (eventsByBar: Record<string, unknown[]>, failing: string[] = []) => {
+  const fetchMock = jest.fn((url: string) => {
+    const barId = new URL(url).searchParams.get('bar_id') ?? '';
+    if (failing.includes(barId)) return respond({ message: 'Server error' }, 500);
+    return respond({ data: eventsByBar[barId] ?? [] });
+  });
+  global.fetch = fetchMock as unknown as typeof fetch;
+  return fetchMock;
+};
+
+const BAR_IDS = ['b1', 'b2'];
+
+// ---------------------------------------------------------------------------
+// Suite
+// ---------------------------------------------------------------------------
+
+describe('useFollowingEvents', () => {
+  it('requests upcoming events for each followed bar and merges them', async () => {
+    const fetchMock = stubApi({ b1: [instance('1', 'b1')], b2: [instance('2', 'b2'), instance('1', 'b1')] });
+
+    const { result } = renderHook(() => useFollowingEvents(BAR_IDS, true));
+    await act(async () => {});
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    const params = new URL(fetchMock.mock.calls[0][0]).searchParams;
+    expect(params.get('bar_id')).toBe('b1');
+    expect(params.get('upcoming')).toBe('true');
+    expect(result.current.events.map((event) => event.instance_id)).toEqual(['1', '2']);
+    expect(result.current.error).toBeNull();
+    expect(result.current.isInitialLoading).toBe(false);
+  });
+
+  it('does not load while the feed is hidden', async () => {
+    const fetchMock = stubApi({});
+
+    renderHook(() => useFollowingEvents(BAR_IDS, false));
+    await act(async () => {});
+
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('makes no requests when no bars are followed', async () => {
+    const fetchMock = stubApi({});
+    const noBars: string[] = [];
+
+    const { result } = renderHook(() => useFollowingEvents(noBars, true));
+    await act(async () => {});
+
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect(result.current.events).toEqual([]);
+    expect(result.current.error).toBeNull();
+  });
+
+  it('keeps the bars that loaded when another fails', async () => {
+    stubApi({ b1: [instance('1', 'b1')] }, ['b2']);
+
+    const { result } = renderHook(() => useFollowingEvents(BAR_IDS, true));
+    await act(async () => {});
+
+    expect(result.current.events.map((event) => event.instance_id)).toEqual(['1']);
+    expect(result.current.error).toBe("Some of your bars' events couldn't be loaded.");
+  });
+
+  it('reports an error when every bar fails', async () => {
+    stubApi({}, BAR_IDS);
+
+    const { result } = renderHook(() => useFollowingEvents(BAR_IDS, true));
+    await act(async () => {});
+
+    expect(result.current.events).toEqual([]);
+    expect(result.current.error).toBe('Server error');
+  });
+
+  it('loads the capped bars a few at a time and counts the rest', async () => {
+    let running = 0;
+    let peak = 0;
+    const fetchMock = jest.fn(async () => {
+      running += 1;
+      peak = Math.max(peak, running);
+      await Promise.resolve();
+      running -= 1;
+      return respond({ data: [] });
+    });
+    global.fetch = fetchMock as unknown as typeof fetch;
+    const ids = Array.from({ length: FOLLOWING_FEED_CONFIG.maxBars + 3 }, (_, index) => `b${index}`);
+
+    const { result } = renderHook(() => useFollowingEvents(ids, true));
+    await act(async () => {});
+
+    expect(fetchMock).toHaveBeenCalledTimes(FOLLOWING_FEED_CONFIG.maxBars);
+    expect(peak).toBe(FOLLOWING_FEED_CONFIG.maxConcurrentRequests);
+    expect(result.current.omittedBarCount).toBe(3);
+  });
+
+  it('stops loading when the last bar is unfollowed mid-load', async () => {
+    global.fetch = jest.fn(
+      (_url: string, init?: RequestInit) =>
+        new Promise<Response>((_, reject) => {
+          init?.signal?.addEventListener('abort', () =>
+            reject(Object.assign(new Error('AbortError'), { name: 'AbortError' }))
+          );
+        })
+    ) as unknown as typeof fetch;
+    const noBars: string[] = [];
+
+    const { result, rerender } = renderHook(
+      ({ ids }: { ids: string[] }) => useFollowingEvents(ids, true),
+      { initialProps: { ids: BAR_IDS } }
+    );
+    await act(async () => {});
+    expect(result.current.isInitialLoading).toBe(true);
+
+    await act(async () => {
+      rerender({ ids: noBars });
+    });
+
+    expect(result.current.isInitialLoading).toBe(false);
+    expect(result.current.events).toEqual([]);
+  });
+
+  it('refetches when the followed bars change', async () => {
+    const fetchMock = stubApi({ b1: [instance('1', 'b1')], b3: [instance('3', 'b3')] });
+
+    const { result, rerender } = renderHook(
+      ({ ids }: { ids: string[] }) => useFollowingEvents(ids, true),
+      { initialProps: { ids: ['b1'] } }
+    );
+    await act(async () => {});
+    // Same bars in a new array: no new request
+    await act(async () => {
+      rerender({ ids: ['b1'] });
+    });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+
+    await act(async () => {
+      rerender({ ids: ['b1', 'b3'] });
+    });
+
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+    expect(result.current.events.map((event) => event.instance_id)).toEqual(['1', '3']);
+  });
+});
@@ -16,6 +16,12 @@ jest.mock('expo-location', () => ({
   Accuracy: { Balanced: 3 },
 }));
 
+const BOSTON = { lat: 42.3555, lon: -71.0565 };
+let mockDefaultCoords = BOSTON;
+jest.mock('../usePreferences', () => ({
+  usePreferences: () => ({ defaultCoords: mockDefaultCoords }),
+}));
+
 // eslint-disable-next-line @typescript-eslint/no-require-imports
 const Location = require('expo-location') as {
   getForegroundPermissionsAsync: jest.Mock;
@@ -53,6 +59,7 @@ const makePosition = (lat: number, lon: number) => ({
 describe('useLocationCache', () => {
   beforeEach(() => {
     jest.clearAllMocks();
+    mockDefaultCoords = BOSTON;
     // Fake timers prevent the hook's internal 10-second location-timeout
     // setTimeout from keeping the process alive after each test.
     jest.useFakeTimers();
@@ -374,6 +381,21 @@ describe('useLocationCache', () => {
       expect(coords).toEqual({ lat: 42.3555, lon: -71.0565 });
     });
 
+    it('falls back to the preferred default city instead of Boston when one is set', async () => {
+      mockDefaultCoords = { lat: 41.8781, lon: -87.6298 };
+      mockGetForegroundPermissionsAsync.mockResolvedValue(deniedPermission(false));
+      jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+      const { result } = renderHook(() => useLocationCache());
+
+      let coords: unknown;
+      await act(async () => {
+        coords = await result.current.getCurrentCoordinates();
+      });
+
+      expect(coords).toEqual({ lat: 41.8781, lon: -87.6298 });
+    });
+
     it('falls back to last known userCoords when cache has expired and fresh fetch fails', async () => {
       const start = Date.now();
       jest.setSystemTime(start);
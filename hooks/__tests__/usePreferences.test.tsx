@@ -0,0 +1,103 @@
+// hooks/__tests__/usePreferences.test.tsx
+// Tests for the PreferencesProvider and usePreferences
+
+import React from 'react';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { renderHook, act } from '@testing-library/react-native';
+import { PreferencesProvider, usePreferences } from '../usePreferences';
+import { PREFERENCES_KEY } from '../../utils/constants';
+
+// ---------------------------------------------------------------------------
+// Mocks
+// ---------------------------------------------------------------------------
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const wrapper = ({ children }: { children: React.ReactNode }) => (
+  <PreferencesProvider>{children}</PreferencesProvider>
+);
+
+beforeEach(async () => {
+  await AsyncStorage.clear();
+});
+
+// ---------------------------------------------------------------------------
+// Suite
+// ---------------------------------------------------------------------------
+
+describe('usePreferences', () => {
+  it('uses the defaults outside a provider', () => {
+    const { result } = renderHook(() => usePreferences());
+
+    expect(result.current.distanceUnit).toBe('miles');
+    expect(result.current.isLoaded).toBe(true);
+  });
+
+  it('loads stored preferences on mount', async () => {
+    await AsyncStorage.setItem(PREFERENCES_KEY, JSON.stringify({ distanceUnit: 'km' }));
+
+    const { result } = renderHook(() => usePreferences(), { wrapper });
+    expect(result.current.isLoaded).toBe(false);
+
+    await act(async () => {});
+
+    expect(result.current.isLoaded).toBe(true);
+    expect(result.current.distanceUnit).toBe('km');
+  });
+
+  it('applies and persists a change', async () => {
+    const { result } = renderHook(() => usePreferences(), { wrapper });
+    await act(async () => {});
+
+    await act(async () => {
+      result.current.setPreference('distanceUnit', 'km');
+    });
+
+    expect(result.current.distanceUnit).toBe('km');
+    expect(JSON.parse((await AsyncStorage.getItem(PREFERENCES_KEY)) ?? '{}')).toMatchObject({ distanceUnit: 'km' });
+  });
+
+  it('restarts the events radius at the new unit default', async () => {
+    const { result } = renderHook(() => usePreferences(), { wrapper });
+    await act(async () => {});
+
+    await act(async () => {
+      result.current.setPreference('eventRadius', 3);
+    });
+    await act(async () => {
+      result.current.setPreference('distanceUnit', 'km');
+    });
+
+    expect(result.current.eventRadius).toBe(10);
+  });
+
+  it('resolves the default city to coordinates', async () => {
+    await AsyncStorage.setItem(PREFERENCES_KEY, JSON.stringify({ defaultLocationId: 'chicago' }));
+
+    const { result } = renderHook(() => usePreferences(), { wrapper });
+    expect(result.current.defaultCoords).toEqual({ lat: 42.3555, lon: -71.0565 });
+
+    await act(async () => {});
+
+    expect(result.current.defaultCoords).toEqual({ lat: 41.8781, lon: -87.6298 });
+  });
+
+  it('keeps a change made before storage was read', async () => {
+    await AsyncStorage.setItem(PREFERENCES_KEY, JSON.stringify({ distanceUnit: 'miles' }));
+
+    const { result } = renderHook(() => usePreferences(), { wrapper });
+    act(() => {
+      result.current.setPreference('distanceUnit', 'km');
+    });
+    await act(async () => {});
+
+    expect(result.current.distanceUnit).toBe('km');
+    expect(JSON.parse((await AsyncStorage.getItem(PREFERENCES_KEY)) ?? '{}')).toMatchObject({ distanceUnit: 'km' });
+  });
+});
@@ -0,0 +1,245 @@
+// hooks/__tests__/useReminders.test.tsx
+// Tests for the RemindersProvider and useReminders
+
+import React from 'react';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { renderHook, act } from '@testing-library/react-native';
+import { RemindersProvider, useReminders } from '../useReminders';
+import type { Event, EventReminder } from '../../types';
+import { REMINDERS_KEY } from '../../utils/constants';
+
+// ---------------------------------------------------------------------------
+// Mocks
+// ---------------------------------------------------------------------------
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+let mockPermission = { granted: true, canAskAgain: true };
+let mockNextNotificationId = 0;
+const mockSchedule = jest.fn((_request: unknown) => Promise.resolve(`notification-${++mockNextNotificationId}`));
+const mockCancel = jest.fn((_id: string) => Promise.resolve());
+jest.mock('expo-notifications', () => ({
+  AndroidImportance: { HIGH: 4 },
+  SchedulableTriggerInputTypes: { DATE: 'date' },
+  setNotificationChannelAsync: jest.fn(() => Promise.resolve(null)),
+  getPermissionsAsync: jest.fn(() => Promise.resolve(mockPermission)),
+  requestPermissionsAsync: jest.fn(() => Promise.resolve({ granted: false })),
+  scheduleNotificationAsync: (request: unknown) => mockSchedule(request),
+  cancelScheduledNotificationAsync: (id: string) => mockCancel(id),
+}));
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const wrapper = ({ children }: { children: React.ReactNode }) => <RemindersProvider>{children}</RemindersProvider>;
+
+const event = (overrides: Partial<Event> = {}): Event => ({
+  instance_id: 'e1',
+  title: 'Trivia Night',
+  bar_name: 'The Crown',
+  start_time: '2030-03-01T20:00:00',
+  timezone: 'UTC',
+  ...overrides,
+});
+
+const stored = (overrides: Partial<EventReminder> = {}): EventReminder => ({
+  instance_id: 'e1',
+  title: 'Trivia Night',
+  bar_name: 'The Crown',
+  timezone: 'UTC',
+  starts_at: '2030-03-01T20:00:00.000Z',
+  offset_minutes: 30,
+  notification_id: 'notification-old',
+  ...overrides,
+});
+
+const respond = (body: unknown, status = 200) =>
+  Promise.resolve({ ok: status >= 200 && status < 300, status, json: () => Promise.resolve(body) } as Response);
+
+const readStored = async () => JSON.parse((await AsyncStorage.getItem(REMINDERS_KEY)) ?? '{}');
+
+const scheduledDate = (call: number) =>
+  (mockSchedule.mock.calls[call][0] as { trigger: { date: Date } }).trigger.date.toISOString();
+
+beforeEach(async () => {
+  mockPermission = { granted: true, canAskAgain: true };
+  mockNextNotificationId = 0;
+  mockSchedule.mockClear();
+  mockCancel.mockClear();
+  global.fetch = jest.fn(() => respond({ data: {} })) as unknown as typeof fetch;
+  await AsyncStorage.clear();
+});
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe('useReminders', () => {
+  it('schedules a notification before the event starts and keeps it by instance_id', async () => {
+    const { result } = renderHook(() => useReminders(), { wrapper });
+    await act(async () => {});
+
+    let saved = false;
+    await act(async () => {
+      saved = await result.current.setReminder(event(), 30);
+    });
+
+    expect(saved).toBe(true);
+    expect(scheduledDate(0)).toBe('2030-03-01T19:30:00.000Z');
+    expect(result.current.getReminder('e1')).toMatchObject({ offset_minutes: 30, notification_id: 'notification-1' });
+    expect((await readStored()).e1).toMatchObject({ starts_at: '2030-03-01T20:00:00.000Z' });
+  });
+
+  it('replaces an existing reminder for the same event', async () => {
+    const { result } = renderHook(() => useReminders(), { wrapper });
+    await act(async () => {});
+    await act(async () => {
+      await result.current.setReminder(event(), 30);
+    });
+    await act(async () => {
+      await result.current.setReminder(event(), 60);
+    });
+
+    expect(mockCancel).toHaveBeenCalledWith('notification-1');
+    expect(result.current.reminders).toHaveLength(1);
+    expect(result.current.getReminder('e1')?.offset_minutes).toBe(60);
+  });
+
+  it('does not schedule without notification permission', async () => {
+    mockPermission = { granted: false, canAskAgain: true };
+    const { result } = renderHook(() => useReminders(), { wrapper });
+    await act(async () => {});
+
+    let saved = true;
+    await act(async () => {
+      saved = await result.current.setReminder(event(), 30);
+    });
+
+    expect(saved).toBe(false);
+    expect(mockSchedule).not.toHaveBeenCalled();
+    expect(result.current.error).toBe('Turn on notifications for To The Pub in Settings to get event reminders.');
+  });
+
+  it('refuses reminders for cancelled or past events', async () => {
+    const { result } = renderHook(() => useReminders(), { wrapper });
+    await act(async () => {});
+
+    let saved = true;
+    await act(async () => {
+      saved = await result.current.setReminder(event({ is_cancelled: true }), 30);
+    });
+    expect(saved).toBe(false);
+
+    await act(async () => {
+      saved = await result.current.setReminder(event({ start_time: '2020-01-01T20:00:00' }), 0);
+    });
+    expect(saved).toBe(false);
+    expect(result.current.error).toBe('That reminder time has already passed.');
+    expect(mockSchedule).not.toHaveBeenCalled();
+  });
+
+  it('cancels the notification when a reminder is removed', async () => {
+    const { result } = renderHook(() => useReminders(), { wrapper });
+    await act(async () => {});
+    await act(async () => {
+      await result.current.setReminder(event(), 30);
+    });
+    await act(async () => {
+      await result.current.cancelReminder('e1');
+    });
+
+    expect(mockCancel).toHaveBeenCalledWith('notification-1');
+    expect(result.current.reminders).toEqual([]);
+    expect(await readStored()).toEqual({});
+  });
+
+  it('drops the reminder when its event is cancelled', async () => {
+    await AsyncStorage.setItem(REMINDERS_KEY, JSON.stringify({ e1: stored() }));
+    const { result } = renderHook(() => useReminders(), { wrapper });
+    await act(async () => {});
+
+    await act(async () => {
+      await result.current.syncReminder(event({ is_cancelled: true }));
+    });
+
+    expect(mockCancel).toHaveBeenCalledWith('notification-old');
+    expect(result.current.getReminder('e1')).toBeUndefined();
+  });
+
+  it('reschedules with the same offset when the event moves', async () => {
+    await AsyncStorage.setItem(REMINDERS_KEY, JSON.stringify({ e1: stored() }));
+    const { result } = renderHook(() => useReminders(), { wrapper });
+    await act(async () => {});
+
+    await act(async () => {
+      await result.current.syncReminder(event({ start_time: '2030-03-01T22:00:00' }));
+    });
+
+    expect(mockCancel).toHaveBeenCalledWith('notification-old');
+    expect(scheduledDate(0)).toBe('2030-03-01T21:30:00.000Z');
+    expect(result.current.getReminder('e1')).toMatchObject({
+      starts_at: '2030-03-01T22:00:00.000Z',
+      notification_id: 'notification-1',
+    });
+  });
+
+  it('moves the notification once when two syncs for the same event overlap', async () => {
+    await AsyncStorage.setItem(REMINDERS_KEY, JSON.stringify({ e1: stored() }));
+    const { result } = renderHook(() => useReminders(), { wrapper });
+    await act(async () => {});
+
+    const moved = event({ start_time: '2030-03-01T22:00:00' });
+    await act(async () => {
+      await Promise.all([result.current.syncReminder(moved), result.current.syncReminder(moved)]);
+    });
+
+    expect(mockSchedule).toHaveBeenCalledTimes(1);
+    expect(mockCancel.mock.calls).toEqual([['notification-old']]);
+    expect(result.current.getReminder('e1')?.notification_id).toBe('notification-1');
+  });
+
+  it('waits for a running sync before removing the reminder', async () => {
+    await AsyncStorage.setItem(REMINDERS_KEY, JSON.stringify({ e1: stored() }));
+    const { result } = renderHook(() => useReminders(), { wrapper });
+    await act(async () => {});
+
+    await act(async () => {
+      await Promise.all([
+        result.current.syncReminder(event({ start_time: '2030-03-01T22:00:00' })),
+        result.current.cancelReminder('e1'),
+      ]);
+    });
+
+    expect(mockCancel.mock.calls).toEqual([['notification-old'], ['notification-1']]);
+    expect(result.current.getReminder('e1')).toBeUndefined();
+  });
+
+  it('checks stored reminders against the latest events on launch', async () => {
+    await AsyncStorage.setItem(
+      REMINDERS_KEY,
+      JSON.stringify({
+        e1: stored(),
+        gone: stored({ instance_id: 'gone', notification_id: 'notification-gone' }),
+        started: stored({ instance_id: 'started', starts_at: '2020-01-01T20:00:00.000Z' }),
+      })
+    );
+    // The API sends the date and the clock time separately
+    const moved = { instance_id: 'e1', title: 'Trivia Night', date: '2030-03-02', start_time: '20:00:00', timezone: 'UTC' };
+    const fetchMock = jest.fn((url: string) =>
+      url.endsWith('/gone') ? respond({ message: 'Not found' }, 404) : respond({ data: moved })
+    );
+    global.fetch = fetchMock as unknown as typeof fetch;
+
+    const { result } = renderHook(() => useReminders(), { wrapper });
+    await act(async () => {});
+
+    // Already-started events aren't checked at all
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(result.current.reminders.map((entry) => entry.instance_id)).toEqual(['e1']);
+    expect(result.current.getReminder('e1')?.starts_at).toBe('2030-03-02T20:00:00.000Z');
+    expect(mockCancel).toHaveBeenCalledWith('notification-gone');
+  });
+});
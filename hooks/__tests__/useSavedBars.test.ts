@@ -20,6 +20,11 @@ jest.mock('@react-native-async-storage/async-storage', () => ({
   removeItem: (...args: unknown[]) => mockRemoveItem(...args),
 }));
 
+let mockMaxSavedBars = MAX_SAVED_BARS;
+jest.mock('../usePreferences', () => ({
+  usePreferences: () => ({ maxSavedBars: mockMaxSavedBars }),
+}));
+
 // ---------------------------------------------------------------------------
 // Helpers
 // ---------------------------------------------------------------------------
@@ -36,6 +41,7 @@ describe('useSavedBars', () => {
     mockGetItem.mockResolvedValue(null);
     mockSetItem.mockResolvedValue(undefined);
     mockRemoveItem.mockResolvedValue(undefined);
+    mockMaxSavedBars = MAX_SAVED_BARS;
   });
 
   // -------------------------------------------------------------------------
@@ -101,6 +107,28 @@ describe('useSavedBars', () => {
       expect(result.current.savedBars).toHaveLength(MAX_SAVED_BARS);
     });
 
+    it('caps the list at the preferred limit and trims when it is lowered', async () => {
+      mockMaxSavedBars = 25;
+      const { result, rerender } = renderHook(() => useSavedBars());
+
+      await act(async () => {});
+
+      await act(async () => {
+        for (let i = 0; i < 30; i++) {
+          result.current.saveBar(makeBar(String(i)));
+        }
+      });
+      expect(result.current.savedBars).toHaveLength(25);
+
+      mockMaxSavedBars = 10;
+      await act(async () => {
+        rerender({});
+      });
+
+      expect(result.current.savedBars).toHaveLength(10);
+      expect(result.current.savedBars[0].id).toBe('29');
+    });
+
     it('leaves savedBars empty when storage returns null', async () => {
       mockGetItem.mockResolvedValue(null);
 
@@ -1,9 +1,33 @@
 // hooks/__tests__/useSearch.test.ts
 // Tests for the useSearch custom hook
 
+import { createElement, type ReactNode } from 'react';
+import AsyncStorage from '@react-native-async-storage/async-storage';
 import { renderHook, act } from '@testing-library/react-native';
+import { ConnectivityProvider } from '../useConnectivity';
 import { useSearch } from '../useSearch';
 import { SEARCH_DEBOUNCE_MS } from '../../utils/constants';
+import { writePersistedCache } from '../../utils/persistentCache';
+
+// ---------------------------------------------------------------------------
+// Mocks
+// ---------------------------------------------------------------------------
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+type NetworkListener = (state: { isConnected: boolean; isInternetReachable: boolean }) => void;
+
+let mockNetworkListener: NetworkListener | null = null;
+
+jest.mock('expo-network', () => ({
+  getNetworkStateAsync: () => Promise.resolve({ isConnected: true, isInternetReachable: true }),
+  addNetworkStateListener: (listener: NetworkListener) => {
+    mockNetworkListener = listener;
+    return { remove: jest.fn() };
+  },
+}));
 
 // ---------------------------------------------------------------------------
 // Helpers
@@ -50,7 +74,8 @@ const abortableFetch = (_url: string, init: RequestInit) =>
 // ---------------------------------------------------------------------------
 
 describe('useSearch', () => {
-  beforeEach(() => {
+  beforeEach(async () => {
+    await AsyncStorage.clear();
     jest.useFakeTimers();
     jest.spyOn(global, 'fetch').mockResolvedValue(stubFetch([]) as any);
   });
@@ -316,6 +341,88 @@ describe('useSearch', () => {
         expect.any(Object)
       );
     });
+
+    it('searches names on the name endpoint and explains why each bar matched', async () => {
+      jest.spyOn(global, 'fetch').mockResolvedValue(
+        stubFetch([
+          { ...makeItem(8, 'Sky Bar'), tags: [{ id: 't1', name: 'Rooftop' }] },
+          { ...makeItem(9, 'Harbor Tap'), address_zip: '02116' },
+        ]) as any
+      );
+      const { result } = renderHook(() => useSearch());
+
+      act(() => { result.current.setQuery('rooftop'); });
+      await act(async () => { jest.advanceTimersByTime(SEARCH_DEBOUNCE_MS + 100); });
+
+      expect(fetch).toHaveBeenCalledTimes(1);
+      const url = (fetch as jest.Mock).mock.calls[0][0] as string;
+      expect(url).toContain('/bars/search/name?');
+      expect(result.current.results[0].match).toEqual({ field: 'tag', text: 'Rooftop', start: 0, end: 7 });
+      expect(result.current.results[1].match).toBeUndefined();
+    });
+
+    it('adds bars listed under /BarTags tags the query names', async () => {
+      const barTags = [
+        { id: 'n1', name: 'Back Bay', normalizedName: 'n1', category: 'Neighborhood' },
+        { id: 't1', name: 'Trivia', normalizedName: 't1' },
+      ];
+      jest.spyOn(global, 'fetch').mockImplementation(((url: string) =>
+        url.includes('/bars/search/name')
+          ? stubFetch([makeItem(1, 'Back Bay Social')])
+          : stubFetch([makeItem(1, 'Back Bay Social'), makeItem(2, 'The Crown')])) as any);
+      const { result } = renderHook(() => useSearch(barTags));
+
+      act(() => { result.current.setQuery('back bay'); });
+      await act(async () => { jest.advanceTimersByTime(SEARCH_DEBOUNCE_MS + 100); });
+
+      const urls = (fetch as jest.Mock).mock.calls.map(([url]) => url as string);
+      expect(urls).toHaveLength(2);
+      expect(urls[1]).toContain('/bars?');
+      expect(urls[1]).toContain('tags=n1');
+      expect(result.current.results.map((bar) => bar.id)).toEqual(['1', '2']);
+      expect(result.current.results[0].match).toMatchObject({ field: 'name' });
+      expect(result.current.results[1].match).toEqual({ field: 'tag', text: 'Back Bay', start: 0, end: 8 });
+    });
+
+    it('fetches tag results nearest the user first', async () => {
+      const barTags = [{ id: 't2', name: 'Rooftop', normalizedName: 't2' }];
+      const { result } = renderHook(() => useSearch(barTags, { lat: 42.35, lon: -71.07 }));
+
+      act(() => { result.current.setQuery('rooftop'); });
+      await act(async () => { jest.advanceTimersByTime(SEARCH_DEBOUNCE_MS + 100); });
+
+      const tagUrl = (fetch as jest.Mock).mock.calls[1][0] as string;
+      expect(tagUrl).toContain('lat=42.35');
+      expect(tagUrl).toContain('lon=-71.07');
+      expect(tagUrl).toContain('unit=miles');
+      expect(tagUrl).toContain('sort=distance');
+    });
+
+    it('finds bars saved on the device by street, city or zip', async () => {
+      const saved = { ...makeItem(5, 'Harbor Tap'), address_street: '1 Newbury St', address_zip: '02116', tags: [], hours: [] };
+      await writePersistedCache('bars', 'boston', { data: [saved], currentPage: 1, hasMore: false });
+      jest.spyOn(global, 'fetch').mockResolvedValue(stubFetch([makeItem(1, 'Bar 02116')]) as any);
+      const { result } = renderHook(() => useSearch());
+
+      act(() => { result.current.setQuery('02116'); });
+      await act(async () => { jest.advanceTimersByTime(SEARCH_DEBOUNCE_MS + 100); });
+
+      expect(result.current.results.map((bar) => bar.id)).toEqual(['1', '5']);
+      expect(result.current.results[1].match).toEqual({ field: 'zip', text: '02116', start: 0, end: 5 });
+    });
+
+    it('keeps name results when a tag request fails', async () => {
+      const barTags = [{ id: 't2', name: 'Rooftop', normalizedName: 't2' }];
+      jest.spyOn(global, 'fetch').mockImplementation(((url: string) =>
+        url.includes('/bars/search/name') ? stubFetch([makeItem(1, 'Rooftop Tavern')]) : stubFetchError(500)) as any);
+      const { result } = renderHook(() => useSearch(barTags));
+
+      act(() => { result.current.setQuery('rooftop'); });
+      await act(async () => { jest.advanceTimersByTime(SEARCH_DEBOUNCE_MS + 100); });
+
+      expect(result.current.error).toBeNull();
+      expect(result.current.results.map((bar) => bar.id)).toEqual(['1']);
+    });
   });
 
   // -------------------------------------------------------------------------
@@ -382,6 +489,52 @@ describe('useSearch', () => {
     });
   });
 
+  // -------------------------------------------------------------------------
+  // Connectivity
+  // -------------------------------------------------------------------------
+
+  describe('connectivity', () => {
+    const wrapper = ({ children }: { children: ReactNode }) => createElement(ConnectivityProvider, null, children);
+
+    const setOnline = async (online: boolean) => {
+      await act(async () => {
+        mockNetworkListener?.({ isConnected: online, isInternetReachable: online });
+      });
+    };
+
+    it('does not retry automatically while offline', async () => {
+      jest.spyOn(global, 'fetch').mockRejectedValue(new TypeError('Network request failed'));
+      const { result } = renderHook(() => useSearch(), { wrapper });
+      await setOnline(false);
+
+      act(() => { result.current.setQuery('pub'); });
+      await act(async () => { jest.advanceTimersByTime(SEARCH_DEBOUNCE_MS); });
+      await act(async () => { jest.advanceTimersByTime(1000); });
+
+      expect(fetch).toHaveBeenCalledTimes(1);
+      expect(result.current.error).toBe('Network request failed');
+    });
+
+    it('re-runs a failed search once the connection is back', async () => {
+      jest.spyOn(global, 'fetch')
+        .mockRejectedValueOnce(new TypeError('Network request failed'))
+        .mockResolvedValue(stubFetch([makeItem(1)]) as any);
+      const { result } = renderHook(() => useSearch(), { wrapper });
+      await setOnline(false);
+
+      act(() => { result.current.setQuery('pub'); });
+      await act(async () => { jest.advanceTimersByTime(SEARCH_DEBOUNCE_MS); });
+      expect(result.current.error).not.toBeNull();
+
+      await setOnline(true);
+      await act(async () => { jest.advanceTimersByTime(SEARCH_DEBOUNCE_MS); });
+
+      expect(fetch).toHaveBeenCalledTimes(2);
+      expect(result.current.error).toBeNull();
+      expect(result.current.results).toHaveLength(1);
+    });
+  });
+
   // -------------------------------------------------------------------------
   // Abort / cleanup
   // -------------------------------------------------------------------------
@@ -1,5 +1,30 @@
 import * as SecureStore from 'expo-secure-store';
-import React, { PropsWithChildren, createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react';
+import React, { PropsWithChildren, createContext, useCallback, useContext, useEffect, useMemo, useRef, useState } from 'react';
+import { AppState } from 'react-native';
+import {
+  ApiError,
+  apiRequest,
+  isAbortError,
+  isApiConfigured,
+  refreshAccessToken,
+  setTokenRefresher,
+  setUnauthorizedHandler,
+} from '../utils/apiClient';
+import {
+  AppLockSettings,
+  DEFAULT_APP_LOCK_SETTINGS,
+  authenticateWithDevice,
+  loadAppLockSettings,
+  saveAppLockSettings,
+} from '../utils/appLock';
+import { getTokenExpiry } from '../utils/authTokens';
+import {
+  AUTH_REQUEST_TIMEOUT_MS,
+  LOGIN_ENDPOINT,
+  ME_ENDPOINT,
+  PING_ENDPOINT,
+  REFRESH_ENDPOINT,
+} from '../utils/constants';
 
 type AuthStatus = 'checking' | 'authenticated' | 'unauthenticated';
 
@@ -19,15 +44,30 @@ type AuthenticatedUser = {
   [key: string]: unknown;
 };
 
+// Token fields returned by login, register and refresh
+type TokenResponse = {
+  token?: string;
+  refresh_token?: string;
+  expires_in?: number;
+};
+
 type AuthActionResult = {
   success: boolean;
   message?: string;
+  // Machine-readable failure reason, e.g. 'invalid_current_password'
+  code?: string;
 };
 
+// Name and phone can be changed freely while signed in
 type UpdateProfilePayload = {
-  email?: string;
   full_name?: string;
   phone?: string | null;
+};
+
+// Sign-in details require the current password before they are sent
+type UpdateCredentialsPayload = {
+  current_password: string;
+  email?: string;
   new_password?: string;
 };
 
@@ -36,17 +76,49 @@ type AuthContextValue = {
   token: string | null;
   user: AuthenticatedUser | null;
   isAuthenticated: boolean;
+  // True after the session was ended by a 401/403; cleared on the next sign-in or logout
+  sessionExpired: boolean;
   login: (payload: LoginPayload) => Promise<AuthActionResult>;
-  loginWithToken: (token: string, user?: AuthenticatedUser | null) => Promise<void>;
+  loginWithToken: (token: string, user?: AuthenticatedUser | null, refreshToken?: string | null) => Promise<void>;
   logout: () => Promise<void>;
   deleteAccount: () => Promise<AuthActionResult>;
   updateProfile: (fields: UpdateProfilePayload) => Promise<AuthActionResult>;
+  updateCredentials: (fields: UpdateCredentialsPayload) => Promise<AuthActionResult>;
+  // Optional biometric / passcode lock layered over the stored session
+  appLock: AppLockSettings;
+  isLocked: boolean;
+  unlock: () => Promise<AuthActionResult>;
+  setAppLockEnabled: (enabled: boolean) => Promise<AuthActionResult>;
+  setAppLockIdleTimeout: (idleTimeoutMs: number) => Promise<void>;
 };
 
 const TOKEN_STORAGE_KEY = 'ttp-auth-token';
+const REFRESH_TOKEN_STORAGE_KEY = 'ttp-refresh-token';
+
+// Refresh the access token this long before it expires
+const REFRESH_LEEWAY_MS = 60_000;
 
-const API_BASE_URL = (process.env.EXPO_PUBLIC_API_URL ?? '').trim();
-const normalizedBaseUrl = API_BASE_URL.replace(/\/+$/, '');
+const clearStoredTokens = async () => {
+  await Promise.all([
+    SecureStore.deleteItemAsync(TOKEN_STORAGE_KEY),
+    SecureStore.deleteItemAsync(REFRESH_TOKEN_STORAGE_KEY),
+  ]);
+};
+
+const isAuthRejection = (error: unknown): boolean =>
+  error instanceof ApiError && (error.status === 401 || error.status === 403);
+
+// Map a failed request to a user-facing message, preferring the server's own wording
+const toFailureMessage = (error: unknown, fallback: string): string => {
+  // Auth requests pass no caller signal, so an abort can only come from the timeout
+  if (isAbortError(error) || (error instanceof ApiError && error.code === 'timeout')) {
+    return 'The request timed out. Please check your connection and try again.';
+  }
+  if (isAuthRejection(error)) {
+    return 'Your session has expired. Please sign in again.';
+  }
+  return error instanceof ApiError ? error.serverMessage ?? fallback : fallback;
+};
 
 const AuthContext = createContext<AuthContextValue | undefined>(undefined);
 
@@ -54,75 +126,182 @@ export function AuthProvider({ children }: PropsWithChildren) {
   const [status, setStatus] = useState<AuthStatus>('checking');
   const [token, setToken] = useState<string | null>(null);
   const [user, setUser] = useState<AuthenticatedUser | null>(null);
+  const [sessionExpired, setSessionExpired] = useState(false);
+  const [tokenExpiresAt, setTokenExpiresAt] = useState<number | null>(null);
+  const [appLock, setAppLock] = useState<AppLockSettings>(DEFAULT_APP_LOCK_SETTINGS);
+  const [isLocked, setIsLocked] = useState(false);
+  const statusRef = useRef<AuthStatus>('checking');
+  const appLockRef = useRef<AppLockSettings>(DEFAULT_APP_LOCK_SETTINGS);
+  const backgroundedAtRef = useRef<number | null>(null);
+  // Latest tokens, readable outside render (refresher, bootstrap)
+  const accessTokenRef = useRef<string | null>(null);
+  const refreshTokenRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    statusRef.current = status;
+  }, [status]);
+
+  useEffect(() => {
+    appLockRef.current = appLock;
+  }, [appLock]);
+
+  // Re-lock when the app returns from the background after the idle period
+  useEffect(() => {
+    const subscription = AppState.addEventListener('change', (nextState) => {
+      if (nextState === 'background') {
+        backgroundedAtRef.current = Date.now();
+        return;
+      }
+      if (nextState !== 'active' || backgroundedAtRef.current === null) return;
+      const idleFor = Date.now() - backgroundedAtRef.current;
+      backgroundedAtRef.current = null;
+      const { enabled, idleTimeoutMs } = appLockRef.current;
+      if (enabled && statusRef.current === 'authenticated' && idleFor >= idleTimeoutMs) {
+        setIsLocked(true);
+      }
+    });
+    return () => subscription.remove();
+  }, []);
+
+  // Persist a new access token (and refresh token, when the server rotates it)
+  const storeTokens = useCallback(async (accessToken: string, refreshToken?: string | null, expiresIn?: number) => {
+    await SecureStore.setItemAsync(TOKEN_STORAGE_KEY, accessToken);
+    if (refreshToken) {
+      await SecureStore.setItemAsync(REFRESH_TOKEN_STORAGE_KEY, refreshToken);
+      refreshTokenRef.current = refreshToken;
+    }
+    accessTokenRef.current = accessToken;
+    setToken(accessToken);
+    setTokenExpiresAt(getTokenExpiry(accessToken, expiresIn));
+  }, []);
+
+  // End the session when any authenticated request is rejected mid-session.
+  // Bootstrap handles a bad stored token itself, so only act once authenticated.
+  const expireSession = useCallback(() => {
+    if (statusRef.current !== 'authenticated') return;
+    statusRef.current = 'unauthenticated';
+    accessTokenRef.current = null;
+    refreshTokenRef.current = null;
+    setToken(null);
+    setTokenExpiresAt(null);
+    setUser(null);
+    setIsLocked(false);
+    setSessionExpired(true);
+    setStatus('unauthenticated');
+    clearStoredTokens().catch(() => {});
+  }, []);
+
+  useEffect(() => {
+    setUnauthorizedHandler(expireSession);
+    setTokenRefresher(async () => {
+      const refreshToken = refreshTokenRef.current;
+      if (!refreshToken || !isApiConfigured()) return null;
+      try {
+        const payload = await apiRequest<TokenResponse | null>(REFRESH_ENDPOINT, {
+          method: 'POST',
+          body: { refresh_token: refreshToken },
+          timeoutMs: AUTH_REQUEST_TIMEOUT_MS,
+        });
+        if (!payload?.token) return null;
+        await storeTokens(payload.token, payload.refresh_token, payload.expires_in);
+        return payload.token;
+      } catch (error) {
+        // Only an explicit rejection ends the session; network errors and 5xx keep it
+        if (isAuthRejection(error)) return null;
+        throw error;
+      }
+    });
+    return () => {
+      setUnauthorizedHandler(null);
+      setTokenRefresher(null);
+    };
+  }, [expireSession, storeTokens]);
+
+  // Refresh silently shortly before the access token expires
+  useEffect(() => {
+    if (status !== 'authenticated' || tokenExpiresAt === null || !refreshTokenRef.current) return;
+    const delay = Math.max(tokenExpiresAt - Date.now() - REFRESH_LEEWAY_MS, 0);
+    const timer = setTimeout(() => {
+      refreshAccessToken()
+        .then((refreshed) => {
+          if (!refreshed) expireSession();
+        })
+        .catch(() => {
+          // Server unreachable — keep the session; the next 401 retries the refresh
+        });
+    }, delay);
+    return () => clearTimeout(timer);
+  }, [status, tokenExpiresAt, expireSession]);
 
   useEffect(() => {
     let isMounted = true;
 
     const pingLastAccessed = (activeToken: string) => {
-      if (!normalizedBaseUrl) return;
-      fetch(`${normalizedBaseUrl}/appUsers/ping`, {
-        method: 'POST',
-        headers: { Authorization: `Bearer ${activeToken}` },
-      }).catch(() => {});
+      if (!isApiConfigured()) return;
+      apiRequest(PING_ENDPOINT, { method: 'POST', token: activeToken }).catch(() => {});
     };
 
     const fetchMe = async (activeToken: string): Promise<AuthenticatedUser | null> => {
-      if (!normalizedBaseUrl) return null;
-      const controller = new AbortController();
-      const timeout = setTimeout(() => controller.abort(), 10_000);
-      try {
-        const response = await fetch(`${normalizedBaseUrl}/appUsers/me`, {
-          headers: { Authorization: `Bearer ${activeToken}` },
-          signal: controller.signal,
-        });
-        if (response.status === 401 || response.status === 403 || response.status === 404) {
-          return null;
-        }
-        if (!response.ok) {
-          throw new Error('server_error');
-        }
-        const json = await response.json();
-        return (json?.data as AuthenticatedUser) ?? null;
-      } finally {
-        clearTimeout(timeout);
-      }
+      if (!isApiConfigured()) return null;
+      const json = await apiRequest<{ data?: AuthenticatedUser } | null>(ME_ENDPOINT, {
+        token: activeToken,
+        timeoutMs: AUTH_REQUEST_TIMEOUT_MS,
+      });
+      return json?.data ?? null;
     };
 
     const bootstrapAuth = async () => {
       try {
-        const storedToken = await SecureStore.getItemAsync(TOKEN_STORAGE_KEY);
+        const [storedToken, storedRefreshToken, lockSettings] = await Promise.all([
+          SecureStore.getItemAsync(TOKEN_STORAGE_KEY),
+          SecureStore.getItemAsync(REFRESH_TOKEN_STORAGE_KEY),
+          loadAppLockSettings(),
+        ]);
         if (!isMounted) return;
 
+        appLockRef.current = lockSettings;
+        setAppLock(lockSettings);
+
         if (!storedToken) {
           setStatus('unauthenticated');
           return;
         }
 
+        accessTokenRef.current = storedToken;
+        refreshTokenRef.current = storedRefreshToken;
+
         let meUser: AuthenticatedUser | null = null;
         let tokenInvalid = false;
 
         try {
           meUser = await fetchMe(storedToken);
-          if (meUser === null && normalizedBaseUrl) {
-            // null from fetchMe means a 401/403/404 — token is bad
-            tokenInvalid = true;
-          }
-        } catch {
-          // Network error or timeout — trust the stored token but user stays null
+        } catch (error) {
+          // A 401/403/404 here means the server turned down the token and its refresh.
+          // Network errors, timeouts and 5xx (refresh included) trust the stored tokens; user stays null.
+          tokenInvalid = error instanceof ApiError && [401, 403, 404].includes(error.status);
         }
 
         if (!isMounted) return;
 
         if (tokenInvalid) {
-          await SecureStore.deleteItemAsync(TOKEN_STORAGE_KEY);
+          accessTokenRef.current = null;
+          refreshTokenRef.current = null;
+          await clearStoredTokens();
           setStatus('unauthenticated');
           return;
         }
 
-        setToken(storedToken);
+        // A 401 during fetchMe may have refreshed the token already; storeTokens then set its expiry
+        const activeToken = accessTokenRef.current ?? storedToken;
+        setToken(activeToken);
+        if (activeToken === storedToken) {
+          setTokenExpiresAt(getTokenExpiry(activeToken));
+        }
         setUser(meUser);
+        // Cold start with App Lock on: stay locked until the device check passes
+        setIsLocked(lockSettings.enabled);
         setStatus('authenticated');
-        pingLastAccessed(storedToken);
+        pingLastAccessed(activeToken);
       } catch {
         if (isMounted) {
           setStatus('unauthenticated');
@@ -138,7 +317,7 @@ export function AuthProvider({ children }: PropsWithChildren) {
   }, []);
 
   const login = useCallback(async ({ email, password }: LoginPayload): Promise<AuthActionResult> => {
-    if (!normalizedBaseUrl) {
+    if (!isApiConfigured()) {
       return {
         success: false,
         message: 'Set EXPO_PUBLIC_API_URL to enable sign in.',
@@ -146,66 +325,53 @@ export function AuthProvider({ children }: PropsWithChildren) {
     }
 
     try {
-      const controller = new AbortController();
-      const timeout = setTimeout(() => controller.abort(), 10_000);
-
-      let response;
-      try {
-        response = await fetch(`${normalizedBaseUrl}/appUsers/login`, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({
-            email: email.trim(),
-            password,
-          }),
-          signal: controller.signal,
-        });
-      } finally {
-        clearTimeout(timeout);
-      }
-
-      type LoginResponse = { token?: string; message?: string; user?: AuthenticatedUser } | null;
-      let payload: LoginResponse = null;
-      try {
-        payload = await response.json() as LoginResponse;
-      } catch {
-        payload = null;
-      }
+      type LoginResponse = (TokenResponse & { message?: string; user?: AuthenticatedUser }) | null;
+      const payload = await apiRequest<LoginResponse>(LOGIN_ENDPOINT, {
+        method: 'POST',
+        body: {
+          email: email.trim(),
+          password,
+        },
+        timeoutMs: AUTH_REQUEST_TIMEOUT_MS,
+      });
 
-      if (!response.ok || !payload?.token) {
+      if (!payload?.token) {
         return {
           success: false,
           message: payload?.message ?? 'Check your email and password.',
         };
       }
 
-      await SecureStore.setItemAsync(TOKEN_STORAGE_KEY, payload.token);
-      setToken(payload.token);
+      await storeTokens(payload.token, payload.refresh_token, payload.expires_in);
       setUser(payload?.user ?? null);
+      setSessionExpired(false);
       setStatus('authenticated');
 
       return { success: true };
     } catch (error: unknown) {
+      if (error instanceof ApiError && error.status > 0) {
+        return { success: false, message: error.serverMessage ?? 'Check your email and password.' };
+      }
       return {
         success: false,
-        message: (error instanceof Error && error.name === 'AbortError')
-          ? 'The request timed out. Please check your connection and try again.'
-          : 'Unable to sign in right now. Please try again.',
+        message: toFailureMessage(error, 'Unable to sign in right now. Please try again.'),
       };
     }
-  }, []);
-
-  const loginWithToken = useCallback(async (newToken: string, newUser?: AuthenticatedUser | null) => {
-    await SecureStore.setItemAsync(TOKEN_STORAGE_KEY, newToken);
-    setToken(newToken);
+  }, [storeTokens]);
+
+  const loginWithToken = useCallback(async (
+    newToken: string,
+    newUser?: AuthenticatedUser | null,
+    refreshToken?: string | null,
+  ) => {
+    await storeTokens(newToken, refreshToken);
     setUser(newUser ?? null);
+    setSessionExpired(false);
     setStatus('authenticated');
-  }, []);
+  }, [storeTokens]);
 
   const deleteAccount = useCallback(async (): Promise<AuthActionResult> => {
-    if (!normalizedBaseUrl) {
+    if (!isApiConfigured()) {
       return { success: false, message: 'Set EXPO_PUBLIC_API_URL to enable this action.' };
     }
     if (!token) {
@@ -213,49 +379,34 @@ export function AuthProvider({ children }: PropsWithChildren) {
     }
 
     try {
-      const controller = new AbortController();
-      const timeout = setTimeout(() => controller.abort(), 10_000);
-      let response: Response;
-      try {
-        response = await fetch(`${normalizedBaseUrl}/appUsers/me`, {
-          method: 'DELETE',
-          headers: { Authorization: `Bearer ${token}` },
-          signal: controller.signal,
-        });
-      } finally {
-        clearTimeout(timeout);
-      }
-
-      if (!response.ok) {
-        let message: string | undefined;
-        try {
-          const json = await response.json() as { message?: string };
-          message = json?.message;
-        } catch { /* ignore */ }
-        return { success: false, message: message ?? 'Failed to delete account. Please try again.' };
-      }
+      await apiRequest(ME_ENDPOINT, { method: 'DELETE', token, timeoutMs: AUTH_REQUEST_TIMEOUT_MS });
     } catch (error: unknown) {
-      return {
-        success: false,
-        message: (error instanceof Error && error.name === 'AbortError')
-          ? 'The request timed out. Please check your connection and try again.'
-          : 'Unable to delete account right now. Please try again.',
-      };
+      const fallback = error instanceof ApiError && error.status > 0
+        ? 'Failed to delete account. Please try again.'
+        : 'Unable to delete account right now. Please try again.';
+      return { success: false, message: toFailureMessage(error, fallback) };
     }
 
     setStatus('checking');
     setUser(null);
     setToken(null);
+    setTokenExpiresAt(null);
+    setIsLocked(false);
+    accessTokenRef.current = null;
+    refreshTokenRef.current = null;
     try {
-      await SecureStore.deleteItemAsync(TOKEN_STORAGE_KEY);
+      await clearStoredTokens();
     } finally {
       setStatus('unauthenticated');
     }
     return { success: true };
   }, [token]);
 
-  const updateProfile = useCallback(async (fields: UpdateProfilePayload): Promise<AuthActionResult> => {
-    if (!normalizedBaseUrl) {
+  // PUT /appUsers/me and merge the accepted fields into the cached user
+  const putProfile = useCallback(async (
+    fields: UpdateProfilePayload & Partial<UpdateCredentialsPayload>,
+  ): Promise<AuthActionResult> => {
+    if (!isApiConfigured()) {
       return { success: false, message: 'Set EXPO_PUBLIC_API_URL to enable this action.' };
     }
     if (!token) {
@@ -263,31 +414,12 @@ export function AuthProvider({ children }: PropsWithChildren) {
     }
 
     try {
-      const controller = new AbortController();
-      const timeout = setTimeout(() => controller.abort(), 10_000);
-      let response: Response;
-      try {
-        response = await fetch(`${normalizedBaseUrl}/appUsers/me`, {
-          method: 'PUT',
-          headers: {
-            Authorization: `Bearer ${token}`,
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify(fields),
-          signal: controller.signal,
-        });
-      } finally {
-        clearTimeout(timeout);
-      }
-
-      let json: { message?: string } | null = null;
-      try {
-        json = await response.json() as { message?: string };
-      } catch { /* ignore */ }
-
-      if (!response.ok) {
-        return { success: false, message: json?.message ?? 'Failed to update profile. Please try again.' };
-      }
+      await apiRequest(ME_ENDPOINT, {
+        method: 'PUT',
+        token,
+        body: fields,
+        timeoutMs: AUTH_REQUEST_TIMEOUT_MS,
+      });
 
       setUser((current) => {
         if (!current) return current;
@@ -300,40 +432,113 @@ export function AuthProvider({ children }: PropsWithChildren) {
 
       return { success: true };
     } catch (error: unknown) {
-      return {
-        success: false,
-        message: (error instanceof Error && error.name === 'AbortError')
-          ? 'The request timed out. Please check your connection and try again.'
-          : 'Unable to update profile right now. Please try again.',
-      };
+      if (error instanceof ApiError && error.code === 'invalid_current_password') {
+        return { success: false, message: 'Current password is incorrect.', code: 'invalid_current_password' };
+      }
+      const fallback = error instanceof ApiError && error.status > 0
+        ? 'Failed to update profile. Please try again.'
+        : 'Unable to update profile right now. Please try again.';
+      return { success: false, message: toFailureMessage(error, fallback) };
     }
   }, [token]);
 
+  const updateProfile = useCallback(
+    (fields: UpdateProfilePayload) => putProfile(fields),
+    [putProfile],
+  );
+
+  // The server checks current_password and answers invalid_current_password when it is wrong;
+  // apiClient leaves the session alone for that code, so no separate sign-in check is needed
+  const updateCredentials = useCallback(
+    ({ current_password, ...changes }: UpdateCredentialsPayload) => putProfile({ ...changes, current_password }),
+    [putProfile],
+  );
+
   const logout = useCallback(async () => {
     setStatus('checking');
     setUser(null);
     setToken(null);
+    setTokenExpiresAt(null);
+    setIsLocked(false);
+    setSessionExpired(false);
+    accessTokenRef.current = null;
+    refreshTokenRef.current = null;
 
     try {
-      await SecureStore.deleteItemAsync(TOKEN_STORAGE_KEY);
+      await clearStoredTokens();
     } finally {
       setStatus('unauthenticated');
     }
   }, []);
 
+  const unlock = useCallback(async (): Promise<AuthActionResult> => {
+    const result = await authenticateWithDevice('Unlock To The Pub');
+    if (result.success) {
+      setIsLocked(false);
+    }
+    return result;
+  }, []);
+
+  const updateAppLock = useCallback(async (next: AppLockSettings) => {
+    appLockRef.current = next;
+    setAppLock(next);
+    await saveAppLockSettings(next);
+  }, []);
+
+  // Turning the lock on or off needs the same device check as unlocking
+  const setAppLockEnabled = useCallback(async (enabled: boolean): Promise<AuthActionResult> => {
+    const result = await authenticateWithDevice(enabled ? 'Turn on App Lock' : 'Turn off App Lock');
+    if (!result.success) {
+      return result;
+    }
+    try {
+      await updateAppLock({ ...appLockRef.current, enabled });
+      return { success: true };
+    } catch {
+      return { success: false, message: 'Unable to save App Lock settings. Please try again.' };
+    }
+  }, [updateAppLock]);
+
+  const setAppLockIdleTimeout = useCallback(async (idleTimeoutMs: number) => {
+    await updateAppLock({ ...appLockRef.current, idleTimeoutMs });
+  }, [updateAppLock]);
+
   const value = useMemo<AuthContextValue>(
     () => ({
       status,
       token,
       user,
       isAuthenticated: status === 'authenticated',
+      sessionExpired,
       login,
       loginWithToken,
       logout,
       deleteAccount,
       updateProfile,
+      updateCredentials,
+      appLock,
+      isLocked,
+      unlock,
+      setAppLockEnabled,
+      setAppLockIdleTimeout,
     }),
-    [status, token, user, login, loginWithToken, logout, deleteAccount, updateProfile],
+    [
+      status,
+      token,
+      user,
+      sessionExpired,
+      login,
+      loginWithToken,
+      logout,
+      deleteAccount,
+      updateProfile,
+      updateCredentials,
+      appLock,
+      isLocked,
+      unlock,
+      setAppLockEnabled,
+      setAppLockIdleTimeout,
+    ],
   );
 
   return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
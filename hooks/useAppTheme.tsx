@@ -0,0 +1,41 @@
+// hooks/useAppTheme.tsx
+// Resolves the light/dark palette from the user's theme preference and the device appearance
+
+import React, { PropsWithChildren, createContext, useCallback, useContext, useMemo } from 'react';
+import { useColorScheme } from 'react-native';
+import type { ThemeMode, ThemeName } from '../types';
+import { usePreferences } from './usePreferences';
+
+type AppThemeContextValue = {
+  // The palette to render with
+  theme: ThemeName;
+  themeMode: ThemeMode;
+  setThemeMode: (mode: ThemeMode) => void;
+};
+
+const AppThemeContext = createContext<AppThemeContextValue | null>(null);
+
+// A forced mode wins; 'system' follows the device, dark when it doesn't say
+export const resolveTheme = (mode: ThemeMode, systemTheme: ThemeName | null | undefined): ThemeName =>
+  mode === 'system' ? (systemTheme ?? 'dark') : mode;
+
+export function AppThemeProvider({ children }: PropsWithChildren) {
+  const systemTheme = useColorScheme();
+  const { themeMode, setPreference } = usePreferences();
+
+  const setThemeMode = useCallback((mode: ThemeMode) => setPreference('themeMode', mode), [setPreference]);
+
+  const value = useMemo(
+    () => ({ theme: resolveTheme(themeMode, systemTheme), themeMode, setThemeMode }),
+    [themeMode, systemTheme, setThemeMode]
+  );
+
+  return <AppThemeContext.Provider value={value}>{children}</AppThemeContext.Provider>;
+}
+
+// Outside a provider (tests, isolated screens) the device appearance applies
+export function useAppTheme(): AppThemeContextValue {
+  const context = useContext(AppThemeContext);
+  const systemTheme = useColorScheme();
+  return context ?? { theme: resolveTheme('system', systemTheme), themeMode: 'system', setThemeMode: () => {} };
+}
@@ -0,0 +1,90 @@
+// hooks/useBarTags.ts
+// Loads the /BarTags list shared by the bars tag filter and bar search
+
+import { useCallback, useEffect, useState } from 'react';
+import type { TagFilterOption } from '../types';
+import { apiRequest } from '../utils/apiClient';
+import { BAR_TAGS_ENDPOINT } from '../utils/constants';
+
+export const useBarTags = () => {
+  const [availableTags, setAvailableTags] = useState<TagFilterOption[]>([]);
+  const [areTagsLoading, setAreTagsLoading] = useState(false);
+  const [tagsError, setTagsError] = useState<string | null>(null);
+  const [tagsRetryCount, setTagsRetryCount] = useState(0);
+
+  const retryFetchTags = useCallback(() => {
+    setTagsRetryCount((c) => c + 1);
+  }, []);
+
+  // Load tags from the backend
+  useEffect(() => {
+    let cancelled = false;
+
+    const fetchTags = async () => {
+      setAreTagsLoading(true);
+      try {
+        setTagsError(null);
+        const payload = await apiRequest<any>(BAR_TAGS_ENDPOINT);
+        const rawItems = Array.isArray(payload?.data)
+          ? payload.data
+          : Array.isArray(payload)
+            ? payload
+            : [];
+
+        const tagMap = new Map<string, TagFilterOption>();
+        rawItems.forEach((tag: any) => {
+          const name = typeof tag?.name === 'string' ? tag.name.trim() : '';
+          if (!name) {
+            return;
+          }
+          // Require backend tag ids so API calls send ids
+          const tagId =
+            typeof tag?.id === 'string'
+              ? tag.id.trim()
+              : typeof tag?.id === 'number'
+                ? String(tag.id)
+                : '';
+          if (!tagId || tagMap.has(tagId)) {
+            return;
+          }
+          const category =
+            typeof tag?.category === 'string' && tag.category.trim()
+              ? tag.category.trim()
+              : undefined;
+          tagMap.set(tagId, {
+            id: tagId,
+            name,
+            normalizedName: tagId,
+            category,
+          });
+        });
+
+        if (!cancelled) {
+          setAvailableTags(Array.from(tagMap.values()).sort((a, b) => a.name.localeCompare(b.name)));
+        }
+      } catch (err) {
+        if (!cancelled) {
+          setTagsError(err instanceof Error ? err.message : 'Unable to load tags right now.');
+          setAvailableTags([]);
+        }
+      } finally {
+        if (!cancelled) {
+          setAreTagsLoading(false);
+        }
+      }
+    };
+
+    fetchTags();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [tagsRetryCount]);
+
+  return {
+    availableTags,
+    areTagsLoading,
+    tagsError,
+    retryFetchTags,
+  };
+};
@@ -3,8 +3,11 @@
 
 import { useCallback, useEffect, useRef, useState } from 'react';
 import type {
+  Bar,
+  BarSortOption,
   BarsCache,
   Coordinates,
+  DistanceUnit,
   LoadBarsPageOptions,
   LoadMode,
   PaginationState,
@@ -14,14 +17,18 @@ import {
   mapBarsInBatches,
   mergeBars,
 } from '../utils/Barmappers';
+import { apiRequest, isAbortError } from '../utils/apiClient';
+import { getBarComparator } from '../utils/barSorting';
 import {
   BARS_ENDPOINT,
-  DEFAULT_COORDS,
+  BAR_SORT_QUERY_PARAMS,
+  DEFAULT_BAR_SORT,
+  DEFAULT_DISTANCE_UNIT,
   INDEX_BASE_QUERY_PARAMS,
   INFINITE_SCROLL_CONFIG,
+  PERSISTED_CACHE_CONFIG,
 } from '../utils/constants';
 import {
-  buildQueryString,
   extractBarItems,
   getCacheKey,
 } from '../utils/helpers';
@@ -30,13 +37,25 @@ import {
   extractTotalCount,
   shouldContinuePagination,
 } from '../utils/pagination';
+import {
+  readPersistedCache,
+  trimPagedSnapshot,
+  writePersistedCache,
+} from '../utils/persistentCache';
+import { isBarOpenAt } from '../utils/Timeformatters';
+import { usePreferences } from './usePreferences';
 
 
-// Custom hook for managing bars data with pagination, caching, and error handling
+// Custom hook for managing bars data with pagination, caching, and error handling.
+// With openAt set, lists bars open at that moment instead of right now.
 export const useBars = (
   userCoords: Coordinates | null,
-  selectedTags: string[]
+  selectedTags: string[],
+  openAt: Date | null = null,
+  sort: BarSortOption = DEFAULT_BAR_SORT,
+  unit: DistanceUnit = DEFAULT_DISTANCE_UNIT
 ) => {
+  const { defaultCoords } = usePreferences();
   const [pagination, setPagination] = useState<PaginationState>({
     data: [],
     currentPage: 0,
@@ -48,6 +67,11 @@ export const useBars = (
   });
 
   const [isRefreshing, setIsRefreshing] = useState(false);
+  // Set while showing bars restored from disk; cleared once the network answers
+  const [lastUpdated, setLastUpdated] = useState<number | null>(null);
+  const [isRevalidating, setIsRevalidating] = useState(false);
+  // Map "search this area" centre; takes precedence over the user's location until cleared
+  const [areaCoords, setAreaCoords] = useState<Coordinates | null>(null);
 
   // Refs for managing requests and cache
   const inFlightPagesRef = useRef<Set<number>>(new Set());
@@ -58,6 +82,9 @@ export const useBars = (
     options?: LoadBarsPageOptions;
   }[]>([]);
   const cacheRef = useRef<BarsCache | null>(null);
+  // Bars on screen, so each page merges into the latest list outside the state updater
+  const barsRef = useRef<Bar[]>([]);
+  const activeCacheKeyRef = useRef<string | null>(null);
   const abortControllersRef = useRef<Map<number, AbortController>>(new Map());
   const hasMoreRef = useRef(true);
   const loadBarsPageRef = useRef<typeof loadBarsPage>(null!);
@@ -85,8 +112,11 @@ export const useBars = (
       options: LoadBarsPageOptions = {}
     ) => {
       const { ignoreCache = false, coordsOverride } = options;
-      const coordsToUse = coordsOverride ?? userCoords ?? DEFAULT_COORDS;
-      const cacheKey = getCacheKey(coordsToUse, selectedTags);
+      const coordsToUse = coordsOverride ?? areaCoords ?? userCoords ?? defaultCoords;
+      const cacheKey = getCacheKey(coordsToUse, selectedTags, undefined, { openAt, sort, unit });
+      if (page === 1 && mode !== 'prefetch') {
+        activeCacheKeyRef.current = cacheKey;
+      }
 
       // Check cache
       if (!ignoreCache && mode !== 'prefetch') {
@@ -97,6 +127,7 @@ export const useBars = (
           Date.now() - cached.timestamp < INFINITE_SCROLL_CONFIG.cacheTimeout;
 
         if (isCacheValid && page <= cached.currentPage) {
+          barsRef.current = cached.data;
           setPagination((prev) => ({
             ...prev,
             data: cached.data,
@@ -147,69 +178,98 @@ export const useBars = (
 
       const pageSize = getPageSize(page);
       let nextHasMore: boolean | null = null;
-      let didTimeout = false;
-      const timeoutId = setTimeout(() => {
-        didTimeout = true;
-        controller.abort();
-      }, INFINITE_SCROLL_CONFIG.requestTimeout);
+
+      // Cold start: show the last persisted results as soon as disk answers, while the request below revalidates
+      const shouldHydrate = mode === 'initial' && page === 1 && !ignoreCache;
+      let isSettled = false;
+      if (shouldHydrate) {
+        readPersistedCache<BarsCache>('bars', cacheKey, PERSISTED_CACHE_CONFIG.barsTtlMs).then((persisted) => {
+          if (!persisted || isSettled || activeCacheKeyRef.current !== cacheKey) {
+            return;
+          }
+          setLastUpdated(persisted.savedAt);
+          setIsRevalidating(true);
+          barsRef.current = persisted.value.data;
+          setPagination((prev) => ({
+            ...prev,
+            data: persisted.value.data,
+            currentPage: persisted.value.currentPage,
+            hasMore: persisted.value.hasMore,
+            totalCount: persisted.value.totalCount,
+            isLoading: false,
+            isLoadingMore: false,
+          }));
+        });
+      }
 
       try {
         const queryParams: QueryParams = {
           ...INDEX_BASE_QUERY_PARAMS,
+          ...BAR_SORT_QUERY_PARAMS[sort],
+          unit,
           lat: coordsToUse.lat,
           lon: coordsToUse.lon,
           page,
           limit: pageSize,
           tags: selectedTags.length ? selectedTags.join(',') : undefined,
+          open_now: openAt ? undefined : INDEX_BASE_QUERY_PARAMS.open_now,
+          open_at: openAt ? openAt.toISOString() : undefined,
         };
 
-        const queryString = buildQueryString(queryParams);
-        const requestUrl = queryString ? `${BARS_ENDPOINT}?${queryString}` : BARS_ENDPOINT;
-        
-        const response = await fetch(requestUrl, { signal: controller.signal });
-        
-        if (!response.ok) {
-          throw new Error(`Request failed with status ${response.status}`);
-        }
-
-        const payload: PayloadWithPagination = await response.json();
+        const payload = await apiRequest<PayloadWithPagination>(BARS_ENDPOINT, {
+          query: queryParams,
+          signal: controller.signal,
+          timeoutMs: INFINITE_SCROLL_CONFIG.requestTimeout,
+        });
         const rawItems = extractBarItems(payload);
         const startIndex =
           page === 1
             ? 0
             : INFINITE_SCROLL_CONFIG.initialPageSize + (page - 2) * INFINITE_SCROLL_CONFIG.subsequentPageSize;
-        const items = await mapBarsInBatches(rawItems, startIndex);
-        
-        nextHasMore = shouldContinuePagination(payload, items.length, pageSize);
+        const mappedItems = await mapBarsInBatches(rawItems, startIndex);
+        // Re-check planned times against each bar's own hours in case the API only knows "open now"
+        const items = openAt
+          ? mappedItems.filter((bar) => isBarOpenAt(bar.hours, openAt, bar.timezone) !== false)
+          : mappedItems;
+
+        nextHasMore = shouldContinuePagination(payload, mappedItems.length, pageSize);
         const totalCount = extractTotalCount(payload);
 
         hasMoreRef.current = nextHasMore ?? hasMoreRef.current;
+        if (page === 1) {
+          setLastUpdated(null);
+        }
 
-        setPagination((prev) => {
-          const replace = page === 1 || mode === 'refresh';
-          const data = mergeBars(prev.data, items, replace);
-          
-          cacheRef.current = {
-            key: cacheKey,
-            timestamp: Date.now(),
-            data,
-            currentPage: page,
-            hasMore: nextHasMore ?? prev.hasMore,
-            totalCount,
-          };
-          
-          return {
-            ...prev,
-            data,
-            currentPage: page,
-            hasMore: nextHasMore ?? prev.hasMore,
-            totalCount: totalCount ?? prev.totalCount,
-            error: null,
-            isLoading: mode === 'initial' ? false : prev.isLoading,
-            isLoadingMore: false,
-          };
+        const compare = getBarComparator(sort, { selectedTags, referenceTime: openAt });
+        const replace = page === 1 || mode === 'refresh';
+        const data = mergeBars(barsRef.current, items, replace, compare);
+        const hasMore = hasMoreRef.current;
+        barsRef.current = data;
+
+        cacheRef.current = {
+          key: cacheKey,
+          timestamp: Date.now(),
+          data,
+          currentPage: page,
+          hasMore,
+          totalCount,
+        };
+        writePersistedCache<BarsCache>('bars', cacheKey, {
+          ...cacheRef.current,
+          ...trimPagedSnapshot(cacheRef.current, INFINITE_SCROLL_CONFIG.subsequentPageSize),
         });
 
+        setPagination((prev) => ({
+          ...prev,
+          data,
+          currentPage: page,
+          hasMore,
+          totalCount: totalCount ?? prev.totalCount,
+          error: null,
+          isLoading: mode === 'initial' ? false : prev.isLoading,
+          isLoadingMore: false,
+        }));
+
         // Prefetch next page
         if (
           INFINITE_SCROLL_CONFIG.prefetchPages > 0 &&
@@ -225,14 +285,11 @@ export const useBars = (
           }
         }
       } catch (err) {
-        const isAbort = (err as Error).name === 'AbortError';
-        if (isAbort && !didTimeout) {
+        if (isAbortError(err)) {
           return;
         }
 
-        const message = isAbort
-          ? 'Request timed out. Please try again.'
-          : err instanceof Error ? err.message : 'Something went wrong while loading bars.';
+        const message = err instanceof Error ? err.message : 'Something went wrong while loading bars.';
 
         setPagination((prev) => ({
           ...prev,
@@ -241,11 +298,13 @@ export const useBars = (
           isLoadingMore: false,
         }));
       } finally {
-        clearTimeout(timeoutId);
-
         if (mode === 'refresh') {
           setIsRefreshing(false);
         }
+        if (shouldHydrate) {
+          isSettled = true;
+          setIsRevalidating(false);
+        }
 
         inFlightPagesRef.current.delete(page);
         activeRequestCountRef.current = Math.max(0, activeRequestCountRef.current - 1);
@@ -272,7 +331,7 @@ export const useBars = (
         }
       }
     },
-    [getPageSize, selectedTags, userCoords]
+    [areaCoords, defaultCoords, getPageSize, openAt, selectedTags, sort, unit, userCoords]
   );
 
   // Keep ref pointing at the latest loadBarsPage so async callbacks
@@ -282,9 +341,9 @@ export const useBars = (
   }, [loadBarsPage]);
 
   /**
-   * Refresh bars (pull-to-refresh)
+   * Abort in-flight and queued page loads before starting over
    */
-  const handleRefresh = useCallback(() => {
+  const resetRequests = useCallback(() => {
     queuedRequestsRef.current = [];
     inFlightPagesRef.current.forEach((page) => {
       const controller = abortControllersRef.current.get(page);
@@ -294,9 +353,43 @@ export const useBars = (
     abortControllersRef.current.clear();
     activeRequestCountRef.current = 0;
     cacheRef.current = null;
-    loadBarsPageRef.current(1, 'refresh', { ignoreCache: true });
   }, []);
 
+  /**
+   * Refresh bars (pull-to-refresh)
+   */
+  const handleRefresh = useCallback(() => {
+    resetRequests();
+    loadBarsPageRef.current(1, 'refresh', { ignoreCache: true });
+  }, [resetRequests]);
+
+  /**
+   * Reload bars around a map centre instead of the user's location
+   */
+  const searchArea = useCallback(
+    (coords: Coordinates) => {
+      setAreaCoords(coords);
+      resetRequests();
+      loadBarsPageRef.current(1, 'refresh', { ignoreCache: true, coordsOverride: coords });
+    },
+    [resetRequests]
+  );
+
+  /**
+   * Go back to bars around the user's location
+   */
+  const clearSearchArea = useCallback(
+    (coordsOverride?: Coordinates) => {
+      setAreaCoords(null);
+      resetRequests();
+      loadBarsPageRef.current(1, 'refresh', {
+        ignoreCache: true,
+        coordsOverride: coordsOverride ?? userCoords ?? defaultCoords,
+      });
+    },
+    [defaultCoords, resetRequests, userCoords]
+  );
+
   /**
    * Trigger the initial load, optionally with a coords override
    */
@@ -312,28 +405,28 @@ export const useBars = (
    */
   const handleRetry = useCallback(() => {
     const mode: LoadMode = pagination.data.length ? 'refresh' : 'initial';
-    queuedRequestsRef.current = [];
-    inFlightPagesRef.current.forEach((page) => {
-      const controller = abortControllersRef.current.get(page);
-      controller?.abort();
-    });
-    inFlightPagesRef.current.clear();
-    abortControllersRef.current.clear();
-    activeRequestCountRef.current = 0;
-    cacheRef.current = null;
+    resetRequests();
     loadBarsPage(1, mode, { ignoreCache: true });
-  }, [pagination.data.length, loadBarsPage]);
+  }, [pagination.data.length, loadBarsPage, resetRequests]);
 
   /**
    * Load more bars (infinite scroll)
    */
   const handleLoadMore = useCallback(() => {
-    if (pagination.isLoading || pagination.isLoadingMore || !pagination.hasMore) {
+    // Restored bars are replaced by page 1 once revalidated, so hold paging until then
+    if (pagination.isLoading || pagination.isLoadingMore || !pagination.hasMore || isRevalidating) {
       return;
     }
     const nextPage = Math.max(1, pagination.currentPage + 1);
     loadBarsPage(nextPage, 'load-more', { ignoreCache: true });
-  }, [pagination.currentPage, pagination.hasMore, pagination.isLoading, pagination.isLoadingMore, loadBarsPage]);
+  }, [
+    pagination.currentPage,
+    pagination.hasMore,
+    pagination.isLoading,
+    pagination.isLoadingMore,
+    isRevalidating,
+    loadBarsPage,
+  ]);
 
   // Cleanup on unmount
   useEffect(() => {
@@ -353,9 +446,14 @@ export const useBars = (
     error: pagination.error,
     totalCount: pagination.totalCount,
     currentPage: pagination.currentPage,
+    lastUpdated,
+    isRevalidating,
+    areaCoords,
     loadInitial,
     handleRefresh,
     handleRetry,
     handleLoadMore,
+    searchArea,
+    clearSearchArea,
   };
 };
\ No newline at end of file
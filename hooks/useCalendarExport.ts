@@ -0,0 +1,95 @@
+// hooks/useCalendarExport.ts
+// Add events to the device calendar or share them as an .ics file
+
+import * as Calendar from 'expo-calendar';
+import { File, Paths } from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+import { useCallback, useState } from 'react';
+import { Alert } from 'react-native';
+import type { Event } from '../types/index';
+import {
+  buildCalendarFile,
+  getCalendarFileName,
+  getEventLocation,
+  getEventTimes,
+  parseRecurrencePattern,
+  type RecurrenceFrequency,
+} from '../utils/calendar';
+
+const CALENDAR_FREQUENCIES: Record<RecurrenceFrequency, Calendar.Frequency> = {
+  DAILY: Calendar.Frequency.DAILY,
+  WEEKLY: Calendar.Frequency.WEEKLY,
+  MONTHLY: Calendar.Frequency.MONTHLY,
+  YEARLY: Calendar.Frequency.YEARLY,
+};
+
+export const useCalendarExport = () => {
+  const [isExporting, setIsExporting] = useState(false);
+
+  // Opens the system "new event" screen prefilled, so no calendar permission is needed
+  const addToCalendar = useCallback(async (event: Event): Promise<boolean> => {
+    const times = getEventTimes(event);
+    if (!times) {
+      Alert.alert('Unable to add to calendar', "This event doesn't have a start time yet.");
+      return false;
+    }
+    const recurrence = parseRecurrencePattern(event.recurrence_pattern);
+    setIsExporting(true);
+    try {
+      const result = await Calendar.createEventInCalendarAsync({
+        title: event.title,
+        startDate: times.start,
+        endDate: times.end ?? undefined,
+        timeZone: event.timezone,
+        location: getEventLocation(event),
+        notes: event.description,
+        url: event.external_url ?? event.website,
+        recurrenceRule: recurrence
+          ? { frequency: CALENDAR_FREQUENCIES[recurrence.frequency], interval: recurrence.interval }
+          : undefined,
+      });
+      return result.action === 'saved' || result.action === 'done';
+    } catch {
+      Alert.alert('Unable to add to calendar', 'Please try again or share the event as a calendar file.');
+      return false;
+    } finally {
+      setIsExporting(false);
+    }
+  }, []);
+
+  // Writes the events to a temporary .ics file and opens the share sheet
+  const shareEvents = useCallback(async (events: Event[], name: string): Promise<boolean> => {
+    const contents = buildCalendarFile(events, name);
+    if (!contents.includes('BEGIN:VEVENT')) {
+      Alert.alert('Nothing to export', 'None of these events have a start time yet.');
+      return false;
+    }
+    setIsExporting(true);
+    try {
+      if (!(await Sharing.isAvailableAsync())) {
+        Alert.alert('Sharing unavailable', "This device can't share files.");
+        return false;
+      }
+      const file = new File(Paths.cache, getCalendarFileName(name));
+      file.create({ overwrite: true });
+      file.write(contents);
+      await Sharing.shareAsync(file.uri, {
+        mimeType: 'text/calendar',
+        UTI: 'com.apple.ical.ics',
+        dialogTitle: `Share ${name}`,
+      });
+      return true;
+    } catch {
+      Alert.alert('Unable to export events', 'Please try again.');
+      return false;
+    } finally {
+      setIsExporting(false);
+    }
+  }, []);
+
+  return {
+    isExporting,
+    addToCalendar,
+    shareEvents,
+  };
+};
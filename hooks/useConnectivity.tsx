@@ -0,0 +1,83 @@
+// hooks/useConnectivity.tsx
+// App-wide online/offline state from expo-network, plus a reconnect signal for retrying failed loads
+
+import * as Network from 'expo-network';
+import React, { PropsWithChildren, createContext, useCallback, useContext, useEffect, useMemo, useRef, useState } from 'react';
+
+type ConnectivityContextValue = {
+  isOffline: boolean;
+  // Bumped every time the device comes back online
+  reconnectCount: number;
+};
+
+// Outside a provider (tests, isolated screens) the app behaves as if it were online
+const ConnectivityContext = createContext<ConnectivityContextValue>({ isOffline: false, reconnectCount: 0 });
+
+// Only an explicit `false` counts as offline; `isInternetReachable` is unset until the OS has checked
+export const isOfflineState = (state: Network.NetworkState): boolean =>
+  state.isConnected === false || state.isInternetReachable === false;
+
+export function ConnectivityProvider({ children }: PropsWithChildren) {
+  const [isOffline, setIsOffline] = useState(false);
+  const [reconnectCount, setReconnectCount] = useState(0);
+  const isOfflineRef = useRef(false);
+  const hasListenerEventRef = useRef(false);
+
+  const applyState = useCallback((state: Network.NetworkState) => {
+    const nextOffline = isOfflineState(state);
+    if (isOfflineRef.current && !nextOffline) {
+      setReconnectCount((count) => count + 1);
+    }
+    isOfflineRef.current = nextOffline;
+    setIsOffline(nextOffline);
+  }, []);
+
+  useEffect(() => {
+    let isMounted = true;
+
+    const subscription = Network.addNetworkStateListener((state) => {
+      hasListenerEventRef.current = true;
+      applyState(state);
+    });
+
+    Network.getNetworkStateAsync()
+      .then((state) => {
+        // A listener event is newer than this snapshot
+        if (isMounted && !hasListenerEventRef.current) {
+          applyState(state);
+        }
+      })
+      .catch(() => {
+        // Unknown state; stay optimistic and let requests fail on their own
+      });
+
+    return () => {
+      isMounted = false;
+      subscription.remove();
+    };
+  }, [applyState]);
+
+  const value = useMemo(() => ({ isOffline, reconnectCount }), [isOffline, reconnectCount]);
+
+  return <ConnectivityContext.Provider value={value}>{children}</ConnectivityContext.Provider>;
+}
+
+export function useConnectivity() {
+  return useContext(ConnectivityContext);
+}
+
+// Run `onReconnect` each time the connection comes back (never on mount)
+export function useRetryOnReconnect(onReconnect: () => void) {
+  const { reconnectCount } = useConnectivity();
+  const onReconnectRef = useRef(onReconnect);
+
+  useEffect(() => {
+    onReconnectRef.current = onReconnect;
+  }, [onReconnect]);
+
+  useEffect(() => {
+    if (reconnectCount > 0) {
+      onReconnectRef.current();
+    }
+  }, [reconnectCount]);
+}
@@ -0,0 +1,94 @@
+// hooks/useDebouncedSearch.ts
+// Shared engine for the Search tab: debounces the query, retries once, and re-runs after reconnecting
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { ApiError, isAbortError, isApiConfigured } from '../utils/apiClient';
+import { SEARCH_DEBOUNCE_MS } from '../utils/constants';
+import { useConnectivity, useRetryOnReconnect } from './useConnectivity';
+
+export const MIN_SEARCH_LENGTH = 2;
+
+// Loads the results for a trimmed term; a new fetcher identity re-runs the current search
+export type SearchFetcher<T> = (term: string, signal: AbortSignal) => Promise<T[]>;
+
+export type SearchMessages = {
+	// Shown when EXPO_PUBLIC_API_URL is missing
+	unconfigured: string;
+	// Shown for server errors; network and timeout errors keep their own message
+	failed: string;
+};
+
+export const useDebouncedSearch = <T>(query: string, fetcher: SearchFetcher<T>, messages: SearchMessages) => {
+	const [results, setResults] = useState<T[]>([]);
+	const [isLoading, setIsLoading] = useState(false);
+	const [error, setError] = useState<string | null>(null);
+	// Bumped to re-run the current search after reconnecting
+	const [retryCount, setRetryCount] = useState(0);
+
+	const { isOffline } = useConnectivity();
+	const isOfflineRef = useRef(isOffline);
+	useEffect(() => {
+		isOfflineRef.current = isOffline;
+	}, [isOffline]);
+
+	const { unconfigured, failed } = messages;
+	const trimmedQuery = query.trim();
+
+	const performSearch = useCallback(
+		async (searchTerm: string, signal: AbortSignal, attempt = 0): Promise<void> => {
+			if (!isApiConfigured()) {
+				setError(unconfigured);
+				return;
+			}
+			try {
+				setError(null);
+				setIsLoading(true);
+				const found = await fetcher(searchTerm, signal);
+				if (!signal.aborted) setResults(found);
+			} catch (err) {
+				if (isAbortError(err)) return;
+				// No automatic retry while offline; useRetryOnReconnect re-runs the search instead
+				if (attempt < 1 && !signal.aborted && !isOfflineRef.current) {
+					await new Promise((res) => setTimeout(res, 1000));
+					return performSearch(searchTerm, signal, attempt + 1);
+				}
+				if (err instanceof ApiError && err.status > 0) {
+					setError(failed);
+				} else {
+					setError(err instanceof Error ? err.message : 'Unexpected error occurred.');
+				}
+			} finally {
+				if (!signal.aborted) setIsLoading(false);
+			}
+		},
+		[failed, fetcher, unconfigured]
+	);
+
+	useEffect(() => {
+		const term = trimmedQuery;
+		if (term.length < MIN_SEARCH_LENGTH) {
+			setResults([]);
+			setError(null);
+			setIsLoading(false);
+			return;
+		}
+		const controller = new AbortController();
+		const timer = setTimeout(() => {
+			performSearch(term, controller.signal);
+		}, SEARCH_DEBOUNCE_MS);
+		return () => {
+			clearTimeout(timer);
+			controller.abort();
+		};
+	}, [performSearch, trimmedQuery, retryCount]);
+
+	useRetryOnReconnect(
+		useCallback(() => {
+			if (error) {
+				setRetryCount((count) => count + 1);
+			}
+		}, [error])
+	);
+
+	return { results, isLoading, error, effectiveQuery: trimmedQuery };
+};
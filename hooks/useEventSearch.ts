@@ -0,0 +1,26 @@
+// hooks/useEventSearch.ts
+// Debounced keyword search over upcoming events, for the Search tab's Events segment
+
+import type { Event } from '../types/index';
+import { apiRequest } from '../utils/apiClient';
+import { EVENT_SEARCH_ENDPOINT, EVENT_SEARCH_LIMIT } from '../utils/constants';
+import { extractEventItems, mapToEvent } from '../utils/Eventmappers';
+import { useDebouncedSearch } from './useDebouncedSearch';
+
+const SEARCH_MESSAGES = {
+	unconfigured: 'Set EXPO_PUBLIC_API_URL to search for events.',
+	failed: 'Unable to search events right now.',
+};
+
+const searchEvents = async (searchTerm: string, signal: AbortSignal): Promise<Event[]> => {
+	const payload = await apiRequest(EVENT_SEARCH_ENDPOINT, {
+		query: { q: searchTerm, upcoming: 'true', limit: EVENT_SEARCH_LIMIT },
+		signal,
+	});
+	return extractEventItems(payload).map(mapToEvent);
+};
+
+export const useEventSearch = (query: string) => {
+	const { results, isLoading, error } = useDebouncedSearch(query, searchEvents, SEARCH_MESSAGES);
+	return { results, isLoading, error };
+};
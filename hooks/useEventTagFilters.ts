@@ -2,17 +2,17 @@
 // Manages event tag fetching, selection state, and filter sheet visibility
 
 import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
-import type { EventTag } from '../types/index';
-import { EVENT_TAGS_ENDPOINT } from '../utils/constants';
+import type { EventTag, TagMatchMode } from '../types/index';
+import { apiRequest, isApiConfigured } from '../utils/apiClient';
+import { DEFAULT_TAG_MATCH_MODE, EVENT_TAGS_ENDPOINT } from '../utils/constants';
 import { extractTagItems, mapToEventTag } from '../utils/Eventmappers';
 
-const API_BASE_URL = process.env.EXPO_PUBLIC_API_URL ?? '';
-
 const normalizeTagIds = (ids: string[]): string[] =>
   Array.from(new Set(ids.map((id) => id.trim()).filter(Boolean)));
 
 export const useEventTagFilters = (initialTagIds: string[] = []) => {
   const [selectedTagIds, setSelectedTagIds] = useState<string[]>(initialTagIds);
+  const [tagMatchMode, setTagMatchMode] = useState<TagMatchMode>(DEFAULT_TAG_MATCH_MODE);
   const [availableTags, setAvailableTags] = useState<EventTag[]>([]);
   const [areTagsLoading, setAreTagsLoading] = useState(false);
   const [tagsError, setTagsError] = useState<string | null>(null);
@@ -27,7 +27,7 @@ export const useEventTagFilters = (initialTagIds: string[] = []) => {
   }, [initialTagIds]);
 
   const fetchAvailableTags = useCallback(async () => {
-    if (!API_BASE_URL) {
+    if (!isApiConfigured()) {
       setTagsError('Set EXPO_PUBLIC_API_URL in your .env file to load event tags.');
       setAvailableTags([]);
       return;
@@ -36,11 +36,7 @@ export const useEventTagFilters = (initialTagIds: string[] = []) => {
     setAreTagsLoading(true);
     try {
       setTagsError(null);
-      const response = await fetch(EVENT_TAGS_ENDPOINT);
-      if (!response.ok) {
-        throw new Error(`Failed to fetch tags (status ${response.status})`);
-      }
-      const payload = await response.json();
+      const payload = await apiRequest(EVENT_TAGS_ENDPOINT);
       setAvailableTags(extractTagItems(payload).map(mapToEventTag));
     } catch (err) {
       setTagsError(err instanceof Error ? err.message : 'Unable to load event tags right now.');
@@ -72,8 +68,9 @@ export const useEventTagFilters = (initialTagIds: string[] = []) => {
     setSelectedTagIds((prev) => prev.filter((id) => id !== tagId));
   }, []);
 
-  const handleApplyFilters = useCallback((nextTagIds: string[]) => {
+  const handleApplyFilters = useCallback((nextTagIds: string[], nextMatchMode?: TagMatchMode) => {
     setSelectedTagIds(normalizeTagIds(nextTagIds));
+    if (nextMatchMode) setTagMatchMode(nextMatchMode);
     setIsFilterSheetVisible(false);
   }, []);
 
@@ -91,6 +88,7 @@ export const useEventTagFilters = (initialTagIds: string[] = []) => {
 
   return {
     selectedTagIds,
+    tagMatchMode,
     availableTags,
     areTagsLoading,
     tagsError,
@@ -2,24 +2,71 @@
 // Custom hook for fetching and managing events data with pagination and caching
 
 import { useCallback, useEffect, useRef, useState } from 'react';
-import type { Coordinates, Event, EventsCache, QueryParams } from '../types/index';
-import { DEFAULT_COORDS, INFINITE_SCROLL_CONFIG } from '../utils/constants';
-import { buildQueryString, getCacheKey } from '../utils/helpers';
-import { extractEventItems, mapToEvent, mergeEvents } from '../utils/Eventmappers';
+import type {
+  Coordinates,
+  DistanceUnit,
+  Event,
+  EventDateFilter,
+  EventsCache,
+  QueryParams,
+  TagMatchMode,
+  TagResults,
+} from '../types/index';
+import { apiRequest, isAbortError, isApiConfigured } from '../utils/apiClient';
+import {
+  DEFAULT_DISTANCE_UNIT,
+  DEFAULT_TAG_MATCH_MODE,
+  EVENT_INSTANCES_ENDPOINT,
+  EVENT_TAG_QUERY_CONFIG,
+  INFINITE_SCROLL_CONFIG,
+  PERSISTED_CACHE_CONFIG,
+} from '../utils/constants';
+import { getEventDateQuery } from '../utils/eventDateFilters';
+import { getCacheKey } from '../utils/helpers';
+import { combineTagResults, extractEventItems, mapToEvent, mergeEvents } from '../utils/Eventmappers';
 import { PayloadWithPagination, shouldContinuePagination } from '../utils/pagination';
+import { readPersistedCache, trimPagedSnapshot, writePersistedCache } from '../utils/persistentCache';
+import { usePreferences } from './usePreferences';
 
-const API_BASE_URL = process.env.EXPO_PUBLIC_API_URL ?? '';
 const PAGE_SIZE = INFINITE_SCROLL_CONFIG.initialPageSize;
-const DISTANCE_UNIT = 'miles';
-const normalizedBaseUrl = API_BASE_URL.replace(/\/+$/, '');
 
 type FetchMode = 'initial' | 'refresh' | 'paginate';
 
+type EventsPage = {
+  events: Event[];
+  page: number;
+  hasMore: boolean;
+};
+
+// Keep the per-tag results in step with a snapshot trimmed to its first pages
+const trimTagResults = (tagResults: TagResults, currentPage: number): TagResults => {
+  const maxItems = currentPage * PAGE_SIZE;
+  return {
+    results: tagResults.results.map((results) => results.slice(0, maxItems)),
+    hasMore: tagResults.hasMore.map((more, index) => more || tagResults.results[index].length > maxItems),
+  };
+};
+
+const requestEventsPage = async (query: QueryParams, signal: AbortSignal): Promise<EventsPage> => {
+  const payload = await apiRequest<PayloadWithPagination>(EVENT_INSTANCES_ENDPOINT, { query, signal });
+  const events = extractEventItems(payload).map(mapToEvent);
+  const pageMeta = payload.meta?.pagination;
+  return {
+    events,
+    page: typeof pageMeta?.current_page === 'number' ? pageMeta.current_page : Number(query.page),
+    hasMore: shouldContinuePagination(payload, events.length, PAGE_SIZE),
+  };
+};
+
 export const useEvents = (
   userCoords: Coordinates | null,
   selectedTagIds: string[],
-  searchRadius: number
+  searchRadius: number,
+  unit: DistanceUnit = DEFAULT_DISTANCE_UNIT,
+  tagMatchMode: TagMatchMode = DEFAULT_TAG_MATCH_MODE,
+  dateFilter: EventDateFilter | null = null
 ) => {
+  const { defaultCoords } = usePreferences();
   const [events, setEvents] = useState<Event[]>([]);
   const [page, setPage] = useState(1);
   const [hasMore, setHasMore] = useState(true);
@@ -27,10 +74,15 @@ export const useEvents = (
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [isPaginating, setIsPaginating] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  // Set while showing events restored from disk; cleared once the network answers
+  const [lastUpdated, setLastUpdated] = useState<number | null>(null);
+  const [isRevalidating, setIsRevalidating] = useState(false);
 
   const requestAbortRef = useRef<AbortController | null>(null);
   const requestSeqRef = useRef(0);
   const cacheRef = useRef<EventsCache | null>(null);
+  // Per-tag pages loaded so far when tags are fetched one at a time
+  const tagResultsRef = useRef<(TagResults & { key: string }) | null>(null);
 
   const fetchEvents = useCallback(
     async (pageToLoad: number, mode: FetchMode) => {
@@ -46,9 +98,10 @@ export const useEvents = (
       // Clear stale results immediately on initial so the list doesn't flash old data
       if (mode === 'initial') {
         setEvents([]);
+        setLastUpdated(null);
       }
 
-      if (!API_BASE_URL) {
+      if (!isApiConfigured()) {
         setError('Set EXPO_PUBLIC_API_URL in your .env file to load events.');
         setIsPaginating(false);
         setIsRefreshing(false);
@@ -58,8 +111,8 @@ export const useEvents = (
 
       try {
         setError(null);
-        const coordsToUse = userCoords ?? DEFAULT_COORDS;
-        const cacheKey = getCacheKey(coordsToUse, selectedTagIds, searchRadius);
+        const coordsToUse = userCoords ?? defaultCoords;
+        const cacheKey = getCacheKey(coordsToUse, selectedTagIds, searchRadius, { unit, tagMatch: tagMatchMode, dateFilter });
 
         if (mode !== 'paginate' && cacheRef.current) {
           const cached = cacheRef.current;
@@ -68,6 +121,7 @@ export const useEvents = (
             Date.now() - cached.timestamp < INFINITE_SCROLL_CONFIG.cacheTimeout;
 
           if (isCacheValid) {
+            tagResultsRef.current = cached.tagResults ? { key: cacheKey, ...cached.tagResults } : null;
             setEvents(cached.data);
             setPage(cached.currentPage);
             setHasMore(cached.hasMore);
@@ -78,6 +132,21 @@ export const useEvents = (
           }
         }
 
+        // Cold start: show the last persisted results as soon as disk answers, while the request below revalidates
+        if (mode === 'initial') {
+          readPersistedCache<EventsCache>('events', cacheKey, PERSISTED_CACHE_CONFIG.eventsTtlMs).then((persisted) => {
+            if (!persisted || requestSeqRef.current !== requestId || requestAbortRef.current !== controller) return;
+            const { tagResults } = persisted.value;
+            tagResultsRef.current = tagResults ? { key: cacheKey, ...tagResults } : null;
+            setEvents(persisted.value.data);
+            setPage(persisted.value.currentPage);
+            setHasMore(persisted.value.hasMore);
+            setLastUpdated(persisted.savedAt);
+            setIsRevalidating(true);
+            setIsInitialLoading(false);
+          });
+        }
+
         const queryParams: QueryParams = {
           upcoming: 'true',
           limit: PAGE_SIZE,
@@ -85,34 +154,73 @@ export const useEvents = (
           lat: coordsToUse.lat,
           lon: coordsToUse.lon,
           radius: searchRadius,
-          unit: DISTANCE_UNIT,
+          unit,
+          ...(dateFilter ? getEventDateQuery(dateFilter) : {}),
         };
 
-        if (selectedTagIds.length > 0) {
-          queryParams.event_tag_id = selectedTagIds[0];
-        }
+        let incoming: Event[];
+        let hasMoreNext: boolean;
+        let resolvedPage: number;
+        let tagResults: TagResults | undefined;
 
-        const query = buildQueryString(queryParams);
-        const response = await fetch(`${normalizedBaseUrl}/events/instances?${query}`, {
-          signal: controller.signal,
-        });
+        if (selectedTagIds.length > 1 && !EVENT_TAG_QUERY_CONFIG.supportsMultipleTags) {
+          const previous = mode === 'paginate' && tagResultsRef.current?.key === cacheKey ? tagResultsRef.current : null;
+          let results: Event[][] = previous?.results ?? selectedTagIds.map(() => []);
+          let tagHasMore = previous?.hasMore ?? selectedTagIds.map(() => true);
+          const shownCount = combineTagResults(results, tagMatchMode).length;
+          let nextPage = pageToLoad;
+          let pagesLoaded = 0;
+          // Fetch the next page of each tag that has one and combine everything loaded so far.
+          // "All tags" only shows events every tag has returned, so it keeps going until something new matches.
+          do {
+            const requestPage = nextPage;
+            const tagPages = await Promise.all(
+              selectedTagIds.map((tagId, index) =>
+                tagHasMore[index]
+                  ? requestEventsPage({ ...queryParams, page: requestPage, event_tag_id: tagId }, controller.signal)
+                  : null
+              )
+            );
+            if (requestSeqRef.current !== requestId) return;
 
-        if (!response.ok) {
-          throw new Error(`Request failed with status ${response.status}`);
-        }
+            results = results.map((loaded, index) => {
+              const tagPage = tagPages[index];
+              return tagPage ? mergeEvents(loaded, tagPage.events) : loaded;
+            });
+            tagHasMore = tagHasMore.map((more, index) => tagPages[index]?.hasMore ?? more);
+            incoming = combineTagResults(results, tagMatchMode);
+            resolvedPage = requestPage;
+            nextPage += 1;
+            pagesLoaded += 1;
+          } while (
+            tagMatchMode === 'all' &&
+            incoming.length <= shownCount &&
+            tagHasMore.some(Boolean) &&
+            pagesLoaded < EVENT_TAG_QUERY_CONFIG.maxPagesPerLoad
+          );
 
-        const payload: PayloadWithPagination = await response.json();
-        const incoming = extractEventItems(payload).map(mapToEvent);
-        const pageMeta = payload.meta?.pagination;
-        const hasMoreNext = shouldContinuePagination(payload, incoming.length, PAGE_SIZE);
-        const resolvedPage =
-          typeof pageMeta?.current_page === 'number' ? pageMeta.current_page : pageToLoad;
+          tagResults = { results, hasMore: tagHasMore };
+          tagResultsRef.current = { key: cacheKey, ...tagResults };
+          hasMoreNext = tagHasMore.some(Boolean);
+        } else {
+          if (selectedTagIds.length > 1) {
+            queryParams[EVENT_TAG_QUERY_CONFIG.tagsParam] = selectedTagIds.join(',');
+            queryParams[EVENT_TAG_QUERY_CONFIG.matchParam] = tagMatchMode;
+          } else if (selectedTagIds.length === 1) {
+            queryParams.event_tag_id = selectedTagIds[0];
+          }
 
-        if (requestSeqRef.current !== requestId) return;
+          const result = await requestEventsPage(queryParams, controller.signal);
+          if (requestSeqRef.current !== requestId) return;
+          incoming = result.events;
+          hasMoreNext = result.hasMore;
+          resolvedPage = result.page;
+        }
 
         setEvents((prev) => (mode === 'paginate' ? mergeEvents(prev, incoming) : incoming));
         setPage(resolvedPage);
         setHasMore(hasMoreNext);
+        setLastUpdated(null);
 
         cacheRef.current = {
           key: cacheKey,
@@ -122,9 +230,16 @@ export const useEvents = (
             : incoming,
           currentPage: resolvedPage,
           hasMore: hasMoreNext,
+          tagResults,
         };
+        const snapshot = trimPagedSnapshot(cacheRef.current, PAGE_SIZE);
+        writePersistedCache<EventsCache>('events', cacheKey, {
+          ...cacheRef.current,
+          ...snapshot,
+          tagResults: tagResults && trimTagResults(tagResults, snapshot.currentPage),
+        });
       } catch (err) {
-        if ((err as Error).name === 'AbortError') return;
+        if (isAbortError(err)) return;
         if (requestSeqRef.current !== requestId) return;
         setError(err instanceof Error ? err.message : 'Unable to load events right now.');
       } finally {
@@ -133,12 +248,13 @@ export const useEvents = (
         setIsPaginating(false);
         setIsRefreshing(false);
         setIsInitialLoading(false);
+        setIsRevalidating(false);
       }
     },
-    [searchRadius, selectedTagIds, userCoords]
+    [dateFilter, defaultCoords, searchRadius, selectedTagIds, tagMatchMode, unit, userCoords]
   );
 
-  // Re-fetch whenever fetchEvents identity changes (i.e. coords, tags, or radius changed)
+  // Re-fetch whenever fetchEvents identity changes (i.e. coords, tags, match mode, dates, radius or unit changed)
   useEffect(() => {
     setPage(1);
     setHasMore(true);
@@ -159,10 +275,11 @@ export const useEvents = (
     fetchEvents(1, 'refresh');
   }, [fetchEvents, isInitialLoading, isRefreshing]);
 
+  // Hold pagination until restored events have been revalidated, or page 1 would replace the extra pages
   const handleEndReached = useCallback(() => {
-    if (isInitialLoading || isPaginating || !hasMore) return;
+    if (isInitialLoading || isRevalidating || isPaginating || !hasMore) return;
     fetchEvents(page + 1, 'paginate');
-  }, [fetchEvents, hasMore, isInitialLoading, isPaginating, page]);
+  }, [fetchEvents, hasMore, isInitialLoading, isPaginating, isRevalidating, page]);
 
   const handleRetry = useCallback(() => {
     fetchEvents(1, events.length ? 'refresh' : 'initial');
@@ -175,6 +292,8 @@ export const useEvents = (
     isPaginating,
     hasMore,
     error,
+    lastUpdated,
+    isRevalidating,
     handleRefresh,
     handleEndReached,
     handleRetry,
@@ -0,0 +1,227 @@
+// hooks/useFavorites.tsx
+// Favorite bars synced with the signed-in account, changed optimistically and kept on the device
+
+import React, { PropsWithChildren, createContext, useCallback, useContext, useEffect, useMemo, useRef, useState } from 'react';
+import type { searchBar } from '../types';
+import { ApiError, apiRequest, isApiConfigured } from '../utils/apiClient';
+import { FAVORITES_ENDPOINT } from '../utils/constants';
+import {
+  EMPTY_FAVORITES,
+  extractFavoriteBars,
+  loadStoredFavorites,
+  mergeFavorites,
+  saveStoredFavorites,
+  toFavoriteBar,
+  type StoredFavorites,
+} from '../utils/favorites';
+import { useAuth } from './use-auth';
+import { useRetryOnReconnect } from './useConnectivity';
+
+type FavoritesContextValue = {
+  // Newest first
+  favorites: searchBar[];
+  isSyncing: boolean;
+  // Latest failed sync or change; cleared by the next success
+  error: string | null;
+  isFavorite: (barId: string) => boolean;
+  // Resolves false when the account could not be updated and the change was rolled back
+  toggleFavorite: (bar: searchBar) => Promise<boolean>;
+  refresh: () => Promise<void>;
+};
+
+// Outside a provider (tests, isolated screens) nothing is a favorite and changes are dropped
+const FavoritesContext = createContext<FavoritesContextValue>({
+  favorites: [],
+  isSyncing: false,
+  error: null,
+  isFavorite: () => false,
+  toggleFavorite: async () => false,
+  refresh: async () => {},
+});
+
+const favoriteUrl = (barId: string) => `${FAVORITES_ENDPOINT}/${encodeURIComponent(barId)}`;
+
+export function FavoritesProvider({ children }: PropsWithChildren) {
+  const { status, token } = useAuth();
+  const [stored, setStored] = useState<StoredFavorites>(EMPTY_FAVORITES);
+  const [isLoaded, setIsLoaded] = useState(false);
+  const [isSyncing, setIsSyncing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Latest values, readable from async work
+  const storedRef = useRef<StoredFavorites>(EMPTY_FAVORITES);
+  const tokenRef = useRef(token);
+  const previousStatusRef = useRef(status);
+  // Bars with a request in flight; taps on them are ignored until it settles
+  const busyIdsRef = useRef(new Set<string>());
+  // Bars toggled since the running sync started; the device's copy decides them in the merge
+  const changedDuringSyncRef = useRef(new Set<string>());
+  const syncInFlightRef = useRef<Promise<void> | null>(null);
+
+  useEffect(() => {
+    tokenRef.current = status === 'authenticated' ? token : null;
+  }, [status, token]);
+
+  const commit = useCallback((next: StoredFavorites) => {
+    storedRef.current = next;
+    setStored(next);
+  }, []);
+
+  useEffect(() => {
+    let isMounted = true;
+    loadStoredFavorites().then((loaded) => {
+      if (!isMounted) return;
+      // A change made before storage was read wins
+      if (storedRef.current === EMPTY_FAVORITES) {
+        commit(loaded);
+      }
+      setIsLoaded(true);
+    });
+    return () => {
+      isMounted = false;
+    };
+  }, [commit]);
+
+  useEffect(() => {
+    if (!isLoaded) return;
+    saveStoredFavorites(stored).catch(() => {
+      // Best effort; the account keeps the synced list
+    });
+  }, [stored, isLoaded]);
+
+  // Send favorites added while signed out, then adopt the account's list
+  const runSync = useCallback(async () => {
+    const activeToken = tokenRef.current;
+    if (!activeToken || !isApiConfigured()) return;
+    setIsSyncing(true);
+    changedDuringSyncRef.current = new Set(busyIdsRef.current);
+    try {
+      const failedIds: string[] = [];
+      await Promise.all(
+        storedRef.current.pendingIds.map(async (barId) => {
+          try {
+            await apiRequest(FAVORITES_ENDPOINT, { method: 'POST', body: { bar_id: barId }, token: activeToken });
+          } catch {
+            failedIds.push(barId);
+          }
+        })
+      );
+      const payload = await apiRequest<unknown>(FAVORITES_ENDPOINT, { token: activeToken });
+      // Just-sent favorites stay listed even if the account list hasn't caught up yet
+      const local = storedRef.current;
+      commit({
+        bars: mergeFavorites(extractFavoriteBars(payload), local, changedDuringSyncRef.current),
+        pendingIds: local.pendingIds.filter((barId) => failedIds.includes(barId)),
+      });
+      setError(null);
+    } catch {
+      setError('Unable to load your favorites right now.');
+    } finally {
+      setIsSyncing(false);
+    }
+  }, [commit]);
+
+  // One sync at a time, so pending favorites are never sent twice
+  const sync = useCallback(() => {
+    if (!syncInFlightRef.current) {
+      syncInFlightRef.current = runSync().finally(() => {
+        syncInFlightRef.current = null;
+      });
+    }
+    return syncInFlightRef.current;
+  }, [runSync]);
+
+  useEffect(() => {
+    const previousStatus = previousStatusRef.current;
+    previousStatusRef.current = status;
+    if (status === 'unauthenticated' && previousStatus === 'authenticated') {
+      // The account's favorites stay on the server; only ones it never received stay here
+      const local = storedRef.current;
+      commit({ bars: local.bars.filter((bar) => local.pendingIds.includes(bar.id)), pendingIds: local.pendingIds });
+      setError(null);
+    }
+  }, [status, commit]);
+
+  // Signing in (or launching signed in) merges this device's favorites into the account
+  useEffect(() => {
+    if (status === 'authenticated' && isLoaded) {
+      sync();
+    }
+  }, [status, isLoaded, sync]);
+
+  useRetryOnReconnect(
+    useCallback(() => {
+      if (error) {
+        sync();
+      }
+    }, [error, sync])
+  );
+
+  const toggleFavorite = useCallback(
+    async (bar: searchBar): Promise<boolean> => {
+      if (busyIdsRef.current.has(bar.id)) return false;
+      const before = storedRef.current;
+      const index = before.bars.findIndex((entry) => entry.id === bar.id);
+      const wasFavorite = index !== -1;
+      const activeToken = isApiConfigured() ? tokenRef.current : null;
+
+      commit(
+        wasFavorite
+          ? {
+              bars: before.bars.filter((entry) => entry.id !== bar.id),
+              pendingIds: before.pendingIds.filter((barId) => barId !== bar.id),
+            }
+          : {
+              bars: [toFavoriteBar(bar), ...before.bars],
+              pendingIds: activeToken ? before.pendingIds : [...before.pendingIds, bar.id],
+            }
+      );
+
+      // A running sync keeps this local change over the account list it reads back
+      changedDuringSyncRef.current.add(bar.id);
+      // Signed out, or removing a favorite the account never received: nothing to send
+      if (!activeToken || (wasFavorite && before.pendingIds.includes(bar.id))) return true;
+
+      busyIdsRef.current.add(bar.id);
+      try {
+        if (wasFavorite) {
+          await apiRequest(favoriteUrl(bar.id), { method: 'DELETE', token: activeToken });
+        } else {
+          await apiRequest(FAVORITES_ENDPOINT, { method: 'POST', body: { bar_id: bar.id }, token: activeToken });
+        }
+        setError(null);
+        return true;
+      } catch (err) {
+        // Already gone from the account, e.g. removed on another device
+        if (wasFavorite && err instanceof ApiError && err.status === 404) return true;
+        // Roll back this bar only; other changes made meanwhile stay
+        const current = storedRef.current;
+        if (wasFavorite) {
+          const bars = [...current.bars];
+          bars.splice(Math.min(index, bars.length), 0, before.bars[index]);
+          commit({ ...current, bars });
+        } else {
+          commit({ ...current, bars: current.bars.filter((entry) => entry.id !== bar.id) });
+        }
+        setError(wasFavorite ? 'Unable to remove this favorite right now.' : 'Unable to save this favorite right now.');
+        return false;
+      } finally {
+        busyIdsRef.current.delete(bar.id);
+      }
+    },
+    [commit]
+  );
+
+  const favoriteIds = useMemo(() => new Set(stored.bars.map((bar) => bar.id)), [stored.bars]);
+  const isFavorite = useCallback((barId: string) => favoriteIds.has(barId), [favoriteIds]);
+
+  const value = useMemo(
+    () => ({ favorites: stored.bars, isSyncing, error, isFavorite, toggleFavorite, refresh: sync }),
+    [stored.bars, isSyncing, error, isFavorite, toggleFavorite, sync]
+  );
+
+  return <FavoritesContext.Provider value={value}>{children}</FavoritesContext.Provider>;
+}
+
+export function useFavorites() {
+  return useContext(FavoritesContext);
+}
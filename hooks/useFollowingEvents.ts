@@ -0,0 +1,117 @@
+// hooks/useFollowingEvents.ts
+// Upcoming event instances across the user's favorite bars, wherever they are
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { Event } from '../types/index';
+import { apiRequest, isAbortError, isApiConfigured } from '../utils/apiClient';
+import { EVENT_INSTANCES_ENDPOINT, FOLLOWING_FEED_CONFIG } from '../utils/constants';
+import { extractEventItems, mapToEvent, mergeEvents } from '../utils/Eventmappers';
+import { settleWithLimit } from '../utils/helpers';
+
+type FetchMode = 'initial' | 'refresh';
+
+export const useFollowingEvents = (barIds: string[], enabled: boolean) => {
+  const [events, setEvents] = useState<Event[]>([]);
+  const [isInitialLoading, setIsInitialLoading] = useState(false);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const requestAbortRef = useRef<AbortController | null>(null);
+  // Joined so a new array with the same bars doesn't refetch
+  const barKey = barIds.slice(0, FOLLOWING_FEED_CONFIG.maxBars).join('|');
+  // Favorites past the cap, so the feed can say it doesn't cover them
+  const omittedBarCount = Math.max(0, barIds.length - FOLLOWING_FEED_CONFIG.maxBars);
+
+  const fetchEvents = useCallback(
+    async (mode: FetchMode) => {
+      requestAbortRef.current?.abort();
+      const controller = new AbortController();
+      requestAbortRef.current = controller;
+
+      const ids = barKey ? barKey.split('|') : [];
+      // An aborted load skips its own cleanup, so early returns reset the flags themselves
+      if (ids.length === 0) {
+        setEvents([]);
+        setError(null);
+        setIsInitialLoading(false);
+        setIsRefreshing(false);
+        return;
+      }
+
+      if (!isApiConfigured()) {
+        setError('Set EXPO_PUBLIC_API_URL in your .env file to load events.');
+        setIsInitialLoading(false);
+        setIsRefreshing(false);
+        return;
+      }
+
+      setIsInitialLoading(mode === 'initial');
+      setIsRefreshing(mode === 'refresh');
+
+      try {
+        setError(null);
+        // The first page of each bar's upcoming instances; one bar failing doesn't hide the rest
+        const results = await settleWithLimit(
+          ids.map((barId) => () =>
+            apiRequest<unknown>(EVENT_INSTANCES_ENDPOINT, {
+              query: { bar_id: barId, upcoming: true, limit: FOLLOWING_FEED_CONFIG.eventsPerBar, page: 1 },
+              signal: controller.signal,
+            })
+          ),
+          FOLLOWING_FEED_CONFIG.maxConcurrentRequests
+        );
+        if (controller.signal.aborted) return;
+
+        const loaded = results.filter((result): result is PromiseFulfilledResult<unknown> => result.status === 'fulfilled');
+        if (loaded.length === 0) {
+          throw (results[0] as PromiseRejectedResult).reason;
+        }
+
+        setEvents(loaded.reduce<Event[]>(
+          (all, result) => mergeEvents(all, extractEventItems(result.value).map(mapToEvent)),
+          []
+        ));
+        if (loaded.length < results.length) {
+          setError("Some of your bars' events couldn't be loaded.");
+        }
+      } catch (err) {
+        if (isAbortError(err)) return;
+        setError(err instanceof Error ? err.message : 'Unable to load events right now.');
+      } finally {
+        if (!controller.signal.aborted) {
+          setIsInitialLoading(false);
+          setIsRefreshing(false);
+        }
+      }
+    },
+    [barKey]
+  );
+
+  // Loads when the feed is shown and again whenever the followed bars change
+  useEffect(() => {
+    if (!enabled) return;
+    fetchEvents('initial');
+    return () => {
+      requestAbortRef.current?.abort();
+    };
+  }, [enabled, fetchEvents]);
+
+  const handleRefresh = useCallback(() => {
+    if (isInitialLoading || isRefreshing) return;
+    fetchEvents('refresh');
+  }, [fetchEvents, isInitialLoading, isRefreshing]);
+
+  const handleRetry = useCallback(() => {
+    fetchEvents(events.length ? 'refresh' : 'initial');
+  }, [events.length, fetchEvents]);
+
+  return {
+    events,
+    isInitialLoading,
+    isRefreshing,
+    error,
+    omittedBarCount,
+    handleRefresh,
+    handleRetry,
+  };
+};
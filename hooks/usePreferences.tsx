@@ -0,0 +1,78 @@
+// hooks/usePreferences.tsx
+// App-wide user preferences, loaded from storage on launch and saved on every change
+
+import React, { PropsWithChildren, createContext, useCallback, useContext, useEffect, useMemo, useRef, useState } from 'react';
+import type { Coordinates } from '../types';
+import {
+  DEFAULT_PREFERENCES,
+  applyPreference,
+  getDefaultLocationCoords,
+  loadPreferences,
+  savePreferences,
+  type Preferences,
+} from '../utils/preferences';
+
+type PreferencesContextValue = Preferences & {
+  // Resolved from defaultLocationId; where lists search when the device location is unavailable
+  defaultCoords: Coordinates;
+  // False until the stored preferences have been read
+  isLoaded: boolean;
+  setPreference: <K extends keyof Preferences>(key: K, value: Preferences[K]) => void;
+};
+
+// Outside a provider (tests, isolated screens) the defaults apply and changes are dropped
+const PreferencesContext = createContext<PreferencesContextValue>({
+  ...DEFAULT_PREFERENCES,
+  defaultCoords: getDefaultLocationCoords(DEFAULT_PREFERENCES.defaultLocationId),
+  isLoaded: true,
+  setPreference: () => {},
+});
+
+export function PreferencesProvider({ children }: PropsWithChildren) {
+  const [preferences, setPreferences] = useState<Preferences>(DEFAULT_PREFERENCES);
+  const [isLoaded, setIsLoaded] = useState(false);
+  // A change made before storage is read wins over the stored value
+  const hasLocalChangeRef = useRef(false);
+
+  useEffect(() => {
+    let isMounted = true;
+    loadPreferences().then((stored) => {
+      if (!isMounted) return;
+      if (!hasLocalChangeRef.current) {
+        setPreferences(stored);
+      }
+      setIsLoaded(true);
+    });
+    return () => {
+      isMounted = false;
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!isLoaded) return;
+    savePreferences(preferences).catch(() => {
+      // Best effort; the choice still applies for this session
+    });
+  }, [preferences, isLoaded]);
+
+  const setPreference = useCallback(<K extends keyof Preferences>(key: K, value: Preferences[K]) => {
+    hasLocalChangeRef.current = true;
+    setPreferences((previous) => applyPreference(previous, key, value));
+  }, []);
+
+  const value = useMemo(
+    () => ({
+      ...preferences,
+      defaultCoords: getDefaultLocationCoords(preferences.defaultLocationId),
+      isLoaded,
+      setPreference,
+    }),
+    [preferences, isLoaded, setPreference]
+  );
+
+  return <PreferencesContext.Provider value={value}>{children}</PreferencesContext.Provider>;
+}
+
+export function usePreferences() {
+  return useContext(PreferencesContext);
+}
@@ -0,0 +1,275 @@
+// hooks/useReminders.tsx
+// Local notifications ahead of events, kept on the device and checked against the latest event data
+
+import * as Notifications from 'expo-notifications';
+import React, { PropsWithChildren, createContext, useCallback, useContext, useEffect, useMemo, useRef, useState } from 'react';
+import { Platform } from 'react-native';
+import type { Event, EventReminder } from '../types';
+import { ApiError, apiRequest, isApiConfigured } from '../utils/apiClient';
+import { EVENT_INSTANCES_ENDPOINT, REMINDER_CHANNEL_ID } from '../utils/constants';
+import { mapToEvent } from '../utils/Eventmappers';
+import {
+  getEventStart,
+  getReminderChange,
+  getReminderMessage,
+  getReminderTime,
+  isReminderInFuture,
+  loadStoredReminders,
+  pruneStartedReminders,
+  saveStoredReminders,
+  sortReminders,
+  type StoredReminders,
+} from '../utils/reminders';
+
+type RemindersContextValue = {
+  // Soonest to fire first
+  reminders: EventReminder[];
+  isRefreshing: boolean;
+  // Latest failed change; cleared by the next success
+  error: string | null;
+  getReminder: (instanceId: string) => EventReminder | undefined;
+  // Resolves false when the reminder could not be scheduled; `error` says why
+  setReminder: (event: Event, offsetMinutes: number) => Promise<boolean>;
+  cancelReminder: (instanceId: string) => Promise<void>;
+  // Cancel or reschedule after the event was cancelled or moved
+  syncReminder: (event: Event) => Promise<void>;
+  refresh: () => Promise<void>;
+};
+
+// Outside a provider (tests, isolated screens) there are no reminders and changes are dropped
+const RemindersContext = createContext<RemindersContextValue>({
+  reminders: [],
+  isRefreshing: false,
+  error: null,
+  getReminder: () => undefined,
+  setReminder: async () => false,
+  cancelReminder: async () => {},
+  syncReminder: async () => {},
+  refresh: async () => {},
+});
+
+const ensureNotificationPermission = async (): Promise<boolean> => {
+  if (Platform.OS === 'android') {
+    await Notifications.setNotificationChannelAsync(REMINDER_CHANNEL_ID, {
+      name: 'Event reminders',
+      importance: Notifications.AndroidImportance.HIGH,
+    });
+  }
+  const current = await Notifications.getPermissionsAsync();
+  if (current.granted) return true;
+  if (!current.canAskAgain) return false;
+  return (await Notifications.requestPermissionsAsync()).granted;
+};
+
+const scheduleNotification = (reminder: Omit<EventReminder, 'notification_id'>): Promise<string> =>
+  Notifications.scheduleNotificationAsync({
+    content: {
+      title: reminder.title,
+      body: getReminderMessage(reminder),
+      data: { instanceId: reminder.instance_id },
+    },
+    trigger: {
+      type: Notifications.SchedulableTriggerInputTypes.DATE,
+      date: getReminderTime(reminder.starts_at, reminder.offset_minutes),
+      channelId: REMINDER_CHANNEL_ID,
+    },
+  });
+
+// A notification that already fired or was cleared is fine to lose
+const cancelNotification = async (notificationId: string) => {
+  try {
+    await Notifications.cancelScheduledNotificationAsync(notificationId);
+  } catch {
+    // Nothing left to cancel
+  }
+};
+
+export function RemindersProvider({ children }: PropsWithChildren) {
+  const [stored, setStored] = useState<StoredReminders>({});
+  const [isLoaded, setIsLoaded] = useState(false);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Latest value, readable from async work
+  const storedRef = useRef<StoredReminders>({});
+  // Last queued change per instance_id; see enqueue
+  const syncsRef = useRef(new Map<string, Promise<void>>());
+
+  const commit = useCallback((next: StoredReminders) => {
+    storedRef.current = next;
+    setStored(next);
+  }, []);
+
+  const removeEntry = useCallback(
+    (instanceId: string) => {
+      const { [instanceId]: _removed, ...rest } = storedRef.current;
+      commit(rest);
+    },
+    [commit]
+  );
+
+  useEffect(() => {
+    if (!isLoaded) return;
+    saveStoredReminders(stored).catch(() => {
+      // Best effort; scheduled notifications still fire
+    });
+  }, [stored, isLoaded]);
+
+  // Runs after the previous change to the same instance_id, so two never replace the same notification
+  const enqueue = useCallback(<T,>(instanceId: string, task: () => Promise<T>): Promise<T> => {
+    const previous = syncsRef.current.get(instanceId) ?? Promise.resolve();
+    const result = previous.then(task);
+    const settled = result.then(
+      () => {},
+      () => {}
+    );
+    syncsRef.current.set(instanceId, settled);
+    settled.then(() => {
+      if (syncsRef.current.get(instanceId) === settled) {
+        syncsRef.current.delete(instanceId);
+      }
+    });
+    return result;
+  }, []);
+
+  // Unqueued; only for work already running in the instance's queue
+  const removeReminder = useCallback(
+    async (instanceId: string) => {
+      const reminder = storedRef.current[instanceId];
+      if (!reminder) return;
+      removeEntry(instanceId);
+      await cancelNotification(reminder.notification_id);
+    },
+    [removeEntry]
+  );
+
+  const cancelReminder = useCallback(
+    (instanceId: string) => enqueue(instanceId, () => removeReminder(instanceId)),
+    [enqueue, removeReminder]
+  );
+
+  const setReminder = useCallback(
+    (event: Event, offsetMinutes: number): Promise<boolean> =>
+      enqueue(event.instance_id, async () => {
+        const start = getEventStart(event);
+        if (event.is_cancelled || !start) {
+          setError('This event has no upcoming start time to remind you about.');
+          return false;
+        }
+        if (!isReminderInFuture(start, offsetMinutes)) {
+          setError('That reminder time has already passed.');
+          return false;
+        }
+        try {
+          if (!(await ensureNotificationPermission())) {
+            setError('Turn on notifications for To The Pub in Settings to get event reminders.');
+            return false;
+          }
+          const details = {
+            instance_id: event.instance_id,
+            title: event.title,
+            bar_name: event.bar_name,
+            timezone: event.timezone,
+            starts_at: start.toISOString(),
+            offset_minutes: offsetMinutes,
+          };
+          const notificationId = await scheduleNotification(details);
+          // Replacing a reminder: the old notification goes once the new one is in place
+          const previous = storedRef.current[event.instance_id];
+          commit({ ...storedRef.current, [event.instance_id]: { ...details, notification_id: notificationId } });
+          if (previous) {
+            await cancelNotification(previous.notification_id);
+          }
+          setError(null);
+          return true;
+        } catch {
+          setError('Unable to set this reminder right now.');
+          return false;
+        }
+      }),
+    [commit, enqueue]
+  );
+
+  const applyEventChange = useCallback(
+    async (event: Event) => {
+      const reminder = storedRef.current[event.instance_id];
+      if (!reminder) return;
+      const change = getReminderChange(reminder, event);
+      if (change === 'keep') return;
+      const start = getEventStart(event);
+      // Moved so close that the chosen offset has passed: nothing sensible left to fire
+      if (change === 'cancel' || !start || !isReminderInFuture(start, reminder.offset_minutes)) {
+        await removeReminder(event.instance_id);
+        return;
+      }
+      await cancelNotification(reminder.notification_id);
+      try {
+        const details = { ...reminder, title: event.title, bar_name: event.bar_name, starts_at: start.toISOString() };
+        const notificationId = await scheduleNotification(details);
+        commit({ ...storedRef.current, [event.instance_id]: { ...details, notification_id: notificationId } });
+      } catch {
+        removeEntry(event.instance_id);
+        setError(`Unable to move your reminder for ${event.title}.`);
+      }
+    },
+    [commit, removeEntry, removeReminder]
+  );
+
+  // Queued per event, so a sync reads the reminder the previous one left behind
+  const syncReminder = useCallback(
+    (event: Event) => enqueue(event.instance_id, () => applyEventChange(event)).catch(() => {}),
+    [applyEventChange, enqueue]
+  );
+
+  // Re-read every reminded event; a 404 means the instance no longer exists
+  const refresh = useCallback(async () => {
+    const reminders = Object.values(storedRef.current);
+    if (reminders.length === 0 || !isApiConfigured()) return;
+    setIsRefreshing(true);
+    try {
+      await Promise.all(
+        reminders.map(async (reminder) => {
+          try {
+            const payload = await apiRequest<any>(`${EVENT_INSTANCES_ENDPOINT}/${encodeURIComponent(reminder.instance_id)}`);
+            await syncReminder(mapToEvent(payload?.data ?? payload));
+          } catch (err) {
+            if (err instanceof ApiError && err.status === 404) {
+              await cancelReminder(reminder.instance_id);
+            }
+            // Otherwise keep the reminder as scheduled and check again next time
+          }
+        })
+      );
+    } finally {
+      setIsRefreshing(false);
+    }
+  }, [cancelReminder, syncReminder]);
+
+  // Load once, forgetting events that already started, then catch up on event changes
+  useEffect(() => {
+    let isMounted = true;
+    loadStoredReminders().then((loaded) => {
+      if (!isMounted) return;
+      // A reminder set before storage was read wins
+      commit({ ...pruneStartedReminders(loaded), ...storedRef.current });
+      setIsLoaded(true);
+      refresh();
+    });
+    return () => {
+      isMounted = false;
+    };
+  }, [commit, refresh]);
+
+  const reminders = useMemo(() => sortReminders(stored), [stored]);
+  const getReminder = useCallback((instanceId: string) => stored[instanceId], [stored]);
+
+  const value = useMemo(
+    () => ({ reminders, isRefreshing, error, getReminder, setReminder, cancelReminder, syncReminder, refresh }),
+    [reminders, isRefreshing, error, getReminder, setReminder, cancelReminder, syncReminder, refresh]
+  );
+
+  return <RemindersContext.Provider value={value}>{children}</RemindersContext.Provider>;
+}
+
+export function useReminders() {
+  return useContext(RemindersContext);
+}
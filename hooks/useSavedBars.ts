@@ -1,13 +1,17 @@
 // hooks/useSavedBars.ts
-// Manages persisting recently visited bars to AsyncStorage
+// Manages persisting recently visited bars to AsyncStorage, capped at the user's preferred count
 
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import { useCallback, useEffect, useState } from 'react';
+import { useCallback, useEffect, useRef, useState } from 'react';
 import type { searchBar } from '../types/index';
-import { MAX_SAVED_BARS, SAVED_BARS_KEY } from '../utils/constants';
+import { SAVED_BARS_KEY } from '../utils/constants';
+import { usePreferences } from './usePreferences';
 
 export const useSavedBars = () => {
 	const [savedBars, setSavedBars] = useState<searchBar[]>([]);
+	const { maxSavedBars } = usePreferences();
+	const maxSavedBarsRef = useRef(maxSavedBars);
+	maxSavedBarsRef.current = maxSavedBars;
 
 	useEffect(() => {
 		let mounted = true;
@@ -17,7 +21,7 @@ export const useSavedBars = () => {
 				if (!mounted) return;
 				if (stored) {
 					const parsed = JSON.parse(stored);
-					if (Array.isArray(parsed)) setSavedBars(parsed.slice(0, MAX_SAVED_BARS));
+					if (Array.isArray(parsed)) setSavedBars(parsed.slice(0, maxSavedBarsRef.current));
 				}
 			} catch {
 				// Ignore corrupted storage
@@ -30,7 +34,7 @@ export const useSavedBars = () => {
 
 	const persist = useCallback(async (bars: searchBar[]) => {
 		try {
-			await AsyncStorage.setItem(SAVED_BARS_KEY, JSON.stringify(bars.slice(0, MAX_SAVED_BARS)));
+			await AsyncStorage.setItem(SAVED_BARS_KEY, JSON.stringify(bars));
 		} catch {
 			// Best effort; ignore persistence errors
 		}
@@ -39,14 +43,24 @@ export const useSavedBars = () => {
 	const saveBar = useCallback(
 		(bar: searchBar) => {
 			setSavedBars((previous) => {
-				const next = [bar, ...previous.filter((entry) => entry.id !== bar.id)].slice(0, MAX_SAVED_BARS);
+				const next = [bar, ...previous.filter((entry) => entry.id !== bar.id)].slice(0, maxSavedBars);
 				persist(next);
 				return next;
 			});
 		},
-		[persist]
+		[maxSavedBars, persist]
 	);
 
+	// Lowering the limit drops the oldest entries straight away
+	useEffect(() => {
+		setSavedBars((previous) => {
+			if (previous.length <= maxSavedBars) return previous;
+			const next = previous.slice(0, maxSavedBars);
+			persist(next);
+			return next;
+		});
+	}, [maxSavedBars, persist]);
+
 	const removeSavedBar = useCallback(
 		(barId: string) => {
 			setSavedBars((previous) => {
@@ -1,75 +1,88 @@
 // hooks/useSearch.ts
-// Manages search query state, debounced bar search, and results
+// Manages search query state, debounced bar search by name, tag and address, and results with their match reasons
 
-import { useCallback, useEffect, useMemo, useState } from 'react';
-import type { searchBar } from '../types/index';
-import { NORMALIZED_BASE_URL, SEARCH_DEBOUNCE_MS } from '../utils/constants';
+import { useCallback, useMemo, useState } from 'react';
+import type { BarsCache, Coordinates, DistanceUnit, searchBar, TagFilterOption } from '../types/index';
+import { apiRequest } from '../utils/apiClient';
+import {
+	extractSearchBars,
+	extractTaggedSearchBars,
+	findAddressMatches,
+	findMatchingTags,
+	mergeSearchBars,
+} from '../utils/barSearch';
+import {
+	BAR_SEARCH_CONFIG,
+	BAR_SEARCH_ENDPOINT,
+	BAR_SORT_QUERY_PARAMS,
+	BARS_ENDPOINT,
+	PERSISTED_CACHE_CONFIG,
+} from '../utils/constants';
+import { readAllPersistedCache } from '../utils/persistentCache';
+import { MIN_SEARCH_LENGTH, useDebouncedSearch } from './useDebouncedSearch';
+import { usePreferences } from './usePreferences';
 
-export const useSearch = () => {
-	const [query, setQuery] = useState('');
-	const [results, setResults] = useState<searchBar[]>([]);
-	const [isLoading, setIsLoading] = useState(false);
-	const [error, setError] = useState<string | null>(null);
+const SEARCH_MESSAGES = {
+	unconfigured: 'Set EXPO_PUBLIC_API_URL to search for bars.',
+	failed: 'Unable to search right now.',
+};
+
+const NO_TAGS: TagFilterOption[] = [];
 
-	const trimmedQuery = query.trim();
-	const canSearch = useMemo(() => trimmedQuery.length >= 2, [trimmedQuery]);
+// Street, city and zip matches among the bar lists useBars saved on the device
+const searchSavedBarAddresses = async (searchTerm: string): Promise<searchBar[]> => {
+	const lists = await readAllPersistedCache<BarsCache>('bars', PERSISTED_CACHE_CONFIG.barsTtlMs);
+	const bars = lists.flatMap((list) => list.value.data);
+	return mergeSearchBars(findAddressMatches(bars, searchTerm)).slice(0, BAR_SEARCH_CONFIG.maxAddressMatches);
+};
 
-	const performSearch = useCallback(async (searchTerm: string, signal: AbortSignal, attempt = 0) => {
-		if (!NORMALIZED_BASE_URL) {
-			setError('Set EXPO_PUBLIC_API_URL to search for bars.');
-			return;
-		}
-		try {
-			setError(null);
-			setIsLoading(true);
-			const response = await fetch(
-				`${NORMALIZED_BASE_URL}/bars/search/name?q=${encodeURIComponent(searchTerm)}`,
-				{ signal }
-			);
-			if (!response.ok) throw new Error('Unable to search right now.');
-			const payload = await response.json();
-			const data = Array.isArray(payload?.data) ? payload.data : payload;
-			setResults(
-				Array.isArray(data)
-					? data
-						.filter((item) => item.id != null && String(item.id).trim() !== '')
-						.map((item) => ({
-							id: String(item.id),
-							name: item.name ?? 'Unnamed bar',
-							address_city: item.address_city ?? item.city ?? '',
-							address_state: item.address_state ?? item.state ?? '',
-						}))
-					: []
-			);
-		} catch (err) {
-			if (err instanceof Error && err.name === 'AbortError') return;
-			if (attempt < 1 && !signal.aborted) {
-				await new Promise((res) => setTimeout(res, 1000));
-				return performSearch(searchTerm, signal, attempt + 1);
-			}
-			setError(err instanceof Error ? err.message : 'Unexpected error occurred.');
-		} finally {
-			if (!signal.aborted) setIsLoading(false);
-		}
-	}, []);
+// Name matches, then bars under each /BarTags tag the query names, nearest first, then saved address matches.
+// A failed tag request only drops that tag's bars; a failed name search fails the search.
+const searchBars = async (
+	searchTerm: string,
+	signal: AbortSignal,
+	barTags: TagFilterOption[],
+	coords: Coordinates,
+	unit: DistanceUnit
+): Promise<searchBar[]> => {
+	const matchedTags = findMatchingTags(barTags, searchTerm).slice(0, BAR_SEARCH_CONFIG.maxTags);
+	const [namePayload, tagResults, addressResults] = await Promise.all([
+		apiRequest(BAR_SEARCH_ENDPOINT, { query: { q: searchTerm }, signal }),
+		Promise.all(
+			matchedTags.map((tag) =>
+				apiRequest(BARS_ENDPOINT, {
+					query: {
+						...BAR_SORT_QUERY_PARAMS.nearest,
+						include: 'tags',
+						tags: tag.id,
+						limit: BAR_SEARCH_CONFIG.barsPerTag,
+						unit,
+						lat: coords.lat,
+						lon: coords.lon,
+					},
+					signal,
+				})
+					.then((payload) => extractTaggedSearchBars(payload, tag, searchTerm))
+					.catch((): searchBar[] => [])
+			)
+		),
+		searchSavedBarAddresses(searchTerm),
+	]);
+	return mergeSearchBars(extractSearchBars(namePayload, searchTerm), ...tagResults, addressResults);
+};
 
-	useEffect(() => {
-		const term = trimmedQuery;
-		if (!term || term.length < 2) {
-			setResults([]);
-			setError(null);
-			setIsLoading(false);
-			return;
-		}
-		const controller = new AbortController();
-		const timer = setTimeout(() => {
-			performSearch(term, controller.signal);
-		}, SEARCH_DEBOUNCE_MS);
-		return () => {
-			clearTimeout(timer);
-			controller.abort();
-		};
-	}, [performSearch, trimmedQuery]);
+// `barTags` is the /BarTags list from useBarTags; until it loads, only names and saved addresses are searched.
+// Tag results are fetched around `userCoords`, or the preferred default city without a location.
+export const useSearch = (barTags: TagFilterOption[] = NO_TAGS, userCoords: Coordinates | null = null) => {
+	const [query, setQuery] = useState('');
+	const { defaultCoords, distanceUnit } = usePreferences();
+	const { lat, lon } = userCoords ?? defaultCoords;
+	const fetcher = useCallback(
+		(searchTerm: string, signal: AbortSignal) => searchBars(searchTerm, signal, barTags, { lat, lon }, distanceUnit),
+		[barTags, distanceUnit, lat, lon]
+	);
+	const { results, isLoading, error, effectiveQuery } = useDebouncedSearch(query, fetcher, SEARCH_MESSAGES);
+	const canSearch = useMemo(() => effectiveQuery.length >= MIN_SEARCH_LENGTH, [effectiveQuery]);
 
-	return { query, setQuery, results, isLoading, error, canSearch, effectiveQuery: trimmedQuery };
+	return { query, setQuery, results, isLoading, error, canSearch, effectiveQuery };
 };
@@ -1,8 +1,8 @@
 // Custom hook for managing tag filtering
 import type { Dispatch, SetStateAction } from 'react';
-import { useCallback, useEffect, useMemo, useState } from 'react';
-import type { Bar, SelectedTagEntry, TagFilterOption } from '../types';
-import { BAR_TAGS_ENDPOINT } from '../utils/constants';
+import { useCallback, useMemo } from 'react';
+import type { Bar, SelectedTagEntry } from '../types';
+import { useBarTags } from './useBarTags';
 
 
 export const useTagFilters = (
@@ -13,84 +13,7 @@ export const useTagFilters = (
   setIsFilterSheetVisible: Dispatch<SetStateAction<boolean>>
 ) => {
 
-  const [availableTags, setAvailableTags] = useState<TagFilterOption[]>([]);
-  const [areTagsLoading, setAreTagsLoading] = useState(false);
-  const [tagsError, setTagsError] = useState<string | null>(null);
-  const [tagsRetryCount, setTagsRetryCount] = useState(0);
-
-  const retryFetchTags = useCallback(() => {
-    setTagsRetryCount((c) => c + 1);
-  }, []);
-
-  // Load tags from the backend
-  useEffect(() => {
-    let cancelled = false;
-
-    const fetchTags = async () => {
-      setAreTagsLoading(true);
-      try {
-        setTagsError(null);
-        const response = await fetch(BAR_TAGS_ENDPOINT);
-        if (!response.ok) {
-          throw new Error(`Failed to fetch tags (status ${response.status})`);
-        }
-
-        const payload = await response.json();
-        const rawItems = Array.isArray(payload?.data)
-          ? payload.data
-          : Array.isArray(payload)
-            ? payload
-            : [];
-
-        const tagMap = new Map<string, TagFilterOption>();
-        rawItems.forEach((tag: any) => {
-          const name = typeof tag?.name === 'string' ? tag.name.trim() : '';
-          if (!name) {
-            return;
-          }
-          // Require backend tag ids so API calls send ids
-          const tagId =
-            typeof tag?.id === 'string'
-              ? tag.id.trim()
-              : typeof tag?.id === 'number'
-                ? String(tag.id)
-                : '';
-          if (!tagId || tagMap.has(tagId)) {
-            return;
-          }
-          const category =
-            typeof tag?.category === 'string' && tag.category.trim()
-              ? tag.category.trim()
-              : undefined;
-          tagMap.set(tagId, {
-            id: tagId,
-            name,
-            normalizedName: tagId,
-            category,
-          });
-        });
-
-        if (!cancelled) {
-          setAvailableTags(Array.from(tagMap.values()).sort((a, b) => a.name.localeCompare(b.name)));
-        }
-      } catch (err) {
-        if (!cancelled) {
-          setTagsError(err instanceof Error ? err.message : 'Unable to load tags right now.');
-          setAvailableTags([]);
-        }
-      } finally {
-        if (!cancelled) {
-          setAreTagsLoading(false);
-        }
-      }
-    };
-
-    fetchTags();
-
-    return () => {
-      cancelled = true;
-    };
-  }, [tagsRetryCount]);
+  const { availableTags, areTagsLoading, tagsError, retryFetchTags } = useBarTags();
 
   // Filter bars by selected tags (client-side).
   // AND logic: bar must have ALL selected tags — matches server-side behaviour.
@@ -11,6 +11,27 @@ export type LooseObject = Record<string, any>;
 export type QueryValue = string | number | boolean | undefined | (string | number | boolean)[];
 export type QueryParams = Record<string, QueryValue>;
 
+// Bars list sort orders offered in BarsListHeader
+export type BarSortOption = 'nearest' | 'closing_latest' | 'closing_soonest' | 'name' | 'best_match';
+
+// Unit distances and search radii are requested and shown in
+export type DistanceUnit = 'miles' | 'km';
+
+// Clock style for displayed times
+export type TimeFormat = '12h' | '24h';
+
+// 'system' follows the device appearance
+export type ThemeMode = 'light' | 'dark' | 'system';
+
+// Extra list-query inputs that must keep cache entries apart
+export type CacheKeyOptions = {
+  openAt?: Date | null;
+  sort?: BarSortOption;
+  unit?: DistanceUnit;
+  tagMatch?: TagMatchMode;
+  dateFilter?: EventDateFilter | null;
+};
+
 //Coordinates type definition
 export type Coordinates = { 
   lat: number; 
@@ -39,6 +60,7 @@ export type Bar = {
   distance_miles?: number;
   distance_km?: number;
   closes_at?: string;
+  timezone?: string; // IANA zone of the bar, e.g. "America/Chicago"
   tags: BarTag[];
   hours: BarHours[];
 };
@@ -79,6 +101,18 @@ export type location = {
     unit?: string;
 }
 
+// Search tab results segment
+export type SearchScope = 'bars' | 'events';
+
+// Which part of a bar a search query matched, and where in that text
+export type BarSearchMatchField = 'name' | 'tag' | 'street' | 'city' | 'zip';
+export type BarSearchMatch = {
+    field: BarSearchMatchField;
+    text: string;
+    start: number;
+    end: number;
+}
+
 //Bar Search Result Type
 export type searchBar = {
     id: string;
@@ -87,6 +121,9 @@ export type searchBar = {
     address_city?: string;
     address_state?: string;
     address_zip?: string;
+    tags?: BarTag[];
+    // Only on live search results
+    match?: BarSearchMatch;
 }
 
 //Bar Tag Results Type
@@ -106,6 +143,15 @@ export type BarHours = {
     crosses_midnight: boolean;
 }
 
+// Open / closed state for a bar at a given moment, derived from its BarHours
+export type BarOpenStatus = {
+    isOpen: boolean;
+    isClosingSoon: boolean;
+    closesAt: Date | null; // end of the current opening span when open
+    opensAt: Date | null; // start of the next opening span when closed
+    dayOfWeek: number; // schedule day in effect; yesterday's while an overnight span is still open
+}
+
 // Event Types
 export type EventTag = {
     id: string;
@@ -134,6 +180,7 @@ export type Event = {
     phone?: string;
     website?: string;
     recurrence_pattern?: string;
+    timezone?: string; // IANA zone of the venue, e.g. "America/Chicago"
     latitude?: number;
     longitude?: number;
 	distanceMiles?: number;
@@ -141,6 +188,32 @@ export type Event = {
 	eventTag?: EventTag;
 };
 
+// A local notification scheduled ahead of one event instance
+export type EventReminder = {
+	instance_id: string;
+	title: string;
+	bar_name?: string;
+	timezone?: string;
+	// Event start the reminder was scheduled against (ISO instant)
+	starts_at: string;
+	offset_minutes: number;
+	notification_id: string;
+};
+
+export type ReminderOffsetOption = { label: string; value: number };
+
+// Events at one bar, as plotted by the events map
+export type EventBarGroup = {
+	id: string;
+	bar_id?: string;
+	bar_name: string;
+	address_city?: string;
+	address_state?: string;
+	latitude?: number;
+	longitude?: number;
+	events: Event[];
+};
+
 
 
 // Infinite scroll configuration
@@ -168,6 +241,27 @@ export type PaginationState = {
 // Internal load modes
 export type LoadMode = 'initial' | 'refresh' | 'load-more' | 'prefetch';
 
+// List / map toggle on the Open Bars and Events tabs
+export type ListViewMode = 'list' | 'map';
+
+// Events tab source: events by radius, or upcoming events at favorite bars
+export type EventFeed = 'nearby' | 'following';
+
+// How several selected event tags combine: events with any of them, or with all of them
+export type TagMatchMode = 'any' | 'all';
+
+// Events tab date filter: a quick preset, or a range picked in the date sheet
+export type EventDatePreset = 'tonight' | 'tomorrow' | 'weekend' | 'next7' | 'custom';
+
+// Days are inclusive YYYY-MM-DD; time-of-day bounds are minutes after midnight on each of those days
+export type EventDateFilter = {
+  preset: EventDatePreset;
+  startDate: string;
+  endDate: string;
+  startsAfter: number | null;
+  startsBefore: number | null;
+};
+
 
 
 // Tag filter option type definition
@@ -188,6 +282,8 @@ export type SelectedTagEntry = {
 export type BarCardProps = {
   bar: Bar;
   onPress?: () => void;
+  // Moment the open/closing status describes; defaults to now
+  referenceTime?: Date | null;
 };
 
 // Props for the tag filter sheet component
@@ -200,12 +296,43 @@ export type TagFilterSheetProps = {
   theme: ThemeName;
 };
 
+// Props for the "plan for later" time picker sheet
+export type BarTimePickerSheetProps = {
+  visible: boolean;
+  value: Date | null;
+  onApply: (openAt: Date | null) => void;
+  onClose: () => void;
+  theme: ThemeName;
+};
+
+// Props for the events date range sheet
+export type EventDateFilterSheetProps = {
+  visible: boolean;
+  value: EventDateFilter | null;
+  onApply: (filter: EventDateFilter) => void;
+  onClose: () => void;
+  theme: ThemeName;
+};
+
+// Props for the event reminder sheet component
+export type EventReminderSheetProps = {
+  visible: boolean;
+  startsAt: Date | null;
+  // Offset of the reminder already set for this event, if any
+  value: number | null;
+  onSelect: (offsetMinutes: number) => void;
+  onRemove: () => void;
+  onClose: () => void;
+  theme: ThemeName;
+};
+
 // Props for the event tag filter sheet component
 export type EventTagFilterSheetProps = {
   visible: boolean;
   tags: EventTag[];
   selectedTagIds: string[];
-  onApply: (tagIds: string[]) => void;
+  matchMode: TagMatchMode;
+  onApply: (tagIds: string[], matchMode: TagMatchMode) => void;
   onClose: () => void;
   onRetry?: () => void;
   isLoading: boolean;
@@ -219,6 +346,12 @@ export type LocationCache = {
   fetchedAt: number;
 };
 
+// Events loaded so far for each selected tag when tags are fetched one at a time
+export type TagResults = {
+  results: Event[][];
+  hasMore: boolean[];
+};
+
 // Cache structure for events data
 export type EventsCache = {
   key: string;
@@ -226,6 +359,7 @@ export type EventsCache = {
   data: Event[];
   currentPage: number;
   hasMore: boolean;
+  tagResults?: TagResults;
 };
 
 // Row types for the events FlatList (date separators and event cards)
@@ -256,6 +390,7 @@ export type EventDetailsProps = {
   dateLabel?: string;
   startTimeLabel?: string;
   endTimeLabel?: string;
+  localTimeLabel?: string; // device-local equivalent when the venue is in another time zone
   locationLabel?: string;
   addressLabel?: string;
   tagLabel?: string;
@@ -2,6 +2,7 @@
 import type { Bar, BarHours, BarTag, LooseObject } from '@/types/index';
 import { DAY_NAME_INDEX } from './constants';
 import { normalizeTwitterUrl, toNumber } from './helpers';
+import { getZonedParts, isValidTimeZone } from './timeZones';
 
 //Map raw tag data to BarTag type
 export const mapToBarTag = (raw: any, index: number): BarTag | null => {
@@ -66,12 +67,12 @@ const extractCloseMetaFromRecord = (record?: LooseObject | null): string | null
   return typeof closesRaw === 'string' && closesRaw.trim().length > 0 ? closesRaw.trim() : null;
 };
 
-//Resolve closing time from raw.hours schedule array
-const resolveClosingFromSchedules = (raw: LooseObject): string | null => {
+//Resolve closing time from raw.hours schedule array, using today in the bar's zone
+const resolveClosingFromSchedules = (raw: LooseObject, timeZone?: string): string | null => {
   if (!Array.isArray(raw.hours)) {
     return null;
   }
-  const today = new Date().getDay();
+  const today = getZonedParts(new Date(), timeZone).weekday;
   for (const entry of raw.hours) {
     if (!entry || typeof entry !== 'object') {
       continue;
@@ -98,8 +99,8 @@ const resolveClosingFromSchedules = (raw: LooseObject): string | null => {
 };
 
 // Extract today's closing time from raw bar data
-const extractTodayClosingMeta = (raw: LooseObject): string | undefined => {
-  const fromSchedule = resolveClosingFromSchedules(raw);
+const extractTodayClosingMeta = (raw: LooseObject, timeZone?: string): string | undefined => {
+  const fromSchedule = resolveClosingFromSchedules(raw, timeZone);
   if (fromSchedule) {
     return fromSchedule;
   }
@@ -139,6 +140,8 @@ export const mapToBar = (raw: LooseObject, index: number): Bar | null => {
       seen.add(tag.id);
       return true;
     });
+  const timeZoneSource = raw.timezone ?? raw.time_zone ?? undefined;
+  const timezone = isValidTimeZone(timeZoneSource) ? timeZoneSource : undefined;
 
   return {
     id: String(raw.id),
@@ -161,7 +164,8 @@ export const mapToBar = (raw: LooseObject, index: number): Bar | null => {
     distance_km: toNumber(raw.distance_km) ?? undefined,
     closes_at: (typeof raw.closes_at === 'string' && raw.closes_at.trim().length > 0)
       ? raw.closes_at.trim()
-      : extractTodayClosingMeta(raw),
+      : extractTodayClosingMeta(raw, timezone),
+    timezone,
     tags: dedupedTags,
     hours: Array.isArray(raw.hours)
       ? raw.hours.map((h: LooseObject) => mapToBarHour(h)).filter((h): h is BarHours => h !== null)
@@ -191,15 +195,23 @@ export const mapBarsInBatches = async (
   return mapped;
 };
 
-//Merge bar lists while preserving order and deduping by id
-
-export const mergeBars = (current: Bar[], incoming: Bar[], replace = false): Bar[] => {
+//Merge bar lists while preserving order and deduping by id.
+//With a comparator only the incoming page is sorted (stably) before it is appended,
+//so rows the user has already seen never move when a later page arrives.
+
+export const mergeBars = (
+  current: Bar[],
+  incoming: Bar[],
+  replace = false,
+  compare?: (a: Bar, b: Bar) => number
+): Bar[] => {
+  const page = compare ? [...incoming].sort(compare) : incoming;
   if (replace || current.length === 0) {
-    return incoming;
+    return page;
   }
 
   const next = [...current];
-  incoming.forEach((bar) => {
+  page.forEach((bar) => {
     const index = next.findIndex((item) => item.id === bar.id);
     if (index === -1) {
       next.push(bar);
@@ -209,4 +221,4 @@ export const mergeBars = (current: Bar[], incoming: Bar[], replace = false): Bar
   });
 
   return next;
-};
\ No newline at end of file
+};
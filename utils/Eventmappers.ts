@@ -1,5 +1,8 @@
 // Functions to map raw API data to Event objects
-import type { Event, EventTag, LooseObject } from '@/types/index';
+import type { Event, EventBarGroup, EventDateFilter, EventListRow, EventTag, LooseObject, TagMatchMode, TimeFormat } from '@/types/index';
+import { formatTimeOfDayWindow, isEventInDateFilter } from './eventDateFilters';
+import { toNumber } from './helpers';
+import { getCalendarDayDiff, getZonedParts, isValidTimeZone, parseZonedDateTime } from './timeZones';
 
 // Parse a route param (string | string[]) into a deduplicated array of tag IDs
 export const parseTagParam = (value?: string | string[]): string[] => {
@@ -8,31 +11,22 @@ export const parseTagParam = (value?: string | string[]): string[] => {
 	return Array.from(new Set(rawList.map((entry) => entry.trim()).filter(Boolean)));
 };
 
-// Returns the start of day (midnight) for a given date
-const startOfDay = (input: Date): Date => {
-	const copy = new Date(input);
-	copy.setHours(0, 0, 0, 0);
-	return copy;
-};
-
-// Format an event date string as a human-readable relative label
-export const formatRelativeEventDay = (value?: string): string => {
+// Format an event date string as a human-readable relative label, counted on the venue's calendar
+export const formatRelativeEventDay = (value?: string, timeZone?: string): string => {
 	if (!value) return 'Date coming soon';
 
-	// Parse date-only strings (YYYY-MM-DD) as local time to avoid UTC midnight off-by-one
-	const date = new Date(value.includes('T') ? value : `${value}T00:00:00`);
-	if (Number.isNaN(date.getTime())) return 'Date coming soon';
+	// Date-only strings (YYYY-MM-DD) are venue-local days, not UTC midnight
+	const date = parseZonedDateTime(value, timeZone);
+	if (!date) return 'Date coming soon';
 
-	const today = startOfDay(new Date());
-	const target = startOfDay(date);
-	const diffDays = Math.round((target.getTime() - today.getTime()) / 86_400_000);
+	const diffDays = getCalendarDayDiff(new Date(), date, timeZone);
 
 	if (diffDays === 0) return 'Today';
 	if (diffDays === 1) return 'Tomorrow';
 	if (diffDays > 1 && diffDays <= 6) {
-		return new Intl.DateTimeFormat('en-US', { weekday: 'long' }).format(date);
+		return new Intl.DateTimeFormat('en-US', { weekday: 'long', timeZone }).format(date);
 	}
-	return new Intl.DateTimeFormat('en-US', { weekday: 'short', month: 'short', day: 'numeric' }).format(date);
+	return new Intl.DateTimeFormat('en-US', { weekday: 'short', month: 'short', day: 'numeric', timeZone }).format(date);
 };
 
 // Function to extract event items from various API response structures
@@ -95,37 +89,31 @@ export const extractTagItems = (payload: unknown): LooseObject[] => {
 	return [];
 };
 
-// Normalize a date-only string (YYYY-MM-DD) and apply optional day offset
-export const normalizeDateOnly = (value?: string, offsetDays = 0): string | null => {
-	if (!value) {
-		return null;
-	}
-
-	const date = new Date(value);
-	if (Number.isNaN(date.getTime())) {
+// Normalize a date or date-time to its YYYY-MM-DD day in the venue's zone and apply optional day offset
+export const normalizeDateOnly = (value?: string, offsetDays = 0, timeZone?: string): string | null => {
+	const date = parseZonedDateTime(value, timeZone);
+	if (!date) {
 		return null;
 	}
 
-	if (offsetDays) {
-		date.setDate(date.getDate() + offsetDays);
-	}
-
-	const month = String(date.getMonth() + 1).padStart(2, '0');
-	const day = String(date.getDate()).padStart(2, '0');
-	return `${date.getFullYear()}-${month}-${day}`;
+	const parts = getZonedParts(date, timeZone);
+	const shifted = new Date(Date.UTC(parts.year, parts.month - 1, parts.day + offsetDays));
+	const month = String(shifted.getUTCMonth() + 1).padStart(2, '0');
+	const day = String(shifted.getUTCDate()).padStart(2, '0');
+	return `${shifted.getUTCFullYear()}-${month}-${day}`;
 };
 
 // Combine date-only and time-only strings into a full datetime string
 export const combineDateAndTime = (
 	dateValue?: string,
 	timeValue?: string,
-	options?: { offsetDays?: number }
+	options?: { offsetDays?: number; timeZone?: string }
 ): string | undefined => {
 	if (!dateValue || !timeValue) {
 		return undefined;
 	}
 
-	const datePart = normalizeDateOnly(dateValue, options?.offsetDays ?? 0);
+	const datePart = normalizeDateOnly(dateValue, options?.offsetDays ?? 0, options?.timeZone);
 	if (!datePart) {
 		return undefined;
 	}
@@ -168,22 +156,28 @@ export const mapToEvent = (raw: LooseObject): Event => {
 		raw.location_state;
 
 	const crossesMidnight = Boolean(raw.crosses_midnight ?? raw.crossesMidnight ?? false);
+	// Naive date / time values from the API are wall-clock times in the venue's zone
+	const timeZoneSource =
+		raw.timezone ?? raw.time_zone ?? raw.bar?.timezone ?? raw.bar?.time_zone ?? raw.venue?.timezone ?? undefined;
+	const timezone = isValidTimeZone(timeZoneSource) ? timeZoneSource : undefined;
 	const dateSource = raw.date ?? raw.event_date ?? raw.starts_at ?? raw.start ?? undefined;
 	const eventDate = raw.date ?? raw.event_date ?? undefined;
 	const startDateTime =
 		raw.starts_at ??
 		raw.start ??
-		combineDateAndTime(dateSource, raw.start_time ?? raw.start_time_formatted) ??
-		combineDateAndTime(raw.date, raw.start_time ?? raw.start_time_formatted) ??
+		combineDateAndTime(dateSource, raw.start_time ?? raw.start_time_formatted, { timeZone: timezone }) ??
+		combineDateAndTime(raw.date, raw.start_time ?? raw.start_time_formatted, { timeZone: timezone }) ??
 		undefined;
 	const endDateTime =
 		raw.ends_at ??
 		raw.end ??
 		combineDateAndTime(dateSource, raw.end_time ?? raw.end_time_formatted, {
 			offsetDays: crossesMidnight ? 1 : 0,
+			timeZone: timezone,
 		}) ??
 		combineDateAndTime(raw.date, raw.end_time ?? raw.end_time_formatted, {
 			offsetDays: crossesMidnight ? 1 : 0,
+			timeZone: timezone,
 		}) ??
 		undefined;
 
@@ -210,8 +204,11 @@ export const mapToEvent = (raw: LooseObject): Event => {
 		const numeric = candidates.find((entry) => typeof entry === 'number');
 		return typeof numeric === 'number' ? numeric : undefined;
 	})();
+	const distanceKm = [raw.distance_km, raw.distanceKm].find((entry) => typeof entry === 'number');
 
 	const barId = raw.bar_id ?? raw.bar?.id ?? raw.barId ?? undefined;
+	const latitude = toNumber(raw.latitude ?? raw.bar?.latitude ?? raw.venue?.latitude);
+	const longitude = toNumber(raw.longitude ?? raw.bar?.longitude ?? raw.venue?.longitude);
 
 	return {
 		instance_id: String(primaryId),
@@ -234,7 +231,11 @@ export const mapToEvent = (raw: LooseObject): Event => {
 		date: eventDate ?? startDateTime,
 		crosses_midnight: crossesMidnight,
 		recurrence_pattern: raw.recurrence_pattern ?? undefined,
+		timezone,
+		latitude,
+		longitude,
 		distanceMiles,
+		distanceKm,
 	};
 };
 
@@ -272,3 +273,80 @@ export const mergeEvents = (current: Event[], incoming: Event[]): Event[] => {
 
 	return next;
 };
+
+// Combine results fetched one tag at a time: 'any' keeps every event, 'all' only those found for every tag
+export const combineTagResults = (resultsByTag: Event[][], matchMode: TagMatchMode): Event[] => {
+	const merged = resultsByTag.reduce<Event[]>((acc, results) => mergeEvents(acc, results), []);
+	if (matchMode === 'any') {
+		return merged;
+	}
+	const idsByTag = resultsByTag.map((results) => new Set(results.map((event) => event.instance_id)));
+	return merged.filter((event) => idsByTag.every((ids) => ids.has(event.instance_id)));
+};
+
+// Sort events by day and interleave a date separator row before each new day.
+// With a date filter, events outside it are dropped and separators carry its time of day.
+export const buildEventListRows = (
+	events: Event[],
+	options: { dateFilter?: EventDateFilter | null; timeFormat?: TimeFormat } = {}
+): EventListRow[] => {
+	const { dateFilter, timeFormat } = options;
+	const inWindow = dateFilter ? events.filter((event) => isEventInDateFilter(event, dateFilter)) : events;
+	const timeOfDay = dateFilter ? formatTimeOfDayWindow(dateFilter, timeFormat) : null;
+	const sorted = [...inWindow].sort((a, b) => {
+		const aTime = parseZonedDateTime(a.date ?? a.start_time, a.timezone)?.getTime();
+		const bTime = parseZonedDateTime(b.date ?? b.start_time, b.timezone)?.getTime();
+		return (aTime ?? Number.MAX_SAFE_INTEGER) - (bTime ?? Number.MAX_SAFE_INTEGER);
+	});
+	const rows: EventListRow[] = [];
+	let lastLabel: string | null = null;
+	sorted.forEach((event) => {
+		const dateValue = event.date ?? event.start_time;
+		const normalized = normalizeDateOnly(dateValue ?? undefined, 0, event.timezone) ?? 'unknown-date';
+		const dayLabel = dateValue ? formatRelativeEventDay(dateValue, event.timezone) : 'Date coming soon';
+		const label = timeOfDay ? `${dayLabel} · ${timeOfDay}` : dayLabel;
+		if (label !== lastLabel) {
+			rows.push({ type: 'date', key: `date-${normalized}-${label}`, label });
+			lastLabel = label;
+		}
+		rows.push({ type: 'event', key: `event-${event.instance_id}`, event });
+	});
+	return rows;
+};
+
+// Sort key for an event's start; undated events go last
+const getEventStartValue = (event: Event): number => {
+	const date = parseZonedDateTime(event.start_time ?? event.date, event.timezone);
+	return date ? date.getTime() : Number.MAX_SAFE_INTEGER;
+};
+
+// Group events by their bar for the events map, soonest instance first within each bar
+export const groupEventsByBar = (events: Event[]): EventBarGroup[] => {
+	const groups = new Map<string, EventBarGroup>();
+
+	events.forEach((event) => {
+		const key = event.bar_id ?? `${event.bar_name ?? 'unknown'}:${event.latitude ?? ''}:${event.longitude ?? ''}`;
+		const group = groups.get(key) ?? {
+			id: key,
+			bar_id: event.bar_id,
+			bar_name: event.bar_name ?? 'Unknown bar',
+			address_city: event.address_city,
+			address_state: event.address_state,
+			events: [],
+		};
+		// Fill in a position from any instance that has one
+		if (group.latitude === undefined && event.latitude !== undefined && event.longitude !== undefined) {
+			group.latitude = event.latitude;
+			group.longitude = event.longitude;
+		}
+		group.events.push(event);
+		groups.set(key, group);
+	});
+
+	return Array.from(groups.values())
+		.map((group) => ({
+			...group,
+			events: [...group.events].sort((a, b) => getEventStartValue(a) - getEventStartValue(b)),
+		}))
+		.sort((a, b) => getEventStartValue(a.events[0]) - getEventStartValue(b.events[0]));
+};
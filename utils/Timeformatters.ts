@@ -1,4 +1,6 @@
-import { BarHours } from '../types';
+import { BarHours, BarOpenStatus, TimeFormat } from '../types';
+import { CLOSING_SOON_MINUTES, DEFAULT_TIME_FORMAT } from './constants';
+import { differsFromDeviceTime, getCalendarDayDiff, getZonedParts, zonedTimeToDate } from './timeZones';
 
 // Time parsing and formatting utilities
 
@@ -43,8 +45,36 @@ export const parseTimeToken = (value?: string): Date | null => {
   return null;
 };
 
+//Intl options for a clock time in the user's format; h23 keeps midnight as 00 rather than 24
+export const getClockFormatOptions = (timeFormat: TimeFormat = DEFAULT_TIME_FORMAT): Intl.DateTimeFormatOptions => ({
+  hour: 'numeric',
+  minute: '2-digit',
+  hourCycle: timeFormat === '24h' ? 'h23' : 'h12',
+});
+
+//Format a Date as a short clock label, e.g. "4 PM" or "11:30 PM" ("16:00", "23:30" in 24-hour), read in the zone when given
+export const formatShortTime = (date: Date, timeZone?: string, timeFormat: TimeFormat = DEFAULT_TIME_FORMAT): string => {
+  const parts = getZonedParts(date, timeZone);
+  let hours = parts.hours;
+  const minutes = parts.minutes;
+
+  if (timeFormat === '24h') {
+    return `${hours.toString().padStart(2, '0')}:${minutes.toString().padStart(2, '0')}`;
+  }
+  const period = hours >= 12 ? 'PM' : 'AM';
+
+  if (hours === 0) {
+    hours = 12;
+  } else if (hours > 12) {
+    hours -= 12;
+  }
+
+  const minutesPart = minutes > 0 ? `:${minutes.toString().padStart(2, '0')}` : '';
+  return `${hours}${minutesPart} ${period}`;
+};
+
 //Format closing time label for display
-export const formatClosingTimeLabel = (closesAt?: string): string | null => {
+export const formatClosingTimeLabel = (closesAt?: string, timeFormat: TimeFormat = DEFAULT_TIME_FORMAT): string | null => {
   if (!closesAt) {
     return null;
   }
@@ -54,25 +84,194 @@ export const formatClosingTimeLabel = (closesAt?: string): string | null => {
     return closesAt;
   }
 
-  let hours = parsed.getHours();
-  const minutes = parsed.getMinutes();
-  const period = hours >= 12 ? 'PM' : 'AM';
+  return formatShortTime(parsed, undefined, timeFormat);
+};
 
-  if (hours === 0) {
-    hours = 12;
-  } else if (hours > 12) {
-    hours -= 12;
+// ---------------------------------------------------------------------------
+// Hours engine: open / closed status from BarHours, including overnight spans
+// ---------------------------------------------------------------------------
+
+type OpenSpan = {
+  start: Date;
+  end: Date;
+  entry: BarHours;
+};
+
+//Minutes after midnight for a BarHours time value
+const toMinutesOfDay = (value?: string): number | null => {
+  const parsed = parseTimeToken(value);
+  return parsed ? parsed.getHours() * 60 + parsed.getMinutes() : null;
+};
+
+//Opening spans from the day before `now` through the next week, in start order, on the venue's calendar.
+//A span closing at or before its opening time (or flagged crosses_midnight) ends on the following day.
+const getOpenSpans = (hours: BarHours[], now: Date, timeZone?: string): OpenSpan[] => {
+  const today = getZonedParts(now, timeZone);
+  const spans: OpenSpan[] = [];
+  for (let offset = -1; offset <= 7; offset += 1) {
+    const weekday = (today.weekday + offset + 7) % 7;
+    const entry = hours.find((h) => h.day_of_week === weekday);
+    if (!entry || entry.is_closed) {
+      continue;
+    }
+    const openMinutes = toMinutesOfDay(entry.open_time);
+    const closeMinutes = toMinutesOfDay(entry.close_time);
+    if (openMinutes === null || closeMinutes === null) {
+      continue;
+    }
+    const isOvernight = entry.crosses_midnight || closeMinutes <= openMinutes;
+    const day = today.day + offset;
+    const start = zonedTimeToDate(today.year, today.month, day, openMinutes, timeZone);
+    const end = zonedTimeToDate(today.year, today.month, isOvernight ? day + 1 : day, closeMinutes, timeZone);
+    spans.push({ start, end, entry });
   }
+  return spans;
+};
 
-  const minutesPart = minutes > 0 ? `:${minutes.toString().padStart(2, '0')}` : '';
-  return `${hours}${minutesPart} ${period}`;
+//Open / closed status for any moment; back-to-back spans read as one opening
+export const getBarOpenStatus = (hours: BarHours[], now: Date = new Date(), timeZone?: string): BarOpenStatus => {
+  const spans = getOpenSpans(hours, now, timeZone);
+  const current = spans.find((span) => span.start <= now && now < span.end);
+
+  if (current) {
+    let closesAt = current.end;
+    let next = spans.find((span) => span.start.getTime() === closesAt.getTime());
+    while (next) {
+      closesAt = next.end;
+      const reached = closesAt;
+      next = spans.find((span) => span.start.getTime() === reached.getTime());
+    }
+    return {
+      isOpen: true,
+      isClosingSoon: closesAt.getTime() - now.getTime() <= CLOSING_SOON_MINUTES * 60_000,
+      closesAt,
+      opensAt: null,
+      dayOfWeek: current.entry.day_of_week,
+    };
+  }
+
+  return {
+    isOpen: false,
+    isClosingSoon: false,
+    closesAt: null,
+    opensAt: spans.find((span) => span.start > now)?.start ?? null,
+    dayOfWeek: getZonedParts(now, timeZone).weekday,
+  };
+};
+
+//Clock label in the venue's zone, with the device-local time added when the two clocks differ
+const formatVenueTime = (date: Date, timeZone: string | undefined, timeFormat: TimeFormat): string => {
+  const venueLabel = formatShortTime(date, timeZone, timeFormat);
+  if (!differsFromDeviceTime(timeZone, date)) {
+    return venueLabel;
+  }
+  return `${venueLabel} (${formatShortTime(date, undefined, timeFormat)} your time)`;
+};
+
+//Human label for a status, e.g. "Closes in 25 min", "Open until 2 AM", "Opens at 4 PM", "Opens Fri at 4 PM"
+export const formatOpenStatusLabel = (
+  status: BarOpenStatus,
+  now: Date = new Date(),
+  timeZone?: string,
+  timeFormat: TimeFormat = DEFAULT_TIME_FORMAT
+): string => {
+  if (status.isOpen && status.closesAt) {
+    const minutesLeft = Math.max(1, Math.ceil((status.closesAt.getTime() - now.getTime()) / 60_000));
+    if (minutesLeft >= 24 * 60) {
+      return 'Open 24 hours';
+    }
+    if (status.isClosingSoon) {
+      return `Closes in ${minutesLeft} min`;
+    }
+    return `Open until ${formatVenueTime(status.closesAt, timeZone, timeFormat)}`;
+  }
+
+  if (!status.opensAt) {
+    return 'Closed';
+  }
+  const dayDiff = getCalendarDayDiff(now, status.opensAt, timeZone);
+  const timeLabel = formatVenueTime(status.opensAt, timeZone, timeFormat);
+  if (dayDiff === 0) {
+    return `Opens at ${timeLabel}`;
+  }
+  if (dayDiff === 1) {
+    return `Opens tomorrow at ${timeLabel}`;
+  }
+  const dayLabel = new Intl.DateTimeFormat('en-US', { weekday: 'short', timeZone }).format(status.opensAt);
+  return `Opens ${dayLabel} at ${timeLabel}`;
+};
+
+const hasUsableHours = (hours: BarHours[]): boolean =>
+  hours.some((h) => !h.is_closed && toMinutesOfDay(h.open_time) !== null);
+
+//Status label straight from BarHours, or null when the bar has no usable hours
+export const getOpenStatusLabel = (
+  hours: BarHours[],
+  now: Date = new Date(),
+  timeZone?: string,
+  timeFormat: TimeFormat = DEFAULT_TIME_FORMAT
+): string | null => {
+  if (!hasUsableHours(hours)) {
+    return null;
+  }
+  return formatOpenStatusLabel(getBarOpenStatus(hours, now, timeZone), now, timeZone, timeFormat);
+};
+
+//Whether the bar is open at the given moment, or null when its hours can't tell
+export const isBarOpenAt = (hours: BarHours[], at: Date, timeZone?: string): boolean | null => {
+  if (!hasUsableHours(hours)) {
+    return null;
+  }
+  return getBarOpenStatus(hours, at, timeZone).isOpen;
+};
+
+//Next moment after `at` when the venue's clock reads the list API's closing time, e.g. "02:00"
+export const getNextClosingTime = (closesAt: string | undefined, at: Date, timeZone?: string): Date | null => {
+  const minutes = toMinutesOfDay(closesAt);
+  if (minutes === null) {
+    return null;
+  }
+  const today = getZonedParts(at, timeZone);
+  const closing = zonedTimeToDate(today.year, today.month, today.day, minutes, timeZone);
+  if (closing.getTime() > at.getTime()) {
+    return closing;
+  }
+  return zonedTimeToDate(today.year, today.month, today.day + 1, minutes, timeZone);
 };
 
-//
-// utils/barUtils.ts
+//Fallback label from the list API's closing time, e.g. "Closes 11 PM", or null when it can't be read
+export const formatClosesAtLabel = (
+  closesAt: string | undefined,
+  at: Date = new Date(),
+  timeZone?: string,
+  timeFormat: TimeFormat = DEFAULT_TIME_FORMAT
+): string | null => {
+  const closing = getNextClosingTime(closesAt, at, timeZone);
+  return closing ? `Closes ${formatVenueTime(closing, timeZone, timeFormat)}` : null;
+};
 
-export const getTodaysHours = (hours: BarHours[]) => {
-  const todayIndex = new Date().getDay(); 
+//Label for a planned time, e.g. "Today at 9 PM", "Tomorrow at 8:30 PM", "Sat at 10 PM"
+export const formatPlanTimeLabel = (at: Date, now: Date = new Date(), timeFormat: TimeFormat = DEFAULT_TIME_FORMAT): string => {
+  const dayDiff = getCalendarDayDiff(now, at);
+  const timeLabel = formatShortTime(at, undefined, timeFormat);
+  if (dayDiff === 0) {
+    return `Today at ${timeLabel}`;
+  }
+  if (dayDiff === 1) {
+    return `Tomorrow at ${timeLabel}`;
+  }
+  const dayLabel = new Intl.DateTimeFormat('en-US', { weekday: 'short' }).format(at);
+  return `${dayLabel} at ${timeLabel}`;
+};
+
+//Today's schedule on the venue's calendar; after midnight, last night's overnight span counts as today until it closes
+export const getTodaysHours = (
+  hours: BarHours[],
+  now: Date = new Date(),
+  timeZone?: string,
+  timeFormat: TimeFormat = DEFAULT_TIME_FORMAT
+) => {
+  const todayIndex = getBarOpenStatus(hours, now, timeZone).dayOfWeek;
   const todaysSchedule = hours.find(h => h.day_of_week === todayIndex);
 
   // If not found or marked closed, return a "closed" state object
@@ -85,17 +284,31 @@ export const getTodaysHours = (hours: BarHours[]) => {
   }
 
   return {
-    open: formatTime(todaysSchedule.open_time),
-    close: formatTime(todaysSchedule.close_time),
+    open: formatScheduleTime(todaysSchedule.open_time, timeFormat),
+    close: formatScheduleTime(todaysSchedule.close_time, timeFormat),
     isClosed: false
   };
 };
 
-// Helper to turn "13:00:00" into "1:00 PM"
-const formatTime = (timeString: string): string => {
-  const [hours, minutes] = timeString.split(':');
-  const h = parseInt(hours, 10);
-  const ampm = h >= 12 ? 'PM' : 'AM';
-  const formattedHours = h % 12 || 12;
-  return `${formattedHours}:${minutes} ${ampm}`;
-};
\ No newline at end of file
+// Turn "13:00:00" into "1:00 PM" or "13:00"; the value is already the venue's wall clock
+const formatScheduleTime = (timeString: string, timeFormat: TimeFormat): string | null => {
+  const parsed = parseTimeToken(timeString);
+  return parsed ? formatShortTime(parsed, undefined, timeFormat) : null;
+};
+
+//Format when cached results were saved, e.g. "Updated 5 min ago"
+export const formatLastUpdatedLabel = (timestamp: number, now: number = Date.now()): string => {
+  const elapsedMinutes = Math.max(0, Math.floor((now - timestamp) / 60000));
+  if (elapsedMinutes < 1) {
+    return 'Updated just now';
+  }
+  if (elapsedMinutes < 60) {
+    return `Updated ${elapsedMinutes} min ago`;
+  }
+  const elapsedHours = Math.floor(elapsedMinutes / 60);
+  if (elapsedHours < 24) {
+    return `Updated ${elapsedHours} hr ago`;
+  }
+  const elapsedDays = Math.floor(elapsedHours / 24);
+  return `Updated ${elapsedDays} day${elapsedDays === 1 ? '' : 's'} ago`;
+};
@@ -193,6 +193,12 @@ describe('mapToBar', () => {
     expect(bar?.id).toBe('42');
   });
 
+  it('maps a valid venue time zone and drops unknown ones', () => {
+    expect(mapToBar({ id: '1', name: 'Bar', timezone: 'America/Denver' }, 0)?.timezone).toBe('America/Denver');
+    expect(mapToBar({ id: '1', name: 'Bar', time_zone: 'America/Denver' }, 0)?.timezone).toBe('America/Denver');
+    expect(mapToBar({ id: '1', name: 'Bar', timezone: 'Mountain' }, 0)?.timezone).toBeUndefined();
+  });
+
   it('maps optional scalar fields', () => {
     const raw = {
       id: '1',
@@ -405,4 +411,13 @@ describe('mergeBars', () => {
     expect(result.find((b) => b.id === '1')?.name).toBe('Updated');
     expect(result.find((b) => b.id === '3')).toBeDefined();
   });
+
+  it('sorts only the incoming page and appends it, leaving loaded rows in place', () => {
+    const byName = (a: { name: string }, b: { name: string }) => a.name.localeCompare(b.name);
+    const current = [makeBar('1', 'Bravo'), makeBar('2', 'Delta')];
+    const incoming = [makeBar('4', 'Echo'), makeBar('3', 'Alpha'), makeBar('5', 'Echo')];
+
+    expect(mergeBars(current, incoming, false, byName).map((b) => b.id)).toEqual(['1', '2', '3', '4', '5']);
+    expect(mergeBars(current, incoming, true, byName).map((b) => b.id)).toEqual(['3', '4', '5']);
+  });
 });
@@ -8,7 +8,11 @@ import {
   mapToEvent,
   mapToEventTag,
   mergeEvents,
+  combineTagResults,
+  groupEventsByBar,
+  buildEventListRows,
 } from '../Eventmappers';
+import type { Event } from '../../types';
 
 // ---------------------------------------------------------------------------
 // parseTagParam
@@ -225,25 +229,22 @@ describe('normalizeDateOnly', () => {
   });
 
   it('returns the date string in YYYY-MM-DD format', () => {
-    // normalizeDateOnly uses new Date() which treats date-only as UTC midnight
-    const result = normalizeDateOnly('2024-06-15');
-    expect(result).toMatch(/^\d{4}-\d{2}-\d{2}$/);
+    // Date-only strings are calendar days, not UTC midnight
+    expect(normalizeDateOnly('2024-06-15')).toBe('2024-06-15');
   });
 
   it('applies a positive day offset', () => {
-    // Mirror the function: new Date() on a date-only string parses as UTC midnight,
-    // so compute the expected value the same way to stay timezone-independent.
-    const d = new Date('2024-01-31');
-    d.setDate(d.getDate() + 1);
-    const expected = `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
-    expect(normalizeDateOnly('2024-01-31', 1)).toBe(expected);
+    expect(normalizeDateOnly('2024-01-31', 1)).toBe('2024-02-01');
   });
 
   it('applies a negative day offset', () => {
-    const d = new Date('2024-03-01');
-    d.setDate(d.getDate() - 1);
-    const expected = `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
-    expect(normalizeDateOnly('2024-03-01', -1)).toBe(expected);
+    expect(normalizeDateOnly('2024-03-01', -1)).toBe('2024-02-29');
+  });
+
+  it("reads instants on the venue's calendar when a time zone is given", () => {
+    // 02:30 UTC is still the previous evening in Los Angeles
+    expect(normalizeDateOnly('2024-06-15T02:30:00Z', 0, 'America/Los_Angeles')).toBe('2024-06-14');
+    expect(normalizeDateOnly('2024-06-15T02:30:00Z', 0, 'Europe/Berlin')).toBe('2024-06-15');
   });
 
   it('returns the same date when offset is 0', () => {
@@ -323,6 +324,23 @@ describe('mapToEvent', () => {
     expect(event.bar_name).toBe('Venue Name');
   });
 
+  it('maps coordinates from the event or its nested bar', () => {
+    expect(mapToEvent({ id: '1', title: 'T', latitude: '42.35', longitude: -71.06 })).toMatchObject({
+      latitude: 42.35,
+      longitude: -71.06,
+    });
+    expect(mapToEvent({ id: '2', title: 'T', bar: { latitude: 40.7, longitude: -74 } })).toMatchObject({
+      latitude: 40.7,
+      longitude: -74,
+    });
+  });
+
+  it('leaves coordinates undefined when missing', () => {
+    const event = mapToEvent({ id: '1', title: 'T' });
+    expect(event.latitude).toBeUndefined();
+    expect(event.longitude).toBeUndefined();
+  });
+
   it('defaults bar_name to "Unknown bar"', () => {
     const event = mapToEvent({ id: '1', title: 'T' });
     expect(event.bar_name).toBe('Unknown bar');
@@ -367,6 +385,12 @@ describe('mapToEvent', () => {
     expect(event.distanceMiles).toBeUndefined();
   });
 
+  it('resolves distanceKm from distance_km', () => {
+    const event = mapToEvent({ id: '1', title: 'T', distance_miles: 1.5, distance_km: 2.4 });
+    expect(event.distanceKm).toBe(2.4);
+    expect(event.distanceMiles).toBe(1.5);
+  });
+
   it('resolves start_time from starts_at', () => {
     const event = mapToEvent({ id: '1', title: 'T', starts_at: '2024-06-15T20:00:00' });
     expect(event.start_time).toBe('2024-06-15T20:00:00');
@@ -391,6 +415,23 @@ describe('mapToEvent', () => {
     const event = mapToEvent({ id: '1', title: 'T', external_link: 'https://example.com' });
     expect(event.external_url).toBe('https://example.com');
   });
+
+  it("maps the venue time zone from the event or its bar", () => {
+    expect(mapToEvent({ id: '1', title: 'T', timezone: 'America/Chicago' }).timezone).toBe('America/Chicago');
+    expect(mapToEvent({ id: '1', title: 'T', bar: { time_zone: 'Europe/Dublin' } }).timezone).toBe('Europe/Dublin');
+    expect(mapToEvent({ id: '1', title: 'T', timezone: 'Central' }).timezone).toBeUndefined();
+  });
+
+  it("combines date and time on the venue's clock", () => {
+    const event = mapToEvent({
+      id: '1',
+      title: 'T',
+      timezone: 'America/Chicago',
+      date: '2026-10-19',
+      start_time: '20:00:00',
+    });
+    expect(event.start_time).toBe('2026-10-19T20:00:00');
+  });
 });
 
 // ---------------------------------------------------------------------------
@@ -480,3 +521,147 @@ describe('mergeEvents', () => {
     expect(result.find((e) => e.instance_id === '3')).toBeDefined();
   });
 });
+
+// ---------------------------------------------------------------------------
+// combineTagResults
+// ---------------------------------------------------------------------------
+
+describe('combineTagResults', () => {
+  const makeEvent = (instance_id: string): Event => ({ instance_id, title: 'T' });
+  const ids = (events: Event[]) => events.map((e) => e.instance_id);
+
+  it('keeps events found for any tag once', () => {
+    const result = combineTagResults([[makeEvent('1'), makeEvent('2')], [makeEvent('2'), makeEvent('3')]], 'any');
+    expect(ids(result)).toEqual(['1', '2', '3']);
+  });
+
+  it('keeps only events found for every tag', () => {
+    const result = combineTagResults(
+      [[makeEvent('1'), makeEvent('2')], [makeEvent('2'), makeEvent('3')], [makeEvent('2')]],
+      'all'
+    );
+    expect(ids(result)).toEqual(['2']);
+  });
+
+  it('returns [] without any results', () => {
+    expect(combineTagResults([], 'all')).toEqual([]);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// groupEventsByBar
+// ---------------------------------------------------------------------------
+
+describe('groupEventsByBar', () => {
+  const makeEvent = (instance_id: string, overrides: Partial<Event> = {}): Event => ({
+    instance_id,
+    title: `Event ${instance_id}`,
+    bar_id: 'bar-1',
+    bar_name: 'Bar One',
+    latitude: 42.35,
+    longitude: -71.06,
+    start_time: '2026-10-20T20:00:00',
+    ...overrides,
+  });
+
+  it('returns an empty list for no events', () => {
+    expect(groupEventsByBar([])).toEqual([]);
+  });
+
+  it('groups instances by bar_id and sorts each bar soonest first', () => {
+    const groups = groupEventsByBar([
+      makeEvent('late', { start_time: '2026-10-22T20:00:00' }),
+      makeEvent('early', { start_time: '2026-10-20T19:00:00' }),
+      makeEvent('other', { bar_id: 'bar-2', bar_name: 'Bar Two', start_time: '2026-10-21T20:00:00' }),
+    ]);
+
+    expect(groups.map((group) => group.id)).toEqual(['bar-1', 'bar-2']);
+    expect(groups[0].events.map((event) => event.instance_id)).toEqual(['early', 'late']);
+    expect(groups[0]).toMatchObject({ bar_name: 'Bar One', latitude: 42.35, longitude: -71.06 });
+  });
+
+  it('orders bars by their next event', () => {
+    const groups = groupEventsByBar([
+      makeEvent('a', { start_time: '2026-10-25T20:00:00' }),
+      makeEvent('b', { bar_id: 'bar-2', start_time: '2026-10-21T20:00:00' }),
+    ]);
+
+    expect(groups.map((group) => group.id)).toEqual(['bar-2', 'bar-1']);
+  });
+
+  it('takes coordinates from any instance that has them', () => {
+    const groups = groupEventsByBar([
+      makeEvent('a', { latitude: undefined, longitude: undefined }),
+      makeEvent('b', { latitude: 40.7, longitude: -74 }),
+    ]);
+
+    expect(groups).toHaveLength(1);
+    expect(groups[0]).toMatchObject({ latitude: 40.7, longitude: -74 });
+  });
+
+  it('falls back to bar name and position when bar_id is missing', () => {
+    const groups = groupEventsByBar([
+      makeEvent('a', { bar_id: undefined }),
+      makeEvent('b', { bar_id: undefined }),
+      makeEvent('c', { bar_id: undefined, bar_name: 'Elsewhere' }),
+    ]);
+
+    expect(groups).toHaveLength(2);
+    expect(groups[0].events).toHaveLength(2);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// buildEventListRows
+// ---------------------------------------------------------------------------
+
+describe('buildEventListRows', () => {
+  const makeEvent = (instance_id: string, date?: string): Event => ({
+    instance_id,
+    title: `Event ${instance_id}`,
+    bar_name: 'Bar',
+    date,
+    start_time: '20:00:00',
+  });
+
+  it('returns no rows for no events', () => {
+    expect(buildEventListRows([])).toEqual([]);
+  });
+
+  it('sorts events by date with one separator per day', () => {
+    const rows = buildEventListRows([
+      makeEvent('later', '2030-03-02'),
+      makeEvent('first', '2030-03-01'),
+      makeEvent('second', '2030-03-01'),
+    ]);
+
+    expect(rows.map((row) => row.type)).toEqual(['date', 'event', 'event', 'date', 'event']);
+    expect(rows.filter((row) => row.type === 'event').map((row) => row.key)).toEqual([
+      'event-first',
+      'event-second',
+      'event-later',
+    ]);
+    expect(rows[0].key).toContain('2030-03-01');
+  });
+
+  it('puts undated events last under a placeholder heading', () => {
+    const rows = buildEventListRows([makeEvent('undated'), makeEvent('dated', '2030-03-01')]);
+
+    expect(rows[rows.length - 2]).toMatchObject({ type: 'date', label: 'Date coming soon' });
+    expect(rows[rows.length - 1].key).toBe('event-undated');
+  });
+
+  it('keeps only events inside a date filter and labels days with its time of day', () => {
+    const at = (instance_id: string, start_time: string): Event => ({ instance_id, title: 'T', start_time });
+    const rows = buildEventListRows(
+      [at('early', '2030-03-01T18:00:00'), at('late', '2030-03-01T22:00:00'), at('next-day', '2030-03-02T22:00:00')],
+      {
+        dateFilter: { preset: 'custom', startDate: '2030-03-01', endDate: '2030-03-01', startsAfter: 21 * 60, startsBefore: null },
+        timeFormat: '12h',
+      }
+    );
+
+    expect(rows.map((row) => row.key)).toEqual([expect.stringContaining('date-2030-03-01'), 'event-late']);
+    expect(rows[0]).toMatchObject({ type: 'date', label: expect.stringMatching(/ · after 9 PM$/) });
+  });
+});
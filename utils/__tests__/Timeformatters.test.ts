@@ -1,4 +1,17 @@
-import { parseTimeToken, formatClosingTimeLabel, getTodaysHours } from '../Timeformatters';
+import {
+  parseTimeToken,
+  formatClosesAtLabel,
+  formatClosingTimeLabel,
+  formatLastUpdatedLabel,
+  formatOpenStatusLabel,
+  formatPlanTimeLabel,
+  formatShortTime,
+  getBarOpenStatus,
+  getNextClosingTime,
+  getOpenStatusLabel,
+  getTodaysHours,
+  isBarOpenAt,
+} from '../Timeformatters';
 import { BarHours } from '../../types';
 
 // ---------------------------------------------------------------------------
@@ -135,19 +148,251 @@ describe('getTodaysHours', () => {
     const hours = [makeHours({ open_time: '11:00:00', close_time: '23:00:00' })];
     const result = getTodaysHours(hours);
     expect(result.isClosed).toBe(false);
-    expect(result.open).toBe('11:00 AM');
-    expect(result.close).toBe('11:00 PM');
+    expect(result.open).toBe('11 AM');
+    expect(result.close).toBe('11 PM');
   });
 
   it('formats midnight close (00:00:00) correctly', () => {
     const hours = [makeHours({ close_time: '00:00:00' })];
     const result = getTodaysHours(hours);
-    expect(result.close).toBe('12:00 AM');
+    expect(result.close).toBe('12 AM');
   });
 
   it('formats noon open (12:00:00) correctly', () => {
     const hours = [makeHours({ open_time: '12:00:00' })];
     const result = getTodaysHours(hours);
-    expect(result.open).toBe('12:00 PM');
+    expect(result.open).toBe('12 PM');
+  });
+
+  it('follows the 24-hour time format preference', () => {
+    const hours = [makeHours({ open_time: '09:30:00', close_time: '00:00:00' })];
+    const result = getTodaysHours(hours, new Date(), undefined, '24h');
+    expect(result.open).toBe('09:30');
+    expect(result.close).toBe('00:00');
+  });
+});
+
+// Monday 19 October 2026, local time
+const at = (day: number, hours: number, minutes = 0) => new Date(2026, 9, 19 + day, hours, minutes);
+const MONDAY = 1;
+const TUESDAY = 2;
+
+describe('getTodaysHours after midnight', () => {
+  it("keeps last night's overnight schedule until it closes", () => {
+    const hours = [
+      makeHours({ id: 'mon', day_of_week: MONDAY, open_time: '20:00:00', close_time: '02:00:00', crosses_midnight: true }),
+      makeHours({ id: 'tue', day_of_week: TUESDAY, open_time: '16:00:00', close_time: '23:00:00' }),
+    ];
+
+    expect(getTodaysHours(hours, at(1, 0, 30))).toEqual({ open: '8 PM', close: '2 AM', isClosed: false });
+    expect(getTodaysHours(hours, at(1, 3))).toEqual({ open: '4 PM', close: '11 PM', isClosed: false });
+  });
+});
+
+// ---------------------------------------------------------------------------
+// formatShortTime
+// ---------------------------------------------------------------------------
+
+describe('formatShortTime', () => {
+  it('drops zero minutes and keeps others', () => {
+    expect(formatShortTime(at(0, 16))).toBe('4 PM');
+    expect(formatShortTime(at(0, 0, 30))).toBe('12:30 AM');
+  });
+
+  it('pads hours and minutes on a 24-hour clock', () => {
+    expect(formatShortTime(at(0, 16), undefined, '24h')).toBe('16:00');
+    expect(formatShortTime(at(0, 0, 30), undefined, '24h')).toBe('00:30');
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Hours engine
+// ---------------------------------------------------------------------------
+
+describe('getBarOpenStatus / formatOpenStatusLabel', () => {
+  const label = (hours: BarHours[], now: Date) => formatOpenStatusLabel(getBarOpenStatus(hours, now), now);
+  const monday = (open: string, close: string, overrides: Partial<BarHours> = {}) =>
+    makeHours({ day_of_week: MONDAY, open_time: open, close_time: close, ...overrides });
+
+  it('is open with the closing time during a same-day span', () => {
+    const status = getBarOpenStatus([monday('17:00:00', '23:00:00')], at(0, 20));
+
+    expect(status).toMatchObject({ isOpen: true, isClosingSoon: false, opensAt: null, dayOfWeek: MONDAY });
+    expect(status.closesAt).toEqual(at(0, 23));
+    expect(label([monday('17:00:00', '23:00:00')], at(0, 20))).toBe('Open until 11 PM');
+  });
+
+  it('counts down once closing is within the hour', () => {
+    const status = getBarOpenStatus([monday('17:00:00', '23:00:00')], at(0, 22, 35));
+
+    expect(status.isClosingSoon).toBe(true);
+    expect(formatOpenStatusLabel(status, at(0, 22, 35))).toBe('Closes in 25 min');
+  });
+
+  it('stays open past midnight on overnight spans', () => {
+    const hours = [monday('20:00:00', '02:00:00', { crosses_midnight: true })];
+    const status = getBarOpenStatus(hours, at(1, 0, 30));
+
+    expect(status).toMatchObject({ isOpen: true, dayOfWeek: MONDAY });
+    expect(status.closesAt).toEqual(at(1, 2));
+    expect(label(hours, at(1, 0, 30))).toBe('Open until 2 AM');
+  });
+
+  it('treats a close time before the open time as overnight even without the flag', () => {
+    const hours = [monday('20:00:00', '01:30:00')];
+
+    expect(label(hours, at(1, 1))).toBe('Closes in 30 min');
+  });
+
+  it('reports the next opening later today', () => {
+    expect(label([monday('16:00:00', '23:00:00')], at(0, 10))).toBe('Opens at 4 PM');
+  });
+
+  it('reports the next opening tomorrow', () => {
+    const hours = [makeHours({ day_of_week: TUESDAY, open_time: '16:30:00', close_time: '23:00:00' })];
+
+    expect(label(hours, at(0, 23, 30))).toBe('Opens tomorrow at 4:30 PM');
+  });
+
+  it('skips closed days when finding the next opening', () => {
+    const hours = [
+      monday('16:00:00', '23:00:00', { is_closed: true }),
+      makeHours({ day_of_week: 3, open_time: '16:00:00', close_time: '23:00:00' }),
+    ];
+    const status = getBarOpenStatus(hours, at(0, 12));
+
+    expect(status.isOpen).toBe(false);
+    expect(status.opensAt).toEqual(at(2, 16));
+    expect(formatOpenStatusLabel(status, at(0, 12))).toBe('Opens Wed at 4 PM');
+  });
+
+  it('joins back-to-back spans into one opening', () => {
+    const hours = [
+      monday('12:00:00', '00:00:00'),
+      makeHours({ day_of_week: TUESDAY, open_time: '00:00:00', close_time: '02:00:00' }),
+    ];
+
+    expect(getBarOpenStatus(hours, at(0, 23)).closesAt).toEqual(at(1, 2));
+  });
+
+  it('reads a bar open around the clock as open 24 hours', () => {
+    const hours = Array.from({ length: 7 }, (_, day) =>
+      makeHours({ id: String(day), day_of_week: day, open_time: '00:00:00', close_time: '00:00:00' })
+    );
+
+    expect(label(hours, at(0, 12))).toBe('Open 24 hours');
+  });
+
+  it('is closed with no next opening when every day is closed', () => {
+    const hours = [monday('16:00:00', '23:00:00', { is_closed: true })];
+
+    expect(getBarOpenStatus(hours, at(0, 20))).toMatchObject({ isOpen: false, opensAt: null, dayOfWeek: MONDAY });
+    expect(label(hours, at(0, 20))).toBe('Closed');
+  });
+});
+
+describe('getOpenStatusLabel', () => {
+  it('returns null when there are no usable hours', () => {
+    expect(getOpenStatusLabel([], at(0, 12))).toBeNull();
+    expect(getOpenStatusLabel([makeHours({ open_time: '' })], at(0, 12))).toBeNull();
+  });
+
+  it('returns the status label otherwise', () => {
+    const hours = [makeHours({ day_of_week: MONDAY, open_time: '16:00:00', close_time: '23:00:00' })];
+
+    expect(getOpenStatusLabel(hours, at(0, 10))).toBe('Opens at 4 PM');
+  });
+
+  it('uses the 24-hour clock when asked', () => {
+    const hours = [makeHours({ day_of_week: MONDAY, open_time: '16:00:00', close_time: '23:00:00' })];
+
+    expect(getOpenStatusLabel(hours, at(0, 10), undefined, '24h')).toBe('Opens at 16:00');
+  });
+});
+
+describe('isBarOpenAt', () => {
+  const hours = [makeHours({ day_of_week: MONDAY, open_time: '17:00:00', close_time: '23:00:00' })];
+
+  it('checks the schedule at the given moment', () => {
+    expect(isBarOpenAt(hours, at(0, 21))).toBe(true);
+    expect(isBarOpenAt(hours, at(0, 23, 30))).toBe(false);
+  });
+
+  it('returns null when the hours cannot tell', () => {
+    expect(isBarOpenAt([], at(0, 21))).toBeNull();
+  });
+});
+
+describe('formatPlanTimeLabel', () => {
+  it('names today and tomorrow, then the weekday', () => {
+    expect(formatPlanTimeLabel(at(0, 21), at(0, 12))).toBe('Today at 9 PM');
+    expect(formatPlanTimeLabel(at(1, 20, 30), at(0, 12))).toBe('Tomorrow at 8:30 PM');
+    expect(formatPlanTimeLabel(at(5, 22), at(0, 12))).toBe('Sat at 10 PM');
+  });
+});
+
+describe('hours in the venue time zone', () => {
+  const LA = 'America/Los_Angeles';
+  const hours = [makeHours({ day_of_week: MONDAY, open_time: '17:00:00', close_time: '23:00:00' })];
+  // Monday 8 PM in Los Angeles, already Tuesday in UTC
+  const now = new Date(Date.UTC(2026, 9, 20, 3, 0));
+
+  it("reads the schedule on the bar's clock", () => {
+    const status = getBarOpenStatus(hours, now, LA);
+
+    expect(status).toMatchObject({ isOpen: true, dayOfWeek: MONDAY });
+    expect(status.closesAt).toEqual(new Date(Date.UTC(2026, 9, 20, 6, 0)));
+    expect(getTodaysHours(hours, now, LA)).toEqual({ open: '5 PM', close: '11 PM', isClosed: false });
+  });
+
+  it('adds the device time when the zones differ', () => {
+    const closesAt = new Date(Date.UTC(2026, 9, 20, 6, 0));
+    const expected = formatShortTime(closesAt) === '11 PM'
+      ? 'Open until 11 PM'
+      : `Open until 11 PM (${formatShortTime(closesAt)} your time)`;
+
+    expect(getOpenStatusLabel(hours, now, LA)).toBe(expected);
+  });
+
+  it('formats short times in the zone', () => {
+    expect(formatShortTime(new Date(Date.UTC(2026, 9, 20, 3, 30)), LA)).toBe('8:30 PM');
+  });
+
+  it("reads closes_at on the bar's clock", () => {
+    // 11 PM Monday in Los Angeles is 6 AM Tuesday UTC, still ahead of 8 PM there
+    expect(getNextClosingTime('23:00', now, LA)).toEqual(new Date(Date.UTC(2026, 9, 20, 6, 0)));
+    // 7 PM has passed in Los Angeles, so the bar closes at 7 PM Tuesday there
+    expect(getNextClosingTime('19:00', now, LA)).toEqual(new Date(Date.UTC(2026, 9, 21, 2, 0)));
+    expect(formatClosesAtLabel('23:00', now, LA)).toMatch(/^Closes 11 PM/);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// formatLastUpdatedLabel
+// ---------------------------------------------------------------------------
+
+describe('formatLastUpdatedLabel', () => {
+  const NOW = Date.parse('2024-06-15T20:00:00Z');
+  const MINUTE = 60_000;
+
+  it('returns "just now" for less than a minute', () => {
+    expect(formatLastUpdatedLabel(NOW - 30_000, NOW)).toBe('Updated just now');
+  });
+
+  it('treats a timestamp in the future as just now', () => {
+    expect(formatLastUpdatedLabel(NOW + 5 * MINUTE, NOW)).toBe('Updated just now');
+  });
+
+  it('formats minutes', () => {
+    expect(formatLastUpdatedLabel(NOW - 25 * MINUTE, NOW)).toBe('Updated 25 min ago');
+  });
+
+  it('formats hours', () => {
+    expect(formatLastUpdatedLabel(NOW - 3 * 60 * MINUTE, NOW)).toBe('Updated 3 hr ago');
+  });
+
+  it('formats days with pluralisation', () => {
+    expect(formatLastUpdatedLabel(NOW - 24 * 60 * MINUTE, NOW)).toBe('Updated 1 day ago');
+    expect(formatLastUpdatedLabel(NOW - 72 * 60 * MINUTE, NOW)).toBe('Updated 3 days ago');
   });
 });
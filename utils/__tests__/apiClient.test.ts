@@ -0,0 +1,342 @@
+jest.mock('../constants', () => ({
+  ...jest.requireActual('../constants'),
+  NORMALIZED_BASE_URL: 'https://api.example.com',
+}));
+
+import {
+  ApiError,
+  apiRequest,
+  buildApiUrl,
+  isAbortError,
+  isApiConfigured,
+  refreshAccessToken,
+  setTokenRefresher,
+  setUnauthorizedHandler,
+} from '../apiClient';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const mockFetch = jest.fn();
+
+const jsonResponse = (body: unknown, status = 200) => ({
+  ok: status >= 200 && status < 300,
+  status,
+  json: () => Promise.resolve(body),
+});
+
+// Resolve with the rejection reason so error fields can be asserted directly
+const captureError = (promise: Promise<unknown>): Promise<ApiError> =>
+  promise.then(
+    () => { throw new Error('Expected the request to fail'); },
+    (err) => err,
+  );
+
+beforeEach(() => {
+  mockFetch.mockReset();
+  global.fetch = mockFetch as unknown as typeof fetch;
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+});
+
+// ---------------------------------------------------------------------------
+// buildApiUrl / isApiConfigured
+// ---------------------------------------------------------------------------
+
+describe('buildApiUrl', () => {
+  it('resolves the path against the base URL', () => {
+    expect(buildApiUrl('/bars')).toBe('https://api.example.com/bars');
+  });
+
+  it('adds a leading slash when missing', () => {
+    expect(buildApiUrl('bars')).toBe('https://api.example.com/bars');
+  });
+
+  it('appends the query string and skips empty values', () => {
+    expect(buildApiUrl('/bars', { page: 2, tag: undefined, q: 'irish pub' }))
+      .toBe('https://api.example.com/bars?page=2&q=irish%20pub');
+  });
+});
+
+describe('isApiConfigured', () => {
+  it('is true when a base URL is set', () => {
+    expect(isApiConfigured()).toBe(true);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// apiRequest
+// ---------------------------------------------------------------------------
+
+describe('apiRequest', () => {
+  it('returns the parsed JSON body', async () => {
+    mockFetch.mockResolvedValue(jsonResponse({ data: [1, 2] }));
+    await expect(apiRequest('/bars')).resolves.toEqual({ data: [1, 2] });
+    expect(mockFetch.mock.calls[0][1].method).toBe('GET');
+  });
+
+  it('sends the bearer token and a JSON body', async () => {
+    mockFetch.mockResolvedValue(jsonResponse({}));
+    await apiRequest('/appUsers/me', { method: 'PUT', token: 'abc', body: { full_name: 'Sam' } });
+
+    const [, init] = mockFetch.mock.calls[0];
+    expect(init.method).toBe('PUT');
+    expect(init.headers).toEqual({
+      Authorization: 'Bearer abc',
+      'Content-Type': 'application/json',
+    });
+    expect(init.body).toBe(JSON.stringify({ full_name: 'Sam' }));
+  });
+
+  it('resolves to null when the body is not JSON', async () => {
+    mockFetch.mockResolvedValue({ ok: true, status: 204, json: () => Promise.reject(new Error('empty')) });
+    await expect(apiRequest('/appUsers/ping', { method: 'POST' })).resolves.toBeNull();
+  });
+
+  it('throws an ApiError with status, code and server message', async () => {
+    mockFetch.mockResolvedValue(jsonResponse({ message: 'Email already in use', code: 'EMAIL_TAKEN' }, 409));
+
+    const error = await captureError(apiRequest('/appUsers/register'));
+    expect(error).toBeInstanceOf(ApiError);
+    expect(error.status).toBe(409);
+    expect(error.code).toBe('EMAIL_TAKEN');
+    expect(error.serverMessage).toBe('Email already in use');
+    expect(error.message).toBe('Email already in use');
+  });
+
+  it('reads nested error payloads', async () => {
+    mockFetch.mockResolvedValue(jsonResponse({ error: { message: 'Bad tag', code: 'INVALID_TAG' } }, 400));
+
+    const error = await captureError(apiRequest('/bars'));
+    expect(error.serverMessage).toBe('Bad tag');
+    expect(error.code).toBe('INVALID_TAG');
+  });
+
+  it('falls back to a status message when the server sends none', async () => {
+    mockFetch.mockResolvedValue(jsonResponse(null, 500));
+
+    const error = await captureError(apiRequest('/bars'));
+    expect(error.message).toBe('Request failed with status 500');
+    expect(error.code).toBe('http_error');
+    expect(error.serverMessage).toBeUndefined();
+  });
+
+  it('wraps network failures in an ApiError with status 0', async () => {
+    mockFetch.mockRejectedValue(new Error('Network request failed'));
+
+    const error = await captureError(apiRequest('/bars'));
+    expect(error).toBeInstanceOf(ApiError);
+    expect(error.status).toBe(0);
+    expect(error.code).toBe('network_error');
+    expect(error.message).toBe('Network request failed');
+  });
+
+  it('reports a timeout when the request takes too long', async () => {
+    jest.useFakeTimers();
+    mockFetch.mockImplementation((_url: string, init: RequestInit) => new Promise((_resolve, reject) => {
+      init.signal?.addEventListener('abort', () => {
+        reject(Object.assign(new Error('Aborted'), { name: 'AbortError' }));
+      });
+    }));
+
+    const pending = captureError(apiRequest('/bars', { timeoutMs: 1_000 }));
+    jest.advanceTimersByTime(1_000);
+
+    const error = await pending;
+    expect(error).toBeInstanceOf(ApiError);
+    expect(error.code).toBe('timeout');
+  });
+
+  it('throws an AbortError when the caller cancels', async () => {
+    mockFetch.mockImplementation((_url: string, init: RequestInit) => new Promise((_resolve, reject) => {
+      init.signal?.addEventListener('abort', () => {
+        reject(Object.assign(new Error('Aborted'), { name: 'AbortError' }));
+      });
+    }));
+
+    const controller = new AbortController();
+    const pending = captureError(apiRequest('/bars', { signal: controller.signal }));
+    controller.abort();
+
+    const error = await pending;
+    expect(error).not.toBeInstanceOf(ApiError);
+    expect(isAbortError(error)).toBe(true);
+  });
+
+  it('does not call fetch when the signal is already aborted', async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    const error = await captureError(apiRequest('/bars', { signal: controller.signal }));
+    expect(isAbortError(error)).toBe(true);
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+});
+
+// ---------------------------------------------------------------------------
+// setUnauthorizedHandler
+// ---------------------------------------------------------------------------
+
+describe('setUnauthorizedHandler', () => {
+  const handler = jest.fn();
+
+  beforeEach(() => {
+    handler.mockReset();
+    setUnauthorizedHandler(handler);
+  });
+
+  afterEach(() => {
+    setUnauthorizedHandler(null);
+  });
+
+  it.each([401, 403])('runs the handler when an authenticated request gets %i', async (status) => {
+    mockFetch.mockResolvedValue(jsonResponse({ message: 'Token expired' }, status));
+
+    const error = await captureError(apiRequest('/appUsers/me', { token: 'stale' }));
+    expect(handler).toHaveBeenCalledWith(error);
+    expect(error.status).toBe(status);
+  });
+
+  it('ignores 401s from requests without a token', async () => {
+    mockFetch.mockResolvedValue(jsonResponse({ message: 'Invalid credentials' }, 401));
+
+    await captureError(apiRequest('/appUsers/login', { method: 'POST' }));
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('ignores a rejected current password', async () => {
+    mockFetch.mockResolvedValue(jsonResponse({ code: 'invalid_current_password' }, 403));
+
+    const error = await captureError(apiRequest('/appUsers/me', { method: 'PUT', token: 'abc' }));
+    expect(error.code).toBe('invalid_current_password');
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('ignores other error statuses', async () => {
+    mockFetch.mockResolvedValue(jsonResponse(null, 500));
+
+    await captureError(apiRequest('/appUsers/me', { token: 'abc' }));
+    expect(handler).not.toHaveBeenCalled();
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Token refresh
+// ---------------------------------------------------------------------------
+
+describe('token refresh', () => {
+  const refresher = jest.fn();
+  const unauthorized = jest.fn();
+
+  beforeEach(() => {
+    refresher.mockReset();
+    unauthorized.mockReset();
+    setTokenRefresher(refresher);
+    setUnauthorizedHandler(unauthorized);
+  });
+
+  afterEach(() => {
+    setTokenRefresher(null);
+    setUnauthorizedHandler(null);
+  });
+
+  it('refreshes and retries once with the new token on a 401', async () => {
+    refresher.mockResolvedValue('fresh-token');
+    mockFetch
+      .mockResolvedValueOnce(jsonResponse({ message: 'jwt expired' }, 401))
+      .mockResolvedValueOnce(jsonResponse({ data: { id: 'user-1' } }));
+
+    await expect(apiRequest('/appUsers/me', { token: 'stale-token' })).resolves.toEqual({ data: { id: 'user-1' } });
+    expect(refresher).toHaveBeenCalledTimes(1);
+    expect(mockFetch.mock.calls[1][1].headers.Authorization).toBe('Bearer fresh-token');
+    expect(unauthorized).not.toHaveBeenCalled();
+  });
+
+  it('ends the session when the refresh is rejected', async () => {
+    refresher.mockResolvedValue(null);
+    mockFetch.mockResolvedValue(jsonResponse({ message: 'jwt expired' }, 401));
+
+    const error = await captureError(apiRequest('/appUsers/me', { token: 'stale-token' }));
+    expect(error.status).toBe(401);
+    expect(unauthorized).toHaveBeenCalledWith(error);
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('keeps the session and rethrows when the refresh cannot reach the server', async () => {
+    refresher.mockRejectedValue(new ApiError('Network request failed', { status: 0, code: 'network_error' }));
+    mockFetch.mockResolvedValue(jsonResponse({ message: 'jwt expired' }, 401));
+
+    const error = await captureError(apiRequest('/appUsers/me', { token: 'stale-token' }));
+    expect(error.code).toBe('network_error');
+    expect(unauthorized).not.toHaveBeenCalled();
+  });
+
+  it('keeps the session when the refresh endpoint fails with a server error', async () => {
+    refresher.mockRejectedValue(new ApiError('Request failed with status 503', { status: 503, code: 'http_error' }));
+    mockFetch.mockResolvedValue(jsonResponse({ message: 'jwt expired' }, 401));
+
+    const error = await captureError(apiRequest('/appUsers/me', { token: 'stale-token' }));
+    expect(error.status).toBe(503);
+    expect(unauthorized).not.toHaveBeenCalled();
+  });
+
+  it('ends the session when the retried request is still unauthorized', async () => {
+    refresher.mockResolvedValue('fresh-token');
+    mockFetch.mockResolvedValue(jsonResponse({ message: 'revoked' }, 401));
+
+    await captureError(apiRequest('/appUsers/me', { token: 'stale-token' }));
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+    expect(unauthorized).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not refresh on a 403', async () => {
+    mockFetch.mockResolvedValue(jsonResponse({ message: 'Forbidden' }, 403));
+
+    await captureError(apiRequest('/appUsers/me', { token: 'abc' }));
+    expect(refresher).not.toHaveBeenCalled();
+    expect(unauthorized).toHaveBeenCalledTimes(1);
+  });
+
+  it('shares one refresh between concurrent 401s', async () => {
+    let resolveRefresh: (token: string) => void = () => {};
+    refresher.mockReturnValue(new Promise<string>((resolve) => { resolveRefresh = resolve; }));
+    mockFetch.mockImplementation((_url: string, init: RequestInit) => {
+      const authorization = (init.headers as Record<string, string>).Authorization;
+      return Promise.resolve(authorization === 'Bearer fresh-token'
+        ? jsonResponse({ ok: true })
+        : jsonResponse({ message: 'jwt expired' }, 401));
+    });
+
+    const first = apiRequest('/appUsers/me', { token: 'stale-token' });
+    const second = apiRequest('/appUsers/me/favorites', { token: 'stale-token' });
+    await new Promise((resolve) => setImmediate(resolve));
+    resolveRefresh('fresh-token');
+
+    await expect(Promise.all([first, second])).resolves.toEqual([{ ok: true }, { ok: true }]);
+    expect(refresher).toHaveBeenCalledTimes(1);
+  });
+
+  it('holds new authenticated requests until an in-flight refresh settles', async () => {
+    let resolveRefresh: (token: string) => void = () => {};
+    refresher.mockReturnValue(new Promise<string>((resolve) => { resolveRefresh = resolve; }));
+    mockFetch.mockResolvedValue(jsonResponse({ ok: true }));
+
+    const refreshing = refreshAccessToken();
+    const pending = apiRequest('/appUsers/me', { token: 'stale-token' });
+    expect(mockFetch).not.toHaveBeenCalled();
+
+    resolveRefresh('fresh-token');
+    await refreshing;
+    await pending;
+
+    expect(mockFetch.mock.calls[0][1].headers.Authorization).toBe('Bearer fresh-token');
+  });
+
+  it('resolves to null when no refresher is registered', async () => {
+    setTokenRefresher(null);
+    await expect(refreshAccessToken()).resolves.toBeNull();
+  });
+});
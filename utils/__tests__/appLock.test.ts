@@ -0,0 +1,88 @@
+import { DEFAULT_APP_LOCK_SETTINGS, authenticateWithDevice, parseAppLockSettings } from '../appLock';
+
+// ---------------------------------------------------------------------------
+// Mocks
+// ---------------------------------------------------------------------------
+
+const mockGetEnrolledLevelAsync = jest.fn();
+const mockAuthenticateAsync = jest.fn();
+
+jest.mock('expo-local-authentication', () => ({
+  SecurityLevel: { NONE: 0, SECRET: 1, BIOMETRIC_WEAK: 2, BIOMETRIC_STRONG: 3 },
+  getEnrolledLevelAsync: (...args: unknown[]) => mockGetEnrolledLevelAsync(...args),
+  authenticateAsync: (...args: unknown[]) => mockAuthenticateAsync(...args),
+}));
+
+jest.mock('expo-secure-store', () => ({
+  getItemAsync: jest.fn(),
+  setItemAsync: jest.fn(),
+}));
+
+beforeEach(() => {
+  jest.clearAllMocks();
+});
+
+// ---------------------------------------------------------------------------
+// parseAppLockSettings
+// ---------------------------------------------------------------------------
+
+describe('parseAppLockSettings', () => {
+  it('returns defaults when nothing is stored', () => {
+    expect(parseAppLockSettings(null)).toEqual(DEFAULT_APP_LOCK_SETTINGS);
+  });
+
+  it('returns defaults for malformed JSON', () => {
+    expect(parseAppLockSettings('not-json')).toEqual(DEFAULT_APP_LOCK_SETTINGS);
+  });
+
+  it('reads stored values', () => {
+    expect(parseAppLockSettings(JSON.stringify({ enabled: true, idleTimeoutMs: 0 })))
+      .toEqual({ enabled: true, idleTimeoutMs: 0 });
+  });
+
+  it('falls back to the default idle period for invalid values', () => {
+    expect(parseAppLockSettings(JSON.stringify({ enabled: true, idleTimeoutMs: -5 })))
+      .toEqual({ enabled: true, idleTimeoutMs: DEFAULT_APP_LOCK_SETTINGS.idleTimeoutMs });
+  });
+});
+
+// ---------------------------------------------------------------------------
+// authenticateWithDevice
+// ---------------------------------------------------------------------------
+
+describe('authenticateWithDevice', () => {
+  it('fails with guidance when nothing is enrolled', async () => {
+    mockGetEnrolledLevelAsync.mockResolvedValue(0);
+
+    const result = await authenticateWithDevice('Unlock');
+    expect(result.success).toBe(false);
+    expect(result.message).toMatch(/passcode/);
+    expect(mockAuthenticateAsync).not.toHaveBeenCalled();
+  });
+
+  it('allows the device passcode fallback', async () => {
+    mockGetEnrolledLevelAsync.mockResolvedValue(1);
+    mockAuthenticateAsync.mockResolvedValue({ success: true });
+
+    await expect(authenticateWithDevice('Unlock')).resolves.toEqual({ success: true });
+    expect(mockAuthenticateAsync).toHaveBeenCalledWith(
+      expect.objectContaining({ promptMessage: 'Unlock', disableDeviceFallback: false })
+    );
+  });
+
+  it('fails quietly when the user cancels', async () => {
+    mockGetEnrolledLevelAsync.mockResolvedValue(3);
+    mockAuthenticateAsync.mockResolvedValue({ success: false, error: 'user_cancel' });
+
+    await expect(authenticateWithDevice('Unlock')).resolves.toEqual({ success: false });
+  });
+
+  it('reports other failures', async () => {
+    mockGetEnrolledLevelAsync.mockResolvedValue(3);
+    mockAuthenticateAsync.mockResolvedValue({ success: false, error: 'lockout' });
+
+    const result = await authenticateWithDevice('Unlock');
+    expect(result.success).toBe(false);
+    expect(result.message).toBeDefined();
+  });
+});
@@ -0,0 +1,53 @@
+import { decodeJwtExpiry, getTokenExpiry } from '../authTokens';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const base64Url = (value: object) =>
+  Buffer.from(JSON.stringify(value)).toString('base64').replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+const makeJwt = (claims: object) => `${base64Url({ alg: 'HS256', typ: 'JWT' })}.${base64Url(claims)}.signature`;
+
+// ---------------------------------------------------------------------------
+// decodeJwtExpiry
+// ---------------------------------------------------------------------------
+
+describe('decodeJwtExpiry', () => {
+  it('returns the exp claim in milliseconds', () => {
+    expect(decodeJwtExpiry(makeJwt({ sub: 'user-1', exp: 1_700_000_000 }))).toBe(1_700_000_000_000);
+  });
+
+  it('returns null when the token has no exp claim', () => {
+    expect(decodeJwtExpiry(makeJwt({ sub: 'user-1' }))).toBeNull();
+  });
+
+  it('returns null for opaque tokens', () => {
+    expect(decodeJwtExpiry('opaque-token')).toBeNull();
+  });
+
+  it('returns null when the payload is not valid JSON', () => {
+    expect(decodeJwtExpiry('header.%%%.signature')).toBeNull();
+  });
+});
+
+// ---------------------------------------------------------------------------
+// getTokenExpiry
+// ---------------------------------------------------------------------------
+
+describe('getTokenExpiry', () => {
+  const NOW = 1_000_000;
+
+  it('prefers the JWT exp claim over expires_in', () => {
+    expect(getTokenExpiry(makeJwt({ exp: 5_000 }), 60, NOW)).toBe(5_000_000);
+  });
+
+  it('falls back to expires_in seconds for opaque tokens', () => {
+    expect(getTokenExpiry('opaque-token', 60, NOW)).toBe(NOW + 60_000);
+  });
+
+  it('returns null when neither source is available', () => {
+    expect(getTokenExpiry('opaque-token', undefined, NOW)).toBeNull();
+    expect(getTokenExpiry('opaque-token', 0, NOW)).toBeNull();
+  });
+});
@@ -0,0 +1,187 @@
+import {
+  extractSearchBars,
+  extractTaggedSearchBars,
+  findAddressMatches,
+  findMatchingTags,
+  getBarSearchMatch,
+  mapToSearchBar,
+  mergeSearchBars,
+} from '../barSearch';
+import type { Bar, searchBar, TagFilterOption } from '../../types';
+
+const bar = (overrides: Partial<searchBar> = {}): searchBar => ({
+  id: '1',
+  name: 'The Crown',
+  address_street: '12 Tremont Street',
+  address_city: 'Boston',
+  address_state: 'MA',
+  address_zip: '02116',
+  tags: [
+    { id: 't1', name: 'Live Music' },
+    { id: 't2', name: 'Rooftop' },
+  ],
+  ...overrides,
+});
+
+// ---------------------------------------------------------------------------
+// getBarSearchMatch
+// ---------------------------------------------------------------------------
+
+describe('getBarSearchMatch', () => {
+  it('matches the name first, case-insensitively', () => {
+    expect(getBarSearchMatch(bar(), 'crown')).toEqual({ field: 'name', text: 'The Crown', start: 4, end: 9 });
+  });
+
+  it('explains tag matches with the tag name', () => {
+    expect(getBarSearchMatch(bar(), 'rooftop')).toEqual({ field: 'tag', text: 'Rooftop', start: 0, end: 7 });
+  });
+
+  it('matches street, city and zip', () => {
+    expect(getBarSearchMatch(bar(), 'tremont')).toMatchObject({ field: 'street', text: '12 Tremont Street', start: 3 });
+    expect(getBarSearchMatch(bar(), 'boston')).toMatchObject({ field: 'city', text: 'Boston' });
+    expect(getBarSearchMatch(bar(), '021')).toEqual({ field: 'zip', text: '02116', start: 0, end: 3 });
+  });
+
+  it('prefers an earlier field when several match', () => {
+    expect(getBarSearchMatch(bar({ name: 'Boston Tap' }), 'boston')).toMatchObject({ field: 'name' });
+  });
+
+  it('falls back to the longest matching word of a longer query', () => {
+    expect(getBarSearchMatch(bar(), 'live  rooftop bar')).toMatchObject({ field: 'tag', text: 'Rooftop' });
+    expect(getBarSearchMatch(bar(), '  LIVE music ')).toMatchObject({ field: 'tag', text: 'Live Music', end: 10 });
+  });
+
+  it('returns undefined when nothing on the result matches', () => {
+    expect(getBarSearchMatch(bar(), 'karaoke')).toBeUndefined();
+    expect(getBarSearchMatch(bar({ tags: undefined, address_zip: undefined }), '02116')).toBeUndefined();
+    expect(getBarSearchMatch(bar(), '   ')).toBeUndefined();
+  });
+});
+
+// ---------------------------------------------------------------------------
+// mapToSearchBar / extractSearchBars
+// ---------------------------------------------------------------------------
+
+describe('mapToSearchBar', () => {
+  it('maps the address, tags and match', () => {
+    const result = mapToSearchBar(
+      { id: 9, name: 'Sky Bar', street: '1 Main St', city: 'Boston', state: 'MA', zip: '02116', tags: [{ id: 3, name: 'Rooftop' }, null] },
+      'roof'
+    );
+    expect(result).toEqual({
+      id: '9',
+      name: 'Sky Bar',
+      address_street: '1 Main St',
+      address_city: 'Boston',
+      address_state: 'MA',
+      address_zip: '02116',
+      tags: [{ id: '3', name: 'Rooftop', category: undefined }],
+      match: { field: 'tag', text: 'Rooftop', start: 0, end: 4 },
+    });
+  });
+
+  it('leaves out the match when none is found', () => {
+    expect(mapToSearchBar({ id: 1, name: 'Sky Bar' }, 'karaoke')).not.toHaveProperty('match');
+  });
+
+  it('returns null without an id', () => {
+    expect(mapToSearchBar({ id: ' ', name: 'Sky Bar' }, 'sky')).toBeNull();
+  });
+});
+
+describe('extractSearchBars', () => {
+  it('reads wrapped and bare arrays, skipping invalid items', () => {
+    const items = [{ id: 1, name: 'A' }, { id: null, name: 'B' }];
+    expect(extractSearchBars({ data: items }, 'a').map((result) => result.id)).toEqual(['1']);
+    expect(extractSearchBars(items, 'a')).toHaveLength(1);
+    expect(extractSearchBars({ message: 'nope' }, 'a')).toEqual([]);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Tag search
+// ---------------------------------------------------------------------------
+
+const tagOption = (id: string, name: string, category?: string): TagFilterOption => ({
+  id,
+  name,
+  normalizedName: id,
+  category,
+});
+
+describe('findMatchingTags', () => {
+  const tags = [
+    tagOption('t1', 'Rooftop'),
+    tagOption('t2', 'Rooftop Pool'),
+    tagOption('n1', 'Back Bay', 'Neighborhood'),
+    tagOption('t3', 'Live Music'),
+  ];
+
+  it('finds tags containing the query, closest names first', () => {
+    expect(findMatchingTags(tags, ' ROOF ').map((tag) => tag.id)).toEqual(['t1', 't2']);
+  });
+
+  it('finds tags named inside a longer query', () => {
+    expect(findMatchingTags(tags, 'back bay pubs').map((tag) => tag.id)).toEqual(['n1']);
+  });
+
+  it('ignores queries shorter than two characters', () => {
+    expect(findMatchingTags(tags, 'r')).toEqual([]);
+  });
+});
+
+describe('findAddressMatches', () => {
+  const loaded = (overrides: Partial<Bar> = {}): Bar => ({ ...bar(), hours: [], tags: bar().tags ?? [], ...overrides });
+
+  it('finds loaded bars by street, city or zip, highlighting the address', () => {
+    const bars = [loaded(), loaded({ id: '2', name: 'Harbor Tap', address_street: '1 Newbury St', address_zip: '02115' })];
+
+    expect(findAddressMatches(bars, '02116')).toEqual([
+      expect.objectContaining({ id: '1', match: { field: 'zip', text: '02116', start: 0, end: 5 } }),
+    ]);
+    expect(findAddressMatches(bars, 'newbury st')[0]).toMatchObject({
+      id: '2',
+      match: { field: 'street', text: '1 Newbury St', start: 2, end: 12 },
+    });
+    expect(findAddressMatches(bars, 'boston').map((result) => result.id)).toEqual(['1', '2']);
+  });
+
+  it('explains the match by the address even when a tag also matches', () => {
+    const bars = [loaded({ address_city: 'Rooftop City' })];
+
+    expect(findAddressMatches(bars, 'rooftop')[0].match).toMatchObject({ field: 'city' });
+  });
+
+  it('needs the whole query in one address field', () => {
+    expect(findAddressMatches([loaded()], 'tremont boston')).toEqual([]);
+    expect(findAddressMatches([loaded()], 'crown')).toEqual([]);
+  });
+});
+
+describe('extractTaggedSearchBars', () => {
+  const rooftop = tagOption('t2', 'Rooftop');
+
+  it('explains bars without another match by the tag, highlighting the query', () => {
+    const [result] = extractTaggedSearchBars({ data: [{ id: 5, name: 'Sky Bar' }] }, rooftop, 'roof');
+    expect(result.tags).toEqual([{ id: 't2', name: 'Rooftop', category: undefined }]);
+    expect(result.match).toEqual({ field: 'tag', text: 'Rooftop', start: 0, end: 4 });
+  });
+
+  it('highlights the whole tag when the query only contains it', () => {
+    const [result] = extractTaggedSearchBars([{ id: 5, name: 'Sky Bar' }], rooftop, 'rooftop bars');
+    expect(result.match).toEqual({ field: 'tag', text: 'Rooftop', start: 0, end: 7 });
+  });
+
+  it('keeps a match found on the bar itself', () => {
+    const [result] = extractTaggedSearchBars([{ id: 5, name: 'Rooftop Tavern' }], rooftop, 'rooftop');
+    expect(result.match).toMatchObject({ field: 'name' });
+  });
+});
+
+describe('mergeSearchBars', () => {
+  it('keeps the first copy of each bar in list order', () => {
+    const merged = mergeSearchBars([bar({ id: '1' }), bar({ id: '2' })], [bar({ id: '2', name: 'Dup' }), bar({ id: '3' })]);
+    expect(merged.map((result) => result.id)).toEqual(['1', '2', '3']);
+    expect(merged[1].name).toBe('The Crown');
+  });
+});
@@ -0,0 +1,102 @@
+import { getBarComparator } from '../barSorting';
+import type { Bar, BarHours } from '../../types';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const makeBar = (id: string, overrides: Partial<Bar> = {}): Bar => ({
+  id,
+  name: `Bar ${id}`,
+  tags: [],
+  hours: [],
+  ...overrides,
+});
+
+// Monday 19 October 2026, 9 PM local
+const NOW = new Date(2026, 9, 19, 21, 0);
+
+const mondayUntil = (close_time: string): BarHours[] => [
+  { id: 'h', day_of_week: 1, open_time: '17:00:00', close_time, is_closed: false, crosses_midnight: false },
+];
+
+const order = (bars: Bar[], comparator: (a: Bar, b: Bar) => number) => [...bars].sort(comparator).map((bar) => bar.id);
+
+// ---------------------------------------------------------------------------
+// getBarComparator
+// ---------------------------------------------------------------------------
+
+describe('getBarComparator', () => {
+  const context = { selectedTags: [], referenceTime: NOW };
+
+  it('sorts nearest first with unknown distances last', () => {
+    const bars = [
+      makeBar('far', { distance_miles: 4.2 }),
+      makeBar('unknown'),
+      makeBar('near', { distance_miles: 0.3 }),
+    ];
+
+    expect(order(bars, getBarComparator('nearest', context))).toEqual(['near', 'far', 'unknown']);
+  });
+
+  it('keeps server order for ties', () => {
+    const bars = [makeBar('b'), makeBar('a'), makeBar('c')];
+
+    expect(order(bars, getBarComparator('nearest', context))).toEqual(['b', 'a', 'c']);
+  });
+
+  it('sorts by closing time from hours, falling back to closes_at', () => {
+    const bars = [
+      makeBar('eleven', { hours: mondayUntil('23:00:00') }),
+      makeBar('two', { hours: mondayUntil('02:00:00') }),
+      makeBar('midnight', { closes_at: '00:00' }),
+      makeBar('unknown'),
+    ];
+
+    expect(order(bars, getBarComparator('closing_latest', context))).toEqual(['two', 'midnight', 'eleven', 'unknown']);
+    expect(order(bars, getBarComparator('closing_soonest', context))).toEqual(['eleven', 'midnight', 'two', 'unknown']);
+  });
+
+  it('measures closing times from the planned time', () => {
+    const bars = [makeBar('early', { closes_at: '22:00' }), makeBar('late', { closes_at: '23:30' })];
+
+    // At 10:30 PM the 10 PM closing time means tomorrow night
+    const plannedContext = { selectedTags: [], referenceTime: new Date(2026, 9, 19, 22, 30) };
+    expect(order(bars, getBarComparator('closing_soonest', plannedContext))).toEqual(['late', 'early']);
+  });
+
+  it("reads closes_at on the bar's clock", () => {
+    // 10 PM in Los Angeles is 5 AM UTC, after the 11 PM closing of a bar on the device's clock
+    const bars = [makeBar('la', { closes_at: '22:00', timezone: 'America/Los_Angeles' }), makeBar('local', { closes_at: '23:00' })];
+
+    expect(order(bars, getBarComparator('closing_soonest', { selectedTags: [], referenceTime: new Date(Date.UTC(2026, 9, 19, 21, 0)) }))).toEqual([
+      'local',
+      'la',
+    ]);
+  });
+
+  it('sorts A–Z ignoring case and reading numbers naturally', () => {
+    const bars = [makeBar('1', { name: 'bar 10' }), makeBar('2', { name: 'Bar 9' }), makeBar('3', { name: 'Alehouse' })];
+
+    expect(order(bars, getBarComparator('name', context))).toEqual(['3', '2', '1']);
+  });
+
+  it('ranks best matches by selected tags, then focus, then distance', () => {
+    const tag = (id: string) => ({ id, name: id });
+    const bars = [
+      makeBar('one', { tags: [tag('trivia')], distance_miles: 0.5 }),
+      makeBar('both-broad', { tags: [tag('trivia'), tag('karaoke'), tag('darts'), tag('pool')] }),
+      makeBar('both-focused', { tags: [tag('trivia'), tag('karaoke')] }),
+      makeBar('none-near', { distance_miles: 0.1 }),
+      makeBar('none-far', { distance_miles: 3 }),
+    ];
+
+    expect(order(bars, getBarComparator('best_match', { selectedTags: ['trivia', 'karaoke'] }))).toEqual([
+      'both-focused',
+      'both-broad',
+      'one',
+      'none-near',
+      'none-far',
+    ]);
+  });
+});
@@ -0,0 +1,248 @@
+import {
+  buildCalendarFile,
+  escapeIcsText,
+  foldIcsLine,
+  formatIcsLocal,
+  formatIcsUtc,
+  getCalendarFileName,
+  getEventLocation,
+  getEventTimes,
+  parseRecurrencePattern,
+  toRecurrenceRule,
+} from '../calendar';
+import type { Event } from '../../types';
+
+const NOW = new Date('2026-10-18T12:00:00.000Z');
+
+const event = (overrides: Partial<Event> = {}): Event => ({
+  instance_id: 'i1',
+  event_id: 'e1',
+  title: 'Trivia Night',
+  bar_name: 'The Crown',
+  start_time: '2026-10-20T20:00:00',
+  end_time: '2026-10-20T22:00:00',
+  timezone: 'America/New_York',
+  ...overrides,
+});
+
+// Unfolded content lines of a calendar file
+const linesOf = (ics: string) => ics.replace(/\r\n /g, '').split('\r\n').filter(Boolean);
+
+// ---------------------------------------------------------------------------
+// getEventTimes
+// ---------------------------------------------------------------------------
+
+describe('getEventTimes', () => {
+  it('reads start and end in the venue zone', () => {
+    const times = getEventTimes(event());
+    expect(times?.start.toISOString()).toBe('2026-10-21T00:00:00.000Z');
+    expect(times?.end?.toISOString()).toBe('2026-10-21T02:00:00.000Z');
+  });
+
+  it('moves an end before the start to the next day', () => {
+    const times = getEventTimes(event({ end_time: '2026-10-20T01:00:00', crosses_midnight: true }));
+    expect(times?.end?.toISOString()).toBe('2026-10-21T05:00:00.000Z');
+  });
+
+  it('returns null without a start and keeps a missing end empty', () => {
+    expect(getEventTimes(event({ start_time: undefined }))).toBeNull();
+    expect(getEventTimes(event({ end_time: undefined }))?.end).toBeNull();
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Recurrence
+// ---------------------------------------------------------------------------
+
+describe('parseRecurrencePattern / toRecurrenceRule', () => {
+  it('reads plain-language patterns', () => {
+    expect(parseRecurrencePattern('weekly')).toEqual({ frequency: 'WEEKLY', interval: 1 });
+    expect(parseRecurrencePattern('Bi-weekly')).toEqual({ frequency: 'WEEKLY', interval: 2 });
+    expect(parseRecurrencePattern('every 3 months')).toEqual({ frequency: 'MONTHLY', interval: 3 });
+    expect(parseRecurrencePattern('every other day')).toEqual({ frequency: 'DAILY', interval: 2 });
+  });
+
+  it('reads RRULE-style patterns', () => {
+    expect(parseRecurrencePattern('FREQ=WEEKLY;INTERVAL=2')).toEqual({ frequency: 'WEEKLY', interval: 2 });
+  });
+
+  it('treats one-off and unknown patterns as not recurring', () => {
+    expect(parseRecurrencePattern(undefined)).toBeNull();
+    expect(parseRecurrencePattern('none')).toBeNull();
+    expect(parseRecurrencePattern('whenever')).toBeNull();
+  });
+
+  it('writes the interval only when it is not 1', () => {
+    expect(toRecurrenceRule({ frequency: 'DAILY', interval: 1 })).toBe('FREQ=DAILY');
+    expect(toRecurrenceRule({ frequency: 'WEEKLY', interval: 2 })).toBe('FREQ=WEEKLY;INTERVAL=2');
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Formatting
+// ---------------------------------------------------------------------------
+
+describe('ics formatting', () => {
+  it('formats UTC and zoned date-times', () => {
+    const date = new Date('2026-10-21T00:00:00.000Z');
+    expect(formatIcsUtc(date)).toBe('20261021T000000Z');
+    expect(formatIcsLocal(date, 'America/New_York')).toBe('20261020T200000');
+  });
+
+  it('escapes text values', () => {
+    expect(escapeIcsText('Beer, wine; and\\more\nnext line')).toBe('Beer\\, wine\\; and\\\\more\\nnext line');
+  });
+
+  it('folds lines at 75 octets', () => {
+    const folded = foldIcsLine(`SUMMARY:${'a'.repeat(150)}`);
+    const [first, ...rest] = folded.split('\r\n');
+    expect(first).toHaveLength(75);
+    rest.forEach((line) => expect(line.startsWith(' ')).toBe(true));
+    expect(folded.replace(/\r\n /g, '')).toBe(`SUMMARY:${'a'.repeat(150)}`);
+  });
+
+  it('never splits a multi-byte character', () => {
+    const folded = foldIcsLine(`SUMMARY:${'é'.repeat(60)}`);
+    expect(folded.split('\r\n')[0]).toBe(`SUMMARY:${'é'.repeat(33)}`);
+  });
+
+  it('joins the venue and address for the location', () => {
+    expect(
+      getEventLocation(
+        event({ address_street: '1 Main St', address_city: 'Boston', address_state: 'MA', address_zip: '02101' })
+      )
+    ).toBe('The Crown, 1 Main St, Boston, MA 02101');
+    expect(getEventLocation(event({ bar_name: undefined }))).toBeUndefined();
+  });
+
+  it('slugifies file names', () => {
+    expect(getCalendarFileName("The Crown's events")).toBe('the-crown-s-events.ics');
+    expect(getCalendarFileName('!!!')).toBe('events.ics');
+  });
+});
+
+// ---------------------------------------------------------------------------
+// buildCalendarFile
+// ---------------------------------------------------------------------------
+
+describe('buildCalendarFile', () => {
+  it('writes a one-off event in UTC', () => {
+    const ics = buildCalendarFile([event({ description: 'Teams of 4, max' })], 'Trivia', NOW);
+    const lines = linesOf(ics);
+
+    expect(ics.endsWith('\r\n')).toBe(true);
+    expect(lines.slice(0, 3)).toEqual(['BEGIN:VCALENDAR', 'VERSION:2.0', 'PRODID:-//To The Pub//Events//EN']);
+    expect(lines).toEqual(
+      expect.arrayContaining([
+        'X-WR-CALNAME:Trivia',
+        'BEGIN:VEVENT',
+        'UID:instance-i1@tothepub.app',
+        'DTSTAMP:20261018T120000Z',
+        'DTSTART:20261021T000000Z',
+        'DTEND:20261021T020000Z',
+        'SUMMARY:Trivia Night',
+        'DESCRIPTION:Teams of 4\\, max',
+        'LOCATION:The Crown',
+        'END:VEVENT',
+      ])
+    );
+    expect(lines[lines.length - 1]).toBe('END:VCALENDAR');
+    expect(ics).not.toContain('RRULE');
+  });
+
+  it('repeats recurring events in the venue zone', () => {
+    const lines = linesOf(buildCalendarFile([event({ recurrence_pattern: 'weekly' })], undefined, NOW));
+
+    expect(lines).toEqual(
+      expect.arrayContaining([
+        'UID:event-e1@tothepub.app',
+        'DTSTART;TZID=America/New_York:20261020T200000',
+        'DTEND;TZID=America/New_York:20261020T220000',
+        'RRULE:FREQ=WEEKLY',
+      ])
+    );
+  });
+
+  it('describes each zone used by a recurring event in a VTIMEZONE block', () => {
+    const lines = linesOf(
+      buildCalendarFile(
+        [
+          event({ recurrence_pattern: 'weekly' }),
+          event({ instance_id: 'i2', event_id: 'e2', recurrence_pattern: 'monthly', start_time: '2027-01-05T19:00:00' }),
+          event({ instance_id: 'i3', event_id: 'e3', recurrence_pattern: 'weekly', timezone: 'Asia/Tokyo' }),
+          event({ instance_id: 'solo', event_id: 'e4', timezone: 'Europe/London' }),
+        ],
+        undefined,
+        NOW
+      )
+    );
+
+    expect(lines.filter((line) => line.startsWith('TZID:'))).toEqual(['TZID:Asia/Tokyo', 'TZID:America/New_York']);
+    const tokyo = lines.slice(lines.indexOf('TZID:Asia/Tokyo') + 1, lines.indexOf('TZID:America/New_York') - 1);
+    expect(tokyo).toEqual([
+      'BEGIN:STANDARD',
+      'DTSTART:20250101T000000',
+      'TZOFFSETFROM:+0900',
+      'TZOFFSETTO:+0900',
+      'END:STANDARD',
+      'END:VTIMEZONE',
+    ]);
+    const newYork = lines.slice(lines.indexOf('TZID:America/New_York') + 1, lines.indexOf('BEGIN:VEVENT'));
+    expect(newYork).toEqual([
+      'BEGIN:DAYLIGHT',
+      'DTSTART:20250309T020000',
+      'RRULE:FREQ=YEARLY;BYMONTH=3;BYDAY=2SU',
+      'TZOFFSETFROM:-0500',
+      'TZOFFSETTO:-0400',
+      'END:DAYLIGHT',
+      'BEGIN:STANDARD',
+      'DTSTART:20251102T020000',
+      'RRULE:FREQ=YEARLY;BYMONTH=11;BYDAY=1SU',
+      'TZOFFSETFROM:-0400',
+      'TZOFFSETTO:-0500',
+      'END:STANDARD',
+      'END:VTIMEZONE',
+    ]);
+  });
+
+  it('counts observances in the last week of the month from the end', () => {
+    const lines = linesOf(
+      buildCalendarFile([event({ recurrence_pattern: 'weekly', timezone: 'Europe/Berlin' })], undefined, NOW)
+    );
+
+    expect(lines).toEqual(
+      expect.arrayContaining([
+        'DTSTART:20250330T020000',
+        'RRULE:FREQ=YEARLY;BYMONTH=3;BYDAY=-1SU',
+        'DTSTART:20251026T030000',
+        'RRULE:FREQ=YEARLY;BYMONTH=10;BYDAY=-1SU',
+      ])
+    );
+  });
+
+  it('collapses listed instances of a series and excludes its cancelled dates', () => {
+    const weekly = { recurrence_pattern: 'weekly' };
+    const lines = linesOf(
+      buildCalendarFile(
+        [
+          event({ ...weekly, instance_id: 'i2', start_time: '2026-10-27T20:00:00', end_time: '2026-10-27T22:00:00', is_cancelled: true }),
+          event({ ...weekly }),
+          event({ ...weekly, instance_id: 'i3', start_time: '2026-11-03T20:00:00', end_time: '2026-11-03T22:00:00' }),
+          event({ instance_id: 'solo', event_id: 'e2', title: 'Karaoke', start_time: '2026-10-22T21:00:00', end_time: undefined }),
+        ],
+        'The Crown events',
+        NOW
+      )
+    );
+
+    expect(lines.filter((line) => line === 'BEGIN:VEVENT')).toHaveLength(2);
+    expect(lines).toContain('EXDATE;TZID=America/New_York:20261027T200000');
+    expect(lines).toContain('UID:instance-solo@tothepub.app');
+    expect(lines.filter((line) => line.startsWith('DTEND'))).toHaveLength(1);
+  });
+
+  it('skips cancelled and undated events', () => {
+    const ics = buildCalendarFile([event({ is_cancelled: true }), event({ instance_id: 'x', start_time: undefined })], undefined, NOW);
+    expect(ics).not.toContain('BEGIN:VEVENT');
+  });
+});
@@ -0,0 +1,115 @@
+import {
+  formatEventDateFilterLabel,
+  formatTimeOfDayWindow,
+  getEventDateQuery,
+  getPresetDateFilter,
+  isEventInDateFilter,
+} from '../eventDateFilters';
+import type { Event, EventDateFilter } from '../../types';
+
+// Local dates; the test run uses UTC
+const MONDAY = new Date(2026, 9, 19, 18, 0);
+const SATURDAY = new Date(2026, 9, 24, 12, 0);
+
+const range = (overrides: Partial<EventDateFilter> = {}): EventDateFilter => ({
+  preset: 'custom',
+  startDate: '2026-10-23',
+  endDate: '2026-10-25',
+  startsAfter: null,
+  startsBefore: null,
+  ...overrides,
+});
+
+const event = (overrides: Partial<Event> = {}): Event => ({
+  instance_id: 'i1',
+  title: 'Trivia Night',
+  start_time: '2026-10-24T21:30:00',
+  timezone: 'America/New_York',
+  ...overrides,
+});
+
+// ---------------------------------------------------------------------------
+// getPresetDateFilter
+// ---------------------------------------------------------------------------
+
+describe('getPresetDateFilter', () => {
+  it('makes tonight today from the evening', () => {
+    expect(getPresetDateFilter('tonight', MONDAY)).toEqual({
+      preset: 'tonight',
+      startDate: '2026-10-19',
+      endDate: '2026-10-19',
+      startsAfter: 17 * 60,
+      startsBefore: null,
+    });
+  });
+
+  it('covers tomorrow and the next 7 days', () => {
+    expect(getPresetDateFilter('tomorrow', MONDAY)).toMatchObject({ startDate: '2026-10-20', endDate: '2026-10-20' });
+    expect(getPresetDateFilter('next7', MONDAY)).toMatchObject({ startDate: '2026-10-19', endDate: '2026-10-25' });
+  });
+
+  it('looks ahead to Friday through Sunday on a weekday', () => {
+    expect(getPresetDateFilter('weekend', MONDAY)).toMatchObject({ startDate: '2026-10-23', endDate: '2026-10-25' });
+  });
+
+  it('starts the weekend today once it has begun', () => {
+    expect(getPresetDateFilter('weekend', SATURDAY)).toMatchObject({ startDate: '2026-10-24', endDate: '2026-10-25' });
+    expect(getPresetDateFilter('weekend', new Date(2026, 9, 25, 12))).toMatchObject({
+      startDate: '2026-10-25',
+      endDate: '2026-10-25',
+    });
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Query and labels
+// ---------------------------------------------------------------------------
+
+describe('getEventDateQuery', () => {
+  it('sends the days and any time-of-day bounds', () => {
+    expect(getEventDateQuery(range({ startsAfter: 21 * 60 }))).toEqual({
+      start_date: '2026-10-23',
+      end_date: '2026-10-25',
+      start_time_after: '21:00',
+      start_time_before: undefined,
+    });
+  });
+});
+
+describe('formatTimeOfDayWindow / formatEventDateFilterLabel', () => {
+  it('describes the time of day in the user format', () => {
+    expect(formatTimeOfDayWindow(range({ startsAfter: 21 * 60 }))).toBe('after 9 PM');
+    expect(formatTimeOfDayWindow(range({ startsBefore: 23 * 60 }), '24h')).toBe('before 23:00');
+    expect(formatTimeOfDayWindow(range({ startsAfter: 18 * 60, startsBefore: 21 * 60 + 30 }))).toBe('6 PM – 9:30 PM');
+    expect(formatTimeOfDayWindow(range())).toBeNull();
+  });
+
+  it('names presets and spells out custom ranges', () => {
+    expect(formatEventDateFilterLabel(getPresetDateFilter('weekend', MONDAY))).toBe('This Weekend');
+    expect(formatEventDateFilterLabel(range({ startsAfter: 21 * 60 }))).toBe('Fri, Oct 23 – Sun, Oct 25, after 9 PM');
+    expect(formatEventDateFilterLabel(range({ endDate: '2026-10-23' }))).toBe('Fri, Oct 23');
+  });
+});
+
+// ---------------------------------------------------------------------------
+// isEventInDateFilter
+// ---------------------------------------------------------------------------
+
+describe('isEventInDateFilter', () => {
+  it('checks the day in the venue zone', () => {
+    expect(isEventInDateFilter(event(), range())).toBe(true);
+    expect(isEventInDateFilter(event({ start_time: '2026-10-26T21:30:00' }), range())).toBe(false);
+  });
+
+  it('checks the time of day, with an exclusive end', () => {
+    expect(isEventInDateFilter(event(), range({ startsAfter: 21 * 60 }))).toBe(true);
+    expect(isEventInDateFilter(event(), range({ startsAfter: 22 * 60 }))).toBe(false);
+    expect(isEventInDateFilter(event(), range({ startsBefore: 21 * 60 + 30 }))).toBe(false);
+  });
+
+  it('skips the time check for date-only events and leaves out undated ones', () => {
+    const dateOnly = event({ start_time: undefined, date: '2026-10-24' });
+    expect(isEventInDateFilter(dateOnly, range({ startsAfter: 22 * 60 }))).toBe(true);
+    expect(isEventInDateFilter(event({ start_time: undefined }), range())).toBe(false);
+  });
+});
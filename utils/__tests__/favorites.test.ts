@@ -0,0 +1,125 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  EMPTY_FAVORITES,
+  extractFavoriteBars,
+  loadStoredFavorites,
+  mapToFavoriteBar,
+  mergeFavorites,
+  parseStoredFavorites,
+  saveStoredFavorites,
+} from '../favorites';
+import { FAVORITES_KEY } from '../constants';
+
+// ---------------------------------------------------------------------------
+// Mocks
+// ---------------------------------------------------------------------------
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+beforeEach(async () => {
+  await AsyncStorage.clear();
+});
+
+const bar = (id: string) => ({ id, name: `Bar ${id}` });
+
+// ---------------------------------------------------------------------------
+// mapToFavoriteBar / extractFavoriteBars
+// ---------------------------------------------------------------------------
+
+describe('mapToFavoriteBar', () => {
+  it('reads a bar directly', () => {
+    expect(mapToFavoriteBar({ id: 7, name: 'The Crown', address_city: 'Boston', hours: [] })).toEqual({
+      id: '7',
+      name: 'The Crown',
+      address_city: 'Boston',
+    });
+  });
+
+  it('reads a favorite row with a nested bar', () => {
+    expect(mapToFavoriteBar({ id: 'fav-1', bar_id: 'b1', bar: { name: 'Anchor', city: 'Salem', state: 'MA' } })).toEqual({
+      id: 'b1',
+      name: 'Anchor',
+      address_city: 'Salem',
+      address_state: 'MA',
+    });
+  });
+
+  it('rejects entries without an id', () => {
+    expect(mapToFavoriteBar({ name: 'Nameless' })).toBeNull();
+    expect(mapToFavoriteBar(null)).toBeNull();
+  });
+});
+
+describe('extractFavoriteBars', () => {
+  it('reads data envelopes and bare arrays, dropping duplicates', () => {
+    expect(extractFavoriteBars({ data: [bar('1'), bar('2'), bar('1')] })).toEqual([bar('1'), bar('2')]);
+    expect(extractFavoriteBars([bar('3')])).toEqual([bar('3')]);
+  });
+
+  it('returns an empty list for anything else', () => {
+    expect(extractFavoriteBars({ data: null })).toEqual([]);
+    expect(extractFavoriteBars('nope')).toEqual([]);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// mergeFavorites
+// ---------------------------------------------------------------------------
+
+describe('mergeFavorites', () => {
+  it('puts favorites still waiting to be added ahead of the account list', () => {
+    const local = { bars: [bar('new'), bar('1')], pendingIds: ['new'] };
+    expect(mergeFavorites([bar('1'), bar('2')], local).map((entry) => entry.id)).toEqual(['new', '1', '2']);
+  });
+
+  it('drops synced favorites the account no longer has', () => {
+    const local = { bars: [bar('removed-elsewhere'), bar('1')], pendingIds: [] };
+    expect(mergeFavorites([bar('1')], local).map((entry) => entry.id)).toEqual(['1']);
+  });
+
+  it('does not duplicate a pending favorite the account already has', () => {
+    const local = { bars: [bar('1')], pendingIds: ['1'] };
+    expect(mergeFavorites([bar('1')], local)).toEqual([bar('1')]);
+  });
+
+  it('lets the device decide bars changed while the account list was loading', () => {
+    const local = { bars: [bar('added'), bar('2')], pendingIds: [] };
+    expect(mergeFavorites([bar('1'), bar('2')], local, ['added', '1']).map((entry) => entry.id)).toEqual([
+      'added',
+      '2',
+    ]);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Stored copy
+// ---------------------------------------------------------------------------
+
+describe('parseStoredFavorites', () => {
+  it('returns an empty copy for missing or malformed data', () => {
+    expect(parseStoredFavorites(null)).toEqual(EMPTY_FAVORITES);
+    expect(parseStoredFavorites('{not json')).toEqual(EMPTY_FAVORITES);
+  });
+
+  it('keeps only pending ids that match a stored bar', () => {
+    const raw = JSON.stringify({ bars: [bar('1'), { name: 'no id' }], pendingIds: ['1', 'ghost', 4] });
+    expect(parseStoredFavorites(raw)).toEqual({ bars: [bar('1')], pendingIds: ['1'] });
+  });
+});
+
+describe('loadStoredFavorites / saveStoredFavorites', () => {
+  it('round-trips through storage', async () => {
+    const favorites = { bars: [bar('1'), bar('2')], pendingIds: ['2'] };
+    await saveStoredFavorites(favorites);
+
+    expect(JSON.parse((await AsyncStorage.getItem(FAVORITES_KEY)) ?? '{}')).toEqual(favorites);
+    expect(await loadStoredFavorites()).toEqual(favorites);
+  });
+
+  it('returns an empty copy when storage fails', async () => {
+    jest.spyOn(AsyncStorage, 'getItem').mockRejectedValueOnce(new Error('boom'));
+    expect(await loadStoredFavorites()).toEqual(EMPTY_FAVORITES);
+  });
+});
@@ -3,13 +3,16 @@ import {
   extractBarItems,
   toNumber,
   formatDistanceLabel,
+  getDistanceInUnit,
   ensureProtocol,
   normalizeTwitterUrl,
   toSocialUrl,
   getCacheKey,
+  settleWithLimit,
   formatCityAddress,
   formatEventDay,
   formatEventTime,
+  formatDeviceTimeRangeLabel,
   openExternalLink,
   openExternal,
   openPhone,
@@ -179,6 +182,37 @@ describe('formatDistanceLabel', () => {
   it('returns whole miles for distances >= 100 mi', () => {
     expect(formatDistanceLabel(150)).toBe('150 mi away');
   });
+
+  it('returns metres for distances under 0.1 km', () => {
+    expect(formatDistanceLabel(0.045, 'km')).toBe('45 m away');
+  });
+
+  it('formats kilometres with the same precision steps', () => {
+    expect(formatDistanceLabel(2.5, 'km')).toBe('2.50 km away');
+    expect(formatDistanceLabel(42, 'km')).toBe('42.0 km away');
+    expect(formatDistanceLabel(120, 'km')).toBe('120 km away');
+  });
+});
+
+// ---------------------------------------------------------------------------
+// getDistanceInUnit
+// ---------------------------------------------------------------------------
+
+describe('getDistanceInUnit', () => {
+  it('uses the value the API sent for the unit', () => {
+    expect(getDistanceInUnit(1, 1.7, 'km')).toBe(1.7);
+    expect(getDistanceInUnit(1, 1.7, 'miles')).toBe(1);
+  });
+
+  it('converts from the other unit when needed', () => {
+    expect(getDistanceInUnit(1, undefined, 'km')).toBeCloseTo(1.609, 3);
+    expect(getDistanceInUnit(undefined, 1.609344, 'miles')).toBeCloseTo(1);
+  });
+
+  it('returns undefined without a usable distance', () => {
+    expect(getDistanceInUnit(undefined, undefined, 'km')).toBeUndefined();
+    expect(getDistanceInUnit(-1, NaN, 'miles')).toBeUndefined();
+  });
 });
 
 // ---------------------------------------------------------------------------
@@ -268,6 +302,39 @@ describe('toSocialUrl', () => {
   });
 });
 
+// ---------------------------------------------------------------------------
+// settleWithLimit
+// ---------------------------------------------------------------------------
+
+describe('settleWithLimit', () => {
+  it('runs at most `limit` tasks at once and keeps the results in order', async () => {
+    let running = 0;
+    let peak = 0;
+    const task = (value: number, fail = false) => async () => {
+      running += 1;
+      peak = Math.max(peak, running);
+      await new Promise((resolve) => setTimeout(resolve, 5 - value));
+      running -= 1;
+      if (fail) throw new Error(`failed ${value}`);
+      return value;
+    };
+
+    const results = await settleWithLimit([task(1), task(2, true), task(3), task(4)], 2);
+
+    expect(peak).toBe(2);
+    expect(results).toEqual([
+      { status: 'fulfilled', value: 1 },
+      { status: 'rejected', reason: new Error('failed 2') },
+      { status: 'fulfilled', value: 3 },
+      { status: 'fulfilled', value: 4 },
+    ]);
+  });
+
+  it('resolves to an empty list without tasks', async () => {
+    await expect(settleWithLimit([], 3)).resolves.toEqual([]);
+  });
+});
+
 // ---------------------------------------------------------------------------
 // getCacheKey
 // ---------------------------------------------------------------------------
@@ -289,6 +356,37 @@ describe('getCacheKey', () => {
     expect(getCacheKey({ lat: 42, lon: -71 }, [], undefined)).toBe('42|-71|');
   });
 
+  it('appends the planned time when browsing ahead', () => {
+    const openAt = new Date(Date.UTC(2026, 9, 24, 1, 30));
+    expect(getCacheKey({ lat: 42, lon: -71 }, [], undefined, { openAt })).toBe('42|-71||at2026-10-24T01:30:00.000Z');
+    expect(getCacheKey({ lat: 42, lon: -71 }, [], undefined, { openAt: null })).toBe('42|-71|');
+  });
+
+  it('appends the sort unless it is the default', () => {
+    expect(getCacheKey({ lat: 42, lon: -71 }, [], undefined, { sort: 'name' })).toBe('42|-71||sname');
+    expect(getCacheKey({ lat: 42, lon: -71 }, [], undefined, { sort: 'nearest' })).toBe('42|-71|');
+  });
+
+  it('appends the distance unit unless it is miles', () => {
+    expect(getCacheKey({ lat: 42, lon: -71 }, [], 10, { unit: 'km' })).toBe('42|-71||r10|ukm');
+    expect(getCacheKey({ lat: 42, lon: -71 }, [], 10, { unit: 'miles' })).toBe('42|-71||r10');
+  });
+
+  it('appends the tag match mode when several tags are selected', () => {
+    expect(getCacheKey({ lat: 42, lon: -71 }, ['ale', 'beer'], 10, { tagMatch: 'any' })).toBe('42|-71|ale,beer|r10|many');
+    expect(getCacheKey({ lat: 42, lon: -71 }, ['ale', 'beer'], 10, { tagMatch: 'all' })).toBe('42|-71|ale,beer|r10|mall');
+    expect(getCacheKey({ lat: 42, lon: -71 }, ['ale'], 10, { tagMatch: 'all' })).toBe('42|-71|ale|r10');
+  });
+
+  it('appends the date range and time-of-day bounds of a date filter', () => {
+    const weekend = { preset: 'weekend' as const, startDate: '2026-10-23', endDate: '2026-10-25', startsAfter: null, startsBefore: null };
+    expect(getCacheKey({ lat: 42, lon: -71 }, [], 10, { dateFilter: weekend })).toBe('42|-71||r10|d2026-10-23~2026-10-25');
+    expect(getCacheKey({ lat: 42, lon: -71 }, [], 10, { dateFilter: { ...weekend, startsAfter: 1260 } })).toBe(
+      '42|-71||r10|d2026-10-23~2026-10-25|t1260-'
+    );
+    expect(getCacheKey({ lat: 42, lon: -71 }, [], 10, { dateFilter: null })).toBe('42|-71||r10');
+  });
+
   it('sorts tags before joining', () => {
     const a = getCacheKey({ lat: 1, lon: 2 }, ['z', 'a', 'm']);
     const b = getCacheKey({ lat: 1, lon: 2 }, ['a', 'm', 'z']);
@@ -342,6 +440,11 @@ describe('formatEventDay', () => {
     expect(result.length).toBeGreaterThan(0);
     expect(result).not.toBe('Date coming soon');
   });
+
+  it("uses the venue's calendar day", () => {
+    expect(formatEventDay('2026-10-20T02:00:00Z', 'America/Chicago')).toBe('Monday, October 19, 2026');
+    expect(formatEventDay('2026-10-20T02:00:00Z', 'Asia/Tokyo')).toBe('Tuesday, October 20, 2026');
+  });
 });
 
 // ---------------------------------------------------------------------------
@@ -372,6 +475,40 @@ describe('formatEventTime', () => {
     expect(result).not.toBeNull();
     expect(result).toMatch(/9:00\s*AM/i);
   });
+
+  it("formats date-times on the venue's clock", () => {
+    expect(formatEventTime('2026-10-20T01:00:00Z', 'America/Chicago')).toMatch(/8:00\s*PM/);
+    expect(formatEventTime('2026-10-19T20:00:00', 'America/Chicago')).toMatch(/8:00\s*PM/);
+  });
+
+  it('formats on a 24-hour clock when asked', () => {
+    expect(formatEventTime('14:30', undefined, '24h')).toBe('14:30');
+    expect(formatEventTime('00:15', undefined, '24h')).toBe('00:15');
+  });
+});
+
+// ---------------------------------------------------------------------------
+// formatDeviceTimeRangeLabel
+// ---------------------------------------------------------------------------
+
+describe('formatDeviceTimeRangeLabel', () => {
+  const deviceZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+  const otherZone = deviceZone === 'Asia/Tokyo' ? 'America/Chicago' : 'Asia/Tokyo';
+
+  it('returns null without a venue zone or when the clocks agree', () => {
+    expect(formatDeviceTimeRangeLabel('2026-10-19T20:00:00', '2026-10-19T23:00:00')).toBeNull();
+    expect(formatDeviceTimeRangeLabel('2026-10-19T20:00:00', '2026-10-19T23:00:00', deviceZone)).toBeNull();
+  });
+
+  it('returns null for bare clock values', () => {
+    expect(formatDeviceTimeRangeLabel('20:00', '23:00', otherZone)).toBeNull();
+  });
+
+  it("shows the range on the device's clock when the venue is elsewhere", () => {
+    const label = formatDeviceTimeRangeLabel('2026-10-19T20:00:00', '2026-10-19T23:00:00', otherZone);
+
+    expect(label).toMatch(/^Your time: .+ – .+$/);
+  });
 });
 
 // ---------------------------------------------------------------------------
@@ -0,0 +1,135 @@
+import {
+  clusterByRegion,
+  getMapCoordinate,
+  getRegionAround,
+  getRegionForItems,
+  getRegionForRadius,
+  isRegionAwayFrom,
+  regionToCoordinates,
+} from '../mapClustering';
+import { DEFAULT_MAP_DELTA, MIN_MAP_DELTA } from '../constants';
+
+const place = (id: string, latitude?: number, longitude?: number) => ({ id, latitude, longitude });
+
+const REGION = { latitude: 42.35, longitude: -71.06, latitudeDelta: 0.06, longitudeDelta: 0.06 };
+
+// ---------------------------------------------------------------------------
+// getMapCoordinate
+// ---------------------------------------------------------------------------
+
+describe('getMapCoordinate', () => {
+  it('returns the coordinate for finite values', () => {
+    expect(getMapCoordinate(place('a', 42.1, -71.2))).toEqual({ latitude: 42.1, longitude: -71.2 });
+  });
+
+  it('accepts 0 as a valid coordinate', () => {
+    expect(getMapCoordinate(place('a', 0, 0))).toEqual({ latitude: 0, longitude: 0 });
+  });
+
+  it('returns null when either value is missing or not finite', () => {
+    expect(getMapCoordinate(place('a', undefined, -71))).toBeNull();
+    expect(getMapCoordinate(place('a', 42, Number.NaN))).toBeNull();
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Regions
+// ---------------------------------------------------------------------------
+
+describe('getRegionAround / regionToCoordinates', () => {
+  it('centres the default delta on the coordinates and converts back', () => {
+    const region = getRegionAround({ lat: 40.7, lon: -74 });
+
+    expect(region).toEqual({ latitude: 40.7, longitude: -74, ...DEFAULT_MAP_DELTA });
+    expect(regionToCoordinates(region)).toEqual({ lat: 40.7, lon: -74 });
+  });
+});
+
+describe('getRegionForRadius', () => {
+  it('fits the radius circle with padding, widening longitude away from the equator', () => {
+    const region = getRegionForRadius({ lat: 60, lon: 10 }, 11_132, 1);
+
+    expect(region.latitude).toBe(60);
+    expect(region.longitude).toBe(10);
+    expect(region.latitudeDelta).toBeCloseTo(0.2);
+    expect(region.longitudeDelta).toBeCloseTo(0.4);
+  });
+
+  it('never zooms in past the minimum delta', () => {
+    expect(getRegionForRadius({ lat: 0, lon: 0 }, 1).latitudeDelta).toBe(MIN_MAP_DELTA);
+  });
+});
+
+describe('getRegionForItems', () => {
+  it('returns null when nothing has coordinates', () => {
+    expect(getRegionForItems([place('a')])).toBeNull();
+  });
+
+  it('centres on the bounds and pads the span', () => {
+    const region = getRegionForItems([place('a', 42.3, -71.1), place('b', 42.4, -71.0)], 2);
+
+    expect(region?.latitude).toBeCloseTo(42.35);
+    expect(region?.longitude).toBeCloseTo(-71.05);
+    expect(region?.latitudeDelta).toBeCloseTo(0.2);
+    expect(region?.longitudeDelta).toBeCloseTo(0.2);
+  });
+
+  it('never zooms in past the minimum delta', () => {
+    const region = getRegionForItems([place('a', 42.3, -71.1)]);
+
+    expect(region?.latitudeDelta).toBe(MIN_MAP_DELTA);
+    expect(region?.longitudeDelta).toBe(MIN_MAP_DELTA);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// clusterByRegion
+// ---------------------------------------------------------------------------
+
+describe('clusterByRegion', () => {
+  it('keeps far-apart items as single markers with their own id', () => {
+    const clusters = clusterByRegion([place('a', 42.33, -71.08), place('b', 42.37, -71.03)], REGION, (item) => item.id);
+
+    expect(clusters).toHaveLength(2);
+    expect(clusters.map((cluster) => cluster.id).sort()).toEqual(['a', 'b']);
+  });
+
+  it('clusters items sharing a grid cell and centres the cluster on them', () => {
+    const clusters = clusterByRegion(
+      [place('a', 42.3501, -71.0601), place('b', 42.3503, -71.0603)],
+      REGION,
+      (item) => item.id
+    );
+
+    expect(clusters).toHaveLength(1);
+    expect(clusters[0].id).toMatch(/^cluster-/);
+    expect(clusters[0].items.map((item) => item.id)).toEqual(['a', 'b']);
+    expect(clusters[0].coordinate.latitude).toBeCloseTo(42.3502);
+    expect(clusters[0].coordinate.longitude).toBeCloseTo(-71.0602);
+  });
+
+  it('splits a cluster once the region is zoomed in far enough', () => {
+    const items = [place('a', 42.3501, -71.0601), place('b', 42.3509, -71.0609)];
+    const zoomed = { ...REGION, latitudeDelta: 0.001, longitudeDelta: 0.001 };
+
+    expect(clusterByRegion(items, zoomed, (item) => item.id)).toHaveLength(2);
+  });
+
+  it('skips items without coordinates', () => {
+    expect(clusterByRegion([place('a')], REGION, (item) => item.id)).toEqual([]);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// isRegionAwayFrom
+// ---------------------------------------------------------------------------
+
+describe('isRegionAwayFrom', () => {
+  it('is false for small pans', () => {
+    expect(isRegionAwayFrom({ lat: 42.35, lon: -71.06 }, { ...REGION, latitude: 42.355 })).toBe(false);
+  });
+
+  it('is true once the centre moves past the threshold share of the span', () => {
+    expect(isRegionAwayFrom({ lat: 42.35, lon: -71.06 }, { ...REGION, longitude: -71.03 })).toBe(true);
+  });
+});
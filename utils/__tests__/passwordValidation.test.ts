@@ -0,0 +1,25 @@
+import { getPasswordError } from '../passwordValidation';
+
+describe('getPasswordError', () => {
+  it('accepts a password that meets every rule', () => {
+    expect(getPasswordError('Correct-Horse-42')).toBeUndefined();
+  });
+
+  it('uses the default message for an empty password', () => {
+    expect(getPasswordError('')).toBe('Create a password.');
+  });
+
+  it('uses a custom message for an empty password', () => {
+    expect(getPasswordError('', 'Enter a new password.')).toBe('Enter a new password.');
+  });
+
+  it.each([
+    ['Short1!a', 'Use at least 12 characters.'],
+    ['ALLUPPERCASE1!', 'Include at least one lowercase letter.'],
+    ['alllowercase1!', 'Include at least one uppercase letter.'],
+    ['NoNumbersHere!', 'Include at least one number.'],
+    ['NoSpecials1234', 'Include at least one special character (e.g. !@#$%).'],
+  ])('rejects %s', (password, message) => {
+    expect(getPasswordError(password)).toBe(message);
+  });
+});
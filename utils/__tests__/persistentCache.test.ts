@@ -0,0 +1,158 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { PERSISTED_CACHE_CONFIG } from '../constants';
+import {
+  getPersistedCacheStorageKey,
+  readAllPersistedCache,
+  readPersistedCache,
+  trimPagedSnapshot,
+  writePersistedCache,
+} from '../persistentCache';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+const NOW = 1_700_000_000_000;
+const HOUR = 60 * 60 * 1000;
+const KEY = '40.7128|-74.006||r5';
+
+beforeEach(async () => {
+  jest.clearAllMocks();
+  await AsyncStorage.clear();
+});
+
+// ---------------------------------------------------------------------------
+// getPersistedCacheStorageKey
+// ---------------------------------------------------------------------------
+
+describe('getPersistedCacheStorageKey', () => {
+  it('includes the prefix, version, namespace and cache key', () => {
+    expect(getPersistedCacheStorageKey('events', KEY)).toBe(
+      `${PERSISTED_CACHE_CONFIG.keyPrefix}:v${PERSISTED_CACHE_CONFIG.version}:events:${KEY}`
+    );
+  });
+});
+
+// ---------------------------------------------------------------------------
+// readPersistedCache / writePersistedCache
+// ---------------------------------------------------------------------------
+
+describe('readPersistedCache', () => {
+  it('returns null when nothing is stored', async () => {
+    expect(await readPersistedCache('bars', KEY, HOUR, NOW)).toBeNull();
+  });
+
+  it('round-trips a value with its saved timestamp', async () => {
+    await writePersistedCache('bars', KEY, { data: [1, 2] }, NOW);
+
+    expect(await readPersistedCache('bars', KEY, HOUR, NOW + 1000)).toEqual({
+      value: { data: [1, 2] },
+      savedAt: NOW,
+    });
+  });
+
+  it('keeps namespaces separate', async () => {
+    await writePersistedCache('bars', KEY, { data: [1] }, NOW);
+
+    expect(await readPersistedCache('events', KEY, HOUR, NOW)).toBeNull();
+  });
+
+  it('drops entries older than the TTL', async () => {
+    await writePersistedCache('bars', KEY, { data: [1] }, NOW);
+
+    expect(await readPersistedCache('bars', KEY, HOUR, NOW + HOUR)).toBeNull();
+    expect(AsyncStorage.removeItem).toHaveBeenCalledWith(getPersistedCacheStorageKey('bars', KEY));
+  });
+
+  it('drops entries written by another cache version', async () => {
+    await AsyncStorage.setItem(
+      getPersistedCacheStorageKey('bars', KEY),
+      JSON.stringify({ version: PERSISTED_CACHE_CONFIG.version - 1, key: KEY, savedAt: NOW, value: {} })
+    );
+
+    expect(await readPersistedCache('bars', KEY, HOUR, NOW)).toBeNull();
+  });
+
+  it('returns null for corrupted JSON', async () => {
+    await AsyncStorage.setItem(getPersistedCacheStorageKey('bars', KEY), '{not json');
+
+    expect(await readPersistedCache('bars', KEY, HOUR, NOW)).toBeNull();
+  });
+
+  it('returns null when storage throws', async () => {
+    (AsyncStorage.getItem as jest.Mock).mockRejectedValueOnce(new Error('disk error'));
+
+    expect(await readPersistedCache('bars', KEY, HOUR, NOW)).toBeNull();
+  });
+});
+
+describe('writePersistedCache', () => {
+  it('skips entries larger than maxBytes', async () => {
+    const huge = 'x'.repeat(PERSISTED_CACHE_CONFIG.maxBytes);
+
+    expect(await writePersistedCache('bars', KEY, { huge }, NOW)).toBe(false);
+    expect(await readPersistedCache('bars', KEY, HOUR, NOW)).toBeNull();
+  });
+
+  it('evicts the oldest keys beyond maxEntries', async () => {
+    const keys = Array.from({ length: PERSISTED_CACHE_CONFIG.maxEntries + 1 }, (_, index) => `key-${index}`);
+    for (const key of keys) {
+      await writePersistedCache('events', key, { data: [key] }, NOW);
+    }
+
+    expect(await readPersistedCache('events', keys[0], HOUR, NOW)).toBeNull();
+    expect(await readPersistedCache('events', keys[keys.length - 1], HOUR, NOW)).not.toBeNull();
+  });
+
+  it('treats rewriting a key as most recent', async () => {
+    const keys = Array.from({ length: PERSISTED_CACHE_CONFIG.maxEntries }, (_, index) => `key-${index}`);
+    for (const key of keys) {
+      await writePersistedCache('events', key, { data: [key] }, NOW);
+    }
+    await writePersistedCache('events', keys[0], { data: ['fresh'] }, NOW);
+    await writePersistedCache('events', 'key-new', { data: [] }, NOW);
+
+    expect(await readPersistedCache('events', keys[0], HOUR, NOW)).not.toBeNull();
+    expect(await readPersistedCache('events', keys[1], HOUR, NOW)).toBeNull();
+  });
+
+  it('returns false instead of throwing when storage fails', async () => {
+    (AsyncStorage.setItem as jest.Mock).mockRejectedValueOnce(new Error('quota'));
+
+    await expect(writePersistedCache('bars', KEY, { data: [] }, NOW)).resolves.toBe(false);
+  });
+});
+
+describe('readAllPersistedCache', () => {
+  it('returns the usable entries of a namespace, most recent first', async () => {
+    await writePersistedCache('bars', 'old', { data: ['old'] }, NOW - 2 * HOUR);
+    await writePersistedCache('bars', 'a', { data: ['a'] }, NOW);
+    await writePersistedCache('bars', 'b', { data: ['b'] }, NOW);
+    await writePersistedCache('events', 'c', { data: ['c'] }, NOW);
+
+    const hits = await readAllPersistedCache<{ data: string[] }>('bars', HOUR, NOW);
+
+    expect(hits.map((hit) => hit.value.data)).toEqual([['b'], ['a']]);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// trimPagedSnapshot
+// ---------------------------------------------------------------------------
+
+describe('trimPagedSnapshot', () => {
+  const range = (length: number) => Array.from({ length }, (_, index) => index);
+
+  it('returns the snapshot unchanged when under the limit', () => {
+    const snapshot = { data: range(20), currentPage: 2, hasMore: false };
+    expect(trimPagedSnapshot(snapshot, 10, 50)).toBe(snapshot);
+  });
+
+  it('trims to whole pages and rewinds currentPage', () => {
+    const result = trimPagedSnapshot({ data: range(80), currentPage: 8, hasMore: false }, 10, 55);
+
+    expect(result.data).toHaveLength(50);
+    expect(result.currentPage).toBe(5);
+    expect(result.hasMore).toBe(true);
+  });
+});
@@ -0,0 +1,109 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  DEFAULT_PREFERENCES,
+  applyPreference,
+  getDefaultLocationCoords,
+  loadPreferences,
+  parsePreferences,
+  savePreferences,
+} from '../preferences';
+import { PREFERENCES_KEY } from '../constants';
+
+// ---------------------------------------------------------------------------
+// Mocks
+// ---------------------------------------------------------------------------
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+beforeEach(async () => {
+  await AsyncStorage.clear();
+});
+
+// ---------------------------------------------------------------------------
+// parsePreferences
+// ---------------------------------------------------------------------------
+
+describe('parsePreferences', () => {
+  it('returns defaults when nothing is stored', () => {
+    expect(parsePreferences(null)).toEqual(DEFAULT_PREFERENCES);
+  });
+
+  it('returns defaults for malformed JSON', () => {
+    expect(parsePreferences('{not json')).toEqual(DEFAULT_PREFERENCES);
+  });
+
+  it('reads a stored distance unit', () => {
+    expect(parsePreferences(JSON.stringify({ distanceUnit: 'km' })).distanceUnit).toBe('km');
+  });
+
+  it('ignores an unknown distance unit', () => {
+    expect(parsePreferences(JSON.stringify({ distanceUnit: 'leagues' })).distanceUnit).toBe('miles');
+  });
+
+  it('reads every stored preference', () => {
+    const stored = {
+      distanceUnit: 'km',
+      eventRadius: 15,
+      defaultLocationId: 'chicago',
+      timeFormat: '24h',
+      maxSavedBars: 10,
+      themeMode: 'dark',
+    };
+    expect(parsePreferences(JSON.stringify(stored))).toEqual(stored);
+  });
+
+  it('only keeps a radius offered for the stored unit', () => {
+    expect(parsePreferences(JSON.stringify({ distanceUnit: 'km', eventRadius: 3 })).eventRadius).toBe(10);
+  });
+
+  it('drops unknown cities, clock formats, saved-bar limits and themes', () => {
+    const parsed = parsePreferences(
+      JSON.stringify({ defaultLocationId: 'atlantis', timeFormat: '36h', maxSavedBars: 7, themeMode: 'sepia' })
+    );
+    expect(parsed).toEqual(DEFAULT_PREFERENCES);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// applyPreference / getDefaultLocationCoords
+// ---------------------------------------------------------------------------
+
+describe('applyPreference', () => {
+  it('returns the same object when nothing changes', () => {
+    expect(applyPreference(DEFAULT_PREFERENCES, 'timeFormat', '12h')).toBe(DEFAULT_PREFERENCES);
+  });
+
+  it('resets the events radius when the unit changes', () => {
+    const miles = { ...DEFAULT_PREFERENCES, eventRadius: 10 };
+    expect(applyPreference(miles, 'distanceUnit', 'km')).toMatchObject({ distanceUnit: 'km', eventRadius: 10 });
+    expect(applyPreference({ ...miles, eventRadius: 1 }, 'distanceUnit', 'km').eventRadius).toBe(10);
+  });
+});
+
+describe('getDefaultLocationCoords', () => {
+  it('falls back to Boston for an unknown id', () => {
+    expect(getDefaultLocationCoords('atlantis')).toEqual({ lat: 42.3555, lon: -71.0565 });
+    expect(getDefaultLocationCoords('new-york')).toEqual({ lat: 40.7128, lon: -74.006 });
+  });
+});
+
+// ---------------------------------------------------------------------------
+// loadPreferences / savePreferences
+// ---------------------------------------------------------------------------
+
+describe('loadPreferences', () => {
+  it('round-trips saved preferences', async () => {
+    await savePreferences({ ...DEFAULT_PREFERENCES, distanceUnit: 'km' });
+
+    expect(await AsyncStorage.getItem(PREFERENCES_KEY)).toContain('"km"');
+    expect((await loadPreferences()).distanceUnit).toBe('km');
+  });
+
+  it('falls back to defaults when storage fails', async () => {
+    jest.spyOn(AsyncStorage, 'getItem').mockRejectedValueOnce(new Error('disk'));
+
+    expect(await loadPreferences()).toEqual(DEFAULT_PREFERENCES);
+  });
+});
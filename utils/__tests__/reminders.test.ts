@@ -0,0 +1,171 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  formatReminderOffset,
+  getEventStart,
+  getReminderChange,
+  getReminderMessage,
+  getReminderTime,
+  isReminderInFuture,
+  loadStoredReminders,
+  parseStoredReminders,
+  pruneStartedReminders,
+  saveStoredReminders,
+  sortReminders,
+} from '../reminders';
+import { REMINDERS_KEY } from '../constants';
+import type { Event, EventReminder } from '../../types';
+
+// ---------------------------------------------------------------------------
+// Mocks
+// ---------------------------------------------------------------------------
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+beforeEach(async () => {
+  await AsyncStorage.clear();
+});
+
+const reminder = (instance_id: string, overrides: Partial<EventReminder> = {}): EventReminder => ({
+  instance_id,
+  title: `Event ${instance_id}`,
+  bar_name: 'The Crown',
+  starts_at: '2026-10-20T20:00:00.000Z',
+  offset_minutes: 30,
+  notification_id: `notification-${instance_id}`,
+  ...overrides,
+});
+
+const event = (overrides: Partial<Event> = {}): Event => ({
+  instance_id: '1',
+  title: 'Trivia',
+  start_time: '2026-10-20T20:00:00',
+  timezone: 'UTC',
+  ...overrides,
+});
+
+// ---------------------------------------------------------------------------
+// Timing
+// ---------------------------------------------------------------------------
+
+describe('getEventStart', () => {
+  it('reads the start as a wall-clock time in the venue zone', () => {
+    expect(getEventStart({ start_time: '2026-10-20T20:00:00', timezone: 'America/New_York' })?.toISOString()).toBe(
+      '2026-10-21T00:00:00.000Z'
+    );
+  });
+
+  it('returns null without a start time', () => {
+    expect(getEventStart({})).toBeNull();
+  });
+});
+
+describe('getReminderTime / isReminderInFuture', () => {
+  it('subtracts the offset from the start', () => {
+    expect(getReminderTime('2026-10-20T20:00:00.000Z', 90).toISOString()).toBe('2026-10-20T18:30:00.000Z');
+  });
+
+  it('rejects offsets that would already have fired', () => {
+    const now = new Date('2026-10-20T19:00:00.000Z');
+    expect(isReminderInFuture('2026-10-20T20:00:00.000Z', 30, now)).toBe(true);
+    expect(isReminderInFuture('2026-10-20T20:00:00.000Z', 60, now)).toBe(false);
+  });
+});
+
+describe('formatReminderOffset / getReminderMessage', () => {
+  it('uses the option label when there is one', () => {
+    expect(formatReminderOffset(30)).toBe('30 minutes before');
+    expect(formatReminderOffset(0)).toBe('At start time');
+  });
+
+  it('falls back to hours or minutes', () => {
+    expect(formatReminderOffset(180)).toBe('3 hours before');
+    expect(formatReminderOffset(45)).toBe('45 minutes before');
+  });
+
+  it('describes when the event starts', () => {
+    expect(getReminderMessage({ bar_name: 'The Crown', offset_minutes: 60 })).toBe('Starts in 1 hour at The Crown');
+    expect(getReminderMessage({ offset_minutes: 0 })).toBe('Starting now');
+  });
+});
+
+// ---------------------------------------------------------------------------
+// getReminderChange
+// ---------------------------------------------------------------------------
+
+describe('getReminderChange', () => {
+  it('keeps a reminder whose event is unchanged', () => {
+    expect(getReminderChange(reminder('1'), event())).toBe('keep');
+  });
+
+  it('reschedules when the start time moved', () => {
+    expect(getReminderChange(reminder('1'), event({ start_time: '2026-10-20T21:00:00' }))).toBe('reschedule');
+  });
+
+  it('cancels when the event is cancelled or lost its start time', () => {
+    expect(getReminderChange(reminder('1'), event({ is_cancelled: true }))).toBe('cancel');
+    expect(getReminderChange(reminder('1'), event({ start_time: undefined }))).toBe('cancel');
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Lists
+// ---------------------------------------------------------------------------
+
+describe('sortReminders', () => {
+  it('orders by when each reminder fires', () => {
+    const sorted = sortReminders({
+      late: reminder('late', { offset_minutes: 0 }),
+      early: reminder('early', { offset_minutes: 120 }),
+    });
+    expect(sorted.map((entry) => entry.instance_id)).toEqual(['early', 'late']);
+  });
+});
+
+describe('pruneStartedReminders', () => {
+  it('drops reminders for events that already started', () => {
+    const now = new Date('2026-10-20T20:30:00.000Z');
+    const kept = pruneStartedReminders(
+      { past: reminder('past'), next: reminder('next', { starts_at: '2026-10-21T20:00:00.000Z' }) },
+      now
+    );
+    expect(Object.keys(kept)).toEqual(['next']);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Stored copy
+// ---------------------------------------------------------------------------
+
+describe('parseStoredReminders', () => {
+  it('returns nothing for missing or malformed data', () => {
+    expect(parseStoredReminders(null)).toEqual({});
+    expect(parseStoredReminders('{not json')).toEqual({});
+    expect(parseStoredReminders('[]')).toEqual({});
+  });
+
+  it('keys valid entries by instance_id and drops the rest', () => {
+    const raw = JSON.stringify({
+      a: reminder('1'),
+      b: { ...reminder('2'), starts_at: 'soon' },
+      c: { title: 'No id' },
+    });
+    expect(parseStoredReminders(raw)).toEqual({ '1': reminder('1') });
+  });
+});
+
+describe('loadStoredReminders / saveStoredReminders', () => {
+  it('round-trips through storage', async () => {
+    const reminders = { '1': reminder('1'), '2': reminder('2') };
+    await saveStoredReminders(reminders);
+
+    expect(JSON.parse((await AsyncStorage.getItem(REMINDERS_KEY)) ?? '{}')).toEqual(reminders);
+    expect(await loadStoredReminders()).toEqual(reminders);
+  });
+
+  it('returns nothing when storage fails', async () => {
+    jest.spyOn(AsyncStorage, 'getItem').mockRejectedValueOnce(new Error('boom'));
+    expect(await loadStoredReminders()).toEqual({});
+  });
+});
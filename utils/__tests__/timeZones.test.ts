@@ -0,0 +1,140 @@
+import {
+  differsFromDeviceTime,
+  formatTimeZoneName,
+  getCalendarDayDiff,
+  getTimeZoneOffsetMs,
+  getZonedParts,
+  isValidTimeZone,
+  parseZonedDateTime,
+  zonedTimeToDate,
+} from '../timeZones';
+
+const HOUR = 60 * 60 * 1000;
+
+// ---------------------------------------------------------------------------
+// isValidTimeZone
+// ---------------------------------------------------------------------------
+
+describe('isValidTimeZone', () => {
+  it('accepts IANA zone names', () => {
+    expect(isValidTimeZone('America/Chicago')).toBe(true);
+    expect(isValidTimeZone('UTC')).toBe(true);
+  });
+
+  it('rejects unknown names and non-strings', () => {
+    expect(isValidTimeZone('Mars/Olympus_Mons')).toBe(false);
+    expect(isValidTimeZone('')).toBe(false);
+    expect(isValidTimeZone(-5)).toBe(false);
+    expect(isValidTimeZone(undefined)).toBe(false);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// getZonedParts / getTimeZoneOffsetMs
+// ---------------------------------------------------------------------------
+
+describe('getZonedParts', () => {
+  it("reads the instant on the zone's clock", () => {
+    // 2026-10-20 02:30 UTC is Monday evening in Chicago (CDT, UTC-5)
+    expect(getZonedParts(new Date(Date.UTC(2026, 9, 20, 2, 30)), 'America/Chicago')).toEqual({
+      year: 2026,
+      month: 10,
+      day: 19,
+      hours: 21,
+      minutes: 30,
+      weekday: 1,
+    });
+  });
+
+  it('reports midnight as hour 0', () => {
+    expect(getZonedParts(new Date(Date.UTC(2026, 9, 20, 5, 0)), 'America/Chicago').hours).toBe(0);
+  });
+
+  it('falls back to the device clock without a zone', () => {
+    const date = new Date(2026, 9, 19, 21, 30);
+    expect(getZonedParts(date)).toMatchObject({ year: 2026, month: 10, day: 19, hours: 21, minutes: 30 });
+  });
+});
+
+describe('getTimeZoneOffsetMs', () => {
+  it('follows daylight saving time', () => {
+    expect(getTimeZoneOffsetMs(new Date(Date.UTC(2026, 6, 1, 12)), 'America/New_York')).toBe(-4 * HOUR);
+    expect(getTimeZoneOffsetMs(new Date(Date.UTC(2026, 0, 15, 12)), 'America/New_York')).toBe(-5 * HOUR);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// zonedTimeToDate / parseZonedDateTime
+// ---------------------------------------------------------------------------
+
+describe('zonedTimeToDate', () => {
+  it("returns the instant the zone's clock shows the wall time", () => {
+    expect(zonedTimeToDate(2026, 10, 19, 20 * 60, 'America/Chicago').toISOString()).toBe('2026-10-20T01:00:00.000Z');
+  });
+
+  it('rolls overflowing minutes into the next day', () => {
+    expect(zonedTimeToDate(2026, 10, 19, 26 * 60, 'America/Chicago').toISOString()).toBe('2026-10-20T07:00:00.000Z');
+  });
+
+  it('lands on the right side of a DST change', () => {
+    // New York falls back on 1 November 2026; 8 PM that day is EST (UTC-5)
+    expect(zonedTimeToDate(2026, 11, 1, 20 * 60, 'America/New_York').toISOString()).toBe('2026-11-02T01:00:00.000Z');
+    expect(zonedTimeToDate(2026, 10, 31, 20 * 60, 'America/New_York').toISOString()).toBe('2026-11-01T00:00:00.000Z');
+  });
+});
+
+describe('parseZonedDateTime', () => {
+  it('treats naive date-times as wall-clock times in the zone', () => {
+    expect(parseZonedDateTime('2026-10-19T20:00:00', 'America/Los_Angeles')?.toISOString()).toBe(
+      '2026-10-20T03:00:00.000Z'
+    );
+  });
+
+  it('treats date-only values as the start of that day in the zone', () => {
+    expect(parseZonedDateTime('2026-10-19', 'America/Chicago')?.toISOString()).toBe('2026-10-19T05:00:00.000Z');
+  });
+
+  it('keeps explicit offsets as they are', () => {
+    expect(parseZonedDateTime('2026-10-19T20:00:00Z', 'America/Chicago')?.toISOString()).toBe('2026-10-19T20:00:00.000Z');
+  });
+
+  it('returns null for missing or invalid values', () => {
+    expect(parseZonedDateTime(undefined)).toBeNull();
+    expect(parseZonedDateTime('not-a-date', 'America/Chicago')).toBeNull();
+  });
+});
+
+// ---------------------------------------------------------------------------
+// getCalendarDayDiff / differsFromDeviceTime / formatTimeZoneName
+// ---------------------------------------------------------------------------
+
+describe('getCalendarDayDiff', () => {
+  it("counts days on the zone's calendar", () => {
+    const from = new Date(Date.UTC(2026, 9, 20, 2)); // Monday 9 PM in Chicago
+    const to = new Date(Date.UTC(2026, 9, 20, 14)); // Tuesday 9 AM in Chicago, 11 PM in Tokyo
+
+    expect(getCalendarDayDiff(from, to, 'America/Chicago')).toBe(1);
+    expect(getCalendarDayDiff(from, to, 'Asia/Tokyo')).toBe(0);
+  });
+});
+
+describe('differsFromDeviceTime', () => {
+  const at = new Date(Date.UTC(2026, 9, 20, 12));
+
+  it('is false without a zone or when the offsets match', () => {
+    expect(differsFromDeviceTime(undefined, at)).toBe(false);
+    expect(differsFromDeviceTime(Intl.DateTimeFormat().resolvedOptions().timeZone, at)).toBe(false);
+  });
+
+  it('is true when the zone is offset from the device', () => {
+    const deviceOffset = getTimeZoneOffsetMs(at);
+    const other = deviceOffset === getTimeZoneOffsetMs(at, 'Asia/Tokyo') ? 'America/Chicago' : 'Asia/Tokyo';
+    expect(differsFromDeviceTime(other, at)).toBe(true);
+  });
+});
+
+describe('formatTimeZoneName', () => {
+  it('returns a short zone name', () => {
+    expect(formatTimeZoneName('America/New_York', new Date(Date.UTC(2026, 6, 1)))).toBe('EDT');
+  });
+});
@@ -0,0 +1,234 @@
+// utils/apiClient.ts
+// Shared HTTP client: base-URL resolution, auth header, timeouts, cancellation and typed errors
+
+import type { LooseObject, QueryParams } from '../types';
+import { API_REQUEST_TIMEOUT_MS, NORMALIZED_BASE_URL } from './constants';
+import { buildQueryString } from './helpers';
+
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+export type ApiRequestOptions = {
+  method?: HttpMethod;
+  query?: QueryParams;
+  body?: unknown;
+  token?: string | null;
+  signal?: AbortSignal;
+  timeoutMs?: number;
+};
+
+export type ApiErrorCode = 'http_error' | 'timeout' | 'network_error' | 'not_configured' | (string & {});
+
+// Error thrown for every failed request. `status` is 0 when no response was received.
+export class ApiError extends Error {
+  readonly status: number;
+  readonly code: ApiErrorCode;
+  readonly serverMessage?: string;
+
+  constructor(message: string, options: { status: number; code: ApiErrorCode; serverMessage?: string }) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = options.status;
+    this.code = options.code;
+    this.serverMessage = options.serverMessage;
+  }
+}
+
+export type UnauthorizedHandler = (error: ApiError) => void;
+
+let unauthorizedHandler: UnauthorizedHandler | null = null;
+
+// Register the callback run when an authenticated request is rejected with 401/403.
+// AuthProvider uses this to end the session; pass null to unregister.
+export const setUnauthorizedHandler = (handler: UnauthorizedHandler | null): void => {
+  unauthorizedHandler = handler;
+};
+
+// Exchanges the stored refresh token for a new access token.
+// Resolves to null when the server rejects the refresh token (401/403); rejects when it
+// cannot be reached or fails for another reason, so the session is kept.
+export type TokenRefresher = () => Promise<string | null>;
+
+let tokenRefresher: TokenRefresher | null = null;
+let refreshInFlight: Promise<string | null> | null = null;
+
+// Register the refresher used for silent re-authentication; pass null to unregister
+export const setTokenRefresher = (refresher: TokenRefresher | null): void => {
+  tokenRefresher = refresher;
+};
+
+// Run the registered refresher, sharing one in-flight refresh between all callers
+export const refreshAccessToken = (): Promise<string | null> => {
+  if (!tokenRefresher) {
+    return Promise.resolve(null);
+  }
+  if (!refreshInFlight) {
+    refreshInFlight = tokenRefresher().finally(() => {
+      refreshInFlight = null;
+    });
+  }
+  return refreshInFlight;
+};
+
+// True when the API base URL is set (EXPO_PUBLIC_API_URL)
+export const isApiConfigured = (): boolean => NORMALIZED_BASE_URL.length > 0;
+
+// True when the error came from the caller cancelling the request
+export const isAbortError = (error: unknown): boolean =>
+  error instanceof Error && error.name === 'AbortError';
+
+// Resolve an endpoint path (e.g. '/bars') and optional query against the API base URL
+export const buildApiUrl = (path: string, query?: QueryParams): string => {
+  const normalizedPath = path.startsWith('/') ? path : `/${path}`;
+  const queryString = query ? buildQueryString(query) : '';
+  const url = `${NORMALIZED_BASE_URL}${normalizedPath}`;
+  return queryString ? `${url}?${queryString}` : url;
+};
+
+const createAbortError = (): Error => Object.assign(new Error('Aborted'), { name: 'AbortError' });
+
+// Parse a JSON body, tolerating empty or non-JSON responses
+const readJson = async (response: Response): Promise<unknown> => {
+  try {
+    return await response.json();
+  } catch {
+    return null;
+  }
+};
+
+// Pull a server-provided message / error code out of an error payload
+const extractServerError = (payload: unknown): { message?: string; code?: string } => {
+  if (!payload || typeof payload !== 'object') {
+    return {};
+  }
+  const record = payload as LooseObject;
+  const message = [record.message, record.error?.message, record.error]
+    .find((candidate) => typeof candidate === 'string' && candidate.trim().length > 0);
+  const code = [record.code, record.error?.code, record.error_code]
+    .find((candidate) => typeof candidate === 'string' && candidate.trim().length > 0);
+  return { message, code };
+};
+
+// Single network round trip; apiRequest layers token refresh and session expiry on top
+const sendRequest = async <T>(path: string, options: ApiRequestOptions): Promise<T> => {
+  const {
+    method = 'GET',
+    query,
+    body,
+    token,
+    signal,
+    timeoutMs = API_REQUEST_TIMEOUT_MS,
+  } = options;
+
+  if (!isApiConfigured()) {
+    throw new ApiError('Set EXPO_PUBLIC_API_URL to connect to the server.', {
+      status: 0,
+      code: 'not_configured',
+    });
+  }
+
+  if (signal?.aborted) {
+    throw createAbortError();
+  }
+
+  // Internal controller so both the timeout and the caller's signal can cancel the request
+  const controller = new AbortController();
+  const forwardAbort = () => controller.abort();
+  signal?.addEventListener('abort', forwardAbort);
+  let didTimeout = false;
+  const timeoutId = setTimeout(() => {
+    didTimeout = true;
+    controller.abort();
+  }, timeoutMs);
+
+  const headers: Record<string, string> = {};
+  if (token) {
+    headers.Authorization = `Bearer ${token}`;
+  }
+  if (body !== undefined) {
+    headers['Content-Type'] = 'application/json';
+  }
+
+  let response: Response;
+  try {
+    response = await fetch(buildApiUrl(path, query), {
+      method,
+      headers,
+      body: body !== undefined ? JSON.stringify(body) : undefined,
+      signal: controller.signal,
+    });
+  } catch (error) {
+    if (didTimeout) {
+      throw new ApiError('Request timed out. Please try again.', { status: 0, code: 'timeout' });
+    }
+    if (signal?.aborted || isAbortError(error)) {
+      throw createAbortError();
+    }
+    if (error instanceof Error) {
+      throw new ApiError(error.message, { status: 0, code: 'network_error' });
+    }
+    throw error;
+  } finally {
+    clearTimeout(timeoutId);
+    signal?.removeEventListener('abort', forwardAbort);
+  }
+
+  const payload = await readJson(response);
+
+  if (!response.ok) {
+    const server = extractServerError(payload);
+    throw new ApiError(server.message ?? `Request failed with status ${response.status}`, {
+      status: response.status,
+      code: server.code ?? 'http_error',
+      serverMessage: server.message,
+    });
+  }
+
+  return payload as T;
+};
+
+// Codes for a 401/403 that rejects something the user typed rather than the session
+const CREDENTIAL_ERROR_CODES: ApiErrorCode[] = ['invalid_current_password'];
+
+const isAuthRejection = (error: unknown): error is ApiError =>
+  error instanceof ApiError &&
+  (error.status === 401 || error.status === 403) &&
+  !CREDENTIAL_ERROR_CODES.includes(error.code);
+
+// Perform a request against the API and return the parsed JSON body.
+// Throws an AbortError when the caller's signal aborts, and an ApiError for everything else.
+// Authenticated requests wait for any in-flight token refresh, and a 401 triggers one
+// refresh-and-retry before the session is handed to the unauthorized handler.
+// A refresh that fails without rejecting the refresh token rethrows that failure instead.
+export const apiRequest = async <T = unknown>(path: string, options: ApiRequestOptions = {}): Promise<T> => {
+  let { token } = options;
+  if (!token) {
+    return sendRequest<T>(path, options);
+  }
+
+  if (refreshInFlight) {
+    token = (await refreshInFlight.catch(() => null)) ?? token;
+  }
+
+  try {
+    return await sendRequest<T>(path, { ...options, token });
+  } catch (error) {
+    if (!isAuthRejection(error)) {
+      throw error;
+    }
+    if (error.status === 401 && tokenRefresher && !options.signal?.aborted) {
+      const refreshedToken = await refreshAccessToken();
+      if (refreshedToken) {
+        try {
+          return await sendRequest<T>(path, { ...options, token: refreshedToken });
+        } catch (retryError) {
+          if (isAuthRejection(retryError)) {
+            unauthorizedHandler?.(retryError);
+          }
+          throw retryError;
+        }
+      }
+    }
+    unauthorizedHandler?.(error);
+    throw error;
+  }
+};
@@ -0,0 +1,86 @@
+// utils/appLock.ts
+// Persisted app-lock settings and the biometric / device-passcode check
+
+import * as LocalAuthentication from 'expo-local-authentication';
+import * as SecureStore from 'expo-secure-store';
+import { APP_LOCK_SETTINGS_KEY, DEFAULT_APP_LOCK_IDLE_MS } from './constants';
+
+export type AppLockSettings = {
+  enabled: boolean;
+  // How long the app may sit in the background before it locks again
+  idleTimeoutMs: number;
+};
+
+export type DeviceAuthResult = {
+  success: boolean;
+  message?: string;
+};
+
+export const DEFAULT_APP_LOCK_SETTINGS: AppLockSettings = {
+  enabled: false,
+  idleTimeoutMs: DEFAULT_APP_LOCK_IDLE_MS,
+};
+
+// Parse stored settings, falling back to defaults for anything missing or malformed
+export const parseAppLockSettings = (raw: string | null): AppLockSettings => {
+  if (!raw) return DEFAULT_APP_LOCK_SETTINGS;
+  try {
+    const parsed = JSON.parse(raw);
+    return {
+      enabled: parsed?.enabled === true,
+      idleTimeoutMs: typeof parsed?.idleTimeoutMs === 'number' && parsed.idleTimeoutMs >= 0
+        ? parsed.idleTimeoutMs
+        : DEFAULT_APP_LOCK_IDLE_MS,
+    };
+  } catch {
+    return DEFAULT_APP_LOCK_SETTINGS;
+  }
+};
+
+export const loadAppLockSettings = async (): Promise<AppLockSettings> => {
+  try {
+    return parseAppLockSettings(await SecureStore.getItemAsync(APP_LOCK_SETTINGS_KEY));
+  } catch {
+    return DEFAULT_APP_LOCK_SETTINGS;
+  }
+};
+
+export const saveAppLockSettings = async (settings: AppLockSettings): Promise<void> => {
+  await SecureStore.setItemAsync(APP_LOCK_SETTINGS_KEY, JSON.stringify(settings));
+};
+
+// Whether the device has Face ID / fingerprint enrolled or at least a passcode set
+export const isDeviceAuthAvailable = async (): Promise<boolean> => {
+  try {
+    const level = await LocalAuthentication.getEnrolledLevelAsync();
+    return level !== undefined && level !== LocalAuthentication.SecurityLevel.NONE;
+  } catch {
+    return false;
+  }
+};
+
+// Prompt for biometrics, letting the OS fall back to the device passcode
+export const authenticateWithDevice = async (promptMessage: string): Promise<DeviceAuthResult> => {
+  if (!(await isDeviceAuthAvailable())) {
+    return {
+      success: false,
+      message: 'Set up Face ID, fingerprint or a device passcode to use App Lock.',
+    };
+  }
+  try {
+    const result = await LocalAuthentication.authenticateAsync({
+      promptMessage,
+      cancelLabel: 'Cancel',
+      disableDeviceFallback: false,
+    });
+    if (result.success) {
+      return { success: true };
+    }
+    if (result.error === 'user_cancel' || result.error === 'system_cancel' || result.error === 'app_cancel') {
+      return { success: false };
+    }
+    return { success: false, message: 'We could not verify it was you. Please try again.' };
+  } catch {
+    return { success: false, message: 'We could not verify it was you. Please try again.' };
+  }
+};
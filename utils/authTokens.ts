@@ -0,0 +1,30 @@
+// utils/authTokens.ts
+// Access-token expiry helpers used to schedule silent refreshes
+
+// Decode the `exp` claim of a JWT into epoch milliseconds, or null for opaque tokens
+export const decodeJwtExpiry = (token: string): number | null => {
+  const segments = token.split('.');
+  if (segments.length !== 3) {
+    return null;
+  }
+  try {
+    const base64 = segments[1].replace(/-/g, '+').replace(/_/g, '/');
+    const padded = base64.padEnd(base64.length + ((4 - (base64.length % 4)) % 4), '=');
+    const claims = JSON.parse(atob(padded));
+    return typeof claims?.exp === 'number' && Number.isFinite(claims.exp) ? claims.exp * 1000 : null;
+  } catch {
+    return null;
+  }
+};
+
+// Work out when an access token expires: the JWT claim wins, then the server's expires_in (seconds)
+export const getTokenExpiry = (token: string, expiresInSeconds?: number | null, now: number = Date.now()): number | null => {
+  const fromClaim = decodeJwtExpiry(token);
+  if (fromClaim !== null) {
+    return fromClaim;
+  }
+  if (typeof expiresInSeconds === 'number' && Number.isFinite(expiresInSeconds) && expiresInSeconds > 0) {
+    return now + expiresInSeconds * 1000;
+  }
+  return null;
+};
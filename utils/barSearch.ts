@@ -0,0 +1,160 @@
+// utils/barSearch.ts
+// Bar search results: mapping the API payload, finding matching tags and explaining why each bar matched
+
+import type { Bar, BarSearchMatch, BarSearchMatchField, BarTag, LooseObject, searchBar, TagFilterOption } from '../types';
+import { mapToBarTag } from './Barmappers';
+import { BAR_SEARCH_MATCH_FIELDS } from './constants';
+
+// Texts of one field a query can match; tags can offer several
+const getFieldTexts = (bar: searchBar, field: BarSearchMatchField): string[] => {
+  switch (field) {
+    case 'name':
+      return [bar.name];
+    case 'tag':
+      return (bar.tags ?? []).map((tag) => tag.name);
+    case 'street':
+      return bar.address_street ? [bar.address_street] : [];
+    case 'city':
+      return bar.address_city ? [bar.address_city] : [];
+    case 'zip':
+      return bar.address_zip ? [bar.address_zip] : [];
+  }
+};
+
+const ALL_FIELDS = BAR_SEARCH_MATCH_FIELDS.map(({ field }) => field);
+const ADDRESS_FIELDS: BarSearchMatchField[] = ['street', 'city', 'zip'];
+
+const findMatch = (bar: searchBar, term: string, fields: BarSearchMatchField[] = ALL_FIELDS): BarSearchMatch | undefined => {
+  for (const field of fields) {
+    for (const text of getFieldTexts(bar, field)) {
+      const start = text.toLowerCase().indexOf(term);
+      if (start !== -1) {
+        return { field, text, start, end: start + term.length };
+      }
+    }
+  }
+  return undefined;
+};
+
+const normalizeQuery = (query: string): string => query.trim().toLowerCase().replace(/\s+/g, ' ');
+
+// The first field containing the whole query, else its longest word that matches.
+// Undefined when the server matched on something the result doesn't carry.
+export const getBarSearchMatch = (bar: searchBar, query: string): BarSearchMatch | undefined => {
+  const term = normalizeQuery(query);
+  if (!term) {
+    return undefined;
+  }
+  const match = findMatch(bar, term);
+  if (match) {
+    return match;
+  }
+  const words = term
+    .split(' ')
+    .filter((word) => word.length >= 2)
+    .sort((a, b) => b.length - a.length);
+  for (const word of words) {
+    const wordMatch = findMatch(bar, word);
+    if (wordMatch) {
+      return wordMatch;
+    }
+  }
+  return undefined;
+};
+
+// Map one search result; null without an id
+export const mapToSearchBar = (raw: LooseObject, query: string): searchBar | null => {
+  if (!raw || raw.id == null || String(raw.id).trim() === '') {
+    return null;
+  }
+  const tags = Array.isArray(raw.tags)
+    ? raw.tags.map(mapToBarTag).filter((tag: BarTag | null): tag is BarTag => tag !== null)
+    : [];
+  const bar: searchBar = {
+    id: String(raw.id),
+    name: raw.name ?? 'Unnamed bar',
+    address_street: raw.address_street ?? raw.street ?? undefined,
+    address_city: raw.address_city ?? raw.city ?? '',
+    address_state: raw.address_state ?? raw.state ?? '',
+    address_zip: raw.address_zip ?? raw.zip ?? undefined,
+    tags,
+  };
+  const match = getBarSearchMatch(bar, query);
+  return match ? { ...bar, match } : bar;
+};
+
+// Results from a `{ data: [...] }` or bare-array payload
+export const extractSearchBars = (payload: unknown, query: string): searchBar[] => {
+  const data = Array.isArray((payload as LooseObject)?.data) ? (payload as LooseObject).data : payload;
+  if (!Array.isArray(data)) {
+    return [];
+  }
+  return data.reduce<searchBar[]>((bars, item) => {
+    const bar = mapToSearchBar(item, query);
+    if (bar) {
+      bars.push(bar);
+    }
+    return bars;
+  }, []);
+};
+
+// Bars already loaded on this device whose street, city or zip holds the whole query, e.g. "02116" or "newbury st"
+export const findAddressMatches = (bars: Bar[], query: string): searchBar[] => {
+  const term = normalizeQuery(query);
+  if (!term) {
+    return [];
+  }
+  return bars.reduce<searchBar[]>((matches, raw) => {
+    const bar = mapToSearchBar(raw, query);
+    const match = bar && findMatch(bar, term, ADDRESS_FIELDS);
+    if (bar && match) {
+      matches.push({ ...bar, match });
+    }
+    return matches;
+  }, []);
+};
+
+// Tags named in the query ("rooftop" -> Rooftop, "back bay pubs" -> Back Bay), closest names first
+export const findMatchingTags = (tags: TagFilterOption[], query: string): TagFilterOption[] => {
+  const term = normalizeQuery(query);
+  if (term.length < 2) {
+    return [];
+  }
+  return tags
+    .filter((tag) => {
+      const name = normalizeQuery(tag.name);
+      return name.includes(term) || (name.length >= 3 && term.includes(name));
+    })
+    .sort((a, b) => Math.abs(a.name.length - term.length) - Math.abs(b.name.length - term.length));
+};
+
+// Bars listed under a matching tag; the tag explains the match when nothing else on the bar does
+export const extractTaggedSearchBars = (payload: unknown, tag: TagFilterOption, query: string): searchBar[] => {
+  const term = normalizeQuery(query);
+  const start = tag.name.toLowerCase().indexOf(term);
+  const tagMatch: BarSearchMatch =
+    start === -1
+      ? { field: 'tag', text: tag.name, start: 0, end: tag.name.length }
+      : { field: 'tag', text: tag.name, start, end: start + term.length };
+  return extractSearchBars(payload, query).map((bar) => {
+    if (bar.match) {
+      return bar;
+    }
+    const tags = bar.tags?.some((barTag) => barTag.id === tag.id)
+      ? bar.tags
+      : [...(bar.tags ?? []), { id: tag.id, name: tag.name, category: tag.category }];
+    return { ...bar, tags, match: tagMatch };
+  });
+};
+
+// Earlier lists win; later ones only add bars not already listed
+export const mergeSearchBars = (...lists: searchBar[][]): searchBar[] => {
+  const seen = new Set<string>();
+  return lists.flat().filter((bar) => {
+    if (seen.has(bar.id)) {
+      return false;
+    }
+    seen.add(bar.id);
+    return true;
+  });
+};
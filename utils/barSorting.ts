@@ -0,0 +1,80 @@
+// utils/barSorting.ts
+// Client-side ordering for the bars list, so merged pages keep the chosen sort even if the API ignores it
+
+import type { Bar, BarSortOption } from '../types';
+import { getDistanceInUnit } from './helpers';
+import { getBarOpenStatus, getNextClosingTime } from './Timeformatters';
+
+export type BarSortContext = {
+  selectedTags: string[];
+  // Moment closing times are measured from; defaults to now
+  referenceTime?: Date | null;
+};
+
+type BarComparator = (a: Bar, b: Bar) => number;
+
+// Missing values always sort last, whichever way the list runs
+const compareOptional = (a: number | null, b: number | null, direction: 1 | -1): number => {
+  if (a === null && b === null) return 0;
+  if (a === null) return 1;
+  if (b === null) return -1;
+  return (a - b) * direction;
+};
+
+// Compared in miles; a km-only distance converts, so lists fetched in either unit order the same
+const getDistance = (bar: Bar): number | null => getDistanceInUnit(bar.distance_miles, bar.distance_km, 'miles') ?? null;
+
+// When the bar next closes after `at`: from its weekly hours, else the list API's closing time
+const getClosingTimestamp = (bar: Bar, at: Date): number | null => {
+  const status = getBarOpenStatus(bar.hours, at, bar.timezone);
+  if (status.isOpen && status.closesAt) {
+    return status.closesAt.getTime();
+  }
+  return getNextClosingTime(bar.closes_at, at, bar.timezone)?.getTime() ?? null;
+};
+
+// More selected tags first; among equals, bars whose tags are mostly the selected ones
+const getTagMatch = (bar: Bar, selected: Set<string>): { matched: number; share: number } => {
+  if (selected.size === 0 || bar.tags.length === 0) {
+    return { matched: 0, share: 0 };
+  }
+  const matched = bar.tags.filter((tag) => selected.has(tag.id)).length;
+  return { matched, share: matched / bar.tags.length };
+};
+
+const compareByName: BarComparator = (a, b) =>
+  a.name.localeCompare(b.name, undefined, { sensitivity: 'base', numeric: true });
+
+const compareByDistance: BarComparator = (a, b) => compareOptional(getDistance(a), getDistance(b), 1);
+
+// Comparator for a sort option; ties fall back to distance. Callers sort stably, so remaining ties keep server order.
+export const getBarComparator = (sort: BarSortOption, context: BarSortContext): BarComparator => {
+  switch (sort) {
+    case 'closing_latest':
+    case 'closing_soonest': {
+      const at = context.referenceTime ?? new Date();
+      const direction = sort === 'closing_latest' ? -1 : 1;
+      const closingTimes = new Map<string, number | null>();
+      const closingOf = (bar: Bar) => {
+        if (!closingTimes.has(bar.id)) {
+          closingTimes.set(bar.id, getClosingTimestamp(bar, at));
+        }
+        return closingTimes.get(bar.id) ?? null;
+      };
+      return (a, b) => compareOptional(closingOf(a), closingOf(b), direction) || compareByDistance(a, b);
+    }
+    case 'name':
+      return compareByName;
+    case 'best_match': {
+      const selected = new Set(context.selectedTags);
+      return (a, b) => {
+        const matchA = getTagMatch(a, selected);
+        const matchB = getTagMatch(b, selected);
+        return matchB.matched - matchA.matched || matchB.share - matchA.share || compareByDistance(a, b);
+      };
+    }
+    case 'nearest':
+    default:
+      return compareByDistance;
+  }
+};
@@ -0,0 +1,312 @@
+// utils/calendar.ts
+// Calendar export: event times, recurrence rules and RFC 5545 (.ics) files
+
+import type { Event } from '../types';
+import { getTimeZoneOffsetMs, getZonedParts, parseZonedDateTime } from './timeZones';
+
+export type EventTimes = {
+  start: Date;
+  end: Date | null;
+};
+
+export type RecurrenceFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+
+export type EventRecurrence = {
+  frequency: RecurrenceFrequency;
+  interval: number;
+};
+
+const ICS_PRODUCT_ID = '-//To The Pub//Events//EN';
+const ICS_UID_DOMAIN = 'tothepub.app';
+const ICS_LINE_LIMIT = 75;
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+const WEEKDAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+// Plain-language patterns the API sends, e.g. "weekly" or "every 2 weeks"
+const RECURRENCE_WORDS: Record<string, EventRecurrence> = {
+  daily: { frequency: 'DAILY', interval: 1 },
+  weekly: { frequency: 'WEEKLY', interval: 1 },
+  biweekly: { frequency: 'WEEKLY', interval: 2 },
+  fortnightly: { frequency: 'WEEKLY', interval: 2 },
+  monthly: { frequency: 'MONTHLY', interval: 1 },
+  yearly: { frequency: 'YEARLY', interval: 1 },
+  annually: { frequency: 'YEARLY', interval: 1 },
+};
+
+const RECURRENCE_UNITS: Record<string, RecurrenceFrequency> = {
+  day: 'DAILY',
+  week: 'WEEKLY',
+  month: 'MONTHLY',
+  year: 'YEARLY',
+};
+
+// Start and end as instants; an end at or before the start belongs to the next day
+export const getEventTimes = (event: Event): EventTimes | null => {
+  const start = parseZonedDateTime(event.start_time, event.timezone);
+  if (!start) return null;
+  let end = parseZonedDateTime(event.end_time, event.timezone);
+  if (end && end.getTime() <= start.getTime()) {
+    end = new Date(end.getTime() + DAY_MS);
+  }
+  return { start, end };
+};
+
+// Read a recurrence pattern; "none" and anything unrecognised means a one-off event
+export const parseRecurrencePattern = (pattern?: string): EventRecurrence | null => {
+  const normalized = pattern?.trim().toLowerCase().replace(/[\s_-]+/g, ' ');
+  if (!normalized) return null;
+  const ruleFrequency = normalized.match(/freq=(daily|weekly|monthly|yearly)/);
+  if (ruleFrequency) {
+    const ruleInterval = Number(normalized.match(/interval=(\d+)/)?.[1] ?? 1);
+    return { frequency: ruleFrequency[1].toUpperCase() as RecurrenceFrequency, interval: Math.max(1, ruleInterval) };
+  }
+  const word = RECURRENCE_WORDS[normalized.replace(/ /g, '')];
+  if (word) return word;
+  const every = normalized.match(/^every (?:(\d+|other) )?(day|week|month|year)s?$/);
+  if (every) {
+    const interval = every[1] === 'other' ? 2 : Number(every[1] ?? 1);
+    return { frequency: RECURRENCE_UNITS[every[2]], interval: Math.max(1, interval) };
+  }
+  return null;
+};
+
+export const toRecurrenceRule = (recurrence: EventRecurrence): string =>
+  recurrence.interval > 1
+    ? `FREQ=${recurrence.frequency};INTERVAL=${recurrence.interval}`
+    : `FREQ=${recurrence.frequency}`;
+
+// One line for the calendar's location field
+export const getEventLocation = (event: Event): string | undefined => {
+  const cityState = [event.address_city, event.address_state].filter(Boolean).join(', ');
+  const cityStateZip = [cityState, event.address_zip].filter(Boolean).join(' ');
+  const parts = [event.bar_name, event.address_street, cityStateZip]
+    .map((part) => part?.trim())
+    .filter((part): part is string => Boolean(part));
+  return parts.length > 0 ? parts.join(', ') : undefined;
+};
+
+const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+
+// 20261020T200000Z
+export const formatIcsUtc = (date: Date): string =>
+  `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}` +
+  `T${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`;
+
+// 20261020T200000, read as the wall clock in `timeZone`
+export const formatIcsLocal = (date: Date, timeZone: string): string => {
+  const parts = getZonedParts(date, timeZone);
+  return `${parts.year}${pad(parts.month)}${pad(parts.day)}T${pad(parts.hours)}${pad(parts.minutes)}00`;
+};
+
+export const escapeIcsText = (value: string): string =>
+  value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+
+const utf8Length = (char: string): number => {
+  const code = char.codePointAt(0) ?? 0;
+  if (code < 0x80) return 1;
+  if (code < 0x800) return 2;
+  return code < 0x10000 ? 3 : 4;
+};
+
+// Lines longer than 75 octets continue on the next line after a single space
+export const foldIcsLine = (line: string): string => {
+  const chunks: string[] = [];
+  let current = '';
+  let currentLength = 0;
+  for (const char of line) {
+    const length = utf8Length(char);
+    // Continuation lines spend one octet on the leading space
+    const limit = chunks.length === 0 ? ICS_LINE_LIMIT : ICS_LINE_LIMIT - 1;
+    if (currentLength + length > limit) {
+      chunks.push(current);
+      current = '';
+      currentLength = 0;
+    }
+    current += char;
+    currentLength += length;
+  }
+  chunks.push(current);
+  return chunks.join('\r\n ');
+};
+
+// Recurring events repeat in the venue's zone so they keep their wall-clock time across DST.
+// Every zone used this way gets a VTIMEZONE block (see buildTimeZoneLines).
+const formatDateProperty = (name: string, date: Date, timeZone: string | undefined, isRecurring: boolean): string =>
+  isRecurring && timeZone ? `${name};TZID=${timeZone}:${formatIcsLocal(date, timeZone)}` : `${name}:${formatIcsUtc(date)}`;
+
+type ZoneTransition = {
+  at: Date;
+  offsetFrom: number;
+  offsetTo: number;
+};
+
+// Instants during the year at which the zone's UTC offset changes
+const findZoneTransitions = (timeZone: string, year: number): ZoneTransition[] => {
+  const transitions: ZoneTransition[] = [];
+  const yearEnd = Date.UTC(year + 1, 0, 1, 12);
+  let previous = Date.UTC(year, 0, 1, 12);
+  let previousOffset = getTimeZoneOffsetMs(new Date(previous), timeZone);
+  while (previous < yearEnd) {
+    const next = previous + DAY_MS;
+    const nextOffset = getTimeZoneOffsetMs(new Date(next), timeZone);
+    if (nextOffset !== previousOffset) {
+      // Narrow the day down to the first minute on the new offset
+      let low = previous;
+      let high = next;
+      while (high - low > MINUTE_MS) {
+        const middle = low + Math.floor((high - low) / 2 / MINUTE_MS) * MINUTE_MS;
+        if (getTimeZoneOffsetMs(new Date(middle), timeZone) === previousOffset) {
+          low = middle;
+        } else {
+          high = middle;
+        }
+      }
+      transitions.push({ at: new Date(high), offsetFrom: previousOffset, offsetTo: nextOffset });
+    }
+    previous = next;
+    previousOffset = nextOffset;
+  }
+  return transitions;
+};
+
+// -0500
+const formatUtcOffset = (offsetMs: number): string => {
+  const minutes = Math.round(Math.abs(offsetMs) / MINUTE_MS);
+  return `${offsetMs < 0 ? '-' : '+'}${pad(Math.floor(minutes / 60))}${pad(minutes % 60)}`;
+};
+
+// "Second Sunday of March"; a date in the month's last seven days counts from the end
+const toObservanceRule = (onset: Date): string => {
+  const day = onset.getUTCDate();
+  const daysInMonth = new Date(Date.UTC(onset.getUTCFullYear(), onset.getUTCMonth() + 1, 0)).getUTCDate();
+  const week = day + 7 > daysInMonth ? -1 : Math.ceil(day / 7);
+  return `FREQ=YEARLY;BYMONTH=${onset.getUTCMonth() + 1};BYDAY=${week}${WEEKDAY_CODES[onset.getUTCDay()]}`;
+};
+
+// RFC 5545 requires a VTIMEZONE for every TZID. The zone's changes during `year` become observances;
+// a yearly DST pair repeats, any other change is written once.
+const buildTimeZoneLines = (timeZone: string, year: number): string[] => {
+  const transitions = findZoneTransitions(timeZone, year);
+  const lines = ['BEGIN:VTIMEZONE', `TZID:${timeZone}`];
+  if (transitions.length === 0) {
+    const offset = formatUtcOffset(getTimeZoneOffsetMs(new Date(Date.UTC(year, 0, 1)), timeZone));
+    lines.push('BEGIN:STANDARD', `DTSTART:${year}0101T000000`, `TZOFFSETFROM:${offset}`, `TZOFFSETTO:${offset}`, 'END:STANDARD');
+  }
+  transitions.forEach(({ at, offsetFrom, offsetTo }) => {
+    const kind = offsetTo > offsetFrom ? 'DAYLIGHT' : 'STANDARD';
+    // Onsets are written in the wall-clock time in force just before the change
+    const onset = new Date(at.getTime() + offsetFrom);
+    lines.push(`BEGIN:${kind}`, `DTSTART:${formatIcsUtc(onset).slice(0, -1)}`);
+    if (transitions.length === 2) {
+      lines.push(`RRULE:${toObservanceRule(onset)}`);
+    }
+    lines.push(`TZOFFSETFROM:${formatUtcOffset(offsetFrom)}`, `TZOFFSETTO:${formatUtcOffset(offsetTo)}`, `END:${kind}`);
+  });
+  lines.push('END:VTIMEZONE');
+  return lines;
+};
+
+type CalendarEntry = {
+  event: Event;
+  times: EventTimes;
+  recurrence: EventRecurrence | null;
+  // Cancelled dates of a recurring series
+  excludedStarts: Date[];
+};
+
+// A recurring event's listed instances collapse into one repeating entry from its first date;
+// its cancelled instances become exceptions. Other cancelled instances are left out.
+const toCalendarEntries = (events: Event[]): CalendarEntry[] => {
+  const entries: CalendarEntry[] = [];
+  const seriesByEventId = new Map<string, CalendarEntry>();
+  const sorted = events
+    .map((event) => ({ event, times: getEventTimes(event) }))
+    .filter((item): item is { event: Event; times: EventTimes } => item.times !== null)
+    .sort((a, b) => a.times.start.getTime() - b.times.start.getTime());
+
+  sorted.forEach(({ event, times }) => {
+    const recurrence = parseRecurrencePattern(event.recurrence_pattern);
+    const series = recurrence && event.event_id ? seriesByEventId.get(event.event_id) : undefined;
+    if (series) {
+      if (event.is_cancelled) series.excludedStarts.push(times.start);
+      return;
+    }
+    if (event.is_cancelled) return;
+    const entry: CalendarEntry = { event, times, recurrence, excludedStarts: [] };
+    entries.push(entry);
+    if (recurrence && event.event_id) seriesByEventId.set(event.event_id, entry);
+  });
+  return entries;
+};
+
+// Zones of the recurring entries, each with the year before its earliest start
+// so the first observance begins before any date that refers to it
+const getTimeZoneYears = (entries: CalendarEntry[]): Map<string, number> => {
+  const years = new Map<string, number>();
+  entries.forEach(({ event, times, recurrence }) => {
+    if (!recurrence || !event.timezone) return;
+    const year = times.start.getUTCFullYear() - 1;
+    years.set(event.timezone, Math.min(year, years.get(event.timezone) ?? year));
+  });
+  return years;
+};
+
+const buildEventLines = ({ event, times, recurrence, excludedStarts }: CalendarEntry, stamp: Date): string[] => {
+  const isRecurring = recurrence !== null;
+  const timeZone = event.timezone;
+  const uid = isRecurring && event.event_id ? `event-${event.event_id}` : `instance-${event.instance_id}`;
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${uid}@${ICS_UID_DOMAIN}`,
+    `DTSTAMP:${formatIcsUtc(stamp)}`,
+    formatDateProperty('DTSTART', times.start, timeZone, isRecurring),
+  ];
+  if (times.end) {
+    lines.push(formatDateProperty('DTEND', times.end, timeZone, isRecurring));
+  }
+  if (recurrence) {
+    lines.push(`RRULE:${toRecurrenceRule(recurrence)}`);
+    excludedStarts.forEach((start) => lines.push(formatDateProperty('EXDATE', start, timeZone, isRecurring)));
+  }
+  lines.push(`SUMMARY:${escapeIcsText(event.title)}`);
+  if (event.description) {
+    lines.push(`DESCRIPTION:${escapeIcsText(event.description)}`);
+  }
+  const location = getEventLocation(event);
+  if (location) {
+    lines.push(`LOCATION:${escapeIcsText(location)}`);
+  }
+  const url = event.external_url ?? event.website;
+  if (url) {
+    lines.push(`URL:${url}`);
+  }
+  lines.push('END:VEVENT');
+  return lines;
+};
+
+// A complete VCALENDAR for one or more events; cancelled or undated events are skipped
+export const buildCalendarFile = (events: Event[], calendarName?: string, now: Date = new Date()): string => {
+  const lines = ['BEGIN:VCALENDAR', 'VERSION:2.0', `PRODID:${ICS_PRODUCT_ID}`, 'CALSCALE:GREGORIAN', 'METHOD:PUBLISH'];
+  if (calendarName) {
+    lines.push(`X-WR-CALNAME:${escapeIcsText(calendarName)}`);
+  }
+  const entries = toCalendarEntries(events);
+  getTimeZoneYears(entries).forEach((year, timeZone) => lines.push(...buildTimeZoneLines(timeZone, year)));
+  entries.forEach((entry) => lines.push(...buildEventLines(entry, now)));
+  lines.push('END:VCALENDAR');
+  return `${lines.map(foldIcsLine).join('\r\n')}\r\n`;
+};
+
+// "The Crown events" -> "the-crown-events.ics"
+export const getCalendarFileName = (name: string): string => {
+  const slug = name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+  return `${slug || 'events'}.ics`;
+};
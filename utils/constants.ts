@@ -1,14 +1,28 @@
 // Configuration constants
-import type { Coordinates, InfiniteScrollConfig, QueryParams } from '../types';
+import type { BarSearchMatchField, BarSortOption, Coordinates, DistanceUnit, EventDatePreset, EventFeed, InfiniteScrollConfig, QueryParams, ReminderOffsetOption, SearchScope, TagMatchMode, ThemeMode, TimeFormat } from '../types';
 
 // API Configuration
 export const API_BASE_URL = (process.env.EXPO_PUBLIC_API_URL ?? '').trim();
 export const NORMALIZED_BASE_URL = API_BASE_URL.replace(/\/+$/, '');
-export const BARS_ENDPOINT = NORMALIZED_BASE_URL ? `${NORMALIZED_BASE_URL}/bars` : '/get/bars';
-export const BAR_TAGS_ENDPOINT = NORMALIZED_BASE_URL ? `${NORMALIZED_BASE_URL}/BarTags` : '/get/BarTags';
-export const EVENTS_ENDPOINT = NORMALIZED_BASE_URL ? `${NORMALIZED_BASE_URL}/events` : '/get/events';
-export const EVENT_TAGS_ENDPOINT = NORMALIZED_BASE_URL ? `${NORMALIZED_BASE_URL}/eventTags` : '/get/eventTags';
-export const REGISTER_ENDPOINT = NORMALIZED_BASE_URL ? `${NORMALIZED_BASE_URL}/appUsers/register` : '/post/appUsers/register';
+export const API_REQUEST_TIMEOUT_MS = 15_000;
+export const AUTH_REQUEST_TIMEOUT_MS = 10_000;
+
+// API endpoint paths (resolved against NORMALIZED_BASE_URL by utils/apiClient)
+export const BARS_ENDPOINT = '/bars';
+export const BAR_SEARCH_ENDPOINT = '/bars/search/name';
+export const BAR_TAGS_ENDPOINT = '/BarTags';
+export const EVENTS_ENDPOINT = '/events';
+export const EVENT_INSTANCES_ENDPOINT = '/events/instances';
+export const EVENT_TAGS_ENDPOINT = '/eventTags';
+export const EVENT_SEARCH_ENDPOINT = '/events/search';
+export const REGISTER_ENDPOINT = '/appUsers/register';
+export const LOGIN_ENDPOINT = '/appUsers/login';
+export const ME_ENDPOINT = '/appUsers/me';
+export const PING_ENDPOINT = '/appUsers/ping';
+export const REFRESH_ENDPOINT = '/appUsers/refresh';
+export const FORGOT_PASSWORD_ENDPOINT = '/appUsers/forgot-password';
+export const RESET_PASSWORD_ENDPOINT = '/appUsers/reset-password';
+export const FAVORITES_ENDPOINT = '/appUsers/me/favorites';
 
 // Cache TTLs
 export const LOCATION_CACHE_TTL_MS = 5 * 60 * 1000; // 5 minutes
@@ -20,23 +34,80 @@ export const DEFAULT_COORDS: Coordinates = {
   lon: -71.0565,
 };
 
-// Base index.tsx Parameters (align with backend expectations)
+// Cities the user can pick as the fallback when their location is unavailable
+export const DEFAULT_LOCATION_OPTIONS: { id: string; label: string; coords: Coordinates }[] = [
+  { id: 'boston', label: 'Boston', coords: DEFAULT_COORDS },
+  { id: 'new-york', label: 'New York', coords: { lat: 40.7128, lon: -74.006 } },
+  { id: 'chicago', label: 'Chicago', coords: { lat: 41.8781, lon: -87.6298 } },
+  { id: 'san-francisco', label: 'San Francisco', coords: { lat: 37.7749, lon: -122.4194 } },
+];
+export const DEFAULT_LOCATION_ID = 'boston';
+
+// Base index.tsx Parameters (align with backend expectations); useBars adds the preferred `unit`
 export const INDEX_BASE_QUERY_PARAMS: QueryParams = {
-  unit: 'miles',
   include: 'tags',
   open_now: 'true',
 };
 
+// Bars list sort options, in the order the sort selector shows them
+export const BAR_SORT_OPTIONS: { value: BarSortOption; label: string }[] = [
+  { value: 'nearest', label: 'Nearest' },
+  { value: 'closing_latest', label: 'Closing latest' },
+  { value: 'closing_soonest', label: 'Closing soonest' },
+  { value: 'name', label: 'A–Z' },
+  { value: 'best_match', label: 'Best match' },
+];
+export const DEFAULT_BAR_SORT: BarSortOption = 'nearest';
+
+// Query params the bars endpoint takes for each sort option
+export const BAR_SORT_QUERY_PARAMS: Record<BarSortOption, QueryParams> = {
+  nearest: { sort: 'distance', order: 'asc' },
+  closing_latest: { sort: 'closes_at', order: 'desc' },
+  closing_soonest: { sort: 'closes_at', order: 'asc' },
+  name: { sort: 'name', order: 'asc' },
+  best_match: { sort: 'tag_match', order: 'desc' },
+};
+
 //Event.tsx Parameters
 export const EVENTS_BASE_QUERY_PARAMS: QueryParams = {
   radius: 10,
-  unit: 'miles',
   upcoming: 'true',
 }
 
-export const RADIUS_OPTIONS = [1, 3, 5, 10];
-export const DEFAULT_EVENT_RADIUS_MILES = 5;
-export const DISTANCE_UNIT = 'miles';
+// Distance unit: what the API is asked for (`unit`) and how distances and radii are shown
+export const DEFAULT_DISTANCE_UNIT: DistanceUnit = 'miles';
+export const DISTANCE_UNIT_LABELS: Record<DistanceUnit, { short: string; long: string }> = {
+  miles: { short: 'mi', long: 'miles' },
+  km: { short: 'km', long: 'kilometers' },
+};
+export const DISTANCE_UNIT_OPTIONS: { label: string; value: DistanceUnit }[] = [
+  { label: 'Miles', value: 'miles' },
+  { label: 'Kilometers', value: 'km' },
+];
+
+// Radius choices per unit; km steps are rounded rather than converted from the mile steps
+export const RADIUS_OPTIONS: Record<DistanceUnit, number[]> = {
+  miles: [1, 3, 5, 10],
+  km: [2, 5, 10, 15],
+};
+export const DEFAULT_EVENT_RADIUS: Record<DistanceUnit, number> = {
+  miles: 5,
+  km: 10,
+};
+
+// Clock format for every time the app shows
+export const DEFAULT_TIME_FORMAT: TimeFormat = '12h';
+export const TIME_FORMAT_OPTIONS: { label: string; value: TimeFormat }[] = [
+  { label: '12-hour', value: '12h' },
+  { label: '24-hour', value: '24h' },
+];
+
+export const DEFAULT_THEME_MODE: ThemeMode = 'system';
+export const THEME_MODE_OPTIONS: { label: string; value: ThemeMode }[] = [
+  { label: 'System', value: 'system' },
+  { label: 'Light', value: 'light' },
+  { label: 'Dark', value: 'dark' },
+];
 
 // Infinite Scroll Configuration
 export const INFINITE_SCROLL_CONFIG: InfiniteScrollConfig = {
@@ -48,12 +119,128 @@ export const INFINITE_SCROLL_CONFIG: InfiniteScrollConfig = {
   cacheTimeout: 300000, // 5 minutes
   requestTimeout: 15000, // 15 seconds
 };
+// Exporting a bar's events loads the pages not scrolled to yet, up to this many pages in all
+export const BAR_EVENTS_EXPORT_MAX_PAGES = 20;
+
+// Event tag filter: several tags match events with any of them by default
+export const TAG_MATCH_OPTIONS: { value: TagMatchMode; label: string }[] = [
+  { value: 'any', label: 'Any tag' },
+  { value: 'all', label: 'All tags' },
+];
+export const DEFAULT_TAG_MATCH_MODE: TagMatchMode = 'any';
+// Without a multi-tag parameter on the API, each tag is requested separately and merged here
+export const EVENT_TAG_QUERY_CONFIG = {
+  supportsMultipleTags: false,
+  tagsParam: 'event_tag_ids',
+  matchParam: 'tag_match',
+  // "All tags" keeps loading pages until something new matches, up to this many per load
+  maxPagesPerLoad: 5,
+};
+
+// Events tab date filter: quick presets, plus the options offered for a custom range
+export const EVENT_DATE_PRESETS: { value: Exclude<EventDatePreset, 'custom'>; label: string }[] = [
+  { value: 'tonight', label: 'Tonight' },
+  { value: 'tomorrow', label: 'Tomorrow' },
+  { value: 'weekend', label: 'This Weekend' },
+  { value: 'next7', label: 'Next 7 Days' },
+];
+export const EVENT_DATE_FILTER_CONFIG = {
+  tonightStartsAfter: 17 * 60, // "Tonight" is today from 5 PM
+  customRangeDays: 30, // days offered by the range sheet, from today
+  firstTimeOfDayMinutes: 12 * 60,
+  lastTimeOfDayMinutes: 23 * 60,
+  timeOfDayStepMinutes: 60,
+};
+
+// Events tab "Following" feed: one request per favorite bar, so both are capped
+export const EVENT_FEED_OPTIONS: { value: EventFeed; label: string }[] = [
+  { value: 'nearby', label: 'Nearby' },
+  { value: 'following', label: 'Following' },
+];
+export const FOLLOWING_FEED_CONFIG = {
+  maxBars: 25,
+  eventsPerBar: 10,
+  maxConcurrentRequests: 4,
+};
 
 // Search screen configuration
 export const SAVED_BARS_KEY = 'ttp-saved-bars';
 export const MAX_SAVED_BARS = 50;
+export const SAVED_BARS_LIMIT_OPTIONS = [10, 25, MAX_SAVED_BARS];
 export const SEARCH_DEBOUNCE_MS = 300;
 export const MAX_QUERY_LENGTH = 100;
+// Bar search: names through BAR_SEARCH_ENDPOINT, the bars listed under each /BarTags tag
+// (neighbourhood tags included) whose name matches the query, and, since the API has no
+// address search, street, city and zip matches among the bar lists saved on the device.
+export const BAR_SEARCH_CONFIG = {
+  maxTags: 3,
+  barsPerTag: 10,
+  maxAddressMatches: 20,
+};
+// Order a bar's fields are checked in when explaining why it matched
+export const BAR_SEARCH_MATCH_FIELDS: { field: BarSearchMatchField; label: string }[] = [
+  { field: 'name', label: 'Name' },
+  { field: 'tag', label: 'Tag' },
+  { field: 'street', label: 'Street' },
+  { field: 'city', label: 'City' },
+  { field: 'zip', label: 'Zip' },
+];
+// Keyword search over upcoming event titles and descriptions
+export const EVENT_SEARCH_LIMIT = 25;
+export const SEARCH_SCOPE_OPTIONS: { value: SearchScope; label: string }[] = [
+  { value: 'bars', label: 'Bars' },
+  { value: 'events', label: 'Events' },
+];
+
+// Favorite bars: on-device copy of the account's list, plus favorites added while signed out
+export const FAVORITES_KEY = 'ttp-favorites';
+
+// Event reminders: local notifications keyed by event instance_id
+export const REMINDERS_KEY = 'ttp-event-reminders';
+export const REMINDER_CHANNEL_ID = 'event-reminders';
+export const REMINDER_OFFSET_OPTIONS: ReminderOffsetOption[] = [
+  { label: 'At start time', value: 0 },
+  { label: '15 minutes before', value: 15 },
+  { label: '30 minutes before', value: 30 },
+  { label: '1 hour before', value: 60 },
+  { label: '2 hours before', value: 120 },
+  { label: '1 day before', value: 24 * 60 },
+];
+
+// Persisted list caches (AsyncStorage) for instant cold starts and offline browsing
+// Bump version whenever the cached Bar / Event shapes change so old entries are ignored
+export const PERSISTED_CACHE_CONFIG = {
+  keyPrefix: 'ttp-cache',
+  version: 1,
+  maxEntries: 5, // distinct coords/tags/radius keys kept per list
+  maxItems: 50, // rows kept per entry
+  maxBytes: 250_000, // serialized size cap per entry
+  barsTtlMs: 24 * 60 * 60 * 1000, // 24 hours
+  eventsTtlMs: 6 * 60 * 60 * 1000, // 6 hours
+};
+
+// App lock (biometric / device passcode)
+export const APP_LOCK_SETTINGS_KEY = 'ttp-app-lock';
+export const PREFERENCES_KEY = 'ttp-preferences';
+export const DEFAULT_APP_LOCK_IDLE_MS = 60_000;
+export const APP_LOCK_IDLE_OPTIONS = [
+  { label: 'Immediately', value: 0 },
+  { label: '1 min', value: 60_000 },
+  { label: '5 min', value: 300_000 },
+  { label: '15 min', value: 900_000 },
+];
+
+// Bars closing within this many minutes read "Closes in N min"
+export const CLOSING_SOON_MINUTES = 60;
+
+// "Plan for later": how many days ahead can be picked, and the time slots offered each day.
+// Slots run past midnight so a late night stays on the evening it started.
+export const PLAN_AHEAD_DAYS = 7;
+export const PLAN_TIME_SLOT_CONFIG = {
+  firstSlotMinutes: 11 * 60,
+  lastSlotMinutes: 26 * 60,
+  stepMinutes: 30,
+};
 
 // Day Name to Index Mapping
 export const DAY_NAME_INDEX: Record<string, number> = {
@@ -70,4 +257,15 @@ export const DAY_NAME_INDEX: Record<string, number> = {
 export const HERO_MAP_DELTA = {
 	latitudeDelta: 0.005,
 	longitudeDelta: 0.005,
-};
\ No newline at end of file
+};
+// Map mode on the Open Bars / Events tabs
+export const DEFAULT_MAP_DELTA = {
+	latitudeDelta: 0.05,
+	longitudeDelta: 0.05,
+};
+export const MIN_MAP_DELTA = 0.01;
+export const MAP_CLUSTER_GRID_SIZE = 6; // cells across the visible region; markers sharing a cell are clustered
+export const MAP_SEARCH_AREA_THRESHOLD = 0.25; // share of the visible span the map must move before "Search this area" shows
+export const METERS_PER_MILE = 1609.344;
+export const METERS_PER_KM = 1000;
+export const KM_PER_MILE = METERS_PER_MILE / METERS_PER_KM;
@@ -0,0 +1,129 @@
+// utils/eventDateFilters.ts
+// Events tab date filters: presets, query params, labels and the client-side window check
+
+import type { Event, EventDateFilter, EventDatePreset, QueryParams, TimeFormat } from '../types';
+import { DEFAULT_TIME_FORMAT, EVENT_DATE_FILTER_CONFIG, EVENT_DATE_PRESETS } from './constants';
+import { formatShortTime } from './Timeformatters';
+import { getZonedParts, parseZonedDateTime } from './timeZones';
+
+const FRIDAY = 5;
+const SATURDAY = 6;
+const SUNDAY = 0;
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+// Local calendar day as YYYY-MM-DD
+export const toDateKey = (date: Date): string =>
+  `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+// Midnight of the day `offset` days after `date`
+export const addDays = (date: Date, offset: number): Date =>
+  new Date(date.getFullYear(), date.getMonth(), date.getDate() + offset);
+
+const parseDateKey = (key: string): Date => {
+  const [year, month, day] = key.split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+// Days covered by "This Weekend": Friday to Sunday, starting today once the weekend has begun
+const getWeekendOffsets = (weekday: number): [number, number] => {
+  if (weekday === SUNDAY) return [0, 0];
+  if (weekday === FRIDAY || weekday === SATURDAY) return [0, 7 - weekday];
+  return [FRIDAY - weekday, FRIDAY - weekday + 2];
+};
+
+// Resolve a quick preset against today's date
+export const getPresetDateFilter = (
+  preset: Exclude<EventDatePreset, 'custom'>,
+  now: Date = new Date()
+): EventDateFilter => {
+  const today = toDateKey(now);
+  switch (preset) {
+    case 'tonight':
+      return {
+        preset,
+        startDate: today,
+        endDate: today,
+        startsAfter: EVENT_DATE_FILTER_CONFIG.tonightStartsAfter,
+        startsBefore: null,
+      };
+    case 'tomorrow': {
+      const tomorrow = toDateKey(addDays(now, 1));
+      return { preset, startDate: tomorrow, endDate: tomorrow, startsAfter: null, startsBefore: null };
+    }
+    case 'weekend': {
+      const [startOffset, endOffset] = getWeekendOffsets(now.getDay());
+      return {
+        preset,
+        startDate: toDateKey(addDays(now, startOffset)),
+        endDate: toDateKey(addDays(now, endOffset)),
+        startsAfter: null,
+        startsBefore: null,
+      };
+    }
+    case 'next7':
+      return { preset, startDate: today, endDate: toDateKey(addDays(now, 6)), startsAfter: null, startsBefore: null };
+  }
+};
+
+// 21:00 for 1260 minutes after midnight
+export const formatMinutesOfDay = (minutes: number): string => `${pad(Math.floor(minutes / 60))}:${pad(minutes % 60)}`;
+
+// Query params for /events/instances; days and times are read as venue wall-clock values
+export const getEventDateQuery = (filter: EventDateFilter): QueryParams => ({
+  start_date: filter.startDate,
+  end_date: filter.endDate,
+  start_time_after: filter.startsAfter !== null ? formatMinutesOfDay(filter.startsAfter) : undefined,
+  start_time_before: filter.startsBefore !== null ? formatMinutesOfDay(filter.startsBefore) : undefined,
+});
+
+const formatTimeOfDay = (minutes: number, timeFormat: TimeFormat): string =>
+  formatShortTime(new Date(2000, 0, 1, 0, minutes), undefined, timeFormat);
+
+// "after 9 PM", "before 11 PM" or "9 PM – 11 PM"; null without time-of-day bounds
+export const formatTimeOfDayWindow = (
+  filter: EventDateFilter,
+  timeFormat: TimeFormat = DEFAULT_TIME_FORMAT
+): string | null => {
+  const { startsAfter, startsBefore } = filter;
+  if (startsAfter !== null && startsBefore !== null) {
+    return `${formatTimeOfDay(startsAfter, timeFormat)} – ${formatTimeOfDay(startsBefore, timeFormat)}`;
+  }
+  if (startsAfter !== null) return `after ${formatTimeOfDay(startsAfter, timeFormat)}`;
+  if (startsBefore !== null) return `before ${formatTimeOfDay(startsBefore, timeFormat)}`;
+  return null;
+};
+
+const formatDayKey = (key: string): string =>
+  new Intl.DateTimeFormat('en-US', { weekday: 'short', month: 'short', day: 'numeric' }).format(parseDateKey(key));
+
+// Preset name, or "Fri, Oct 23 – Sun, Oct 25, after 9 PM" for a custom range
+export const formatEventDateFilterLabel = (
+  filter: EventDateFilter,
+  timeFormat: TimeFormat = DEFAULT_TIME_FORMAT
+): string => {
+  const preset = EVENT_DATE_PRESETS.find((option) => option.value === filter.preset);
+  if (preset) return preset.label;
+  const days =
+    filter.startDate === filter.endDate
+      ? formatDayKey(filter.startDate)
+      : `${formatDayKey(filter.startDate)} – ${formatDayKey(filter.endDate)}`;
+  const window = formatTimeOfDayWindow(filter, timeFormat);
+  return window ? `${days}, ${window}` : days;
+};
+
+// Whether an event starts inside the filter's days and time of day, read in the venue's zone.
+// Undated events are left out; date-only events skip the time-of-day check.
+export const isEventInDateFilter = (event: Event, filter: EventDateFilter): boolean => {
+  const startsAt = parseZonedDateTime(event.start_time, event.timezone);
+  const start = startsAt ?? parseZonedDateTime(event.date, event.timezone);
+  if (!start) return false;
+  const parts = getZonedParts(start, event.timezone);
+  const day = `${parts.year}-${pad(parts.month)}-${pad(parts.day)}`;
+  if (day < filter.startDate || day > filter.endDate) return false;
+  if (!startsAt) return true;
+  const minutes = parts.hours * 60 + parts.minutes;
+  if (filter.startsAfter !== null && minutes < filter.startsAfter) return false;
+  if (filter.startsBefore !== null && minutes >= filter.startsBefore) return false;
+  return true;
+};
@@ -0,0 +1,108 @@
+// utils/favorites.ts
+// Favorite bars: parsing the account's list, the on-device copy and merging the two
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import type { LooseObject, searchBar } from '../types';
+import { FAVORITES_KEY } from './constants';
+
+export type StoredFavorites = {
+  // Newest first
+  bars: searchBar[];
+  // Favorited while signed out; added to the account on the next sync
+  pendingIds: string[];
+};
+
+export const EMPTY_FAVORITES: StoredFavorites = { bars: [], pendingIds: [] };
+
+// Keep only the summary fields a favorites list needs
+export const toFavoriteBar = (bar: searchBar): searchBar => {
+  const summary: searchBar = { id: bar.id, name: bar.name };
+  if (bar.address_street) summary.address_street = bar.address_street;
+  if (bar.address_city) summary.address_city = bar.address_city;
+  if (bar.address_state) summary.address_state = bar.address_state;
+  if (bar.address_zip) summary.address_zip = bar.address_zip;
+  return summary;
+};
+
+// Map one favorite from the API; accepts a bar or a `{ bar_id, bar }` row
+export const mapToFavoriteBar = (raw: unknown): searchBar | null => {
+  if (!raw || typeof raw !== 'object') {
+    return null;
+  }
+  const row = raw as LooseObject;
+  const source: LooseObject = row.bar && typeof row.bar === 'object' ? row.bar : row;
+  const id = row.bar_id ?? source.id;
+  if (id == null || String(id).trim() === '') {
+    return null;
+  }
+  return toFavoriteBar({
+    id: String(id),
+    name: source.name ?? 'Unnamed bar',
+    address_street: source.address_street ?? undefined,
+    address_city: source.address_city ?? source.city ?? undefined,
+    address_state: source.address_state ?? source.state ?? undefined,
+    address_zip: source.address_zip ?? undefined,
+  });
+};
+
+// Favorites from a `{ data: [...] }` or bare-array payload, without duplicates
+export const extractFavoriteBars = (payload: unknown): searchBar[] => {
+  const data = Array.isArray((payload as LooseObject)?.data) ? (payload as LooseObject).data : payload;
+  if (!Array.isArray(data)) {
+    return [];
+  }
+  const seen = new Set<string>();
+  return data.reduce<searchBar[]>((bars, item) => {
+    const bar = mapToFavoriteBar(item);
+    if (bar && !seen.has(bar.id)) {
+      seen.add(bar.id);
+      bars.push(bar);
+    }
+    return bars;
+  }, []);
+};
+
+// The account's list wins; favorites still waiting to be added go first.
+// Anything else only on this device was removed elsewhere and is dropped.
+// `localIds` were changed on this device while the list was loading, so the device decides those.
+export const mergeFavorites = (
+  serverBars: searchBar[],
+  local: StoredFavorites,
+  localIds: Iterable<string> = []
+): searchBar[] => {
+  const localWins = new Set(localIds);
+  const serverIds = new Set(serverBars.map((bar) => bar.id));
+  const localBarIds = new Set(local.bars.map((bar) => bar.id));
+  const kept = local.bars.filter(
+    (bar) => !serverIds.has(bar.id) && (local.pendingIds.includes(bar.id) || localWins.has(bar.id))
+  );
+  return [...kept, ...serverBars.filter((bar) => !localWins.has(bar.id) || localBarIds.has(bar.id))];
+};
+
+// Parse the stored copy, dropping malformed entries
+export const parseStoredFavorites = (raw: string | null): StoredFavorites => {
+  if (!raw) return EMPTY_FAVORITES;
+  try {
+    const parsed = JSON.parse(raw);
+    const bars = extractFavoriteBars(parsed?.bars);
+    const barIds = new Set(bars.map((bar) => bar.id));
+    const pendingIds = Array.isArray(parsed?.pendingIds)
+      ? parsed.pendingIds.filter((id: unknown): id is string => typeof id === 'string' && barIds.has(id))
+      : [];
+    return { bars, pendingIds };
+  } catch {
+    return EMPTY_FAVORITES;
+  }
+};
+
+export const loadStoredFavorites = async (): Promise<StoredFavorites> => {
+  try {
+    return parseStoredFavorites(await AsyncStorage.getItem(FAVORITES_KEY));
+  } catch {
+    return EMPTY_FAVORITES;
+  }
+};
+
+export const saveStoredFavorites = async (favorites: StoredFavorites): Promise<void> => {
+  await AsyncStorage.setItem(FAVORITES_KEY, JSON.stringify(favorites));
+};
@@ -1,6 +1,9 @@
 // General utility functions
 import { Linking } from 'react-native';
-import type { Coordinates, LooseObject, QueryParams } from '../types';
+import type { CacheKeyOptions, Coordinates, DistanceUnit, LooseObject, QueryParams, TimeFormat } from '../types';
+import { DEFAULT_BAR_SORT, DEFAULT_DISTANCE_UNIT, DISTANCE_UNIT_LABELS, KM_PER_MILE, METERS_PER_KM } from './constants';
+import { getClockFormatOptions } from './Timeformatters';
+import { differsFromDeviceTime, getZonedParts, parseZonedDateTime } from './timeZones';
 
  // Build a URL query string from parameters
 export const buildQueryString = (params: QueryParams): string =>
@@ -55,29 +58,50 @@ export const toNumber = (value: unknown): number | undefined => {
   return undefined;
 };
 
-// Format distance labels for display
-export const formatDistanceLabel = (distanceMiles?: number): string | null => {
-  if (typeof distanceMiles !== 'number' || Number.isNaN(distanceMiles) || distanceMiles < 0) {
+// Distance in the chosen unit: the API's value for that unit when present, else converted from the other
+export const getDistanceInUnit = (
+  distanceMiles: number | undefined,
+  distanceKm: number | undefined,
+  unit: DistanceUnit
+): number | undefined => {
+  const isUsable = (value?: number): value is number =>
+    typeof value === 'number' && Number.isFinite(value) && value >= 0;
+
+  if (unit === 'km') {
+    if (isUsable(distanceKm)) return distanceKm;
+    return isUsable(distanceMiles) ? distanceMiles * KM_PER_MILE : undefined;
+  }
+  if (isUsable(distanceMiles)) return distanceMiles;
+  return isUsable(distanceKm) ? distanceKm / KM_PER_MILE : undefined;
+};
+
+// Format distance labels for display; short distances drop to feet or metres
+export const formatDistanceLabel = (distance?: number, unit: DistanceUnit = 'miles'): string | null => {
+  if (typeof distance !== 'number' || Number.isNaN(distance) || distance < 0) {
     return null;
   }
 
-  if (distanceMiles === 0) {
+  if (distance === 0) {
     return 'Right here';
   }
 
-    if (distanceMiles < 0.1) {
-    return `${(distanceMiles * 5280).toFixed(0)} ft away`;
+  const abbr = DISTANCE_UNIT_LABELS[unit].short;
+
+  if (distance < 0.1) {
+    return unit === 'km'
+      ? `${(distance * METERS_PER_KM).toFixed(0)} m away`
+      : `${(distance * 5280).toFixed(0)} ft away`;
   }
 
-  if (distanceMiles < 10) {
-    return `${distanceMiles.toFixed(2)} mi away`;
+  if (distance < 10) {
+    return `${distance.toFixed(2)} ${abbr} away`;
   }
 
-    if (distanceMiles < 100) {
-    return `${distanceMiles.toFixed(1)} mi away`;
+  if (distance < 100) {
+    return `${distance.toFixed(1)} ${abbr} away`;
   }
 
-  return `${distanceMiles.toFixed(0)} mi away`;
+  return `${distance.toFixed(0)} ${abbr} away`;
 };
 
 // Ensure a URL has a protocol
@@ -145,11 +169,49 @@ export const openExternalLink = async (url?: string): Promise<void> => {
   }
 };
 
+// Like Promise.allSettled, but starts at most `limit` tasks at a time; results keep the tasks' order
+export const settleWithLimit = async <T>(
+  tasks: (() => Promise<T>)[],
+  limit: number
+): Promise<PromiseSettledResult<T>[]> => {
+  const results: PromiseSettledResult<T>[] = new Array(tasks.length);
+  let nextIndex = 0;
+  const worker = async () => {
+    while (nextIndex < tasks.length) {
+      const index = nextIndex++;
+      try {
+        results[index] = { status: 'fulfilled', value: await tasks[index]() };
+      } catch (reason) {
+        results[index] = { status: 'rejected', reason };
+      }
+    }
+  };
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(limit, tasks.length)) }, worker));
+  return results;
+};
+
 //Build a cache key based on coordinates, selected tags, and optional radius
-export const getCacheKey = (coords: Coordinates, normalizedTags: string[], radius?: number): string => {
+export const getCacheKey = (
+  coords: Coordinates,
+  normalizedTags: string[],
+  radius?: number,
+  options: CacheKeyOptions = {}
+): string => {
   const tagsKey = normalizedTags.slice().sort().join(',');
   const radiusKey = radius !== undefined ? `|r${radius}` : '';
-  return `${coords.lat}|${coords.lon}|${tagsKey}${radiusKey}`;
+  const openAtKey = options.openAt ? `|at${options.openAt.toISOString()}` : '';
+  // Default sort and unit keep the plain key so existing cache entries still match
+  const sortKey = options.sort && options.sort !== DEFAULT_BAR_SORT ? `|s${options.sort}` : '';
+  const unitKey = options.unit && options.unit !== DEFAULT_DISTANCE_UNIT ? `|u${options.unit}` : '';
+  // Several event tags always name their match mode, so entries cached when only the first tag was sent aren't reused
+  const matchKey = options.tagMatch && normalizedTags.length > 1 ? `|m${options.tagMatch}` : '';
+  const { dateFilter } = options;
+  const dateKey = dateFilter ? `|d${dateFilter.startDate}~${dateFilter.endDate}` : '';
+  const timeOfDayKey =
+    dateFilter && (dateFilter.startsAfter !== null || dateFilter.startsBefore !== null)
+      ? `|t${dateFilter.startsAfter ?? ''}-${dateFilter.startsBefore ?? ''}`
+      : '';
+  return `${coords.lat}|${coords.lon}|${tagsKey}${radiusKey}${openAtKey}${sortKey}${unitKey}${matchKey}${dateKey}${timeOfDayKey}`;
 };
 
 export const formatCityAddress = (address_city?: string, address_state?: string): string | null => {
@@ -160,31 +222,66 @@ export const formatCityAddress = (address_city?: string, address_state?: string)
   return parts.join(', ');
 };
 
-export const formatEventDay = (value?: string): string => {
-  if (!value) return 'Date coming soon';
-  const date = new Date(value);
-  if (Number.isNaN(date.getTime())) return 'Date coming soon';
+// Event dates and times read in the venue's zone; naive API values are venue wall-clock times
+export const formatEventDay = (value?: string, timeZone?: string): string => {
+  const date = parseZonedDateTime(value, timeZone);
+  if (!date) return 'Date coming soon';
   return new Intl.DateTimeFormat('en-US', {
     weekday: 'long',
     month: 'long',
     day: 'numeric',
     year: 'numeric',
+    timeZone,
   }).format(date);
 };
 
-export const formatEventTime = (value?: string): string | null => {
+export const formatEventTime = (value?: string, timeZone?: string, timeFormat?: TimeFormat): string | null => {
   if (!value) return null;
-  const normalized = /^\d{2}:\d{2}(:\d{2})?$/.test(value)
-    ? `1970-01-01T${value}`
-    : value;
-  const date = new Date(normalized);
-  if (Number.isNaN(date.getTime())) return null;
+  // Bare clock values have no date, so there is nothing to convert
+  if (/^\d{2}:\d{2}(:\d{2})?$/.test(value)) {
+    const date = new Date(`1970-01-01T${value}`);
+    if (Number.isNaN(date.getTime())) return null;
+    return new Intl.DateTimeFormat('en-US', getClockFormatOptions(timeFormat)).format(date);
+  }
+  const date = parseZonedDateTime(value, timeZone);
+  if (!date) return null;
   return new Intl.DateTimeFormat('en-US', {
-    hour: 'numeric',
-    minute: '2-digit',
+    ...getClockFormatOptions(timeFormat),
+    timeZone,
   }).format(date);
 };
 
+// Calendar day of an instant in the zone, as a comparable key
+const getDayKey = (date: Date, timeZone?: string): string => {
+  const parts = getZonedParts(date, timeZone);
+  return `${parts.year}-${parts.month}-${parts.day}`;
+};
+
+// Device-local time for a venue time, e.g. "5:00 PM" or "Mon 10:00 PM" when the day differs; null when the clocks agree
+export const formatDeviceTimeEquivalent = (value?: string, timeZone?: string, timeFormat?: TimeFormat): string | null => {
+  if (!timeZone || !value || /^\d{2}:\d{2}(:\d{2})?$/.test(value)) return null;
+  const date = parseZonedDateTime(value, timeZone);
+  if (!date || !differsFromDeviceTime(timeZone, date)) return null;
+  const sameDay = getDayKey(date, timeZone) === getDayKey(date);
+  return new Intl.DateTimeFormat('en-US', {
+    weekday: sameDay ? undefined : 'short',
+    ...getClockFormatOptions(timeFormat),
+  }).format(date);
+};
+
+// "Your time: 5:00 PM – 8:00 PM" for events in another zone, or null when the clocks agree
+export const formatDeviceTimeRangeLabel = (
+  start?: string,
+  end?: string,
+  timeZone?: string,
+  timeFormat?: TimeFormat
+): string | null => {
+  const startLabel = formatDeviceTimeEquivalent(start, timeZone, timeFormat);
+  if (!startLabel) return null;
+  const endLabel = formatDeviceTimeEquivalent(end, timeZone, timeFormat);
+  return `Your time: ${endLabel ? `${startLabel} – ${endLabel}` : startLabel}`;
+};
+
 export const openExternal = async (url?: string): Promise<void> => {
   if (!url) return;
   const safe = ensureProtocol(url);
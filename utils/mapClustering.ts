@@ -0,0 +1,127 @@
+// utils/mapClustering.ts
+// Region and grid-clustering helpers for the bars / events map modes
+
+import type { Region } from 'react-native-maps';
+import type { Coordinates } from '../types';
+import {
+  DEFAULT_MAP_DELTA,
+  MAP_CLUSTER_GRID_SIZE,
+  MAP_SEARCH_AREA_THRESHOLD,
+  MIN_MAP_DELTA,
+} from './constants';
+
+const METERS_PER_DEGREE_LATITUDE = 111_320;
+
+type Locatable = {
+  latitude?: number;
+  longitude?: number;
+};
+
+export type MapCoordinate = {
+  latitude: number;
+  longitude: number;
+};
+
+export type MapCluster<T> = {
+  id: string;
+  coordinate: MapCoordinate;
+  items: T[];
+};
+
+// Bars / events without usable coordinates are left off the map
+export const getMapCoordinate = (item: Locatable): MapCoordinate | null => {
+  const latitude = Number(item.latitude);
+  const longitude = Number(item.longitude);
+  if (item.latitude == null || item.longitude == null || !Number.isFinite(latitude) || !Number.isFinite(longitude)) {
+    return null;
+  }
+  return { latitude, longitude };
+};
+
+export const getRegionAround = (coords: Coordinates): Region => ({
+  latitude: coords.lat,
+  longitude: coords.lon,
+  ...DEFAULT_MAP_DELTA,
+});
+
+export const regionToCoordinates = (region: Region): Coordinates => ({
+  lat: region.latitude,
+  lon: region.longitude,
+});
+
+// Region that fits a circle of the given radius around the coordinates
+export const getRegionForRadius = (coords: Coordinates, radiusMeters: number, padding = 1.2): Region => {
+  const latitudeDelta = Math.max(((radiusMeters * 2) / METERS_PER_DEGREE_LATITUDE) * padding, MIN_MAP_DELTA);
+  const longitudeScale = Math.max(Math.cos((coords.lat * Math.PI) / 180), 0.01);
+  return {
+    latitude: coords.lat,
+    longitude: coords.lon,
+    latitudeDelta,
+    longitudeDelta: latitudeDelta / longitudeScale,
+  };
+};
+
+// Smallest region showing every item with a little padding, or null when nothing is locatable
+export const getRegionForItems = (items: Locatable[], padding = 1.4): Region | null => {
+  const coordinates = items.map(getMapCoordinate).filter((coordinate): coordinate is MapCoordinate => coordinate !== null);
+  if (coordinates.length === 0) {
+    return null;
+  }
+  const latitudes = coordinates.map((coordinate) => coordinate.latitude);
+  const longitudes = coordinates.map((coordinate) => coordinate.longitude);
+  const minLat = Math.min(...latitudes);
+  const maxLat = Math.max(...latitudes);
+  const minLon = Math.min(...longitudes);
+  const maxLon = Math.max(...longitudes);
+
+  return {
+    latitude: (minLat + maxLat) / 2,
+    longitude: (minLon + maxLon) / 2,
+    latitudeDelta: Math.max((maxLat - minLat) * padding, MIN_MAP_DELTA),
+    longitudeDelta: Math.max((maxLon - minLon) * padding, MIN_MAP_DELTA),
+  };
+};
+
+// Group items sharing a grid cell of the visible region; single items keep their own id
+export const clusterByRegion = <T extends Locatable>(
+  items: T[],
+  region: Region,
+  getId: (item: T) => string,
+  gridSize: number = MAP_CLUSTER_GRID_SIZE
+): MapCluster<T>[] => {
+  const cellLat = region.latitudeDelta / gridSize;
+  const cellLon = region.longitudeDelta / gridSize;
+  const cells = new Map<string, { items: T[]; coordinates: MapCoordinate[] }>();
+
+  items.forEach((item) => {
+    const coordinate = getMapCoordinate(item);
+    if (!coordinate) {
+      return;
+    }
+    const cellKey = cellLat > 0 && cellLon > 0
+      ? `${Math.floor(coordinate.latitude / cellLat)}:${Math.floor(coordinate.longitude / cellLon)}`
+      : `${coordinate.latitude}:${coordinate.longitude}`;
+    const cell = cells.get(cellKey) ?? { items: [], coordinates: [] };
+    cell.items.push(item);
+    cell.coordinates.push(coordinate);
+    cells.set(cellKey, cell);
+  });
+
+  return Array.from(cells.entries()).map(([cellKey, cell]) => {
+    if (cell.items.length === 1) {
+      return { id: getId(cell.items[0]), coordinate: cell.coordinates[0], items: cell.items };
+    }
+    const latitude = cell.coordinates.reduce((sum, coordinate) => sum + coordinate.latitude, 0) / cell.coordinates.length;
+    const longitude = cell.coordinates.reduce((sum, coordinate) => sum + coordinate.longitude, 0) / cell.coordinates.length;
+    return { id: `cluster-${cellKey}`, coordinate: { latitude, longitude }, items: cell.items };
+  });
+};
+
+// True once the map centre has moved far enough from the last searched centre to offer "Search this area"
+export const isRegionAwayFrom = (
+  center: Coordinates,
+  region: Region,
+  threshold: number = MAP_SEARCH_AREA_THRESHOLD
+): boolean =>
+  Math.abs(region.latitude - center.lat) > region.latitudeDelta * threshold ||
+  Math.abs(region.longitude - center.lon) > region.longitudeDelta * threshold;
@@ -0,0 +1,17 @@
+// utils/passwordValidation.ts
+// Password strength rules shared by registration and password reset
+
+export const PASSWORD_MIN_LENGTH = 12;
+
+const SPECIAL_CHARACTER_PATTERN = /[!@#$%^&*()\-_=+\[\]{};':"\\|,.<>/?]/;
+
+// Returns the first rule the password breaks, or undefined when it is acceptable
+export const getPasswordError = (password: string, emptyMessage = 'Create a password.'): string | undefined => {
+  if (!password) return emptyMessage;
+  if (password.length < PASSWORD_MIN_LENGTH) return `Use at least ${PASSWORD_MIN_LENGTH} characters.`;
+  if (!/[a-z]/.test(password)) return 'Include at least one lowercase letter.';
+  if (!/[A-Z]/.test(password)) return 'Include at least one uppercase letter.';
+  if (!/[0-9]/.test(password)) return 'Include at least one number.';
+  if (!SPECIAL_CHARACTER_PATTERN.test(password)) return 'Include at least one special character (e.g. !@#$%).';
+  return undefined;
+};
@@ -0,0 +1,132 @@
+// utils/persistentCache.ts
+// Versioned AsyncStorage cache for list results, keyed with getCacheKey so entries only match the same coords/tags/radius
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { PERSISTED_CACHE_CONFIG } from './constants';
+
+export type PersistedCacheNamespace = 'bars' | 'events';
+
+export type PersistedCacheHit<T> = {
+  value: T;
+  savedAt: number;
+};
+
+type PersistedEntry<T> = PersistedCacheHit<T> & {
+  version: number;
+  key: string;
+};
+
+type PagedSnapshot<T> = {
+  data: T[];
+  currentPage: number;
+  hasMore: boolean;
+};
+
+const namespacePrefix = (namespace: PersistedCacheNamespace): string =>
+  `${PERSISTED_CACHE_CONFIG.keyPrefix}:v${PERSISTED_CACHE_CONFIG.version}:${namespace}`;
+
+export const getPersistedCacheStorageKey = (namespace: PersistedCacheNamespace, key: string): string =>
+  `${namespacePrefix(namespace)}:${key}`;
+
+const getIndexStorageKey = (namespace: PersistedCacheNamespace): string =>
+  `${namespacePrefix(namespace)}:index`;
+
+const readIndex = async (namespace: PersistedCacheNamespace): Promise<string[]> => {
+  try {
+    const stored = await AsyncStorage.getItem(getIndexStorageKey(namespace));
+    const parsed = stored ? JSON.parse(stored) : [];
+    return Array.isArray(parsed) ? parsed.filter((entry): entry is string => typeof entry === 'string') : [];
+  } catch {
+    return [];
+  }
+};
+
+// Read an entry, dropping it when it is corrupted, from another cache version or older than maxAgeMs
+export const readPersistedCache = async <T>(
+  namespace: PersistedCacheNamespace,
+  key: string,
+  maxAgeMs: number,
+  now: number = Date.now()
+): Promise<PersistedCacheHit<T> | null> => {
+  const storageKey = getPersistedCacheStorageKey(namespace, key);
+  try {
+    const stored = await AsyncStorage.getItem(storageKey);
+    if (!stored) {
+      return null;
+    }
+    const entry = JSON.parse(stored) as Partial<PersistedEntry<T>>;
+    const isUsable =
+      entry?.version === PERSISTED_CACHE_CONFIG.version &&
+      entry.key === key &&
+      typeof entry.savedAt === 'number' &&
+      now - entry.savedAt < maxAgeMs &&
+      entry.value !== undefined;
+
+    if (!isUsable) {
+      await AsyncStorage.removeItem(storageKey);
+      return null;
+    }
+    return { value: entry.value as T, savedAt: entry.savedAt as number };
+  } catch {
+    return null;
+  }
+};
+
+// Every usable entry in a namespace, most recently written first
+export const readAllPersistedCache = async <T>(
+  namespace: PersistedCacheNamespace,
+  maxAgeMs: number,
+  now: number = Date.now()
+): Promise<PersistedCacheHit<T>[]> => {
+  const keys = await readIndex(namespace);
+  const hits = await Promise.all(keys.map((key) => readPersistedCache<T>(namespace, key, maxAgeMs, now)));
+  return hits.filter((hit): hit is PersistedCacheHit<T> => hit !== null);
+};
+
+// Write an entry and evict the least recently written keys beyond maxEntries. Oversized entries are skipped.
+export const writePersistedCache = async <T>(
+  namespace: PersistedCacheNamespace,
+  key: string,
+  value: T,
+  now: number = Date.now()
+): Promise<boolean> => {
+  const entry: PersistedEntry<T> = { version: PERSISTED_CACHE_CONFIG.version, key, savedAt: now, value };
+  try {
+    const serialized = JSON.stringify(entry);
+    if (serialized.length > PERSISTED_CACHE_CONFIG.maxBytes) {
+      return false;
+    }
+    await AsyncStorage.setItem(getPersistedCacheStorageKey(namespace, key), serialized);
+
+    const index = [key, ...(await readIndex(namespace)).filter((existing) => existing !== key)];
+    const evicted = index.slice(PERSISTED_CACHE_CONFIG.maxEntries);
+    if (evicted.length > 0) {
+      await AsyncStorage.multiRemove(evicted.map((existing) => getPersistedCacheStorageKey(namespace, existing)));
+    }
+    await AsyncStorage.setItem(
+      getIndexStorageKey(namespace),
+      JSON.stringify(index.slice(0, PERSISTED_CACHE_CONFIG.maxEntries))
+    );
+    return true;
+  } catch {
+    // Best effort; the in-memory cache still works
+    return false;
+  }
+};
+
+// Cap a paged list at maxItems on whole-page boundaries so load-more resumes from the right page
+export const trimPagedSnapshot = <T>(
+  snapshot: PagedSnapshot<T>,
+  pageSize: number,
+  maxItems: number = PERSISTED_CACHE_CONFIG.maxItems
+): PagedSnapshot<T> => {
+  if (snapshot.data.length <= maxItems || pageSize <= 0) {
+    return snapshot;
+  }
+  const pagesKept = Math.max(1, Math.floor(maxItems / pageSize));
+  return {
+    data: snapshot.data.slice(0, pagesKept * pageSize),
+    currentPage: Math.min(snapshot.currentPage, pagesKept),
+    hasMore: true,
+  };
+};
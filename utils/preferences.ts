@@ -0,0 +1,103 @@
+// utils/preferences.ts
+// Persisted user preferences (AsyncStorage) with tolerant parsing
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import type { Coordinates, DistanceUnit, ThemeMode, TimeFormat } from '../types';
+import {
+  DEFAULT_DISTANCE_UNIT,
+  DEFAULT_EVENT_RADIUS,
+  DEFAULT_LOCATION_ID,
+  DEFAULT_LOCATION_OPTIONS,
+  DEFAULT_THEME_MODE,
+  DEFAULT_TIME_FORMAT,
+  MAX_SAVED_BARS,
+  PREFERENCES_KEY,
+  RADIUS_OPTIONS,
+  SAVED_BARS_LIMIT_OPTIONS,
+  THEME_MODE_OPTIONS,
+} from './constants';
+
+export type Preferences = {
+  distanceUnit: DistanceUnit;
+  // Starting radius on the Events tab, in `distanceUnit`
+  eventRadius: number;
+  // Fallback city when the device location is unavailable
+  defaultLocationId: string;
+  timeFormat: TimeFormat;
+  maxSavedBars: number;
+  themeMode: ThemeMode;
+};
+
+export const DEFAULT_PREFERENCES: Preferences = {
+  distanceUnit: DEFAULT_DISTANCE_UNIT,
+  eventRadius: DEFAULT_EVENT_RADIUS[DEFAULT_DISTANCE_UNIT],
+  defaultLocationId: DEFAULT_LOCATION_ID,
+  timeFormat: DEFAULT_TIME_FORMAT,
+  maxSavedBars: MAX_SAVED_BARS,
+  themeMode: DEFAULT_THEME_MODE,
+};
+
+export const isDistanceUnit = (value: unknown): value is DistanceUnit => value === 'miles' || value === 'km';
+
+const isTimeFormat = (value: unknown): value is TimeFormat => value === '12h' || value === '24h';
+
+const isOneOf = <T>(value: unknown, options: readonly T[]): value is T => options.includes(value as T);
+
+// Coordinates for a fallback location id, defaulting to the app's home city
+export const getDefaultLocationCoords = (locationId: string): Coordinates =>
+  (DEFAULT_LOCATION_OPTIONS.find((option) => option.id === locationId) ?? DEFAULT_LOCATION_OPTIONS[0]).coords;
+
+// Apply one change; switching units restarts the radius at that unit's default since the steps differ
+export const applyPreference = <K extends keyof Preferences>(
+  preferences: Preferences,
+  key: K,
+  value: Preferences[K]
+): Preferences => {
+  if (preferences[key] === value) return preferences;
+  const next = { ...preferences, [key]: value };
+  if (key === 'distanceUnit') {
+    next.eventRadius = DEFAULT_EVENT_RADIUS[next.distanceUnit];
+  }
+  return next;
+};
+
+// Parse stored preferences, falling back to defaults for anything missing or malformed
+export const parsePreferences = (raw: string | null): Preferences => {
+  if (!raw) return DEFAULT_PREFERENCES;
+  try {
+    const parsed = JSON.parse(raw);
+    const distanceUnit: DistanceUnit = isDistanceUnit(parsed?.distanceUnit)
+      ? parsed.distanceUnit
+      : DEFAULT_PREFERENCES.distanceUnit;
+    return {
+      distanceUnit,
+      eventRadius: isOneOf(parsed?.eventRadius, RADIUS_OPTIONS[distanceUnit])
+        ? parsed.eventRadius
+        : DEFAULT_EVENT_RADIUS[distanceUnit],
+      defaultLocationId: DEFAULT_LOCATION_OPTIONS.some((option) => option.id === parsed?.defaultLocationId)
+        ? parsed.defaultLocationId
+        : DEFAULT_PREFERENCES.defaultLocationId,
+      timeFormat: isTimeFormat(parsed?.timeFormat) ? parsed.timeFormat : DEFAULT_PREFERENCES.timeFormat,
+      maxSavedBars: isOneOf(parsed?.maxSavedBars, SAVED_BARS_LIMIT_OPTIONS)
+        ? parsed.maxSavedBars
+        : DEFAULT_PREFERENCES.maxSavedBars,
+      themeMode: THEME_MODE_OPTIONS.some((option) => option.value === parsed?.themeMode)
+        ? parsed.themeMode
+        : DEFAULT_PREFERENCES.themeMode,
+    };
+  } catch {
+    return DEFAULT_PREFERENCES;
+  }
+};
+
+export const loadPreferences = async (): Promise<Preferences> => {
+  try {
+    return parsePreferences(await AsyncStorage.getItem(PREFERENCES_KEY));
+  } catch {
+    return DEFAULT_PREFERENCES;
+  }
+};
+
+export const savePreferences = async (preferences: Preferences): Promise<void> => {
+  await AsyncStorage.setItem(PREFERENCES_KEY, JSON.stringify(preferences));
+};
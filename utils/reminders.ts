@@ -0,0 +1,105 @@
+// utils/reminders.ts
+// Event reminders: when they fire, how they track event changes and the on-device copy
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import type { Event, EventReminder } from '../types';
+import { REMINDER_OFFSET_OPTIONS, REMINDERS_KEY } from './constants';
+import { parseZonedDateTime } from './timeZones';
+
+export type StoredReminders = Record<string, EventReminder>;
+
+// What to do with a reminder once fresh event data arrives
+export type ReminderChange = 'keep' | 'reschedule' | 'cancel';
+
+// The event's start as an instant; events without a start time can't be reminded about
+export const getEventStart = (event: Pick<Event, 'start_time' | 'timezone'>): Date | null =>
+  parseZonedDateTime(event.start_time, event.timezone);
+
+export const getReminderTime = (startsAt: Date | string, offsetMinutes: number): Date =>
+  new Date(new Date(startsAt).getTime() - offsetMinutes * 60_000);
+
+// Offsets that still fire before `now`, e.g. no "1 day before" for an event tonight
+export const isReminderInFuture = (startsAt: Date | string, offsetMinutes: number, now: Date = new Date()): boolean =>
+  getReminderTime(startsAt, offsetMinutes).getTime() > now.getTime();
+
+export const formatReminderOffset = (offsetMinutes: number): string => {
+  const option = REMINDER_OFFSET_OPTIONS.find((entry) => entry.value === offsetMinutes);
+  if (option) return option.label;
+  if (offsetMinutes % 60 === 0) {
+    const hours = offsetMinutes / 60;
+    return `${hours} ${hours === 1 ? 'hour' : 'hours'} before`;
+  }
+  return `${offsetMinutes} minutes before`;
+};
+
+// Notification text, e.g. "Starts in 30 minutes at The Crown"
+export const getReminderMessage = (reminder: Pick<EventReminder, 'bar_name' | 'offset_minutes'>): string => {
+  const lead =
+    reminder.offset_minutes === 0
+      ? 'Starting now'
+      : `Starts in ${formatReminderOffset(reminder.offset_minutes).replace(/ before$/, '')}`;
+  return reminder.bar_name ? `${lead} at ${reminder.bar_name}` : lead;
+};
+
+// Cancelled or undated events drop the reminder; a moved start schedules it again
+export const getReminderChange = (reminder: EventReminder, event: Event): ReminderChange => {
+  if (event.is_cancelled) return 'cancel';
+  const start = getEventStart(event);
+  if (!start) return 'cancel';
+  return start.getTime() === new Date(reminder.starts_at).getTime() ? 'keep' : 'reschedule';
+};
+
+// Soonest to fire first
+export const sortReminders = (reminders: StoredReminders): EventReminder[] =>
+  Object.values(reminders).sort(
+    (a, b) =>
+      getReminderTime(a.starts_at, a.offset_minutes).getTime() - getReminderTime(b.starts_at, b.offset_minutes).getTime()
+  );
+
+// Reminders for events that have already started are done with
+export const pruneStartedReminders = (reminders: StoredReminders, now: Date = new Date()): StoredReminders =>
+  Object.fromEntries(
+    Object.entries(reminders).filter(([, reminder]) => new Date(reminder.starts_at).getTime() > now.getTime())
+  );
+
+const isStoredReminder = (value: unknown): value is EventReminder => {
+  if (!value || typeof value !== 'object') return false;
+  const entry = value as Partial<EventReminder>;
+  return (
+    typeof entry.instance_id === 'string' &&
+    typeof entry.title === 'string' &&
+    typeof entry.notification_id === 'string' &&
+    typeof entry.offset_minutes === 'number' &&
+    typeof entry.starts_at === 'string' &&
+    !Number.isNaN(Date.parse(entry.starts_at))
+  );
+};
+
+// Parse the stored copy, dropping malformed entries
+export const parseStoredReminders = (raw: string | null): StoredReminders => {
+  if (!raw) return {};
+  try {
+    const parsed = JSON.parse(raw);
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) return {};
+    return Object.values(parsed).reduce<StoredReminders>((reminders, entry) => {
+      if (isStoredReminder(entry)) {
+        reminders[entry.instance_id] = entry;
+      }
+      return reminders;
+    }, {});
+  } catch {
+    return {};
+  }
+};
+
+export const loadStoredReminders = async (): Promise<StoredReminders> => {
+  try {
+    return parseStoredReminders(await AsyncStorage.getItem(REMINDERS_KEY));
+  } catch {
+    return {};
+  }
+};
+
+export const saveStoredReminders = async (reminders: StoredReminders): Promise<void> => {
+  await AsyncStorage.setItem(REMINDERS_KEY, JSON.stringify(reminders));
+};
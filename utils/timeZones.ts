@@ -0,0 +1,152 @@
+// utils/timeZones.ts
+// Venue time zone helpers: wall-clock parts, zone offsets and device-local equivalents.
+// A missing time zone always means "use the device's zone", matching the behaviour before venues carried one.
+
+export type ZonedParts = {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hours: number;
+  minutes: number;
+  weekday: number; // 0 = Sunday
+};
+
+const WEEKDAY_INDEX: Record<string, number> = { Sun: 0, Mon: 1, Tue: 2, Wed: 3, Thu: 4, Fri: 5, Sat: 6 };
+
+// Naive API date-times ("2026-10-20", "2026-10-20T20:00:00"), which carry no offset
+const NAIVE_DATE_TIME = /^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2}))?(?:\.\d+)?)?$/;
+
+const partsFormatters = new Map<string, Intl.DateTimeFormat>();
+
+const getPartsFormatter = (timeZone: string): Intl.DateTimeFormat => {
+  let formatter = partsFormatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      weekday: 'short',
+    });
+    partsFormatters.set(timeZone, formatter);
+  }
+  return formatter;
+};
+
+// True for IANA names the runtime understands, e.g. "America/Chicago"
+export const isValidTimeZone = (value: unknown): value is string => {
+  if (typeof value !== 'string' || value.trim().length === 0) {
+    return false;
+  }
+  try {
+    getPartsFormatter(value);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+export const getDeviceTimeZone = (): string | undefined => {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone;
+  } catch {
+    return undefined;
+  }
+};
+
+// Calendar and clock parts of an instant as seen in the zone
+export const getZonedParts = (date: Date, timeZone?: string): ZonedParts => {
+  if (!timeZone) {
+    return {
+      year: date.getFullYear(),
+      month: date.getMonth() + 1,
+      day: date.getDate(),
+      hours: date.getHours(),
+      minutes: date.getMinutes(),
+      weekday: date.getDay(),
+    };
+  }
+  const lookup: Record<string, string> = {};
+  getPartsFormatter(timeZone)
+    .formatToParts(date)
+    .forEach((part) => {
+      lookup[part.type] = part.value;
+    });
+  return {
+    year: Number(lookup.year),
+    month: Number(lookup.month),
+    day: Number(lookup.day),
+    // Some engines print midnight as "24" even with h23
+    hours: Number(lookup.hour) % 24,
+    minutes: Number(lookup.minute),
+    weekday: WEEKDAY_INDEX[lookup.weekday] ?? 0,
+  };
+};
+
+// Milliseconds the zone is ahead of UTC at the given instant
+export const getTimeZoneOffsetMs = (date: Date, timeZone?: string): number => {
+  if (!timeZone) {
+    return -date.getTimezoneOffset() * 60_000;
+  }
+  const parts = getZonedParts(date, timeZone);
+  const wallClockAsUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hours, parts.minutes);
+  const instantToMinute = date.getTime() - date.getUTCSeconds() * 1000 - date.getUTCMilliseconds();
+  return wallClockAsUtc - instantToMinute;
+};
+
+// Instant at which the zone's clock reads the given date plus `minutes` after midnight.
+// Days and minutes may overflow (day 32, 1500 minutes) and roll forward like the Date constructor.
+export const zonedTimeToDate = (
+  year: number,
+  month: number,
+  day: number,
+  minutes: number,
+  timeZone?: string
+): Date => {
+  if (!timeZone) {
+    return new Date(year, month - 1, day, 0, minutes, 0, 0);
+  }
+  const wallClockAsUtc = Date.UTC(year, month - 1, day, 0, minutes);
+  const firstGuess = wallClockAsUtc - getTimeZoneOffsetMs(new Date(wallClockAsUtc), timeZone);
+  // A second pass settles instants near a DST change, where the offset at the guess differs
+  const offsetAtGuess = getTimeZoneOffsetMs(new Date(firstGuess), timeZone);
+  return new Date(wallClockAsUtc - offsetAtGuess);
+};
+
+// Parse an API date or date-time; values without an offset are wall-clock times in the venue's zone
+export const parseZonedDateTime = (value?: string, timeZone?: string): Date | null => {
+  if (!value) {
+    return null;
+  }
+  const trimmed = value.trim();
+  const naive = trimmed.match(NAIVE_DATE_TIME);
+  if (naive) {
+    const [, year, month, day, hours = '0', minutes = '0'] = naive;
+    const date = zonedTimeToDate(Number(year), Number(month), Number(day), Number(hours) * 60 + Number(minutes), timeZone);
+    return Number.isNaN(date.getTime()) ? null : date;
+  }
+  const timestamp = Date.parse(trimmed);
+  return Number.isNaN(timestamp) ? null : new Date(timestamp);
+};
+
+// Whole calendar days from `from` to `to`, both read in the zone
+export const getCalendarDayDiff = (from: Date, to: Date, timeZone?: string): number => {
+  const a = getZonedParts(from, timeZone);
+  const b = getZonedParts(to, timeZone);
+  return Math.round((Date.UTC(b.year, b.month - 1, b.day) - Date.UTC(a.year, a.month - 1, a.day)) / 86_400_000);
+};
+
+// True when a clock in the zone reads differently from the device's clock at that instant
+export const differsFromDeviceTime = (timeZone: string | undefined, at: Date = new Date()): boolean =>
+  Boolean(timeZone) && getTimeZoneOffsetMs(at, timeZone) !== getTimeZoneOffsetMs(at);
+
+// Short zone name for notes such as "Times shown in EDT"
+export const formatTimeZoneName = (timeZone: string, at: Date = new Date()): string => {
+  const part = new Intl.DateTimeFormat('en-US', { timeZone, timeZoneName: 'short' })
+    .formatToParts(at)
+    .find((entry) => entry.type === 'timeZoneName');
+  return part?.value ?? timeZone;
+};